@@ -0,0 +1,169 @@
+import { useMemo } from 'react';
+import { Archive, Binary, FileCode, Folder, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { Vulnerability } from '@/hooks/useScans';
+import type { ArchiveMemberMetadata, ArchiveMetadata } from '@/types/scan';
+
+interface ArchiveFilesTabProps {
+  archive: ArchiveMetadata;
+  vulnerabilities: Vulnerability[];
+  selectedPath: string | null;
+  onOpen: (member: ArchiveMemberMetadata) => void;
+}
+
+type TreeRow =
+  | { kind: 'directory'; path: string; name: string; depth: number }
+  | { kind: 'file'; name: string; depth: number; member: ArchiveMemberMetadata };
+
+const SEVERITIES = ['critical', 'high', 'medium', 'low'] as const;
+
+const SEVERITY_STYLES: Record<(typeof SEVERITIES)[number], string> = {
+  critical: 'bg-destructive/20 text-destructive border-destructive/30',
+  high: 'bg-warning/20 text-warning border-warning/30',
+  medium: 'bg-yellow-500/20 text-yellow-500 border-yellow-500/30',
+  low: 'bg-success/20 text-success border-success/30',
+};
+
+const FORMAT_LABELS: Record<string, string> = {
+  elf: 'ELF',
+  ihex: 'Intel HEX',
+  srec: 'S-record',
+  vbf: 'VBF',
+  raw: 'Raw binary',
+};
+
+const formatFileSize = (bytes: number | null) => {
+  if (bytes === null) return '—';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/** Flattens member paths into directory and file rows in tree order. */
+function buildTree(members: ArchiveMemberMetadata[]): TreeRow[] {
+  const rows: TreeRow[] = [];
+  const seen = new Set<string>();
+  for (const member of [...members].sort((a, b) => a.path.localeCompare(b.path))) {
+    const parts = member.path.split('/');
+    for (let depth = 0; depth < parts.length - 1; depth++) {
+      const path = parts.slice(0, depth + 1).join('/');
+      if (seen.has(path)) continue;
+      seen.add(path);
+      rows.push({ kind: 'directory', path, name: parts[depth], depth });
+    }
+    rows.push({ kind: 'file', name: parts[parts.length - 1], depth: parts.length - 1, member });
+  }
+  return rows;
+}
+
+export function ArchiveFilesTab({ archive, vulnerabilities, selectedPath, onOpen }: ArchiveFilesTabProps) {
+  const rows = useMemo(() => buildTree(archive.members), [archive.members]);
+
+  const countsByPath = useMemo(() => {
+    const counts = new Map<string, Record<string, number>>();
+    for (const vuln of vulnerabilities) {
+      if (!vuln.member_path) continue;
+      const entry = counts.get(vuln.member_path) ?? {};
+      entry[vuln.severity] = (entry[vuln.severity] ?? 0) + 1;
+      counts.set(vuln.member_path, entry);
+    }
+    return counts;
+  }, [vulnerabilities]);
+
+  return (
+    <div className="space-y-4">
+      <div className="glass-card rounded-xl border border-border">
+        <div className="p-5 border-b border-border flex items-center gap-2 flex-wrap">
+          <Archive className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold text-foreground">Delivery Contents</h3>
+          <Badge variant="secondary" className="ml-2">{archive.members.length} analyzed</Badge>
+          <Badge variant="outline" className="font-mono text-xs">{archive.format}</Badge>
+          <span className="text-sm text-muted-foreground ml-auto">{formatFileSize(archive.totalSize)} unpacked</span>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Path</TableHead>
+              <TableHead className="w-[180px]">Type</TableHead>
+              <TableHead className="w-[100px] text-right">Size</TableHead>
+              <TableHead className="w-[220px]">Findings</TableHead>
+              <TableHead className="w-[80px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => {
+              if (row.kind === 'directory') {
+                return (
+                  <TableRow key={`dir:${row.path}`} className="hover:bg-transparent">
+                    <TableCell colSpan={5} className="py-1.5">
+                      <span className="flex items-center gap-2 font-mono text-xs text-muted-foreground" style={{ paddingLeft: row.depth * 16 }}>
+                        <Folder className="w-3.5 h-3.5" />{row.name}/
+                      </span>
+                    </TableCell>
+                  </TableRow>
+                );
+              }
+
+              const { member } = row;
+              const counts = countsByPath.get(member.path) ?? {};
+              return (
+                <TableRow key={member.path} className={cn(selectedPath === member.path && 'bg-primary/5')}>
+                  <TableCell>
+                    <span className="flex items-center gap-2 font-mono text-sm text-foreground" style={{ paddingLeft: row.depth * 16 }}>
+                      {member.kind === 'binary'
+                        ? <Binary className="w-4 h-4 text-primary shrink-0" />
+                        : <FileCode className="w-4 h-4 text-primary shrink-0" />}
+                      {row.name}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {member.kind === 'binary'
+                      ? [FORMAT_LABELS[member.format ?? 'raw'], member.architecture].filter(Boolean).join(' · ')
+                      : 'Source'}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-xs text-muted-foreground">{formatFileSize(member.size)}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {SEVERITIES.filter((severity) => counts[severity]).map((severity) => (
+                        <Badge key={severity} variant="outline" className={cn('text-xs', SEVERITY_STYLES[severity])}>
+                          {counts[severity]} {severity}
+                        </Badge>
+                      ))}
+                      {!SEVERITIES.some((severity) => counts[severity]) && <span className="text-xs text-muted-foreground">None</span>}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="sm" className="h-7" onClick={() => onOpen(member)}>Open</Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      {archive.skipped.length > 0 && (
+        <div className="glass-card rounded-xl border border-border">
+          <div className="p-4 border-b border-border flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 text-warning" />
+            <h4 className="font-medium text-foreground">Not Analyzed</h4>
+            <Badge variant="secondary" className="ml-auto">{archive.skipped.length}</Badge>
+          </div>
+          <div className="max-h-64 overflow-y-auto divide-y divide-border">
+            {archive.skipped.map((skipped, index) => (
+              <div key={`${skipped.path}:${index}`} className="px-4 py-2 flex items-center gap-3 text-sm">
+                <span className="font-mono text-foreground truncate">{skipped.path}</span>
+                <span className="text-xs text-muted-foreground ml-auto shrink-0">{skipped.reason}</span>
+                <span className="w-20 text-right font-mono text-xs text-muted-foreground shrink-0">{formatFileSize(skipped.size)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
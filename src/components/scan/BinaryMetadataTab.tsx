@@ -1,16 +1,79 @@
-import { useMemo } from 'react';
-import { Hash, HardDrive, Cpu, Wrench, FileCode, BarChart3, Layers, Info } from 'lucide-react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Hash, HardDrive, Cpu, Wrench, FileCode, BarChart3, Layers, Info, MemoryStick, Package, CheckCircle2, XCircle, GitBranch, Binary, ShieldCheck, AlertTriangle, MinusCircle, HelpCircle } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Progress } from '@/components/ui/progress';
 import type { Scan } from '@/hooks/useScans';
+import type { ArchiveMemberMetadata, HardeningStatus, ScanAnalysisMetadata } from '@/types/scan';
+import type { ByteRange } from '@/components/scan/HexViewer';
 
 interface BinaryMetadataTabProps {
   scan: Scan;
+  onShowInHex?: (range: ByteRange) => void;
+  /** Archive member whose entropy profile is shown instead of the uploaded file's. */
+  member?: ArchiveMemberMetadata | null;
 }
 
-export function BinaryMetadataTab({ scan }: BinaryMetadataTabProps) {
+const formatAddress = (value: number) => `0x${value.toString(16).padStart(8, '0')}`;
+
+const DISASSEMBLY_MODES: Record<string, string> = {
+  thumb: 'ARM Thumb/Thumb-2',
+  arm: 'ARM (A32)',
+  vle: 'PowerPC VLE',
+  booke: 'PowerPC Book E',
+};
+
+const FORMAT_LABELS: Record<string, string> = {
+  elf: 'ELF',
+  ihex: 'Intel HEX',
+  srec: 'Motorola S-record',
+  vbf: 'VBF',
+  raw: 'Raw binary',
+};
+
+// .comment strings look like "GCC: (GNU Arm Embedded Toolchain 10.3-2021.10) 10.3.1 20210824"
+// or "clang version 14.0.0"; the first recognisable one wins.
+function detectCompiler(compilerStrings: string[]): { name: string; version: string } | null {
+  for (const entry of compilerStrings) {
+    const gcc = entry.match(/^GCC:\s*\(([^)]*)\)\s*([\d.]+)/);
+    if (gcc) {
+      const toolchain = gcc[1].replace(/\s*[\d.-]+$/, '');
+      return { name: toolchain && toolchain !== 'GNU' ? toolchain : 'GCC', version: gcc[2] };
+    }
+    const clang = entry.match(/clang version ([\d.]+)/);
+    if (clang) return { name: 'Clang/LLVM', version: clang[1] };
+    const other = entry.match(/(TASKING|HighTec|Diab|Green Hills|GHS|IAR|ARM Compiler|armcc|CodeWarrior)[^\d]*([\d.]+)?/i);
+    if (other) return { name: other[1], version: other[2] || 'Unknown' };
+  }
+  return null;
+}
+
+const HARDENING_STATUS: Record<HardeningStatus, { icon: typeof CheckCircle2; className: string; label: string }> = {
+  pass: { icon: CheckCircle2, className: 'text-success', label: 'Pass' },
+  warning: { icon: AlertTriangle, className: 'text-warning', label: 'Partial' },
+  fail: { icon: XCircle, className: 'text-destructive', label: 'Fail' },
+  'not-applicable': { icon: MinusCircle, className: 'text-muted-foreground', label: 'N/A' },
+  unknown: { icon: HelpCircle, className: 'text-muted-foreground', label: 'Unknown' },
+};
+
+const HARDENING_TARGETS = {
+  hosted: 'Hosted (dynamic loader)',
+  'cortex-m': 'Cortex-M firmware',
+  'bare-metal': 'Bare-metal firmware',
+};
+
+const ENTROPY_REGION_LABELS = {
+  encrypted: 'Likely encrypted',
+  compressed: 'Likely compressed',
+  erased: 'Erased (0xFF)',
+};
+
+const entropyColor = (entropy: number) =>
+  entropy > 7 ? 'text-red-500' : entropy > 5 ? 'text-yellow-500' : 'text-green-500';
+
+export function BinaryMetadataTab({ scan, onShowInHex, member }: BinaryMetadataTabProps) {
   const formatFileSize = (bytes: number | null) => {
     if (!bytes) return 'N/A';
     if (bytes < 1024) return `${bytes} B`;
@@ -18,42 +81,13 @@ export function BinaryMetadataTab({ scan }: BinaryMetadataTabProps) {
     return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
   };
 
-  // Simulated entropy analysis (in real implementation, this would come from backend)
-  const entropyData = useMemo(() => [
-    { section: '.text', entropy: 6.2, size: '45%', description: 'Code section' },
-    { section: '.data', entropy: 4.8, size: '15%', description: 'Initialized data' },
-    { section: '.rodata', entropy: 5.5, size: '20%', description: 'Read-only data' },
-    { section: '.bss', entropy: 0.1, size: '10%', description: 'Uninitialized data' },
-    { section: '.plt', entropy: 5.9, size: '5%', description: 'Procedure linkage' },
-    { section: 'other', entropy: 3.2, size: '5%', description: 'Other sections' },
-  ], []);
-
-  // Simulated section analysis
-  const sectionAnalysis = useMemo(() => [
-    { name: '.text', type: 'PROGBITS', flags: 'AX', address: '0x00001000', size: '0x45000', align: '16' },
-    { name: '.rodata', type: 'PROGBITS', flags: 'A', address: '0x00046000', size: '0x12000', align: '32' },
-    { name: '.data', type: 'PROGBITS', flags: 'WA', address: '0x00058000', size: '0x8000', align: '32' },
-    { name: '.bss', type: 'NOBITS', flags: 'WA', address: '0x00060000', size: '0x5000', align: '32' },
-    { name: '.plt', type: 'PROGBITS', flags: 'AX', address: '0x00065000', size: '0x2000', align: '16' },
-    { name: '.got', type: 'PROGBITS', flags: 'WA', address: '0x00067000', size: '0x1000', align: '8' },
-  ], []);
-
-  // Simulated compiler detection
-  const compilerInfo = {
-    name: 'ARM GCC',
-    version: '11.2.0',
-    flags: '-O2 -fstack-protector-strong -fPIC',
-    target: scan.architecture || 'ARM Cortex-M4',
-  };
-
-  // Simulated symbol table summary
-  const symbolSummary = {
-    total: 2847,
-    functions: 892,
-    globalVariables: 234,
-    localSymbols: 1721,
-    undefinedSymbols: 45,
-  };
+  const metadata = (scan.metadata as ScanAnalysisMetadata | null) ?? {};
+  const { architecture: detection, disassembly, elf, memoryMap, vbf } = metadata;
+  const entropy = member ? member.entropy : metadata.entropy;
+  const hardening = member ? member.hardening : metadata.hardening;
+  const entropyBlocks = entropy?.blocks.map((value, index) => ({ offset: index * entropy.blockSize, entropy: value })) ?? [];
+  const endianness = elf?.endianness ?? detection?.endianness;
+  const compilerInfo = detectCompiler(elf?.compilerStrings ?? []);
 
   const MetadataCard = ({ title, icon: Icon, children }: { title: string; icon: any; children: React.ReactNode }) => (
     <Card className="p-4 border border-border">
@@ -91,60 +125,234 @@ export function BinaryMetadataTab({ scan }: BinaryMetadataTabProps) {
         <MetadataCard title="File Information" icon={Hash}>
           <MetadataItem label="File Name" value={scan.file_name} />
           <MetadataItem label="File Size" value={formatFileSize(scan.file_size)} />
-          <MetadataItem label="SHA-256 Hash" value={scan.file_hash?.substring(0, 16) + '...' || 'N/A'} mono />
-          <MetadataItem label="File Format" value={scan.file_name.split('.').pop()?.toUpperCase() || 'Binary'} />
+          <MetadataItem label="SHA-256" value={scan.file_hash ? `${scan.file_hash.substring(0, 16)}...` : 'N/A'} mono />
+          {scan.file_sha1 && <MetadataItem label="SHA-1" value={`${scan.file_sha1.substring(0, 16)}...`} mono />}
+          {scan.file_md5 && <MetadataItem label="MD5" value={scan.file_md5} mono />}
+          <MetadataItem label="File Format" value={memoryMap ? FORMAT_LABELS[memoryMap.format] : scan.file_name.split('.').pop()?.toUpperCase() || 'Binary'} />
         </MetadataCard>
 
         {/* Architecture Details */}
         <MetadataCard title="Architecture Details" icon={Cpu}>
           <MetadataItem label="Architecture" value={scan.architecture || 'Unknown'} />
+          {detection && (
+            <MetadataItem
+              label="Detected From Content"
+              value={detection.architecture ? `${detection.architecture} (${detection.confidence} confidence)` : 'Inconclusive'}
+            />
+          )}
+          {detection?.variant && <MetadataItem label="Instruction Set" value={detection.variant} />}
           <MetadataItem label="Platform" value={scan.platform || 'Automotive ECU'} />
-          <MetadataItem label="Endianness" value="Little Endian" />
-          <MetadataItem label="Word Size" value="32-bit" />
+          <MetadataItem label="Endianness" value={endianness ? (endianness === 'little' ? 'Little Endian' : 'Big Endian') : 'Unknown'} />
+          <MetadataItem label="Word Size" value={elf ? (elf.elfClass === 'ELF64' ? '64-bit' : '32-bit') : 'Unknown'} />
+          {elf && <MetadataItem label="Entry Point" value={formatAddress(elf.entryPoint)} mono />}
         </MetadataCard>
 
         {/* Compiler Information */}
         <MetadataCard title="Compiler Detected" icon={Wrench}>
-          <MetadataItem label="Compiler" value={compilerInfo.name} />
-          <MetadataItem label="Version" value={compilerInfo.version} />
-          <MetadataItem label="Target" value={compilerInfo.target} />
-          <MetadataItem label="Flags" value={compilerInfo.flags} mono />
+          <MetadataItem label="Compiler" value={compilerInfo?.name || 'Unknown'} />
+          <MetadataItem label="Version" value={compilerInfo?.version || 'Unknown'} />
+          <MetadataItem label="Target" value={elf?.machine || scan.architecture || 'Unknown'} />
+          <MetadataItem label="Build ID" value={elf?.buildId ? `${elf.buildId.substring(0, 16)}...` : 'N/A'} mono />
         </MetadataCard>
 
         {/* Symbol Table Summary */}
         <MetadataCard title="Symbol Table Summary" icon={FileCode}>
-          <MetadataItem label="Total Symbols" value={symbolSummary.total.toLocaleString()} />
-          <MetadataItem label="Functions" value={symbolSummary.functions.toLocaleString()} />
-          <MetadataItem label="Global Variables" value={symbolSummary.globalVariables.toLocaleString()} />
-          <MetadataItem label="Undefined Symbols" value={symbolSummary.undefinedSymbols.toLocaleString()} />
+          {elf && elf.symbolSummary.total > 0 ? (
+            <>
+              <MetadataItem label="Total Symbols" value={elf.symbolSummary.total.toLocaleString()} />
+              <MetadataItem label="Functions" value={elf.symbolSummary.functions.toLocaleString()} />
+              <MetadataItem label="Global Variables" value={elf.symbolSummary.globalVariables.toLocaleString()} />
+              <MetadataItem label="Undefined Symbols" value={elf.symbolSummary.undefinedSymbols.toLocaleString()} />
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">{elf ? 'Binary is stripped - no symbol table present.' : 'No symbol table available for this file format.'}</p>
+          )}
         </MetadataCard>
       </div>
 
+      {/* Hardening */}
+      {hardening && (
+        <Card className="p-4 border border-border">
+          <div className="flex items-center gap-2 mb-4">
+            <ShieldCheck className="w-5 h-5 text-primary" />
+            <h4 className="font-medium text-foreground">Binary Hardening</h4>
+            <div className="ml-auto flex items-center gap-2">
+              {member && <Badge variant="outline" className="font-mono text-xs">{member.path}</Badge>}
+              <Badge variant="outline">{HARDENING_TARGETS[hardening.target]}</Badge>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+            {hardening.checks.map((check) => {
+              const { icon: Icon, className, label } = HARDENING_STATUS[check.status];
+              return (
+                <div key={check.id} className="p-3 rounded-lg bg-muted/30 border border-border">
+                  <div className="flex items-center gap-2 mb-1">
+                    <Icon className={`w-4 h-4 shrink-0 ${className}`} />
+                    <span className="text-sm font-medium text-foreground">{check.label}</span>
+                    <span className={`ml-auto text-xs ${className}`}>{label}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground break-words">{check.evidence}</p>
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+      )}
+
+      {/* Recovered Functions */}
+      {disassembly && (
+        <Card className="border border-border overflow-hidden">
+          <div className="flex items-center gap-2 p-4 border-b border-border">
+            <GitBranch className="w-5 h-5 text-primary" />
+            <h4 className="font-medium text-foreground">Recovered Functions</h4>
+            <Badge variant="outline" className="ml-auto">{DISASSEMBLY_MODES[disassembly.mode] ?? disassembly.mode}</Badge>
+            {disassembly.truncated && <Badge variant="outline" className="text-yellow-500 border-yellow-500/50">Partial</Badge>}
+          </div>
+          <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-x-6 border-b border-border">
+            <MetadataItem label="Functions" value={disassembly.functionCount.toLocaleString()} />
+            <MetadataItem label="Instructions" value={disassembly.instructionCount.toLocaleString()} />
+            <MetadataItem label="Call Edges" value={disassembly.callEdges.toLocaleString()} />
+            <MetadataItem label="Tail Calls" value={disassembly.tailCalls.toLocaleString()} />
+            <MetadataItem label="Data References" value={disassembly.dataRefs.toLocaleString()} />
+            <MetadataItem
+              label="Discovered Via"
+              value={Object.entries(disassembly.bySource).map(([source, count]) => `${count} ${source}`).join(', ') || 'N/A'}
+            />
+          </div>
+          {disassembly.mostCalled.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Most Called</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead className="text-right">Callers</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {disassembly.mostCalled.map((fn) => (
+                  <TableRow key={fn.address}>
+                    <TableCell className="font-mono text-sm">{fn.name}</TableCell>
+                    <TableCell className="font-mono text-sm text-muted-foreground">{formatAddress(fn.address)}</TableCell>
+                    <TableCell className="text-right">{fn.callers}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      )}
+
       {/* Entropy Analysis */}
       <Card className="p-4 border border-border">
         <div className="flex items-center gap-2 mb-4">
           <BarChart3 className="w-5 h-5 text-primary" />
           <h4 className="font-medium text-foreground">Entropy Analysis</h4>
-          <Badge variant="outline" className="ml-auto">Max Entropy: 8.0</Badge>
+          <div className="ml-auto flex items-center gap-2">
+            {member && <Badge variant="outline" className="font-mono text-xs">{member.path}</Badge>}
+            {entropy && <Badge variant="outline">Overall: {entropy.overall.toFixed(2)} / 8.0</Badge>}
+          </div>
         </div>
-        <div className="space-y-3">
-          {entropyData.map((section) => (
-            <div key={section.section} className="flex items-center gap-4">
-              <code className="w-20 text-xs font-mono text-muted-foreground">{section.section}</code>
-              <div className="flex-1">
-                <Progress value={(section.entropy / 8) * 100} className="h-2" />
-              </div>
-              <span className={`w-12 text-sm font-medium text-right ${
-                section.entropy > 7 ? 'text-red-500' : section.entropy > 5 ? 'text-yellow-500' : 'text-green-500'
-              }`}>
-                {section.entropy.toFixed(1)}
-              </span>
-              <span className="w-16 text-xs text-muted-foreground text-right">{section.size}</span>
+        {entropy ? (
+          <div className="space-y-6">
+            <div className="h-[200px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={entropyBlocks} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                  <defs>
+                    <linearGradient id="entropyGradient" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="5%" stopColor="hsl(187, 92%, 50%)" stopOpacity={0.3}/>
+                      <stop offset="95%" stopColor="hsl(187, 92%, 50%)" stopOpacity={0}/>
+                    </linearGradient>
+                  </defs>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(222, 47%, 18%)" vertical={false} />
+                  <XAxis
+                    dataKey="offset"
+                    tickFormatter={(value: number) => `0x${value.toString(16)}`}
+                    stroke="hsl(215, 20%, 55%)"
+                    fontSize={12}
+                    tickLine={false}
+                    axisLine={false}
+                    minTickGap={40}
+                  />
+                  <YAxis domain={[0, 8]} ticks={[0, 2, 4, 6, 8]} stroke="hsl(215, 20%, 55%)" fontSize={12} tickLine={false} axisLine={false} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'hsl(222, 47%, 8%)',
+                      border: '1px solid hsl(222, 47%, 18%)',
+                      borderRadius: '8px',
+                      boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.3)',
+                    }}
+                    labelStyle={{ color: 'hsl(210, 40%, 98%)' }}
+                    labelFormatter={(value) => `Offset 0x${(value as number).toString(16)} (+${entropy.blockSize} bytes)`}
+                    formatter={(value) => [`${value} bits/byte`, 'Entropy']}
+                  />
+                  <ReferenceLine y={7.5} stroke="hsl(0, 84%, 60%)" strokeDasharray="4 4" />
+                  <Area type="stepAfter" dataKey="entropy" stroke="hsl(187, 92%, 50%)" fill="url(#entropyGradient)" strokeWidth={1.5} isAnimationActive={false} />
+                </AreaChart>
+              </ResponsiveContainer>
             </div>
-          ))}
-        </div>
+
+            {entropy.sections.length > 0 && (
+              <div className="space-y-3">
+                {entropy.sections.map((section) => (
+                  <div key={`${section.name}-${section.offset}`} className="flex items-center gap-4">
+                    <code className="w-28 truncate text-xs font-mono text-muted-foreground" title={section.name}>{section.name}</code>
+                    <div className="flex-1">
+                      <Progress value={(section.entropy / 8) * 100} className="h-2" />
+                    </div>
+                    <span className={`w-12 text-sm font-medium text-right ${entropyColor(section.entropy)}`}>
+                      {section.entropy.toFixed(1)}
+                    </span>
+                    <span className="w-20 text-xs text-muted-foreground text-right">{formatFileSize(section.size)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {entropy.regions.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Region</TableHead>
+                    <TableHead>Offset</TableHead>
+                    <TableHead>Address</TableHead>
+                    <TableHead>Length</TableHead>
+                    <TableHead className="text-right">Entropy</TableHead>
+                    {onShowInHex && <TableHead className="w-10" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entropy.regions.map((region) => (
+                    <TableRow key={`${region.kind}-${region.offset}`}>
+                      <TableCell>
+                        <Badge variant={region.kind === 'erased' ? 'secondary' : 'outline'} className={`text-xs ${region.classification === 'encrypted' ? 'text-red-500 border-red-500/50' : region.classification === 'compressed' ? 'text-yellow-500 border-yellow-500/50' : ''}`}>
+                          {ENTROPY_REGION_LABELS[region.classification ?? 'erased']}
+                        </Badge>
+                      </TableCell>
+                      <TableCell><code className="text-xs font-mono">0x{region.offset.toString(16)}</code></TableCell>
+                      <TableCell><code className="text-xs font-mono text-muted-foreground">{region.address !== null ? formatAddress(region.address) : 'N/A'}</code></TableCell>
+                      <TableCell><code className="text-xs font-mono">0x{region.length.toString(16)}</code></TableCell>
+                      <TableCell className={`text-right text-sm ${entropyColor(region.entropy)}`}>{region.entropy.toFixed(2)}</TableCell>
+                      {onShowInHex && (
+                        <TableCell>
+                          <Button variant="ghost" size="icon" className="h-7 w-7" title="Show in hex" onClick={() => onShowInHex({ offset: region.offset, length: region.length })}>
+                            <Binary className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {entropy.truncated && (
+              <p className="text-xs text-yellow-500">Region list truncated; the graph still covers the whole image.</p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No entropy profile available. Profiles are computed for binary images only.</p>
+        )}
         <p className="text-xs text-muted-foreground mt-3">
-          High entropy (&gt;7.0) may indicate packed/encrypted content. Normal code typically has entropy of 5.0-6.5.
+          Windows above 7.5 bits/byte (dashed line) are flagged as encrypted or compressed payloads. Normal code typically has entropy of 5.0-6.5.
         </p>
       </Card>
 
@@ -153,44 +361,253 @@ export function BinaryMetadataTab({ scan }: BinaryMetadataTabProps) {
         <div className="flex items-center gap-2 p-4 border-b border-border">
           <Layers className="w-5 h-5 text-primary" />
           <h4 className="font-medium text-foreground">Section Analysis</h4>
+          {elf && <Badge variant="outline" className="ml-auto">{elf.elfClass} {elf.fileType}</Badge>}
         </div>
-        <Table>
-          <TableHeader>
-            <TableRow>
-              <TableHead>Section</TableHead>
-              <TableHead>Type</TableHead>
-              <TableHead>Flags</TableHead>
-              <TableHead>Address</TableHead>
-              <TableHead>Size</TableHead>
-              <TableHead>Alignment</TableHead>
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {sectionAnalysis.map((section) => (
-              <TableRow key={section.name}>
-                <TableCell>
-                  <code className="text-xs font-mono">{section.name}</code>
-                </TableCell>
-                <TableCell>
-                  <Badge variant="outline" className="text-xs">{section.type}</Badge>
-                </TableCell>
-                <TableCell>
-                  <code className="text-xs font-mono text-muted-foreground">{section.flags}</code>
-                </TableCell>
-                <TableCell>
-                  <code className="text-xs font-mono">{section.address}</code>
-                </TableCell>
-                <TableCell>
-                  <code className="text-xs font-mono">{section.size}</code>
-                </TableCell>
-                <TableCell>
-                  <span className="text-xs text-muted-foreground">{section.align}</span>
-                </TableCell>
+        {elf && elf.sections.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Section</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Flags</TableHead>
+                <TableHead>Address</TableHead>
+                <TableHead>Size</TableHead>
+                <TableHead>Alignment</TableHead>
               </TableRow>
-            ))}
-          </TableBody>
-        </Table>
+            </TableHeader>
+            <TableBody>
+              {elf.sections.filter(section => section.type !== 'NULL').map((section) => (
+                <TableRow key={section.index}>
+                  <TableCell>
+                    <code className="text-xs font-mono">{section.name || `[${section.index}]`}</code>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="text-xs">{section.type}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <code className="text-xs font-mono text-muted-foreground">{section.flags}</code>
+                  </TableCell>
+                  <TableCell>
+                    <code className="text-xs font-mono">{formatAddress(section.address)}</code>
+                  </TableCell>
+                  <TableCell>
+                    <code className="text-xs font-mono">0x{section.size.toString(16)}</code>
+                  </TableCell>
+                  <TableCell>
+                    <span className="text-xs text-muted-foreground">{section.align}</span>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="p-4 text-sm text-muted-foreground">
+            No section headers were found. Section tables are only available for ELF uploads.
+          </p>
+        )}
       </Card>
+
+      {/* VBF container */}
+      {vbf && (
+        <Card className="border border-border overflow-hidden">
+          <div className="flex items-center gap-2 p-4 border-b border-border">
+            <Package className="w-5 h-5 text-primary" />
+            <h4 className="font-medium text-foreground">VBF Container</h4>
+            {vbf.header.vbfVersion && <Badge variant="outline" className="ml-auto">vbf_version {vbf.header.vbfVersion}</Badge>}
+          </div>
+          <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-x-6 border-b border-border">
+            <MetadataItem label="SW Part Number" value={vbf.header.swPartNumber || 'N/A'} mono />
+            <MetadataItem label="SW Version" value={vbf.header.swVersion || 'N/A'} mono />
+            <MetadataItem label="SW Part Type" value={vbf.header.swPartType || 'N/A'} />
+            <MetadataItem label="ECU Address" value={vbf.header.ecuAddress !== null ? `0x${vbf.header.ecuAddress.toString(16).toUpperCase()}` : 'N/A'} mono />
+            <MetadataItem label="Verification Block" value={vbf.header.verificationBlockStart !== null ? formatAddress(vbf.header.verificationBlockStart) : 'N/A'} mono />
+            <MetadataItem
+              label="File Checksum (CRC32)"
+              value={vbf.header.fileChecksum === null
+                ? 'Not declared'
+                : `0x${vbf.header.fileChecksum.toString(16).padStart(8, '0')} ${vbf.fileChecksumValid ? '✓' : `✗ (computed 0x${vbf.computedFileChecksum.toString(16).padStart(8, '0')})`}`}
+              mono
+            />
+          </div>
+          {vbf.header.erase.length > 0 && (
+            <div className="p-4 border-b border-border">
+              <p className="text-sm text-muted-foreground mb-2">Erase ranges</p>
+              <div className="flex flex-wrap gap-2">
+                {vbf.header.erase.map((range) => (
+                  <code key={range.start} className="text-xs font-mono px-2 py-1 rounded bg-muted">
+                    {formatAddress(range.start)} +0x{range.length.toString(16)}
+                  </code>
+                ))}
+              </div>
+            </div>
+          )}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Block Address</TableHead>
+                <TableHead>Length</TableHead>
+                <TableHead>CRC16</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {vbf.blocks.map((block) => (
+                <TableRow key={block.offset}>
+                  <TableCell>
+                    <code className="text-xs font-mono">{formatAddress(block.address)}</code>
+                    {block.address === vbf.header.verificationBlockStart && (
+                      <Badge variant="secondary" className="ml-2 text-xs">verification</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell><code className="text-xs font-mono">0x{block.length.toString(16)}</code></TableCell>
+                  <TableCell><code className="text-xs font-mono">0x{block.crc.toString(16).padStart(4, '0')}</code></TableCell>
+                  <TableCell>
+                    {block.valid ? (
+                      <span className="flex items-center gap-1 text-xs text-success"><CheckCircle2 className="w-3.5 h-3.5" />Valid</span>
+                    ) : (
+                      <span className="flex items-center gap-1 text-xs text-destructive">
+                        <XCircle className="w-3.5 h-3.5" />Mismatch (computed 0x{block.computedCrc.toString(16).padStart(4, '0')})
+                      </span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {vbf.errors.length > 0 && (
+            <div className="p-4 border-t border-border space-y-1">
+              {vbf.errors.map((error) => (
+                <p key={error} className="text-xs text-destructive">{error}</p>
+              ))}
+            </div>
+          )}
+        </Card>
+      )}
+
+      {/* Reconstructed memory map for record-based formats */}
+      {memoryMap && (memoryMap.format === 'ihex' || memoryMap.format === 'srec' || memoryMap.format === 'vbf') && (
+        <Card className="border border-border overflow-hidden">
+          <div className="flex items-center gap-2 p-4 border-b border-border">
+            <MemoryStick className="w-5 h-5 text-primary" />
+            <h4 className="font-medium text-foreground">Memory Map</h4>
+            <div className="ml-auto flex items-center gap-2">
+              <Badge variant="outline">{memoryMap.recordCount.toLocaleString()} records</Badge>
+              {memoryMap.errorCount > 0 && (
+                <Badge variant="destructive">{memoryMap.errorCount} bad record{memoryMap.errorCount !== 1 ? 's' : ''}</Badge>
+              )}
+            </div>
+          </div>
+          <div className="p-4 grid grid-cols-1 md:grid-cols-3 gap-4 border-b border-border">
+            <MetadataItem label="Image Size" value={formatFileSize(memoryMap.size)} />
+            <MetadataItem label="Entry Point" value={memoryMap.entryPoint !== null ? formatAddress(memoryMap.entryPoint) : 'N/A'} mono />
+            <MetadataItem label="Header" value={memoryMap.header || 'N/A'} mono />
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Region</TableHead>
+                <TableHead>Start</TableHead>
+                <TableHead>End</TableHead>
+                <TableHead>Size</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[
+                ...memoryMap.segments.map(segment => ({ kind: 'data', start: segment.address, end: segment.address + segment.size })),
+                ...memoryMap.gaps.map(gap => ({ kind: 'gap', start: gap.start, end: gap.end })),
+              ]
+                .sort((a, b) => a.start - b.start)
+                .map((region) => (
+                  <TableRow key={`${region.kind}-${region.start}`} className={region.kind === 'gap' ? 'text-muted-foreground' : ''}>
+                    <TableCell>
+                      <Badge variant={region.kind === 'gap' ? 'secondary' : 'outline'} className="text-xs">
+                        {region.kind === 'gap' ? 'Gap' : 'Data'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell><code className="text-xs font-mono">{formatAddress(region.start)}</code></TableCell>
+                    <TableCell><code className="text-xs font-mono">{formatAddress(region.end - 1)}</code></TableCell>
+                    <TableCell><code className="text-xs font-mono">0x{(region.end - region.start).toString(16)}</code></TableCell>
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+          {memoryMap.overlaps.length > 0 && (
+            <div className="p-4 border-t border-border space-y-1">
+              <p className="text-sm font-medium text-foreground">Overlapping records</p>
+              {memoryMap.overlaps.map((overlap) => (
+                <p key={overlap.address} className={`text-xs font-mono ${overlap.identical ? 'text-muted-foreground' : 'text-destructive'}`}>
+                  {formatAddress(overlap.address)} +{overlap.length} bytes {overlap.identical ? '(identical)' : '(conflicting - later record kept)'}
+                </p>
+              ))}
+            </div>
+          )}
+        </Card>
+      )}
+
+      {/* Program Headers */}
+      {elf && elf.programHeaders.length > 0 && (
+        <Card className="border border-border overflow-hidden">
+          <div className="flex items-center gap-2 p-4 border-b border-border">
+            <HardDrive className="w-5 h-5 text-primary" />
+            <h4 className="font-medium text-foreground">Program Headers</h4>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>Flags</TableHead>
+                <TableHead>Offset</TableHead>
+                <TableHead>Virtual Address</TableHead>
+                <TableHead>Physical Address</TableHead>
+                <TableHead>File Size</TableHead>
+                <TableHead>Memory Size</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {elf.programHeaders.map((header, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <Badge variant="outline" className="text-xs">{header.type}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <code className="text-xs font-mono text-muted-foreground">{header.flags}</code>
+                  </TableCell>
+                  <TableCell>
+                    <code className="text-xs font-mono">0x{header.offset.toString(16)}</code>
+                  </TableCell>
+                  <TableCell>
+                    <code className="text-xs font-mono">{formatAddress(header.virtualAddress)}</code>
+                  </TableCell>
+                  <TableCell>
+                    <code className="text-xs font-mono">{formatAddress(header.physicalAddress)}</code>
+                  </TableCell>
+                  <TableCell>
+                    <code className="text-xs font-mono">0x{header.fileSize.toString(16)}</code>
+                  </TableCell>
+                  <TableCell>
+                    <code className="text-xs font-mono">0x{header.memorySize.toString(16)}</code>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      {/* Compiler identification strings */}
+      {elf && elf.compilerStrings.length > 0 && (
+        <Card className="p-4 border border-border">
+          <div className="flex items-center gap-2 mb-3">
+            <Wrench className="w-5 h-5 text-primary" />
+            <h4 className="font-medium text-foreground">.comment Strings</h4>
+          </div>
+          <div className="space-y-1">
+            {elf.compilerStrings.map((entry) => (
+              <code key={entry} className="block text-xs font-mono text-muted-foreground">{entry}</code>
+            ))}
+          </div>
+        </Card>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { CheckCircle2, AlertTriangle, XCircle, Link2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { BootChainMetadata, BootCheckStatus } from '@/types/scan';
+
+interface BootChainCardProps {
+  reports: BootChainMetadata[];
+}
+
+const STATUS_ICONS: Record<BootCheckStatus, { icon: typeof CheckCircle2; className: string }> = {
+  pass: { icon: CheckCircle2, className: 'text-success' },
+  warning: { icon: AlertTriangle, className: 'text-warning' },
+  fail: { icon: XCircle, className: 'text-destructive' },
+};
+
+const OUTCOME_LABELS: Record<BootChainMetadata['verifyCalls'][number]['outcome'], string> = {
+  checked: 'result checked',
+  ignored: 'result ignored',
+  returned: 'result returned to caller',
+  unknown: 'result use not determined',
+};
+
+const location = (item: { line: number | null; address?: number | null; offset?: number | null }) =>
+  item.line !== null ? `line ${item.line}`
+    : item.address != null ? `0x${item.address.toString(16)}`
+    : item.offset != null ? `offset 0x${item.offset.toString(16)}`
+    : null;
+
+function Check({ status, title, children }: { status: BootCheckStatus; title: string; children: React.ReactNode }) {
+  const { icon: Icon, className } = STATUS_ICONS[status];
+  return (
+    <div className="p-4 rounded-lg bg-muted/30 border border-border">
+      <div className="flex items-center gap-2 mb-2">
+        <Icon className={cn('w-4 h-4', className)} />
+        <span className="text-sm font-medium text-foreground">{title}</span>
+      </div>
+      <div className="space-y-1 text-xs text-muted-foreground">{children}</div>
+    </div>
+  );
+}
+
+export function BootChainCard({ reports }: BootChainCardProps) {
+  return (
+    <div className="glass-card rounded-xl border border-border p-6">
+      <div className="flex items-start gap-4 mb-6">
+        <div className="w-12 h-12 rounded-lg bg-gradient-to-br from-primary/20 to-accent/20 flex items-center justify-center shrink-0">
+          <Link2 className="w-6 h-6 text-primary" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Boot Chain</h3>
+          <p className="text-sm text-muted-foreground">Secure boot and software update verification (UNECE R156)</p>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        {reports.map((report) => (
+          <div key={report.file} className="space-y-3">
+            {reports.length > 1 && <p className="font-mono text-xs text-muted-foreground">{report.file}</p>}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Check status={report.checks.authenticity} title="Signature Verification">
+                {report.verifyRoutines.length === 0 && <p>No verification routine found</p>}
+                {report.verifyRoutines.map((routine) => (
+                  <p key={routine.name}>
+                    <code className="text-foreground">{routine.name}</code> · {routine.evidence}
+                  </p>
+                ))}
+                {report.publicKeys.length === 0
+                  ? <p>No embedded public key (may be held by an HSM)</p>
+                  : report.publicKeys.map((key, index) => (
+                    <p key={index}>{key.label}{key.bits ? ` · ${key.bits} bit` : ''}{location(key) ? ` · ${location(key)}` : ''}</p>
+                  ))}
+                {report.hashes.length > 0 && (
+                  <div className="flex flex-wrap gap-1 pt-1">
+                    {report.hashes.map((hash) => <Badge key={hash} variant="outline" className="text-xs">{hash}</Badge>)}
+                  </div>
+                )}
+              </Check>
+              <Check status={report.checks.enforcement} title="Verified Before Use">
+                {report.verifyCalls.length === 0 && <p>No call of a verification routine could be followed</p>}
+                {report.verifyCalls.map((call, index) => (
+                  <p key={index} className={cn(call.outcome === 'ignored' && 'text-destructive')}>
+                    <code>{call.caller}</code> → <code>{call.verifier}</code>: {OUTCOME_LABELS[call.outcome]}
+                    {call.outcome === 'ignored' && call.jumps ? ', then jumps to the image' : ''}
+                    {location(call) ? ` · ${location(call)}` : ''}
+                  </p>
+                ))}
+              </Check>
+              <Check status={report.checks.rollback} title="Rollback Protection">
+                {report.rollback.length === 0
+                  ? <p>No rollback counter or security version found</p>
+                  : report.rollback.map((item, index) => (
+                    <p key={index}><code className="text-foreground">{item.evidence}</code>{location(item) ? ` · ${location(item)}` : ''}</p>
+                  ))}
+              </Check>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
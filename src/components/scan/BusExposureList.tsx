@@ -0,0 +1,46 @@
+import { ArrowRight } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ENTRY_POINT_LABELS } from '@/lib/bus-exposure';
+import type { BusExposureMetadata } from '@/types/scan';
+
+interface BusExposureListProps {
+  exposures: BusExposureMetadata[];
+}
+
+export function BusExposureList({ exposures }: BusExposureListProps) {
+  return (
+    <div className="space-y-3">
+      {exposures.map((exposure) => (
+        <div key={exposure.platform} className="p-3 rounded-lg bg-muted/50 border border-border space-y-2">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="text-sm font-medium">{exposure.platform}</span>
+            <span className="text-xs text-muted-foreground">node</span>
+            <code className="text-xs bg-muted px-1.5 py-0.5 rounded">{exposure.node}</code>
+            {exposure.buses.map((bus) => (
+              <Badge key={bus.bus} variant="outline" className="text-xs" title={`Transmits: ${bus.transmits.join(', ') || 'none'}\nReceives: ${bus.receives.join(', ') || 'none'}`}>
+                {bus.bus} · {bus.transmits.length} TX / {bus.receives.length} RX
+              </Badge>
+            ))}
+          </div>
+          {exposure.paths.length === 0 ? (
+            <p className="text-xs text-muted-foreground">Not reachable from the OBD port, telematics or infotainment</p>
+          ) : (
+            exposure.paths.map((path) => (
+              <div key={path.entry} className="flex items-center gap-1 flex-wrap text-xs">
+                <Badge variant={path.entry === 'obd' ? 'secondary' : 'destructive'} className="text-xs mr-1">
+                  {ENTRY_POINT_LABELS[path.entry]}
+                </Badge>
+                {path.route.map((hop, index) => (
+                  <span key={index} className="flex items-center gap-1 text-muted-foreground">
+                    {index > 0 && <ArrowRight className="w-3 h-3" />}
+                    <span className={index % 2 === 1 ? 'font-mono text-foreground' : ''}>{hop}</span>
+                  </span>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,267 +1,234 @@
-import { useState } from 'react';
-import { ChevronDown, ChevronRight, AlertTriangle, Shield, Code, FileCode } from 'lucide-react';
+import { Fragment, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, ClipboardCheck, FileCode, HelpCircle, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
-import { Button } from '@/components/ui/button';
-import {
-  Collapsible,
-  CollapsibleContent,
-  CollapsibleTrigger,
-} from '@/components/ui/collapsible';
-import type { Vulnerability } from '@/hooks/useScans';
+import { SeverityBadge } from '@/components/ui/severity-badge';
+import { useScanImage } from '@/hooks/useScanImage';
+import { highlightLine, TOKEN_CLASSES, type Token } from '@/lib/c-highlight';
+import type { ComplianceResult, Scan, Vulnerability } from '@/hooks/useScans';
+import type { ArchiveMemberMetadata } from '@/types/scan';
 
 interface CodeViewerProps {
+  scan: Scan;
   vulnerabilities: Vulnerability[];
-  fileName?: string;
+  complianceResults: ComplianceResult[];
+  /** Archive member to show instead of the uploaded file. */
+  member?: ArchiveMemberMetadata | null;
 }
 
-interface VulnerabilityLine {
-  lineNumber: number;
-  vulnerability: Vulnerability;
+type Annotation =
+  | { kind: 'vulnerability'; id: string; line: number | null; item: Vulnerability }
+  | { kind: 'compliance'; id: string; line: number | null; item: ComplianceResult };
+
+const SEVERITY_ORDER = ['info', 'low', 'medium', 'high', 'critical'];
+
+const getSeverityColor = (severity: string) => {
+  switch (severity) {
+    case 'critical': return 'bg-destructive';
+    case 'high': return 'bg-warning';
+    case 'medium': return 'bg-yellow-500';
+    case 'low': return 'bg-success';
+    default: return 'bg-muted-foreground';
+  }
+};
+
+const getSeverityBg = (severity: string) => {
+  switch (severity) {
+    case 'critical': return 'bg-destructive/10';
+    case 'high': return 'bg-warning/10';
+    case 'medium': return 'bg-yellow-500/10';
+    case 'low': return 'bg-success/10';
+    default: return 'bg-muted/30';
+  }
+};
+
+function UnverifiedBadge() {
+  return (
+    <Badge variant="outline" className="text-[10px] gap-1 text-warning border-warning/40" title="The reported snippet was not found in the uploaded file">
+      <HelpCircle className="w-3 h-3" />Unverified
+    </Badge>
+  );
 }
 
-export function CodeViewer({ vulnerabilities, fileName }: CodeViewerProps) {
-  const [expandedVuln, setExpandedVuln] = useState<string | null>(null);
-
-  // Group vulnerabilities by component/file
-  const vulnsByFile = vulnerabilities.reduce((acc, vuln) => {
-    const file = vuln.affected_component || 'Unknown';
-    if (!acc[file]) acc[file] = [];
-    acc[file].push(vuln);
-    return acc;
-  }, {} as Record<string, Vulnerability[]>);
-
-  const getSeverityColor = (severity: string) => {
-    switch (severity) {
-      case 'critical': return 'bg-destructive/20 border-destructive text-destructive';
-      case 'high': return 'bg-warning/20 border-warning text-warning';
-      case 'medium': return 'bg-yellow-500/20 border-yellow-500 text-yellow-400';
-      case 'low': return 'bg-success/20 border-success text-success';
-      default: return 'bg-muted border-muted-foreground text-muted-foreground';
-    }
-  };
-
-  const getSeverityBg = (severity: string) => {
-    switch (severity) {
-      case 'critical': return 'bg-destructive/10';
-      case 'high': return 'bg-warning/10';
-      case 'medium': return 'bg-yellow-500/10';
-      case 'low': return 'bg-success/10';
-      default: return 'bg-muted/30';
-    }
-  };
-
-  return (
-    <div className="glass-card rounded-xl border border-border overflow-hidden">
-      <div className="p-5 border-b border-border flex items-center gap-3">
-        <FileCode className="w-5 h-5 text-primary" />
-        <div>
-          <h3 className="text-lg font-semibold text-foreground">Security Analysis</h3>
-          <p className="text-sm text-muted-foreground">Vulnerabilities mapped to source locations</p>
+function AnnotationCard({ annotation }: { annotation: Annotation }) {
+  if (annotation.kind === 'compliance') {
+    const result = annotation.item;
+    return (
+      <div className="rounded-lg border border-warning/30 bg-warning/10 p-3 space-y-1">
+        <div className="flex items-center gap-2 flex-wrap">
+          <ClipboardCheck className="w-4 h-4 text-warning" />
+          <span className="text-sm font-medium">{result.framework} {result.rule_id}</span>
+          <Badge variant="outline" className="text-xs">{result.status}</Badge>
         </div>
+        {result.rule_description && <p className="text-xs text-muted-foreground">{result.rule_description}</p>}
+        {result.details && <p className="text-sm text-foreground">{result.details}</p>}
       </div>
+    );
+  }
 
-      <div className="divide-y divide-border">
-        {Object.entries(vulnsByFile).map(([file, fileVulns]) => (
-          <div key={file} className="p-4">
-            {/* File Header */}
-            <div className="flex items-center gap-2 mb-4">
-              <Code className="w-4 h-4 text-muted-foreground" />
-              <span className="font-mono text-sm text-foreground">{file}</span>
-              <Badge variant="outline" className="ml-2">
-                {fileVulns.length} issue{fileVulns.length !== 1 ? 's' : ''}
-              </Badge>
-            </div>
-
-            {/* Vulnerabilities in this file */}
-            <div className="space-y-3">
-              {fileVulns.map((vuln) => (
-                <Collapsible
-                  key={vuln.id}
-                  open={expandedVuln === vuln.id}
-                  onOpenChange={(open) => setExpandedVuln(open ? vuln.id : null)}
-                >
-                  <CollapsibleTrigger asChild>
-                    <div 
-                      className={cn(
-                        "rounded-lg border cursor-pointer transition-all hover:shadow-md",
-                        getSeverityColor(vuln.severity)
-                      )}
-                    >
-                      <div className="p-3 flex items-start gap-3">
-                        <Button variant="ghost" size="icon" className="h-5 w-5 shrink-0 mt-0.5">
-                          {expandedVuln === vuln.id ? (
-                            <ChevronDown className="w-4 h-4" />
-                          ) : (
-                            <ChevronRight className="w-4 h-4" />
-                          )}
-                        </Button>
-                        
-                        <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
-                        
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center gap-2 flex-wrap">
-                            <span className="font-medium text-sm">{vuln.title}</span>
-                            {vuln.line_number && (
-                              <span className="text-xs font-mono opacity-70">
-                                Line {vuln.line_number}
-                              </span>
-                            )}
-                            {vuln.cwe_id && (
-                              <Badge variant="outline" className="text-xs">
-                                {vuln.cwe_id}
-                              </Badge>
-                            )}
-                          </div>
-                          {vuln.affected_function && (
-                            <p className="text-xs font-mono mt-1 opacity-70">
-                              {vuln.affected_function}
-                            </p>
-                          )}
-                        </div>
-
-                        <div className="text-right shrink-0">
-                          <span className="text-lg font-bold font-mono">
-                            {vuln.cvss_score?.toFixed(1) || 'N/A'}
-                          </span>
-                          <div className="text-xs opacity-70">CVSS</div>
-                        </div>
-                      </div>
-                    </div>
-                  </CollapsibleTrigger>
-
-                  <CollapsibleContent>
-                    <div className={cn("mt-2 rounded-lg p-4 space-y-4", getSeverityBg(vuln.severity))}>
-                      {/* Description */}
-                      <div>
-                        <h5 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2">
-                          Description
-                        </h5>
-                        <p className="text-sm text-foreground">{vuln.description}</p>
-                      </div>
+  const vuln = annotation.item;
+  return (
+    <div className={cn('rounded-lg border border-border p-3 space-y-1', getSeverityBg(vuln.severity))}>
+      <div className="flex items-center gap-2 flex-wrap">
+        <SeverityBadge severity={vuln.severity} />
+        <span className="text-sm font-medium">{vuln.title}</span>
+        {vuln.cwe_id && <Badge variant="outline" className="text-xs">{vuln.cwe_id}</Badge>}
+        {vuln.location_verified === false && <UnverifiedBadge />}
+      </div>
+      {vuln.description && <p className="text-sm text-foreground">{vuln.description}</p>}
+      {vuln.remediation && <p className="text-xs text-muted-foreground"><span className="font-medium text-success">Fix:</span> {vuln.remediation}</p>}
+    </div>
+  );
+}
 
-                      {/* Code Snippet with Line Highlight */}
-                      {vuln.code_snippet && (
-                        <div>
-                          <h5 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2">
-                            Vulnerable Code
-                          </h5>
-                          <div className="rounded-lg overflow-hidden border border-border bg-background">
-                            <div className="px-3 py-2 bg-muted/50 border-b border-border flex items-center gap-2">
-                              <Code className="w-4 h-4 text-muted-foreground" />
-                              <span className="text-xs font-mono text-muted-foreground">
-                                {vuln.affected_component}
-                                {vuln.line_number && `:${vuln.line_number}`}
-                              </span>
-                            </div>
-                            <pre className="p-4 text-sm font-mono overflow-x-auto">
-                              <code className="text-foreground">{vuln.code_snippet}</code>
-                            </pre>
-                          </div>
-                        </div>
-                      )}
+export function CodeViewer({ scan, vulnerabilities, complianceResults, member }: CodeViewerProps) {
+  const { data: bytes, isLoading, error } = useScanImage(scan, true, member);
+  const [selectedLine, setSelectedLine] = useState<number | null>(null);
+  const codeRef = useRef<HTMLDivElement>(null);
+
+  const lines = useMemo(() => (bytes ? new TextDecoder().decode(bytes).split(/\r?\n/) : []), [bytes]);
+
+  const highlighted = useMemo(() => {
+    const state = { inBlockComment: false };
+    return lines.map((line) => highlightLine(line, state));
+  }, [lines]);
+
+  const annotations = useMemo<Annotation[]>(() => [
+    ...vulnerabilities.map((v) => ({ kind: 'vulnerability' as const, id: v.id, line: v.line_number, item: v })),
+    ...complianceResults
+      .filter((r) => r.status !== 'pass')
+      .map((r) => ({ kind: 'compliance' as const, id: r.id, line: r.line_number, item: r })),
+  ], [vulnerabilities, complianceResults]);
+
+  const byLine = useMemo(() => {
+    const map = new Map<number, Annotation[]>();
+    for (const annotation of annotations) {
+      if (annotation.line === null || annotation.line > lines.length) continue;
+      map.set(annotation.line, [...(map.get(annotation.line) ?? []), annotation]);
+    }
+    return map;
+  }, [annotations, lines.length]);
 
-                      {/* Attack Vector */}
-                      {vuln.attack_vector && (
-                        <div className="p-3 rounded-lg bg-destructive/10 border border-destructive/30">
-                          <h5 className="text-xs font-medium text-destructive uppercase tracking-wide mb-2 flex items-center gap-2">
-                            <Shield className="w-3 h-3" />
-                            Attack Vector
-                          </h5>
-                          <p className="text-sm text-foreground">{vuln.attack_vector}</p>
-                        </div>
-                      )}
+  const unplaced = annotations.filter((a) => a.line === null || a.line > lines.length);
+  const unverifiedCount = vulnerabilities.filter((v) => v.location_verified === false).length;
 
-                      {/* Impact */}
-                      {vuln.impact && (
-                        <div className="p-3 rounded-lg bg-warning/10 border border-warning/30">
-                          <h5 className="text-xs font-medium text-warning uppercase tracking-wide mb-2">
-                            Impact
-                          </h5>
-                          <p className="text-sm text-foreground">{vuln.impact}</p>
-                        </div>
-                      )}
+  const worstSeverity = (items: Annotation[]) => items
+    .filter((a): a is Extract<Annotation, { kind: 'vulnerability' }> => a.kind === 'vulnerability')
+    .map((a) => a.item.severity)
+    .sort((a, b) => SEVERITY_ORDER.indexOf(b) - SEVERITY_ORDER.indexOf(a))[0];
 
-                      {/* Remediation */}
-                      {vuln.remediation && (
-                        <div className="p-3 rounded-lg bg-success/10 border border-success/30">
-                          <h5 className="text-xs font-medium text-success uppercase tracking-wide mb-2">
-                            Remediation
-                          </h5>
-                          <p className="text-sm text-foreground">{vuln.remediation}</p>
-                        </div>
-                      )}
+  const goToLine = (line: number) => {
+    setSelectedLine(line);
+    codeRef.current?.querySelector(`[data-line="${line}"]`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  };
 
-                      {/* LLM Enrichment - Detailed Analysis */}
-                      {vuln.llm_enrichment && typeof vuln.llm_enrichment === 'object' && (
-                        <div className="p-3 rounded-lg bg-primary/10 border border-primary/30">
-                          <h5 className="text-xs font-medium text-primary uppercase tracking-wide mb-3 flex items-center gap-2">
-                            <Shield className="w-3 h-3" />
-                            AI Security Analysis
-                          </h5>
-                          
-                          {(vuln.llm_enrichment as any).detailed_explanation && (
-                            <div className="mb-3">
-                              <p className="text-sm text-foreground">
-                                {(vuln.llm_enrichment as any).detailed_explanation}
-                              </p>
-                            </div>
-                          )}
+  if (isLoading) {
+    return (
+      <div className="glass-card rounded-xl border border-border p-8 flex items-center justify-center text-muted-foreground">
+        <Loader2 className="w-5 h-5 animate-spin mr-2" />Loading source...
+      </div>
+    );
+  }
 
-                          {(vuln.llm_enrichment as any).attack_scenarios && (
-                            <div className="mb-3">
-                              <h6 className="text-xs font-medium text-primary mb-2">Attack Scenarios:</h6>
-                              <ul className="list-disc list-inside text-sm text-foreground space-y-1">
-                                {((vuln.llm_enrichment as any).attack_scenarios as string[]).slice(0, 3).map((scenario, i) => (
-                                  <li key={i} className="text-muted-foreground">{scenario}</li>
-                                ))}
-                              </ul>
-                            </div>
-                          )}
+  if (error || !bytes) {
+    return (
+      <div className="glass-card rounded-xl border border-border p-8 text-center text-muted-foreground">
+        Could not load the stored source{error ? `: ${(error as Error).message}` : ''}
+      </div>
+    );
+  }
 
-                          {(vuln.llm_enrichment as any).step_by_step_remediation && (
-                            <div className="mb-3">
-                              <h6 className="text-xs font-medium text-primary mb-2">Fix Steps:</h6>
-                              <ol className="list-decimal list-inside text-sm space-y-1">
-                                {((vuln.llm_enrichment as any).step_by_step_remediation as string[]).map((step, i) => (
-                                  <li key={i} className="text-muted-foreground">{step}</li>
-                                ))}
-                              </ol>
-                            </div>
-                          )}
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-[1fr_340px] gap-4">
+      <div className="glass-card rounded-xl border border-border overflow-hidden">
+        <div className="p-4 border-b border-border flex items-center gap-3">
+          <FileCode className="w-5 h-5 text-primary" />
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">{member?.path ?? scan.file_name}</h3>
+            <p className="text-sm text-muted-foreground">{lines.length.toLocaleString()} lines · {byLine.size} annotated</p>
+          </div>
+        </div>
 
-                          {(vuln.llm_enrichment as any).code_fix_example && (
-                            <div>
-                              <h6 className="text-xs font-medium text-primary mb-2">Fixed Code Example:</h6>
-                              <pre className="p-3 rounded bg-background border border-border text-xs font-mono overflow-x-auto whitespace-pre-wrap">
-                                {(vuln.llm_enrichment as any).code_fix_example}
-                              </pre>
-                            </div>
-                          )}
+        <div ref={codeRef} className="max-h-[640px] overflow-auto font-mono text-xs leading-5">
+          {highlighted.map((tokens: Token[], index) => {
+            const lineNumber = index + 1;
+            const lineAnnotations = byLine.get(lineNumber);
+            const severity = lineAnnotations && worstSeverity(lineAnnotations);
+            const isSelected = selectedLine === lineNumber;
+            return (
+              <Fragment key={lineNumber}>
+                <div
+                  data-line={lineNumber}
+                  className={cn(
+                    'flex',
+                    lineAnnotations && (severity ? getSeverityBg(severity) : 'bg-warning/5'),
+                    isSelected && 'ring-1 ring-inset ring-primary',
+                  )}
+                >
+                  <button
+                    className="w-6 shrink-0 flex items-center justify-center"
+                    disabled={!lineAnnotations}
+                    onClick={() => setSelectedLine(isSelected ? null : lineNumber)}
+                    title={lineAnnotations ? `${lineAnnotations.length} annotation(s)` : undefined}
+                  >
+                    {lineAnnotations && (
+                      severity
+                        ? <span className={cn('w-2 h-2 rounded-full', getSeverityColor(severity))} />
+                        : <ClipboardCheck className="w-3 h-3 text-warning" />
+                    )}
+                  </button>
+                  <span className="w-12 shrink-0 pr-3 text-right text-muted-foreground/60 select-none">{lineNumber}</span>
+                  <pre className="flex-1 whitespace-pre">
+                    {tokens.map((token, i) => <span key={i} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>)}
+                  </pre>
+                </div>
+                {isSelected && lineAnnotations && (
+                  <div className="pl-[72px] pr-4 py-2 space-y-2 border-y border-border bg-background font-sans">
+                    {lineAnnotations.map((annotation) => <AnnotationCard key={annotation.id} annotation={annotation} />)}
+                  </div>
+                )}
+              </Fragment>
+            );
+          })}
+        </div>
+      </div>
 
-                          {(vuln.llm_enrichment as any).iso_considerations && (
-                            <div className="mt-3 p-2 rounded bg-primary/5 border border-primary/20">
-                              <h6 className="text-xs font-medium text-primary mb-1">ISO 26262/21434 Considerations:</h6>
-                              <p className="text-xs text-muted-foreground">
-                                {(vuln.llm_enrichment as any).iso_considerations}
-                              </p>
-                            </div>
-                          )}
-                        </div>
-                      )}
-                    </div>
-                  </CollapsibleContent>
-                </Collapsible>
-              ))}
+      <div className="glass-card rounded-xl border border-border overflow-hidden">
+        <div className="p-4 border-b border-border flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 text-warning" />
+          <h4 className="font-medium text-foreground">Annotations</h4>
+          <Badge variant="secondary" className="ml-auto">{annotations.length}</Badge>
+          {unverifiedCount > 0 && <UnverifiedBadge />}
+        </div>
+        <div className="max-h-[640px] overflow-y-auto divide-y divide-border">
+          {[...byLine.entries()].sort(([a], [b]) => a - b).flatMap(([line, items]) => items.map((annotation) => (
+            <button
+              key={annotation.id}
+              className="w-full text-left p-3 hover:bg-muted/30 transition-colors"
+              onClick={() => goToLine(line)}
+            >
+              <div className="flex items-center gap-2 mb-1">
+                <span className="text-xs font-mono text-muted-foreground">L{line}</span>
+                {annotation.kind === 'vulnerability'
+                  ? <SeverityBadge severity={annotation.item.severity} />
+                  : <Badge variant="outline" className="text-xs">{annotation.item.framework}</Badge>}
+                {annotation.kind === 'vulnerability' && annotation.item.location_verified === false && <UnverifiedBadge />}
+              </div>
+              <p className="text-sm text-foreground truncate">
+                {annotation.kind === 'vulnerability' ? annotation.item.title : `${annotation.item.rule_id}: ${annotation.item.rule_description ?? ''}`}
+              </p>
+            </button>
+          )))}
+          {unplaced.length > 0 && (
+            <div className="p-3 space-y-2">
+              <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Without a source line</p>
+              {unplaced.map((annotation) => <AnnotationCard key={annotation.id} annotation={annotation} />)}
             </div>
-          </div>
-        ))}
-
-        {vulnerabilities.length === 0 && (
-          <div className="p-8 text-center text-muted-foreground">
-            No vulnerabilities found in this scan.
-          </div>
-        )}
+          )}
+          {annotations.length === 0 && (
+            <p className="p-4 text-sm text-muted-foreground">No findings in this file.</p>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,188 @@
+import { AlertTriangle, Cpu, KeyRound, Network, ShieldCheck, ShieldOff } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { EcuModelMetadata } from '@/types/scan';
+
+interface EcuModelCardProps {
+  model: EcuModelMetadata;
+}
+
+const formatServiceId = (serviceId: number | null) =>
+  serviceId === null ? '—' : `0x${serviceId.toString(16).toUpperCase().padStart(2, '0')}`;
+
+export function EcuModelCard({ model }: EcuModelCardProps) {
+  const portCount = model.components.reduce((sum, component) => sum + component.ports.length, 0);
+  const runnableCount = model.components.reduce((sum, component) => sum + component.runnables.length, 0);
+
+  // Safety-relevant PDUs first, unprotected ones at the top
+  const pdus = [...model.pdus].sort((a, b) =>
+    Number(b.safetyRelevant) - Number(a.safetyRelevant) || Number(!!a.securedBy) - Number(!!b.securedBy) || a.name.localeCompare(b.name));
+
+  const stats = [
+    { label: 'ECU instances', value: model.ecuInstances.length },
+    { label: 'SW components', value: model.components.length },
+    { label: 'Ports', value: portCount },
+    { label: 'Runnables', value: runnableCount },
+    { label: 'Signals', value: model.signalCount },
+    { label: 'PDUs', value: model.pdus.length },
+  ];
+
+  return (
+    <Card className="p-6 border border-border">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+          <Cpu className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-foreground">ECU Architecture Model</h3>
+          <p className="text-sm text-muted-foreground">
+            Parsed from {model.documents.length} ARXML file(s){model.extract ? ` · ECU extract ${model.extract}` : ''}
+          </p>
+        </div>
+        {model.truncated && <Badge variant="outline" className="ml-auto text-warning border-warning/40">Truncated</Badge>}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3 mb-6">
+        {stats.map((stat) => (
+          <div key={stat.label} className="p-3 rounded-lg bg-muted/50 border border-border">
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+            <p className="text-lg font-semibold text-foreground">{stat.value.toLocaleString()}</p>
+          </div>
+        ))}
+      </div>
+
+      {model.ecuInstances.length > 0 && (
+        <div className="mb-6">
+          <h4 className="text-sm font-medium text-foreground mb-3 flex items-center gap-2">
+            <Network className="w-4 h-4" />
+            Bus Interfaces
+          </h4>
+          <div className="space-y-2">
+            {model.ecuInstances.map((ecu) => (
+              <div key={`${ecu.file}:${ecu.line}`} className="flex items-center gap-2 flex-wrap p-3 rounded-lg bg-muted/50 border border-border">
+                <span className="text-sm font-medium">{ecu.name}</span>
+                {ecu.controllers.length === 0 && <span className="text-xs text-muted-foreground">No communication controllers</span>}
+                {ecu.controllers.map((controller) => (
+                  <Badge key={controller.name} variant="outline" className="text-xs font-mono">
+                    {controller.name} · {controller.bus}
+                  </Badge>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {pdus.length > 0 && (
+        <div className="mb-6">
+          <h4 className="text-sm font-medium text-foreground mb-3 flex items-center gap-2">
+            <ShieldCheck className="w-4 h-4" />
+            PDU Protection (SecOC)
+          </h4>
+          <div className="max-h-80 overflow-y-auto rounded-lg border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>PDU</TableHead>
+                  <TableHead className="w-[90px] text-right">Length</TableHead>
+                  <TableHead>Signals</TableHead>
+                  <TableHead className="w-[200px]">SecOC</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pdus.map((pdu) => (
+                  <TableRow key={pdu.path}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-sm">{pdu.name}</span>
+                        {pdu.safetyRelevant && <Badge variant="secondary" className="text-xs">Safety</Badge>}
+                      </div>
+                      <div className="text-xs text-muted-foreground">{pdu.file}:{pdu.line}</div>
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-xs text-muted-foreground">
+                      {pdu.length === null ? '—' : `${pdu.length} B`}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground max-w-[280px] truncate" title={pdu.signals.join(', ')}>
+                      {pdu.signals.length > 0 ? pdu.signals.join(', ') : '—'}
+                    </TableCell>
+                    <TableCell>
+                      {pdu.securedBy ? (
+                        <Badge variant="outline" className="gap-1 text-xs text-green-500 border-green-500/40">
+                          <ShieldCheck className="w-3 h-3" />{pdu.securedBy}
+                        </Badge>
+                      ) : pdu.safetyRelevant ? (
+                        <Badge variant="destructive" className="gap-1 text-xs">
+                          <ShieldOff className="w-3 h-3" />Missing
+                        </Badge>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">Not protected</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      {model.diagnosticServices.length > 0 && (
+        <div className="mb-6">
+          <h4 className="text-sm font-medium text-foreground mb-3 flex items-center gap-2">
+            <KeyRound className="w-4 h-4" />
+            Diagnostic Services
+          </h4>
+          <div className="max-h-80 overflow-y-auto rounded-lg border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[80px]">SID</TableHead>
+                  <TableHead>Service</TableHead>
+                  <TableHead>Sessions</TableHead>
+                  <TableHead>Access Control</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {model.diagnosticServices.map((service) => {
+                  const access = [...service.securityLevels, ...service.authenticationRoles];
+                  return (
+                    <TableRow key={`${service.file}:${service.line}`}>
+                      <TableCell className="font-mono text-xs">{formatServiceId(service.serviceId)}</TableCell>
+                      <TableCell>
+                        <div className="text-sm">{service.service}</div>
+                        <div className="text-xs text-muted-foreground">{service.name}</div>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {service.sessions.length > 0 ? service.sessions.join(', ') : 'Any'}
+                      </TableCell>
+                      <TableCell>
+                        {access.length > 0 ? (
+                          <div className="flex flex-wrap gap-1">
+                            {access.map((level) => <Badge key={level} variant="outline" className="text-xs">{level}</Badge>)}
+                          </div>
+                        ) : (
+                          <span className="text-xs text-destructive font-medium">Unrestricted</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      {model.errors.length > 0 && (
+        <div className="p-3 rounded-lg border border-warning/30 bg-warning/10 space-y-1">
+          <p className="text-sm font-medium flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 text-warning" />
+            Some ARXML content could not be parsed
+          </p>
+          {model.errors.map((error) => <p key={error} className="text-xs text-muted-foreground">{error}</p>)}
+        </div>
+      )}
+    </Card>
+  );
+}
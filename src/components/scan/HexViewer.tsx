@@ -0,0 +1,331 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Binary, Copy, CornerDownRight, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { SeverityBadge } from '@/components/ui/severity-badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { useScanImage } from '@/hooks/useScanImage';
+import { cn } from '@/lib/utils';
+import type { Scan, Vulnerability } from '@/hooks/useScans';
+import type { ArchiveMemberMetadata, ScanAnalysisMetadata } from '@/types/scan';
+
+export interface ByteRange {
+  offset: number;
+  length: number;
+}
+
+interface HexViewerProps {
+  scan: Scan;
+  vulnerabilities: Vulnerability[];
+  /** Range to scroll to and select, e.g. from the Strings tab. */
+  target: ByteRange | null;
+  /** Archive member to show instead of the uploaded file. */
+  member?: ArchiveMemberMetadata | null;
+}
+
+interface Overlay extends ByteRange {
+  vulnerability: Vulnerability;
+}
+
+interface Section {
+  name: string;
+  offset: number;
+  size: number;
+  address: number | null;
+}
+
+const BYTES_PER_ROW = 16;
+const ROW_HEIGHT = 20;
+const VIEWPORT_ROWS = 24;
+const VIEWPORT_HEIGHT = VIEWPORT_ROWS * ROW_HEIGHT;
+// Browsers cap element height (~33M px in Chrome); larger images scroll proportionally
+const MAX_SCROLL_HEIGHT = 8_000_000;
+const MAX_COPY_BYTES = 64 * 1024;
+
+const SEVERITY_ORDER = ['info', 'low', 'medium', 'high', 'critical'];
+
+const SEVERITY_BG: Record<string, string> = {
+  critical: 'bg-destructive/40',
+  high: 'bg-warning/40',
+  medium: 'bg-yellow-500/40',
+  low: 'bg-success/30',
+  info: 'bg-muted',
+};
+
+const toHex = (value: number, width: number) => value.toString(16).padStart(width, '0');
+
+/** Formats bytes as a C initializer, twelve values per line. */
+function toCArray(bytes: Uint8Array, offset: number): string {
+  const lines: string[] = [];
+  for (let i = 0; i < bytes.length; i += 12) {
+    lines.push('    ' + Array.from(bytes.subarray(i, i + 12)).map((b) => `0x${toHex(b, 2)}`).join(', '));
+  }
+  return `/* offset 0x${toHex(offset, 8)}, ${bytes.length} bytes */\nconst uint8_t data_${toHex(offset, 8)}[${bytes.length}] = {\n${lines.join(',\n')}\n};\n`;
+}
+
+function imageSections(metadata: ScanAnalysisMetadata | null): Section[] {
+  if (metadata?.elf) {
+    return metadata.elf.sections
+      .filter((s) => s.type !== 'NOBITS' && s.size > 0 && s.offset > 0)
+      .map((s) => ({ name: s.name, offset: s.offset, size: s.size, address: s.flags.includes('A') ? s.address : null }));
+  }
+  return (metadata?.memoryMap?.segments ?? []).map((s) => ({
+    name: s.name || `segment@0x${s.address.toString(16)}`,
+    offset: s.offset,
+    size: s.size,
+    address: s.address,
+  }));
+}
+
+export function HexViewer({ scan, vulnerabilities, target, member }: HexViewerProps) {
+  // Section layouts are only recorded for single-file uploads
+  const metadata = member ? null : scan.metadata as ScanAnalysisMetadata | null;
+  const { data: image, isLoading, error } = useScanImage(scan, true, member);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [selection, setSelection] = useState<ByteRange | null>(null);
+  const [anchor, setAnchor] = useState<number | null>(null);
+  const [gotoInput, setGotoInput] = useState('');
+
+  const sections = useMemo(() => imageSections(metadata), [metadata]);
+  const overlays = useMemo<Overlay[]>(() => vulnerabilities
+    .filter((v) => v.byte_offset !== null)
+    .map((v) => ({ offset: v.byte_offset!, length: Math.max(1, v.byte_length ?? 1), vulnerability: v }))
+    .sort((a, b) => a.offset - b.offset), [vulnerabilities]);
+
+  const size = image?.length ?? 0;
+  const rowCount = Math.ceil(size / BYTES_PER_ROW);
+  // Only the visible rows are rendered; the scroll position maps linearly onto the first row
+  const lastFirstRow = Math.max(0, rowCount - VIEWPORT_ROWS);
+  const scrollHeight = Math.max(VIEWPORT_HEIGHT, Math.min(rowCount * ROW_HEIGHT, MAX_SCROLL_HEIGHT));
+  const maxScrollTop = scrollHeight - VIEWPORT_HEIGHT;
+  const firstRow = maxScrollTop > 0 ? Math.round((scrollTop / maxScrollTop) * lastFirstRow) : 0;
+  const visibleRows = Array.from({ length: Math.min(VIEWPORT_ROWS, rowCount - firstRow) }, (_, i) => firstRow + i);
+
+  // Stable for a given image size, so the jump effect below only re-runs for a new target
+  const scrollToOffset = useCallback((offset: number) => {
+    const row = Math.min(lastFirstRow, Math.max(0, Math.floor(offset / BYTES_PER_ROW) - 2));
+    scrollRef.current?.scrollTo({ top: lastFirstRow > 0 ? (row / lastFirstRow) * maxScrollTop : 0 });
+  }, [lastFirstRow, maxScrollTop]);
+
+  const reveal = useCallback((range: ByteRange) => {
+    setSelection(range);
+    scrollToOffset(range.offset);
+  }, [scrollToOffset]);
+
+  useEffect(() => {
+    if (target && image) reveal(target);
+  }, [target, image, reveal]);
+
+  const sectionAt = (offset: number) => sections.find((s) => offset >= s.offset && offset < s.offset + s.size);
+
+  const overlayAt = (offset: number): Overlay | undefined => {
+    let best: Overlay | undefined;
+    for (const overlay of overlays) {
+      if (overlay.offset > offset) break;
+      if (offset < overlay.offset + overlay.length
+        && (!best || SEVERITY_ORDER.indexOf(overlay.vulnerability.severity) > SEVERITY_ORDER.indexOf(best.vulnerability.severity))) {
+        best = overlay;
+      }
+    }
+    return best;
+  };
+
+  const isSelected = (offset: number) => !!selection && offset >= selection.offset && offset < selection.offset + selection.length;
+
+  const handleByteClick = (offset: number, extend: boolean) => {
+    if (extend && anchor !== null) {
+      const start = Math.min(anchor, offset);
+      setSelection({ offset: start, length: Math.abs(offset - anchor) + 1 });
+      return;
+    }
+    setAnchor(offset);
+    setSelection({ offset, length: 1 });
+  };
+
+  // Accepts an image offset ("1f00", "0x1f00") or a load address prefixed with @ ("@0x08001f00")
+  const handleGoto = () => {
+    const text = gotoInput.trim();
+    const isAddress = text.startsWith('@');
+    const value = parseInt(text.replace(/^@/, ''), 16);
+    if (!Number.isFinite(value)) return;
+
+    let offset = value;
+    if (isAddress) {
+      const section = sections.find((s) => s.address !== null && value >= s.address && value < s.address + s.size);
+      if (!section) {
+        toast({ title: 'Address not mapped', description: `0x${toHex(value, 8)} is outside every section`, variant: 'destructive' });
+        return;
+      }
+      offset = section.offset + (value - section.address!);
+    }
+    if (offset >= size) {
+      toast({ title: 'Offset out of range', description: `The image is 0x${toHex(size, 8)} bytes`, variant: 'destructive' });
+      return;
+    }
+    reveal({ offset, length: 1 });
+    setAnchor(offset);
+  };
+
+  const handleCopy = async () => {
+    if (!image || !selection) return;
+    const length = Math.min(selection.length, MAX_COPY_BYTES);
+    await navigator.clipboard.writeText(toCArray(image.subarray(selection.offset, selection.offset + length), selection.offset));
+    toast({
+      title: 'Copied as C array',
+      description: length < selection.length ? `First ${length} of ${selection.length} bytes` : `${length} bytes`,
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="glass-card rounded-xl border border-border p-8 flex items-center justify-center text-muted-foreground">
+        <Loader2 className="w-5 h-5 animate-spin mr-2" />Loading image...
+      </div>
+    );
+  }
+
+  if (error || !image) {
+    return (
+      <div className="glass-card rounded-xl border border-border p-8 text-center text-muted-foreground">
+        Could not load the stored image{error ? `: ${(error as Error).message}` : ''}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-[1fr_320px] gap-4">
+      <div className="glass-card rounded-xl border border-border overflow-hidden">
+        <div className="p-4 border-b border-border flex flex-wrap items-center gap-2">
+          <Binary className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold text-foreground mr-2">Hex View</h3>
+          {member && <Badge variant="outline" className="font-mono text-xs">{member.path}</Badge>}
+          <Badge variant="secondary">{size.toLocaleString()} bytes</Badge>
+          <div className="flex items-center gap-2 ml-auto">
+            {sections.length > 0 && (
+              <Select onValueChange={(value) => reveal({ offset: Number(value), length: 1 })}>
+                <SelectTrigger className="w-[180px] h-8 bg-muted/50 text-xs">
+                  <SelectValue placeholder="Jump to section" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sections.map((s) => (
+                    <SelectItem key={`${s.name}-${s.offset}`} value={String(s.offset)} className="font-mono text-xs">
+                      {s.name} @ 0x{toHex(s.offset, 8)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Input
+              value={gotoInput}
+              onChange={(e) => setGotoInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleGoto()}
+              placeholder="Offset or @address"
+              className="w-[160px] h-8 bg-muted/50 font-mono text-xs"
+            />
+            <Button variant="outline" size="icon" className="h-8 w-8" onClick={handleGoto} title="Go to">
+              <CornerDownRight className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" className="h-8 gap-1.5" disabled={!selection} onClick={handleCopy}>
+              <Copy className="w-3.5 h-3.5" />Copy as C
+            </Button>
+          </div>
+        </div>
+
+        <div
+          ref={scrollRef}
+          className="overflow-auto font-mono text-xs select-none"
+          style={{ height: VIEWPORT_HEIGHT }}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        >
+          <div style={{ height: scrollHeight }}>
+            <div className="sticky top-0 px-3">
+              {visibleRows.map((row) => {
+                const rowOffset = row * BYTES_PER_ROW;
+                const bytes = image.subarray(rowOffset, Math.min(rowOffset + BYTES_PER_ROW, size));
+                const section = sectionAt(rowOffset);
+                return (
+                  <div key={row} className="flex gap-4 whitespace-pre" style={{ height: ROW_HEIGHT, lineHeight: `${ROW_HEIGHT}px` }}>
+                    <span className="text-muted-foreground w-[72px]">{toHex(rowOffset, 8)}</span>
+                    <span className="text-muted-foreground/60 w-[72px] hidden lg:inline">
+                      {section?.address != null ? toHex(section.address + rowOffset - section.offset, 8) : '        '}
+                    </span>
+                    <span>
+                      {Array.from(bytes).map((b, i) => {
+                        const offset = rowOffset + i;
+                        const overlay = overlayAt(offset);
+                        return (
+                          <span
+                            key={i}
+                            title={overlay ? `${overlay.vulnerability.title} (${overlay.vulnerability.severity})` : undefined}
+                            className={cn(
+                              'cursor-pointer px-[3px]',
+                              i === 8 && 'ml-2',
+                              overlay && SEVERITY_BG[overlay.vulnerability.severity],
+                              isSelected(offset) && 'ring-1 ring-primary bg-primary/30 text-primary',
+                            )}
+                            onClick={(e) => handleByteClick(offset, e.shiftKey)}
+                          >
+                            {toHex(b, 2)}
+                          </span>
+                        );
+                      })}
+                    </span>
+                    <span>
+                      {Array.from(bytes).map((b, i) => (
+                        <span
+                          key={i}
+                          className={cn(isSelected(rowOffset + i) ? 'bg-primary/30 text-primary' : 'text-muted-foreground')}
+                        >
+                          {b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.'}
+                        </span>
+                      ))}
+                    </span>
+                    {section && rowOffset === section.offset - (section.offset % BYTES_PER_ROW) && (
+                      <span className="text-primary/70">{section.name}</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+        <div className="px-4 py-2 border-t border-border text-xs text-muted-foreground flex justify-between">
+          <span>Click a byte to select, shift-click to extend</span>
+          {selection && (
+            <span className="font-mono">
+              0x{toHex(selection.offset, 8)} - 0x{toHex(selection.offset + selection.length - 1, 8)} ({selection.length} bytes)
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="glass-card rounded-xl border border-border overflow-hidden">
+        <div className="p-4 border-b border-border flex items-center gap-2">
+          <h4 className="font-medium text-foreground">Located Findings</h4>
+          <Badge variant="secondary" className="ml-auto">{overlays.length}</Badge>
+        </div>
+        <div className="max-h-[480px] overflow-y-auto divide-y divide-border">
+          {overlays.map(({ offset, length, vulnerability }) => (
+            <button
+              key={vulnerability.id}
+              className="w-full text-left p-3 hover:bg-muted/30 transition-colors"
+              onClick={() => reveal({ offset, length })}
+            >
+              <div className="flex items-center gap-2 mb-1">
+                <SeverityBadge severity={vulnerability.severity} />
+                <span className="text-xs font-mono text-muted-foreground">0x{toHex(offset, 8)}</span>
+              </div>
+              <p className="text-sm text-foreground truncate">{vulnerability.title}</p>
+            </button>
+          ))}
+          {overlays.length === 0 && (
+            <p className="p-4 text-sm text-muted-foreground">No findings carry a byte location in this image.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
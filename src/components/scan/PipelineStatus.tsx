@@ -5,6 +5,8 @@ import { cn } from '@/lib/utils';
 interface PipelineStatusProps {
   currentStatus: ScanStatus;
   progress: number;
+  /** Last stage reached before the scan failed; marked with the failure icon. */
+  failedStage?: ScanStatus;
 }
 
 const stages: { status: ScanStatus; label: string }[] = [
@@ -25,9 +27,9 @@ const stageOrder: Record<ScanStatus, number> = {
   failed: -2,
 };
 
-export function PipelineStatus({ currentStatus, progress }: PipelineStatusProps) {
-  const currentStageIndex = stageOrder[currentStatus];
+export function PipelineStatus({ currentStatus, progress, failedStage }: PipelineStatusProps) {
   const isFailed = currentStatus === 'failed';
+  const currentStageIndex = isFailed ? Math.max(0, stageOrder[failedStage ?? 'parsing']) : stageOrder[currentStatus];
 
   return (
     <div className="glass-card rounded-xl border border-border p-6">
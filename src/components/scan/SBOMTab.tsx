@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Download, Package, AlertTriangle, ExternalLink, FileJson, Shield, CheckCircle, AlertCircle, XCircle } from 'lucide-react';
+import { Download, Package, AlertTriangle, ExternalLink, FileJson, Shield, CheckCircle, AlertCircle, XCircle, KeyRound } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
@@ -8,15 +8,54 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import type { SBOMComponent } from '@/hooks/useScans';
+import type { SBOMComponent, VulnerabilityMatch } from '@/hooks/useScans';
+import type { ComponentEvidence, CryptoInventoryMetadata, VulnMatchEvidence } from '@/types/scan';
 
 interface SBOMTabProps {
   scanId: string;
   components: SBOMComponent[];
   ecuName: string;
+  crypto?: CryptoInventoryMetadata[];
+  matches?: VulnerabilityMatch[];
 }
 
-export function SBOMTab({ scanId, components, ecuName }: SBOMTabProps) {
+const PRIMITIVE_LABELS: Record<CryptoInventoryMetadata['algorithms'][number]['primitive'], string> = {
+  'block-cipher': 'Block cipher',
+  'stream-cipher': 'Stream cipher',
+  hash: 'Hash',
+  mac: 'MAC',
+  signature: 'Signature',
+  'key-agree': 'Key agreement',
+};
+
+const CONFIDENCE_STYLES: Record<string, string> = {
+  high: 'text-green-600 border-green-600/30',
+  medium: 'text-yellow-600 border-yellow-600/30',
+  low: 'text-muted-foreground',
+};
+
+const EVIDENCE_LABELS: Record<ComponentEvidence['kind'], string> = {
+  banner: 'Banner',
+  symbol: 'Symbol',
+  string: 'String',
+  include: 'Include',
+  'version-macro': 'Version macro',
+  llm: 'Reported by model',
+};
+
+const MATCHED_BY_LABELS: Record<string, string> = {
+  cpe: 'CPE',
+  purl: 'purl',
+  'package-name': 'Package',
+};
+
+const algorithmLabel = (algorithm: CryptoInventoryMetadata['algorithms'][number]) =>
+  [algorithm.name, algorithm.keyBits, algorithm.mode?.toUpperCase()].filter(Boolean).join('-');
+
+const evidenceLocation = (evidence: CryptoInventoryMetadata['algorithms'][number]['evidence'][number]) =>
+  evidence.line !== null ? `line ${evidence.line}` : evidence.offset !== null ? `offset 0x${evidence.offset.toString(16)}` : null;
+
+export function SBOMTab({ scanId, components, ecuName, crypto = [], matches = [] }: SBOMTabProps) {
   const [isExporting, setIsExporting] = useState(false);
   const [selectedFormat, setSelectedFormat] = useState<'spdx' | 'cyclonedx' | 'swid'>('spdx');
   const [spdxDocument, setSpdxDocument] = useState<string | null>(null);
@@ -120,6 +159,7 @@ export function SBOMTab({ scanId, components, ecuName }: SBOMTabProps) {
       <Tabs defaultValue="components" className="space-y-4">
         <TabsList>
           <TabsTrigger value="components">Component Table</TabsTrigger>
+          <TabsTrigger value="crypto">Crypto Inventory</TabsTrigger>
           <TabsTrigger value="document">SPDX Document</TabsTrigger>
         </TabsList>
 
@@ -132,13 +172,14 @@ export function SBOMTab({ scanId, components, ecuName }: SBOMTabProps) {
                   <TableHead>Version</TableHead>
                   <TableHead>License</TableHead>
                   <TableHead>Vulnerabilities</TableHead>
-                  <TableHead>Usage / Source</TableHead>
+                  <TableHead>Confidence</TableHead>
+                  <TableHead>Evidence</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {components.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
                       No SBOM components detected
                     </TableCell>
                   </TableRow>
@@ -146,6 +187,8 @@ export function SBOMTab({ scanId, components, ecuName }: SBOMTabProps) {
                   components.map((component) => {
                     const compliance = getLicenseCompliance(component.license);
                     const vulnCount = getVulnCount(component);
+                    const evidence = (component.evidence as unknown as ComponentEvidence[] | null) ?? [];
+                    const componentMatches = matches.filter((match) => match.component_id === component.id);
                     
                     return (
                       <TableRow key={component.id}>
@@ -186,11 +229,36 @@ export function SBOMTab({ scanId, components, ecuName }: SBOMTabProps) {
                               None
                             </Badge>
                           )}
+                          {componentMatches.map((match) => {
+                            const matchEvidence = match.evidence as unknown as VulnMatchEvidence;
+                            return (
+                              <p key={match.id} className="text-xs text-muted-foreground mt-1 max-w-[260px] truncate" title={matchEvidence.criteria}>
+                                {match.cve_id ?? match.vuln_id} · {MATCHED_BY_LABELS[match.matched_by]}: <code>{matchEvidence.range}</code>
+                                {matchEvidence.assumed_platforms.length > 0 ? ' · platform assumed' : ''}
+                              </p>
+                            );
+                          })}
                         </TableCell>
-                        <TableCell className="max-w-[200px] truncate">
-                          <code className="text-xs text-muted-foreground">
-                            {component.source_file || 'N/A'}
-                          </code>
+                        <TableCell>
+                          {component.confidence ? (
+                            <Badge variant="outline" className={CONFIDENCE_STYLES[component.confidence]}>
+                              {component.confidence}
+                            </Badge>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">Unknown</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="max-w-[260px]">
+                          {evidence.length === 0 ? (
+                            <code className="text-xs text-muted-foreground truncate block">
+                              {component.source_file || 'N/A'}
+                            </code>
+                          ) : evidence.map((item, index) => (
+                            <p key={index} className="text-xs text-muted-foreground truncate">
+                              {EVIDENCE_LABELS[item.kind]}: <code>{item.detail}</code>
+                              {item.line !== null ? ` · line ${item.line}` : item.offset !== null ? ` · offset 0x${item.offset.toString(16)}` : ''}
+                            </p>
+                          ))}
                         </TableCell>
                       </TableRow>
                     );
@@ -201,6 +269,71 @@ export function SBOMTab({ scanId, components, ecuName }: SBOMTabProps) {
           </Card>
         </TabsContent>
 
+        <TabsContent value="crypto" className="space-y-4">
+          {crypto.some((inventory) => inventory.libraries.length > 0) && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground">Crypto libraries:</span>
+              {crypto.flatMap((inventory) => inventory.libraries).map((library, index) => (
+                <Badge key={index} variant="outline">{library.name}{library.version ? ` ${library.version}` : ''}</Badge>
+              ))}
+            </div>
+          )}
+          <Card className="border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Algorithm</TableHead>
+                  <TableHead>Primitive</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Evidence</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {crypto.every((inventory) => inventory.algorithms.length === 0) ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground py-8">
+                      No cryptographic algorithms detected
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  crypto.flatMap((inventory) => inventory.algorithms.map((algorithm, index) => (
+                    <TableRow key={`${inventory.file}-${index}`}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          <KeyRound className="w-4 h-4 text-muted-foreground" />
+                          {algorithmLabel(algorithm)}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">{PRIMITIVE_LABELS[algorithm.primitive]}</TableCell>
+                      <TableCell>
+                        {algorithm.weak ? (
+                          <Badge variant="destructive" className="gap-1">
+                            <AlertTriangle className="w-3 h-3" />
+                            Weak
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className="text-green-600 border-green-600/30">
+                            <Shield className="w-3 h-3 mr-1" />
+                            OK
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-[320px]">
+                        {crypto.length > 1 && <p className="font-mono text-xs text-muted-foreground truncate">{inventory.file}</p>}
+                        {algorithm.evidence.map((evidence, evidenceIndex) => (
+                          <p key={evidenceIndex} className="text-xs text-muted-foreground truncate">
+                            <code>{evidence.detail}</code>{evidenceLocation(evidence) ? ` · ${evidenceLocation(evidence)}` : ''}
+                          </p>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  )))
+                )}
+              </TableBody>
+            </Table>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="document">
           <Card className="border border-border p-4">
             <div className="flex items-center justify-between mb-4">
@@ -1,5 +1,5 @@
 import { useState, useMemo } from 'react';
-import { Key, User, AlertTriangle, Eye, EyeOff, Shield, MapPin, Phone, Mail, Fingerprint } from 'lucide-react';
+import { Key, User, AlertTriangle, Eye, EyeOff, Shield } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -19,6 +19,8 @@ interface Vulnerability {
   description: string | null;
   affected_component: string | null;
   line_number: number | null;
+  byte_offset: number | null;
+  detection_method: string | null;
   code_snippet: string | null;
   remediation: string | null;
   attack_vector: string | null;
@@ -30,50 +32,10 @@ interface SecretsFindingsProps {
   vulnerabilities: Vulnerability[];
 }
 
-// Patterns for additional regex-based detection
-const SECRET_PATTERNS = [
-  { name: 'AWS Access Key', regex: /AKIA[0-9A-Z]{16}/gi, type: 'aws_key', severity: 'critical' },
-  { name: 'AWS Secret Key', regex: /[A-Za-z0-9/+=]{40}/gi, type: 'aws_secret', severity: 'critical' },
-  { name: 'API Key', regex: /api[_-]?key['":\s]*[=:]\s*['"]?[A-Za-z0-9_\-]{20,}/gi, type: 'api_key', severity: 'high' },
-  { name: 'Password', regex: /password['":\s]*[=:]\s*['"]?[^\s'"]{8,}/gi, type: 'password', severity: 'critical' },
-  { name: 'Private Key', regex: /-----BEGIN (RSA |EC |DSA )?PRIVATE KEY-----/gi, type: 'private_key', severity: 'critical' },
-  { name: 'JWT Token', regex: /eyJ[A-Za-z0-9_-]*\.eyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]*/gi, type: 'jwt', severity: 'high' },
-  { name: 'Bearer Token', regex: /bearer\s+[A-Za-z0-9_\-\.]+/gi, type: 'bearer', severity: 'high' },
-  { name: 'GitHub Token', regex: /gh[pousr]_[A-Za-z0-9_]{36,}/gi, type: 'github_token', severity: 'critical' },
-];
-
-const PII_PATTERNS = [
-  { name: 'Email Address', regex: /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/gi, type: 'email', severity: 'medium' },
-  { name: 'Phone Number', regex: /(\+\d{1,3}[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}/gi, type: 'phone', severity: 'medium' },
-  { name: 'IP Address', regex: /\b(?:\d{1,3}\.){3}\d{1,3}\b/gi, type: 'ip_address', severity: 'low' },
-  { name: 'MAC Address', regex: /([0-9A-Fa-f]{2}[:-]){5}([0-9A-Fa-f]{2})/gi, type: 'mac_address', severity: 'low' },
-  { name: 'Credit Card', regex: /\b(?:\d{4}[-\s]?){3}\d{4}\b/gi, type: 'credit_card', severity: 'critical' },
-  { name: 'SSN', regex: /\b\d{3}[-\s]?\d{2}[-\s]?\d{4}\b/gi, type: 'ssn', severity: 'critical' },
-];
-
-const getTypeIcon = (type: string) => {
-  switch (type) {
-    case 'email':
-      return <Mail className="w-4 h-4" />;
-    case 'phone':
-      return <Phone className="w-4 h-4" />;
-    case 'ip_address':
-    case 'location':
-      return <MapPin className="w-4 h-4" />;
-    case 'device_id':
-    case 'mac_address':
-      return <Fingerprint className="w-4 h-4" />;
-    case 'api_key':
-    case 'password':
-    case 'private_key':
-    case 'aws_key':
-    case 'jwt':
-    case 'bearer':
-    case 'github_token':
-      return <Key className="w-4 h-4" />;
-    default:
-      return <User className="w-4 h-4" />;
-  }
+const formatLocation = (v: Vulnerability) => {
+  if (v.line_number) return `${v.affected_component}:${v.line_number}`;
+  if (v.byte_offset !== null) return `${v.affected_component} @ 0x${v.byte_offset.toString(16).toUpperCase()}`;
+  return v.affected_component;
 };
 
 export function SecretsFindings({ vulnerabilities }: SecretsFindingsProps) {
@@ -90,50 +52,6 @@ export function SecretsFindings({ vulnerabilities }: SecretsFindingsProps) {
   const secrets = secretsAndPII.filter(v => v.cwe_id === 'CWE-798');
   const piiFindings = secretsAndPII.filter(v => v.cwe_id === 'CWE-359');
 
-  // Additionally scan code snippets with regex for any missed items
-  const regexFindings = useMemo(() => {
-    const findings: { type: string; name: string; value: string; location: string; severity: string; source: string }[] = [];
-    
-    vulnerabilities.forEach(v => {
-      if (v.code_snippet) {
-        // Check for secrets
-        SECRET_PATTERNS.forEach(pattern => {
-          const matches = v.code_snippet?.match(pattern.regex) || [];
-          matches.forEach(match => {
-            findings.push({
-              type: pattern.type,
-              name: pattern.name,
-              value: match,
-              location: `${v.affected_component}:${v.line_number || '?'}`,
-              severity: pattern.severity,
-              source: 'regex',
-            });
-          });
-        });
-        
-        // Check for PII
-        PII_PATTERNS.forEach(pattern => {
-          const matches = v.code_snippet?.match(pattern.regex) || [];
-          matches.forEach(match => {
-            findings.push({
-              type: pattern.type,
-              name: pattern.name,
-              value: match,
-              location: `${v.affected_component}:${v.line_number || '?'}`,
-              severity: pattern.severity,
-              source: 'regex',
-            });
-          });
-        });
-      }
-    });
-    
-    // Deduplicate
-    return findings.filter((f, i, arr) => 
-      arr.findIndex(x => x.value === f.value && x.location === f.location) === i
-    );
-  }, [vulnerabilities]);
-
   const toggleExpand = (id: string) => {
     setExpandedItems(prev => 
       prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]
@@ -149,7 +67,8 @@ export function SecretsFindings({ vulnerabilities }: SecretsFindingsProps) {
     return value.slice(0, 4) + '••••' + value.slice(-4);
   };
 
-  const totalFindings = secrets.length + piiFindings.length + regexFindings.length;
+  const totalFindings = secrets.length + piiFindings.length;
+  const scannerFindings = secretsAndPII.filter(v => v.detection_method === 'pattern').length;
 
   if (totalFindings === 0) {
     return (
@@ -200,11 +119,6 @@ export function SecretsFindings({ vulnerabilities }: SecretsFindingsProps) {
               <User className="w-3 h-3" />
               {piiFindings.length} PII
             </Badge>
-            {regexFindings.length > 0 && (
-              <Badge variant="outline" className="gap-1">
-                +{regexFindings.length} Regex
-              </Badge>
-            )}
           </div>
         </div>
       </CardHeader>
@@ -228,8 +142,8 @@ export function SecretsFindings({ vulnerabilities }: SecretsFindingsProps) {
             <div className="text-xs text-muted-foreground">PII Exposures</div>
           </div>
           <div className="p-3 rounded-lg bg-muted border border-border">
-            <div className="text-xl font-bold text-foreground font-mono">{regexFindings.length}</div>
-            <div className="text-xs text-muted-foreground">Regex Matches</div>
+            <div className="text-xl font-bold text-foreground font-mono">{scannerFindings}</div>
+            <div className="text-xs text-muted-foreground">Scanner Verified</div>
           </div>
         </div>
 
@@ -253,13 +167,15 @@ export function SecretsFindings({ vulnerabilities }: SecretsFindingsProps) {
                         <Key className="w-4 h-4 text-destructive" />
                         <div>
                           <span className="font-medium text-foreground">{secret.title}</span>
-                          <div className="text-xs text-muted-foreground">
-                            {secret.affected_component}
-                            {secret.line_number && `:${secret.line_number}`}
-                          </div>
+                          <div className="text-xs text-muted-foreground font-mono">{formatLocation(secret)}</div>
                         </div>
                       </div>
-                      <SeverityBadge severity={secret.severity} />
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="text-xs">
+                          {secret.detection_method === 'pattern' ? 'Scanner' : 'LLM'}
+                        </Badge>
+                        <SeverityBadge severity={secret.severity} />
+                      </div>
                     </div>
                   </CollapsibleTrigger>
                   <CollapsibleContent className="px-3 pb-3">
@@ -326,13 +242,15 @@ export function SecretsFindings({ vulnerabilities }: SecretsFindingsProps) {
                         <User className="w-4 h-4 text-warning" />
                         <div>
                           <span className="font-medium text-foreground">{pii.title}</span>
-                          <div className="text-xs text-muted-foreground">
-                            {pii.affected_component}
-                            {pii.line_number && `:${pii.line_number}`}
-                          </div>
+                          <div className="text-xs text-muted-foreground font-mono">{formatLocation(pii)}</div>
                         </div>
                       </div>
-                      <SeverityBadge severity={pii.severity} />
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="text-xs">
+                          {pii.detection_method === 'pattern' ? 'Scanner' : 'LLM'}
+                        </Badge>
+                        <SeverityBadge severity={pii.severity} />
+                      </div>
                     </div>
                   </CollapsibleTrigger>
                   <CollapsibleContent className="px-3 pb-3">
@@ -360,38 +278,6 @@ export function SecretsFindings({ vulnerabilities }: SecretsFindingsProps) {
           </div>
         )}
 
-        {/* Regex Findings Section */}
-        {regexFindings.length > 0 && (
-          <div className="space-y-2">
-            <h4 className="text-sm font-semibold text-muted-foreground flex items-center gap-2">
-              <AlertTriangle className="w-4 h-4" />
-              Additional Regex Detections ({regexFindings.length})
-            </h4>
-            <div className="grid gap-2">
-              {regexFindings.map((finding, index) => (
-                <div 
-                  key={`regex-${index}`}
-                  className="flex items-center justify-between p-3 rounded-lg bg-muted/30 border border-border"
-                >
-                  <div className="flex items-center gap-3">
-                    {getTypeIcon(finding.type)}
-                    <div>
-                      <span className="font-medium text-foreground">{finding.name}</span>
-                      <div className="text-xs text-muted-foreground font-mono">{finding.location}</div>
-                    </div>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <code className="text-xs bg-muted px-2 py-1 rounded font-mono">
-                      {maskValue(finding.value)}
-                    </code>
-                    <SeverityBadge severity={finding.severity as any} />
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
-        )}
-
         {/* Compliance Warning */}
         <div className="p-4 rounded-lg bg-warning/10 border border-warning/20 mt-4">
           <div className="flex items-start gap-3">
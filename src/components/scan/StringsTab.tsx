@@ -0,0 +1,196 @@
+import { useEffect, useState } from 'react';
+import { Type, Search, Binary, ChevronLeft, ChevronRight, Loader2, AlertTriangle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useScanStrings, STRINGS_PAGE_SIZE, type StringFilters } from '@/hooks/useScanStrings';
+import type { ByteRange } from '@/components/scan/HexViewer';
+import type { Scan } from '@/hooks/useScans';
+import type { ArchiveMemberMetadata, ScanAnalysisMetadata, StringCategory, StringEncoding } from '@/types/scan';
+
+interface StringsTabProps {
+  scan: Scan;
+  onShowInHex: (range: ByteRange) => void;
+  /** Archive member whose strings are listed instead of the uploaded file's. */
+  member?: ArchiveMemberMetadata | null;
+}
+
+const CATEGORY_STYLES: Record<StringCategory, { label: string; className: string }> = {
+  url: { label: 'URL', className: 'bg-blue-500/20 text-blue-400 border-blue-500/30' },
+  crypto: { label: 'Crypto', className: 'bg-destructive/20 text-destructive border-destructive/30' },
+  path: { label: 'Path', className: 'bg-purple-500/20 text-purple-400 border-purple-500/30' },
+  format: { label: 'Format String', className: 'bg-warning/20 text-warning border-warning/30' },
+  version: { label: 'Version', className: 'bg-success/20 text-success border-success/30' },
+  other: { label: 'Other', className: 'bg-muted text-muted-foreground border-muted-foreground/30' },
+};
+
+const ENCODING_LABELS: Record<StringEncoding, string> = {
+  ascii: 'ASCII',
+  utf16le: 'UTF-16LE',
+  utf16be: 'UTF-16BE',
+};
+
+const formatHex = (value: number) => `0x${value.toString(16).padStart(8, '0')}`;
+
+export function StringsTab({ scan, onShowInHex, member }: StringsTabProps) {
+  const summary = member ? member.strings : (scan.metadata as ScanAnalysisMetadata | null)?.strings;
+  const [searchInput, setSearchInput] = useState('');
+  const [filters, setFilters] = useState<StringFilters>({ search: '', category: 'all', encoding: 'all', page: 0 });
+  const { data, isLoading, isFetching } = useScanStrings(summary ? scan.id : undefined, filters, member?.path);
+
+  // Query the table once typing pauses rather than on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setFilters((f) => (f.search === searchInput ? f : { ...f, search: searchInput, page: 0 })), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  if (!summary) {
+    return (
+      <div className="glass-card rounded-xl border border-border p-8 text-center">
+        <Type className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+        <p className="text-muted-foreground">Strings are extracted from binary uploads only.</p>
+      </div>
+    );
+  }
+
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / STRINGS_PAGE_SIZE));
+
+  return (
+    <div className="glass-card rounded-xl border border-border">
+      <div className="p-5 border-b border-border space-y-4">
+        <div className="flex items-center gap-2">
+          <Type className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold text-foreground">Extracted Strings</h3>
+          {member && <Badge variant="outline" className="font-mono text-xs">{member.path}</Badge>}
+          <Badge variant="secondary" className="ml-2">{summary.total.toLocaleString()}</Badge>
+          {summary.truncated && (
+            <Badge variant="outline" className="gap-1 text-warning border-warning/30">
+              <AlertTriangle className="w-3 h-3" />Limit reached
+            </Badge>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(CATEGORY_STYLES) as StringCategory[]).map((category) => (
+            <Badge
+              key={category}
+              variant="outline"
+              className={`cursor-pointer ${filters.category === category ? CATEGORY_STYLES[category].className : ''}`}
+              onClick={() => setFilters((f) => ({ ...f, category: f.category === category ? 'all' : category, page: 0 }))}
+            >
+              {CATEGORY_STYLES[category].label}
+              <span className="ml-1.5 opacity-70">{(summary.byCategory[category] ?? 0).toLocaleString()}</span>
+            </Badge>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search strings..."
+              className="pl-9 bg-muted/50 font-mono"
+            />
+          </div>
+          <Select
+            value={filters.encoding}
+            onValueChange={(encoding) => setFilters((f) => ({ ...f, encoding: encoding as StringFilters['encoding'], page: 0 }))}
+          >
+            <SelectTrigger className="w-[160px] bg-muted/50">
+              <SelectValue placeholder="Encoding" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Encodings</SelectItem>
+              {(Object.keys(ENCODING_LABELS) as StringEncoding[]).map((encoding) => (
+                <SelectItem key={encoding} value={encoding}>
+                  {ENCODING_LABELS[encoding]} ({(summary.byEncoding[encoding] ?? 0).toLocaleString()})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center p-8 text-muted-foreground">
+          <Loader2 className="w-5 h-5 animate-spin mr-2" />Loading strings...
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[110px]">Offset</TableHead>
+              <TableHead className="w-[110px]">Address</TableHead>
+              <TableHead className="w-[120px]">Section</TableHead>
+              <TableHead className="w-[120px]">Type</TableHead>
+              <TableHead>Value</TableHead>
+              <TableHead className="w-[60px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data?.strings.map((s) => {
+              const category = CATEGORY_STYLES[s.category as StringCategory] ?? CATEGORY_STYLES.other;
+              return (
+                <TableRow key={s.id}>
+                  <TableCell className="font-mono text-xs text-muted-foreground">{formatHex(s.byte_offset)}</TableCell>
+                  <TableCell className="font-mono text-xs text-muted-foreground">{s.address !== null ? formatHex(s.address) : '—'}</TableCell>
+                  <TableCell className="font-mono text-xs truncate max-w-[120px]">{s.section ?? '—'}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={`text-xs ${category.className}`}>{category.label}</Badge>
+                    {s.encoding !== 'ascii' && (
+                      <span className="ml-1 text-[10px] text-muted-foreground">{ENCODING_LABELS[s.encoding as StringEncoding]}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs break-all">{s.value}</TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" title="Show in hex" onClick={() => onShowInHex({ offset: s.byte_offset, length: s.byte_length })}>
+                      <Binary className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {data?.strings.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">No strings match the current filters</TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="p-4 border-t border-border flex items-center justify-between text-sm text-muted-foreground">
+        <span>
+          {total.toLocaleString()} match{total !== 1 ? 'es' : ''}
+          {isFetching && !isLoading && <Loader2 className="inline w-3 h-3 ml-2 animate-spin" />}
+        </span>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8"
+            disabled={filters.page === 0}
+            onClick={() => setFilters((f) => ({ ...f, page: f.page - 1 }))}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span>Page {filters.page + 1} of {pageCount}</span>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8"
+            disabled={filters.page + 1 >= pageCount}
+            onClick={() => setFilters((f) => ({ ...f, page: f.page + 1 }))}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
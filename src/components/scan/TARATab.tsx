@@ -1,17 +1,26 @@
 import { useState } from 'react';
-import { Bell, Shield, AlertTriangle, FileText, Gauge, Target, Lock, Eye, Zap } from 'lucide-react';
+import { Bell, Shield, AlertTriangle, FileText, Gauge, Target, Lock, Eye, Zap, Network } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Progress } from '@/components/ui/progress';
 import { toast } from '@/hooks/use-toast';
+import { EcuModelCard } from '@/components/scan/EcuModelCard';
+import { BusExposureList } from '@/components/scan/BusExposureList';
+import { UdsSurfaceCard } from '@/components/scan/UdsSurfaceCard';
+import { isRemotelyReachable } from '@/lib/bus-exposure';
 import type { Vulnerability } from '@/hooks/useScans';
+import type { BootChainMetadata, BusExposureMetadata, EcuModelMetadata, UdsSurfaceMetadata } from '@/types/scan';
 
 interface TARATabProps {
   vulnerabilities: Vulnerability[];
   ecuName: string;
   riskScore: number | null;
+  ecuModel?: EcuModelMetadata;
+  busExposure?: BusExposureMetadata[];
+  uds?: UdsSurfaceMetadata[];
+  bootChain?: BootChainMetadata[];
 }
 
 interface CIAScore {
@@ -20,7 +29,7 @@ interface CIAScore {
   availability: number;
 }
 
-export function TARATab({ vulnerabilities, ecuName, riskScore }: TARATabProps) {
+export function TARATab({ vulnerabilities, ecuName, riskScore, ecuModel, busExposure, uds, bootChain }: TARATabProps) {
   const [isGenerating, setIsGenerating] = useState(false);
 
   // Calculate CIA scores based on vulnerabilities
@@ -40,9 +49,12 @@ export function TARATab({ vulnerabilities, ecuName, riskScore }: TARATabProps) {
 
   const ciaScores = calculateCIAScores();
 
-  // Identify vulnerabilities that introduce attack paths
+  // Identify vulnerabilities that introduce attack paths; on an ECU reachable
+  // from outside the vehicle every high-severity finding is one
+  const remotelyReachable = isRemotelyReachable(busExposure);
   const attackPathVulns = vulnerabilities.filter(v => 
     v.severity === 'critical' || 
+    (remotelyReachable && v.severity === 'high') ||
     v.attack_vector?.toLowerCase().includes('network') ||
     v.attack_vector?.toLowerCase().includes('remote') ||
     v.cwe_id === 'CWE-78' || // Command injection
@@ -60,11 +72,36 @@ export function TARATab({ vulnerabilities, ecuName, riskScore }: TARATabProps) {
     }, 1500);
   };
 
+  // With an ARXML model, message authentication is the SecOC coverage of safety-relevant PDUs
+  const safetyPdus = ecuModel?.pdus.filter(pdu => pdu.safetyRelevant) ?? [];
+  const authenticationCoverage = safetyPdus.length > 0
+    ? Math.round((safetyPdus.filter(pdu => pdu.securedBy).length / safetyPdus.length) * 100)
+    : 0;
+
+  // Secure boot is the share of boot chain checks (verification, enforcement,
+  // rollback) that passed; without a boot chain analysis it is not assessed
+  const bootChecks = bootChain?.flatMap(report => Object.values(report.checks)) ?? [];
+  const secureBootCoverage = bootChecks.length > 0
+    ? Math.round((bootChecks.filter(status => status === 'pass').length / bootChecks.length) * 100)
+    : 0;
+
   const mitigatingControls = [
     { id: 1, name: 'Input Validation', status: 'implemented', coverage: 65 },
     { id: 2, name: 'Memory Protection', status: 'partial', coverage: 40 },
-    { id: 3, name: 'Authentication', status: 'missing', coverage: 0 },
-    { id: 4, name: 'Secure Boot', status: 'implemented', coverage: 100 },
+    {
+      id: 3,
+      name: 'Authentication',
+      status: authenticationCoverage === 100 ? 'implemented' : authenticationCoverage > 0 ? 'partial' : 'missing',
+      coverage: authenticationCoverage,
+    },
+    {
+      id: 4,
+      name: 'Secure Boot',
+      status: bootChecks.length === 0 ? 'not-assessed'
+        : bootChecks.includes('fail') || secureBootCoverage === 0 ? 'missing'
+        : secureBootCoverage === 100 ? 'implemented' : 'partial',
+      coverage: secureBootCoverage,
+    },
     { id: 5, name: 'Network Firewall', status: 'partial', coverage: 50 },
   ];
 
@@ -125,17 +162,37 @@ export function TARATab({ vulnerabilities, ecuName, riskScore }: TARATabProps) {
                 <div className="flex items-center gap-2">
                   <div className={`w-2 h-2 rounded-full ${
                     control.status === 'implemented' ? 'bg-green-500' :
-                    control.status === 'partial' ? 'bg-yellow-500' : 'bg-red-500'
+                    control.status === 'partial' ? 'bg-yellow-500' :
+                    control.status === 'not-assessed' ? 'bg-muted-foreground' : 'bg-red-500'
                   }`} />
                   <span className="text-sm">{control.name}</span>
                 </div>
-                <span className="text-xs text-muted-foreground">{control.coverage}%</span>
+                <span className="text-xs text-muted-foreground">{control.status === 'not-assessed' ? 'Not assessed' : `${control.coverage}%`}</span>
               </div>
             ))}
           </div>
         </div>
+
+        {/* Bus Exposure */}
+        <div className="mt-6">
+          <h4 className="text-sm font-medium text-foreground mb-3 flex items-center gap-2">
+            <Network className="w-4 h-4" />
+            Bus Exposure
+          </h4>
+          {busExposure === undefined ? (
+            <p className="text-sm text-muted-foreground">No CAN databases were imported when this ECU was scanned.</p>
+          ) : busExposure.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{ecuName} does not match a node in the imported CAN databases.</p>
+          ) : (
+            <BusExposureList exposures={busExposure} />
+          )}
+        </div>
       </Card>
 
+      {ecuModel && <EcuModelCard model={ecuModel} />}
+
+      {uds && uds.length > 0 && <UdsSurfaceCard surfaces={uds} />}
+
       {/* Vulnerability Impact on TARA */}
       <Card className="p-6 border border-border">
         <div className="flex items-center justify-between mb-4">
@@ -0,0 +1,115 @@
+import { KeyRound, ShieldAlert, ShieldCheck, ShieldQuestion } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import type { Severity, UdsIssueKind, UdsSurfaceMetadata } from '@/types/scan';
+
+interface UdsSurfaceCardProps {
+  surfaces: UdsSurfaceMetadata[];
+}
+
+const ISSUE_LABELS: Record<UdsIssueKind, string> = {
+  'unprotected-service': 'Unprotected service',
+  'constant-xor-key': 'Constant XOR key',
+  'short-seed': 'Short seed',
+  'predictable-seed': 'Predictable seed',
+  'missing-attempt-counter': 'No attempt counter',
+};
+
+const SEVERITY_STYLES: Record<Severity, string> = {
+  critical: 'bg-destructive/20 text-destructive border-destructive/30',
+  high: 'bg-warning/20 text-warning border-warning/30',
+  medium: 'bg-yellow-500/20 text-yellow-500 border-yellow-500/30',
+  low: 'bg-success/20 text-success border-success/30',
+};
+
+const formatSid = (sid: number) => `0x${sid.toString(16).toUpperCase().padStart(2, '0')}`;
+
+function location(service: UdsSurfaceMetadata['services'][number]) {
+  if (service.line !== null) return `line ${service.line}`;
+  if (service.address !== null) return `0x${service.address.toString(16)}`;
+  return null;
+}
+
+export function UdsSurfaceCard({ surfaces }: UdsSurfaceCardProps) {
+  const serviceCount = surfaces.reduce((sum, surface) => sum + surface.services.length, 0);
+  const issueCount = surfaces.reduce((sum, surface) => sum + surface.issues.length, 0);
+
+  return (
+    <Card className="p-6 border border-border">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+          <KeyRound className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-foreground">Diagnostic Surface</h3>
+          <p className="text-sm text-muted-foreground">
+            {serviceCount} UDS service(s) recovered, {issueCount} access issue(s)
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        {surfaces.map((surface) => (
+          <div key={surface.file} className="space-y-3">
+            {surfaces.length > 1 && <p className="font-mono text-xs text-muted-foreground">{surface.file}</p>}
+            <div className="max-h-80 overflow-y-auto rounded-lg border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[80px]">SID</TableHead>
+                    <TableHead>Service</TableHead>
+                    <TableHead>Handler</TableHead>
+                    <TableHead className="w-[160px]">Access Check</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {surface.services.map((service) => (
+                    <TableRow key={service.sid}>
+                      <TableCell className="font-mono text-xs">{formatSid(service.sid)}</TableCell>
+                      <TableCell className="text-sm">{service.name}</TableCell>
+                      <TableCell>
+                        <div className="font-mono text-xs">{service.handlers.join(', ') || '—'}</div>
+                        {location(service) && <div className="text-xs text-muted-foreground">{location(service)}</div>}
+                      </TableCell>
+                      <TableCell>
+                        {service.securityGated === null ? (
+                          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <ShieldQuestion className="w-3 h-3" />Not determined
+                          </span>
+                        ) : service.securityGated ? (
+                          <Badge variant="outline" className="gap-1 text-xs text-green-500 border-green-500/40">
+                            <ShieldCheck className="w-3 h-3" />Gated
+                          </Badge>
+                        ) : (
+                          <span className="text-xs text-destructive font-medium">Unrestricted</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {surface.issues.map((issue, index) => (
+              <div key={index} className="p-3 rounded-lg bg-muted/50 border border-border space-y-1">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <ShieldAlert className="w-4 h-4 text-destructive" />
+                  <span className="text-sm font-medium">{issue.title}</span>
+                  <Badge variant="outline" className={cn('text-xs', SEVERITY_STYLES[issue.severity])}>{issue.severity}</Badge>
+                  <Badge variant="secondary" className="text-xs">{ISSUE_LABELS[issue.kind]}</Badge>
+                  {issue.function && <code className="text-xs bg-muted px-1.5 py-0.5 rounded">{issue.function}</code>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  R155 {issue.threat.r155}: {issue.threat.r155Threat}
+                </p>
+                <p className="text-xs text-muted-foreground">ISO/SAE 21434: {issue.threat.iso21434}</p>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -114,6 +114,15 @@ export function VulnerabilityList({ vulnerabilities }: VulnerabilityListProps) {
                         >
                           {vulnStatus.replace('_', ' ')}
                         </Badge>
+                        {vuln.location_verified === false && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs text-warning border-warning/30"
+                            title="The reported code snippet was not found in the uploaded file"
+                          >
+                            unverified
+                          </Badge>
+                        )}
                       </div>
                       <h4 className="font-medium text-foreground">{vuln.title}</h4>
                       <p className="text-sm text-muted-foreground line-clamp-2 mt-1">
@@ -135,6 +144,12 @@ export function VulnerabilityList({ vulnerabilities }: VulnerabilityListProps) {
                 <div className="px-4 pb-4 pl-14 space-y-4">
                   {/* Affected Component */}
                   <div className="flex items-center gap-4 text-sm flex-wrap">
+                    {vuln.member_path && vuln.member_path !== vuln.affected_component && (
+                      <div>
+                        <span className="text-muted-foreground">File: </span>
+                        <span className="font-mono text-foreground">{vuln.member_path}</span>
+                      </div>
+                    )}
                     {vuln.affected_component && (
                       <div>
                         <span className="text-muted-foreground">Component: </span>
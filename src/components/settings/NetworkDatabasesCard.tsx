@@ -0,0 +1,150 @@
+import { useRef, useState } from 'react';
+import { Loader2, Network, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  useDeleteNetworkDatabase,
+  useNetworkDatabases,
+  useUpdateNetworkDatabase,
+  useUploadNetworkDatabase,
+  type NetworkDatabase,
+} from '@/hooks/useNetworkDatabases';
+import type { EntryPoint } from '@/types/scan';
+
+function DatabaseRow({ database }: { database: NetworkDatabase }) {
+  const updateDatabase = useUpdateNetworkDatabase();
+  const deleteDatabase = useDeleteNetworkDatabase();
+  const entryPoints = database.entry_points as Record<string, EntryPoint>;
+  const messageCount = Array.isArray(database.messages) ? database.messages.length : 0;
+
+  const setEntryPoint = (node: string, value: string) => {
+    const { [node]: _previous, ...rest } = entryPoints;
+    updateDatabase.mutate({
+      id: database.id,
+      entryPoints: value === 'none' ? rest : { ...rest, [node]: value as EntryPoint },
+    });
+  };
+
+  return (
+    <div className="p-3 rounded-lg bg-muted/30 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="font-mono text-sm text-foreground">{database.bus_name}</div>
+          <div className="text-xs text-muted-foreground">
+            {database.platform} · {database.nodes.length} node(s) · {messageCount} message(s)
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`obd-${database.id}`} className="text-xs text-muted-foreground">OBD</Label>
+            <Switch
+              id={`obd-${database.id}`}
+              checked={database.obd_accessible}
+              onCheckedChange={(obdAccessible) => updateDatabase.mutate({ id: database.id, obdAccessible })}
+            />
+          </div>
+          <Button variant="ghost" size="icon" onClick={() => deleteDatabase.mutate(database.id)}>
+            <Trash2 className="w-4 h-4 text-muted-foreground" />
+          </Button>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+        {database.nodes.map(node => (
+          <div key={node} className="flex items-center justify-between gap-2">
+            <span className="font-mono text-xs text-foreground truncate">{node}</span>
+            <Select value={entryPoints[node] ?? 'none'} onValueChange={(value) => setEntryPoint(node, value)}>
+              <SelectTrigger className="h-7 w-[130px] text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Internal</SelectItem>
+                <SelectItem value="telematics">Telematics</SelectItem>
+                <SelectItem value="infotainment">Infotainment</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function NetworkDatabasesCard() {
+  const { user } = useAuth();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [platform, setPlatform] = useState('');
+  const { data: databases = [] } = useNetworkDatabases();
+  const uploadDatabase = useUploadNetworkDatabase();
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file && user) uploadDatabase.mutate({ userId: user.id, file, platform: platform.trim() });
+  };
+
+  return (
+    <Card className="glass-card border-border">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Network className="w-5 h-5 text-primary" />
+          <CardTitle>Vehicle Networks</CardTitle>
+        </div>
+        <CardDescription>
+          CAN databases used to map which entry points can reach a scanned ECU
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {databases.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No CAN databases imported.</p>
+        ) : (
+          <div className="space-y-2">
+            {databases.map(database => <DatabaseRow key={database.id} database={database} />)}
+          </div>
+        )}
+
+        <Separator />
+
+        <div className="space-y-2">
+          <Label htmlFor="network-platform">Vehicle Platform</Label>
+          <Input
+            id="network-platform"
+            placeholder="e.g., MQB-evo 2026"
+            value={platform}
+            onChange={(e) => setPlatform(e.target.value)}
+          />
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".dbc"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <Button
+          variant="outline"
+          className="w-full gap-2"
+          onClick={() => inputRef.current?.click()}
+          disabled={!user || !platform.trim() || uploadDatabase.isPending}
+        >
+          {uploadDatabase.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          Import DBC
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Import one DBC per bus. Nodes that appear on several buses of a platform are treated as
+          gateways. Mark the bus wired to the OBD connector and the nodes reachable from outside the
+          vehicle; scans match their ECU name against the node names.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
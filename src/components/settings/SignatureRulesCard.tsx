@@ -0,0 +1,116 @@
+import { useRef } from 'react';
+import { FileSearch, Trash2, Upload, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  useDeleteSignatureRules,
+  useSignatureRules,
+  useToggleSignatureRules,
+  useUploadSignatureRules,
+} from '@/hooks/useSignatureRules';
+
+const BUILTIN_PACKS = [
+  { name: 'automotive-backdoors', description: 'Hidden unlock paths, bundled remote shells, default root accounts' },
+  { name: 'debug-uart', description: 'Bootloader consoles, debug shell banners, verbose debug logging' },
+  { name: 'xcp-ccp-seed-key', description: 'XCP/CCP and UDS seed-key routines and tables' },
+  { name: 'crypto-constants', description: 'AES S-boxes, SHA-256 constants, RSA moduli, PEM private keys' },
+];
+
+export function SignatureRulesCard() {
+  const { user } = useAuth();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { data: ruleFiles = [] } = useSignatureRules();
+  const uploadRules = useUploadSignatureRules();
+  const toggleRules = useToggleSignatureRules();
+  const deleteRules = useDeleteSignatureRules();
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file && user) uploadRules.mutate({ userId: user.id, file });
+  };
+
+  return (
+    <Card className="glass-card border-border">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <FileSearch className="w-5 h-5 text-primary" />
+          <CardTitle>Signature Rules</CardTitle>
+        </div>
+        <CardDescription>
+          YARA-style rules matched against every reconstructed firmware image
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {BUILTIN_PACKS.map(pack => (
+            <div key={pack.name} className="flex items-center justify-between p-3 rounded-lg bg-muted/30">
+              <div>
+                <div className="font-mono text-sm text-foreground">{pack.name}</div>
+                <div className="text-xs text-muted-foreground">{pack.description}</div>
+              </div>
+              <span className="text-xs bg-primary/20 text-primary px-2 py-1 rounded">Built-in</span>
+            </div>
+          ))}
+        </div>
+
+        <Separator />
+
+        {ruleFiles.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No custom rule files uploaded.</p>
+        ) : (
+          <div className="space-y-2">
+            {ruleFiles.map(file => (
+              <div key={file.id} className="flex items-center justify-between p-3 rounded-lg bg-muted/30">
+                <div>
+                  <div className="font-mono text-sm text-foreground">{file.name}</div>
+                  <div className="text-xs text-muted-foreground">{file.rule_count} rule(s)</div>
+                </div>
+                <div className="flex items-center gap-3">
+                  <Switch
+                    checked={file.enabled}
+                    onCheckedChange={(enabled) => toggleRules.mutate({ id: file.id, enabled })}
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => deleteRules.mutate(file.id)}>
+                    <Trash2 className="w-4 h-4 text-muted-foreground" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".yar,.yara,.txt"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <Button
+          variant="outline"
+          className="w-full gap-2"
+          onClick={() => inputRef.current?.click()}
+          disabled={!user || uploadRules.isPending}
+        >
+          {uploadRules.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          Upload Rule File
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Supports text, hex (with ?? wildcards and [n-m] jumps) and regex strings, and conditions
+          using and/or/not, counts (#a), offsets (@a), filesize and "N of them". Matches are reported
+          with detection method "yara" and the byte offset of the first hit.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,99 @@
+import { useRef } from 'react';
+import { ShieldAlert, Upload, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  useImportVulnerabilityFeed,
+  useIsVulnerabilityFeedAdmin,
+  useVulnerabilityFeedImports,
+  useVulnerabilityRecordCount,
+} from '@/hooks/useVulnerabilityFeeds';
+
+export function VulnerabilityFeedsCard() {
+  const { user } = useAuth();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { data: imports = [] } = useVulnerabilityFeedImports();
+  const { data: recordCount = 0 } = useVulnerabilityRecordCount();
+  const { data: isAdmin = false } = useIsVulnerabilityFeedAdmin(user?.id);
+  const importFeed = useImportVulnerabilityFeed();
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file && user && isAdmin) importFeed.mutate({ userId: user.id, file });
+  };
+
+  return (
+    <Card className="glass-card border-border">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5 text-primary" />
+          <CardTitle>Vulnerability Database</CardTitle>
+        </div>
+        <CardDescription>
+          Offline NVD and OSV advisories that SBOM components are matched against
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between p-3 rounded-lg bg-muted/30">
+          <div className="text-sm text-foreground">Advisories in database</div>
+          <span className="font-mono text-sm text-primary">{recordCount.toLocaleString()}</span>
+        </div>
+
+        <Separator />
+
+        {imports.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No feeds imported. Component CVEs are reported by the model and not verified.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {imports.map(feed => (
+              <div key={feed.id} className="flex items-center justify-between p-3 rounded-lg bg-muted/30">
+                <div>
+                  <div className="font-mono text-sm text-foreground">{feed.file_name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {feed.record_count} advisories, {feed.affected_count} affected product(s)
+                    {feed.imported_at ? ` · ${new Date(feed.imported_at).toLocaleDateString()}` : ''}
+                  </div>
+                </div>
+                <span className="text-xs bg-primary/20 text-primary px-2 py-1 rounded uppercase">{feed.source}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,.gz,.zip,.tar"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <Button
+          variant="outline"
+          className="w-full gap-2"
+          onClick={() => inputRef.current?.click()}
+          disabled={!user || !isAdmin || importFeed.isPending}
+        >
+          {importFeed.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          Import Feed
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Accepts NVD CVE JSON 2.0 feed files (nvdcve-2.0-*.json, .json.gz or .json.zip) and OSV
+          records or ecosystem dumps (.json or .zip). Re-importing a feed updates existing advisories.
+          Components are matched by CPE configuration, package URL and version range.
+          {!isAdmin && ' The database is shared by all users, so only feed administrators can import feeds.'}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -15,9 +15,12 @@ const acceptedFormats = {
   'text/plain': ['.c', '.h', '.cpp', '.hpp'],
   'text/xml': ['.arxml', '.xml'],
   'application/xml': ['.arxml', '.xml'],
+  'application/zip': ['.zip'],
+  'application/gzip': ['.tgz', '.tar.gz'],
+  'application/x-tar': ['.tar'],
 };
 
-const allExtensions = ['.vbf', '.bin', '.hex', '.elf', '.s19', '.srec', '.c', '.h', '.arxml'];
+const allExtensions = ['.vbf', '.bin', '.hex', '.elf', '.s19', '.srec', '.c', '.h', '.arxml', '.zip', '.tar.gz'];
 
 export function FileDropzone({ onFileSelect, selectedFile, onClear }: FileDropzoneProps) {
   const [error, setError] = useState<string | null>(null);
@@ -26,7 +29,7 @@ export function FileDropzone({ onFileSelect, selectedFile, onClear }: FileDropzo
     setError(null);
     
     if (rejectedFiles.length > 0) {
-      setError('Invalid file format. Please upload VBF, binary, C source, or AUTOSAR files.');
+      setError('Invalid file format. Please upload VBF, binary, C source, AUTOSAR files, or a zip/tar.gz of them.');
       return;
     }
     
@@ -97,7 +100,7 @@ export function FileDropzone({ onFileSelect, selectedFile, onClear }: FileDropzo
                 </span>
               ))}
             </div>
-            <p className="text-xs text-muted-foreground mt-4">VBF, ANSI C, AUTOSAR • Max 100MB</p>
+            <p className="text-xs text-muted-foreground mt-4">VBF, ANSI C, AUTOSAR, or a zip/tar.gz delivery • Max 100MB</p>
           </div>
         </div>
       ) : (
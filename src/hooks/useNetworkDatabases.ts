@@ -0,0 +1,113 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { parseDbc } from '@/lib/dbc';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { EntryPoint } from '@/types/scan';
+
+export type NetworkDatabase = Tables<'network_databases'>;
+
+export function useNetworkDatabases() {
+  return useQuery({
+    queryKey: ['network-databases'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('network_databases')
+        .select('*')
+        .order('platform')
+        .order('bus_name');
+
+      if (error) throw error;
+      return data as NetworkDatabase[];
+    },
+  });
+}
+
+export function useUploadNetworkDatabase() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ userId, file, platform }: { userId: string; file: File; platform: string }) => {
+      let database;
+      try {
+        database = parseDbc(await file.text());
+      } catch (e) {
+        throw new Error(`${file.name}: ${(e as Error).message}`);
+      }
+
+      const { data, error } = await supabase
+        .from('network_databases')
+        .insert({
+          user_id: userId,
+          platform,
+          bus_name: file.name.replace(/\.dbc$/i, ''),
+          file_name: file.name,
+          nodes: database.nodes,
+          messages: database.messages as unknown as Json,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as NetworkDatabase;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['network-databases'] });
+      toast({
+        title: 'CAN database imported',
+        description: `${data.bus_name}: ${data.nodes.length} node(s). Exposure is mapped for new scans.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Import failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useUpdateNetworkDatabase() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, obdAccessible, entryPoints }: {
+      id: string;
+      obdAccessible?: boolean;
+      entryPoints?: Record<string, EntryPoint>;
+    }) => {
+      const { error } = await supabase
+        .from('network_databases')
+        .update({ obd_accessible: obdAccessible, entry_points: entryPoints })
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['network-databases'] });
+    },
+  });
+}
+
+export function useDeleteNetworkDatabase() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('network_databases').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['network-databases'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Delete failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { FIRMWARE_BUCKET } from '@/lib/firmware-upload';
+import type { Scan } from '@/hooks/useScans';
+import type { ArchiveMemberMetadata, ScanAnalysisMetadata } from '@/types/scan';
+
+/**
+ * The bytes that finding and string offsets refer to: the flattened image
+ * for container formats, otherwise the uploaded artifact itself. For archive
+ * uploads the same applies to the selected member.
+ */
+export function scanImagePath(scan: Scan, member?: ArchiveMemberMetadata | null): string | null {
+  if (member) return member.imagePath ?? member.artifactPath;
+  const metadata = scan.metadata as ScanAnalysisMetadata | null;
+  return metadata?.imagePath ?? scan.storage_path;
+}
+
+export function useScanImage(scan: Scan | undefined, enabled = true, member?: ArchiveMemberMetadata | null) {
+  const path = scan ? scanImagePath(scan, member) : null;
+
+  return useQuery({
+    queryKey: ['scan-image', path],
+    queryFn: async () => {
+      const { data, error } = await supabase.storage.from(FIRMWARE_BUCKET).download(path!);
+      if (error) throw error;
+      return new Uint8Array(await data.arrayBuffer());
+    },
+    enabled: enabled && !!path,
+    staleTime: Infinity,
+  });
+}
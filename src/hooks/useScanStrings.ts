@@ -0,0 +1,44 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { StringCategory, StringEncoding } from '@/types/scan';
+
+export type ScanString = Tables<'scan_strings'>;
+
+export const STRINGS_PAGE_SIZE = 200;
+
+export interface StringFilters {
+  search: string;
+  category: StringCategory | 'all';
+  encoding: StringEncoding | 'all';
+  page: number;
+}
+
+// LIKE wildcards in the search box are matched literally
+const escapeLike = (term: string) => term.replace(/[\\%_]/g, (c) => `\\${c}`);
+
+/** `memberPath` restricts the query to one member of an archive upload. */
+export function useScanStrings(scanId: string | undefined, filters: StringFilters, memberPath?: string) {
+  return useQuery({
+    queryKey: ['strings', scanId, memberPath, filters],
+    queryFn: async () => {
+      let query = supabase
+        .from('scan_strings')
+        .select('*', { count: 'exact' })
+        .eq('scan_id', scanId!)
+        .order('byte_offset')
+        .range(filters.page * STRINGS_PAGE_SIZE, (filters.page + 1) * STRINGS_PAGE_SIZE - 1);
+
+      if (memberPath) query = query.eq('member_path', memberPath);
+      if (filters.search.trim()) query = query.ilike('value', `%${escapeLike(filters.search.trim())}%`);
+      if (filters.category !== 'all') query = query.eq('category', filters.category);
+      if (filters.encoding !== 'all') query = query.eq('encoding', filters.encoding);
+
+      const { data, error, count } = await query;
+      if (error) throw error;
+      return { strings: data as ScanString[], total: count ?? 0 };
+    },
+    enabled: !!scanId,
+    placeholderData: keepPreviousData,
+  });
+}
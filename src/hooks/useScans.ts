@@ -8,6 +8,7 @@ export type Vulnerability = Tables<'vulnerabilities'>;
 export type ComplianceResult = Tables<'compliance_results'>;
 export type SBOMComponent = Tables<'sbom_components'>;
 export type AnalysisLog = Tables<'analysis_logs'>;
+export type VulnerabilityMatch = Tables<'vuln_matches'>;
 
 export function useScans() {
   return useQuery({
@@ -43,6 +44,29 @@ export function useScan(scanId: string | undefined) {
   });
 }
 
+// Most recent completed scan of a byte-identical file (same SHA-256)
+export function useDuplicateScan(fileHash: string | undefined) {
+  return useQuery({
+    queryKey: ['duplicate-scan', fileHash],
+    queryFn: async () => {
+      if (!fileHash) return null;
+
+      const { data, error } = await supabase
+        .from('scans')
+        .select('*')
+        .eq('file_hash', fileHash)
+        .eq('status', 'complete')
+        .order('completed_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as Scan | null;
+    },
+    enabled: !!fileHash,
+  });
+}
+
 export function useVulnerabilities(scanId?: string) {
   return useQuery({
     queryKey: ['vulnerabilities', scanId],
@@ -101,6 +125,25 @@ export function useSBOMComponents(scanId?: string) {
   });
 }
 
+export function useVulnerabilityMatches(scanId: string | undefined) {
+  return useQuery({
+    queryKey: ['vuln-matches', scanId],
+    queryFn: async () => {
+      if (!scanId) return [];
+
+      const { data, error } = await supabase
+        .from('vuln_matches')
+        .select('*')
+        .eq('scan_id', scanId)
+        .order('vuln_id');
+
+      if (error) throw error;
+      return data as VulnerabilityMatch[];
+    },
+    enabled: !!scanId,
+  });
+}
+
 export function useAnalysisLogs(scanId: string | undefined) {
   return useQuery({
     queryKey: ['logs', scanId],
@@ -155,12 +198,10 @@ export function useStartAnalysis() {
   return useMutation({
     mutationFn: async ({ 
       scanId, 
-      fileContent, 
       fileName, 
       metadata 
     }: { 
       scanId: string; 
-      fileContent: string; 
       fileName: string;
       metadata: {
         ecuName: string;
@@ -172,8 +213,15 @@ export function useStartAnalysis() {
         complianceFrameworks: string[];
       };
     }) => {
+      // The job row is the durable record; the invoke only wakes a worker
+      // (a scheduled tick picks the job up if this call is lost)
+      const { error: jobError } = await supabase
+        .from('scan_jobs')
+        .insert({ scan_id: scanId, payload: { fileName, metadata } });
+      if (jobError) throw jobError;
+
       const { data, error } = await supabase.functions.invoke('analyze-binary', {
-        body: { scanId, fileContent, fileName, metadata },
+        body: { scanId },
       });
       
       if (error) throw error;
@@ -196,6 +244,32 @@ export function useStartAnalysis() {
   });
 }
 
+export function useCancelScan() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (scanId: string) => {
+      const { error } = await supabase.rpc('cancel_scan_job', { p_scan_id: scanId });
+      if (error) throw error;
+    },
+    onSuccess: (_, scanId) => {
+      queryClient.invalidateQueries({ queryKey: ['scan', scanId] });
+      toast({
+        title: 'Cancellation requested',
+        description: 'The scan will stop at the next pipeline stage.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Cancel failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
 export function useUpdateVulnerabilityStatus() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -0,0 +1,102 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type SignatureRuleFile = Tables<'signature_rules'>;
+
+// Client-side sanity check only; the analysis worker parses the full syntax
+// and reports errors in the scan's analysis logs.
+export function countRules(source: string): number {
+  const withoutComments = source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/[^\n]*/g, '');
+  return (withoutComments.match(/\brule\s+[A-Za-z_]\w*/g) ?? []).length;
+}
+
+export function useSignatureRules() {
+  return useQuery({
+    queryKey: ['signature-rules'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('signature_rules')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as SignatureRuleFile[];
+    },
+  });
+}
+
+export function useUploadSignatureRules() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ userId, file }: { userId: string; file: File }) => {
+      const source = await file.text();
+      const ruleCount = countRules(source);
+      if (ruleCount === 0) {
+        throw new Error(`${file.name} does not contain any rule definitions`);
+      }
+
+      const { data, error } = await supabase
+        .from('signature_rules')
+        .insert({ user_id: userId, name: file.name, source, rule_count: ruleCount })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as SignatureRuleFile;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['signature-rules'] });
+      toast({
+        title: 'Rules uploaded',
+        description: `${data.name}: ${data.rule_count} rule(s) will be applied to new scans.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Upload failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useToggleSignatureRules() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      const { error } = await supabase.from('signature_rules').update({ enabled }).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['signature-rules'] });
+    },
+  });
+}
+
+export function useDeleteSignatureRules() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('signature_rules').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['signature-rules'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Delete failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,93 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { uploadFirmware } from '@/lib/firmware-upload';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type VulnerabilityFeedImport = Tables<'vuln_feed_imports'>;
+
+export const VULN_FEED_BUCKET = 'vuln-feeds';
+
+export function useVulnerabilityFeedImports() {
+  return useQuery({
+    queryKey: ['vuln-feed-imports'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vuln_feed_imports')
+        .select('*')
+        .order('imported_at', { ascending: false });
+
+      if (error) throw error;
+      return data as VulnerabilityFeedImport[];
+    },
+  });
+}
+
+export function useVulnerabilityRecordCount() {
+  return useQuery({
+    queryKey: ['vuln-record-count'],
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from('vuln_records')
+        .select('id', { count: 'exact', head: true });
+
+      if (error) throw error;
+      return count ?? 0;
+    },
+  });
+}
+
+// Only feed administrators may import; the function checks this again
+export function useIsVulnerabilityFeedAdmin(userId: string | undefined) {
+  return useQuery({
+    queryKey: ['vuln-feed-admin', userId],
+    enabled: !!userId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vuln_feed_admins')
+        .select('user_id')
+        .eq('user_id', userId!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return !!data;
+    },
+  });
+}
+
+// The feed file is staged in storage and parsed by the import-vuln-feed
+// function, which removes it once the advisories are in the database.
+export function useImportVulnerabilityFeed() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ userId, file }: { userId: string; file: File }) => {
+      const path = `${userId}/${file.name.replace(/[^A-Za-z0-9._-]/g, '_')}`;
+      await uploadFirmware(file, path, undefined, VULN_FEED_BUCKET);
+
+      const { data, error } = await supabase.functions.invoke('import-vuln-feed', {
+        body: { path },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return { fileName: file.name, records: data.records as number, affected: data.affected as number };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['vuln-feed-imports'] });
+      queryClient.invalidateQueries({ queryKey: ['vuln-record-count'] });
+      toast({
+        title: 'Vulnerability feed imported',
+        description: `${data.fileName}: ${data.records} advisories, ${data.affected} affected product(s). New scans are matched against them.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Import failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -55,6 +55,8 @@ export type Database = {
           details: string | null
           framework: string
           id: string
+          line_number: number | null
+          member_path: string | null
           rule_description: string | null
           rule_id: string
           scan_id: string
@@ -65,6 +67,8 @@ export type Database = {
           details?: string | null
           framework: string
           id?: string
+          line_number?: number | null
+          member_path?: string | null
           rule_description?: string | null
           rule_id: string
           scan_id: string
@@ -75,6 +79,8 @@ export type Database = {
           details?: string | null
           framework?: string
           id?: string
+          line_number?: number | null
+          member_path?: string | null
           rule_description?: string | null
           rule_id?: string
           scan_id?: string
@@ -132,12 +138,59 @@ export type Database = {
         }
         Relationships: []
       }
+      network_databases: {
+        Row: {
+          bus_name: string
+          created_at: string | null
+          entry_points: Json
+          file_name: string
+          id: string
+          messages: Json
+          nodes: string[]
+          obd_accessible: boolean
+          platform: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          bus_name: string
+          created_at?: string | null
+          entry_points?: Json
+          file_name: string
+          id?: string
+          messages?: Json
+          nodes?: string[]
+          obd_accessible?: boolean
+          platform: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          bus_name?: string
+          created_at?: string | null
+          entry_points?: Json
+          file_name?: string
+          id?: string
+          messages?: Json
+          nodes?: string[]
+          obd_accessible?: boolean
+          platform?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       sbom_components: {
         Row: {
           component_name: string
+          confidence: string | null
+          cpe: string | null
           created_at: string | null
+          evidence: Json
           id: string
           license: string | null
+          member_path: string | null
+          purl: string | null
           scan_id: string
           source_file: string | null
           version: string | null
@@ -145,9 +198,14 @@ export type Database = {
         }
         Insert: {
           component_name: string
+          confidence?: string | null
+          cpe?: string | null
           created_at?: string | null
+          evidence?: Json
           id?: string
           license?: string | null
+          member_path?: string | null
+          purl?: string | null
           scan_id: string
           source_file?: string | null
           version?: string | null
@@ -155,9 +213,14 @@ export type Database = {
         }
         Update: {
           component_name?: string
+          confidence?: string | null
+          cpe?: string | null
           created_at?: string | null
+          evidence?: Json
           id?: string
           license?: string | null
+          member_path?: string | null
+          purl?: string | null
           scan_id?: string
           source_file?: string | null
           version?: string | null
@@ -173,6 +236,203 @@ export type Database = {
           },
         ]
       }
+      scan_functions: {
+        Row: {
+          address: number
+          called_by: number[]
+          calls: number[]
+          created_at: string | null
+          id: string
+          instruction_count: number
+          member_path: string | null
+          name: string
+          scan_id: string
+          size: number
+          source: string
+        }
+        Insert: {
+          address: number
+          called_by?: number[]
+          calls?: number[]
+          created_at?: string | null
+          id?: string
+          instruction_count?: number
+          member_path?: string | null
+          name: string
+          scan_id: string
+          size?: number
+          source: string
+        }
+        Update: {
+          address?: number
+          called_by?: number[]
+          calls?: number[]
+          created_at?: string | null
+          id?: string
+          instruction_count?: number
+          member_path?: string | null
+          name?: string
+          scan_id?: string
+          size?: number
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scan_functions_scan_id_fkey"
+            columns: ["scan_id"]
+            isOneToOne: false
+            referencedRelation: "scans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scan_jobs: {
+        Row: {
+          attempts: number
+          cancel_requested: boolean
+          created_at: string | null
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          payload: Json
+          run_after: string
+          scan_id: string
+          status: Database["public"]["Enums"]["scan_job_status"]
+          updated_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          cancel_requested?: boolean
+          created_at?: string | null
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          payload?: Json
+          run_after?: string
+          scan_id: string
+          status?: Database["public"]["Enums"]["scan_job_status"]
+          updated_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          cancel_requested?: boolean
+          created_at?: string | null
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          payload?: Json
+          run_after?: string
+          scan_id?: string
+          status?: Database["public"]["Enums"]["scan_job_status"]
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scan_jobs_scan_id_fkey"
+            columns: ["scan_id"]
+            isOneToOne: false
+            referencedRelation: "scans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scan_strings: {
+        Row: {
+          address: number | null
+          byte_length: number
+          byte_offset: number
+          category: string
+          created_at: string | null
+          encoding: string
+          id: string
+          member_path: string | null
+          scan_id: string
+          section: string | null
+          value: string
+        }
+        Insert: {
+          address?: number | null
+          byte_length: number
+          byte_offset: number
+          category: string
+          created_at?: string | null
+          encoding: string
+          id?: string
+          member_path?: string | null
+          scan_id: string
+          section?: string | null
+          value: string
+        }
+        Update: {
+          address?: number | null
+          byte_length?: number
+          byte_offset?: number
+          category?: string
+          created_at?: string | null
+          encoding?: string
+          id?: string
+          member_path?: string | null
+          scan_id?: string
+          section?: string | null
+          value?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scan_strings_scan_id_fkey"
+            columns: ["scan_id"]
+            isOneToOne: false
+            referencedRelation: "scans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scan_xrefs: {
+        Row: {
+          created_at: string | null
+          from_address: number
+          from_function: number
+          id: string
+          kind: string
+          member_path: string | null
+          scan_id: string
+          to_address: number
+        }
+        Insert: {
+          created_at?: string | null
+          from_address: number
+          from_function: number
+          id?: string
+          kind: string
+          member_path?: string | null
+          scan_id: string
+          to_address: number
+        }
+        Update: {
+          created_at?: string | null
+          from_address?: number
+          from_function?: number
+          id?: string
+          kind?: string
+          member_path?: string | null
+          scan_id?: string
+          to_address?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scan_xrefs_scan_id_fkey"
+            columns: ["scan_id"]
+            isOneToOne: false
+            referencedRelation: "scans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       scans: {
         Row: {
           architecture: string | null
@@ -184,7 +444,9 @@ export type Database = {
           ecu_type: string
           executive_summary: string | null
           file_hash: string | null
+          file_md5: string | null
           file_name: string
+          file_sha1: string | null
           file_size: number | null
           id: string
           manufacturer: string | null
@@ -193,6 +455,7 @@ export type Database = {
           progress: number | null
           risk_score: number | null
           status: Database["public"]["Enums"]["scan_status"] | null
+          storage_path: string | null
           updated_at: string | null
           user_id: string
           version: string | null
@@ -207,7 +470,9 @@ export type Database = {
           ecu_type: string
           executive_summary?: string | null
           file_hash?: string | null
+          file_md5?: string | null
           file_name: string
+          file_sha1?: string | null
           file_size?: number | null
           id?: string
           manufacturer?: string | null
@@ -216,6 +481,7 @@ export type Database = {
           progress?: number | null
           risk_score?: number | null
           status?: Database["public"]["Enums"]["scan_status"] | null
+          storage_path?: string | null
           updated_at?: string | null
           user_id: string
           version?: string | null
@@ -230,7 +496,9 @@ export type Database = {
           ecu_type?: string
           executive_summary?: string | null
           file_hash?: string | null
+          file_md5?: string | null
           file_name?: string
+          file_sha1?: string | null
           file_size?: number | null
           id?: string
           manufacturer?: string | null
@@ -239,17 +507,53 @@ export type Database = {
           progress?: number | null
           risk_score?: number | null
           status?: Database["public"]["Enums"]["scan_status"] | null
+          storage_path?: string | null
           updated_at?: string | null
           user_id?: string
           version?: string | null
         }
         Relationships: []
       }
+      signature_rules: {
+        Row: {
+          created_at: string | null
+          enabled: boolean
+          id: string
+          name: string
+          rule_count: number
+          source: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          enabled?: boolean
+          id?: string
+          name: string
+          rule_count?: number
+          source: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          enabled?: boolean
+          id?: string
+          name?: string
+          rule_count?: number
+          source?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       vulnerabilities: {
         Row: {
           affected_component: string | null
           affected_function: string | null
           attack_vector: string | null
+          byte_length: number | null
+          byte_offset: number | null
           code_snippet: string | null
           created_at: string | null
           cve_id: string | null
@@ -261,6 +565,8 @@ export type Database = {
           impact: string | null
           line_number: number | null
           llm_enrichment: Json | null
+          location_verified: boolean | null
+          member_path: string | null
           remediation: string | null
           scan_id: string
           severity: Database["public"]["Enums"]["severity_level"]
@@ -272,6 +578,8 @@ export type Database = {
           affected_component?: string | null
           affected_function?: string | null
           attack_vector?: string | null
+          byte_length?: number | null
+          byte_offset?: number | null
           code_snippet?: string | null
           created_at?: string | null
           cve_id?: string | null
@@ -283,6 +591,8 @@ export type Database = {
           impact?: string | null
           line_number?: number | null
           llm_enrichment?: Json | null
+          location_verified?: boolean | null
+          member_path?: string | null
           remediation?: string | null
           scan_id: string
           severity?: Database["public"]["Enums"]["severity_level"]
@@ -294,6 +604,8 @@ export type Database = {
           affected_component?: string | null
           affected_function?: string | null
           attack_vector?: string | null
+          byte_length?: number | null
+          byte_offset?: number | null
           code_snippet?: string | null
           created_at?: string | null
           cve_id?: string | null
@@ -305,6 +617,8 @@ export type Database = {
           impact?: string | null
           line_number?: number | null
           llm_enrichment?: Json | null
+          location_verified?: boolean | null
+          member_path?: string | null
           remediation?: string | null
           scan_id?: string
           severity?: Database["public"]["Enums"]["severity_level"]
@@ -322,15 +636,225 @@ export type Database = {
           },
         ]
       }
+      vuln_affected: {
+        Row: {
+          cpe_product: string | null
+          cpe_vendor: string | null
+          criteria: string | null
+          ecosystem: string | null
+          id: string
+          package_name: string | null
+          purl: string | null
+          version_end_excluding: string | null
+          version_end_including: string | null
+          version_start_excluding: string | null
+          version_start_including: string | null
+          versions: string[]
+          vuln_id: string
+        }
+        Insert: {
+          cpe_product?: string | null
+          cpe_vendor?: string | null
+          criteria?: string | null
+          ecosystem?: string | null
+          id?: string
+          package_name?: string | null
+          purl?: string | null
+          version_end_excluding?: string | null
+          version_end_including?: string | null
+          version_start_excluding?: string | null
+          version_start_including?: string | null
+          versions?: string[]
+          vuln_id: string
+        }
+        Update: {
+          cpe_product?: string | null
+          cpe_vendor?: string | null
+          criteria?: string | null
+          ecosystem?: string | null
+          id?: string
+          package_name?: string | null
+          purl?: string | null
+          version_end_excluding?: string | null
+          version_end_including?: string | null
+          version_start_excluding?: string | null
+          version_start_including?: string | null
+          versions?: string[]
+          vuln_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vuln_affected_vuln_id_fkey"
+            columns: ["vuln_id"]
+            isOneToOne: false
+            referencedRelation: "vuln_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vuln_feed_admins: {
+        Row: {
+          created_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      vuln_feed_imports: {
+        Row: {
+          affected_count: number
+          file_name: string
+          id: string
+          imported_at: string | null
+          record_count: number
+          source: string
+          user_id: string | null
+        }
+        Insert: {
+          affected_count?: number
+          file_name: string
+          id?: string
+          imported_at?: string | null
+          record_count?: number
+          source: string
+          user_id?: string | null
+        }
+        Update: {
+          affected_count?: number
+          file_name?: string
+          id?: string
+          imported_at?: string | null
+          record_count?: number
+          source?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      vuln_matches: {
+        Row: {
+          component_id: string
+          created_at: string | null
+          cve_id: string | null
+          evidence: Json
+          id: string
+          matched_by: string
+          scan_id: string
+          vuln_id: string
+        }
+        Insert: {
+          component_id: string
+          created_at?: string | null
+          cve_id?: string | null
+          evidence?: Json
+          id?: string
+          matched_by: string
+          scan_id: string
+          vuln_id: string
+        }
+        Update: {
+          component_id?: string
+          created_at?: string | null
+          cve_id?: string | null
+          evidence?: Json
+          id?: string
+          matched_by?: string
+          scan_id?: string
+          vuln_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vuln_matches_component_id_fkey"
+            columns: ["component_id"]
+            isOneToOne: false
+            referencedRelation: "sbom_components"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vuln_matches_scan_id_fkey"
+            columns: ["scan_id"]
+            isOneToOne: false
+            referencedRelation: "scans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vuln_matches_vuln_id_fkey"
+            columns: ["vuln_id"]
+            isOneToOne: false
+            referencedRelation: "vuln_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vuln_records: {
+        Row: {
+          aliases: string[]
+          configurations: Json | null
+          cvss_score: number | null
+          cvss_vector: string | null
+          cwe_ids: string[]
+          id: string
+          imported_at: string | null
+          modified: string | null
+          published: string | null
+          severity: string | null
+          source: string
+          summary: string | null
+        }
+        Insert: {
+          aliases?: string[]
+          configurations?: Json | null
+          cvss_score?: number | null
+          cvss_vector?: string | null
+          cwe_ids?: string[]
+          id: string
+          imported_at?: string | null
+          modified?: string | null
+          published?: string | null
+          severity?: string | null
+          source: string
+          summary?: string | null
+        }
+        Update: {
+          aliases?: string[]
+          configurations?: Json | null
+          cvss_score?: number | null
+          cvss_vector?: string | null
+          cwe_ids?: string[]
+          id?: string
+          imported_at?: string | null
+          modified?: string | null
+          published?: string | null
+          severity?: string | null
+          source?: string
+          summary?: string | null
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      cancel_scan_job: {
+        Args: { p_scan_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       compliance_status: "pass" | "fail" | "warning"
+      scan_job_status:
+        | "pending"
+        | "running"
+        | "complete"
+        | "failed"
+        | "cancelled"
       scan_status:
         | "queued"
         | "parsing"
@@ -474,6 +998,7 @@ export const Constants = {
   public: {
     Enums: {
       compliance_status: ["pass", "fail", "warning"],
+      scan_job_status: ["pending", "running", "complete", "failed", "cancelled"],
       scan_status: [
         "queued",
         "parsing",
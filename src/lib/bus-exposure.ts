@@ -0,0 +1,37 @@
+import type { BusExposureMetadata, EntryPoint } from '@/types/scan';
+
+export type AttackFeasibility = 'very_low' | 'low' | 'medium' | 'high' | 'very_high';
+
+const FEASIBILITY_ORDER: AttackFeasibility[] = ['very_low', 'low', 'medium', 'high', 'very_high'];
+
+export const ENTRY_POINT_LABELS: Record<EntryPoint, string> = {
+  obd: 'OBD port',
+  telematics: 'Telematics',
+  infotainment: 'Infotainment',
+};
+
+// Attack-vector based rating of ISO/SAE 21434 Annex G: the telematics unit is
+// a network vector, infotainment (Bluetooth, Wi-Fi, USB) adjacent, and the
+// OBD port needs local access to the vehicle
+const ENTRY_POINT_FEASIBILITY: Record<EntryPoint, AttackFeasibility> = {
+  telematics: 'high',
+  infotainment: 'medium',
+  obd: 'low',
+};
+
+export function reachableEntryPoints(exposures: BusExposureMetadata[] | undefined): EntryPoint[] {
+  return [...new Set((exposures ?? []).flatMap((exposure) => exposure.paths.map((path) => path.entry)))];
+}
+
+/** Entry points an attacker outside the vehicle can use without physical access. */
+export function isRemotelyReachable(exposures: BusExposureMetadata[] | undefined): boolean {
+  return reachableEntryPoints(exposures).some((entry) => entry !== 'obd');
+}
+
+export function maxFeasibility(...levels: AttackFeasibility[]): AttackFeasibility {
+  return levels.reduce((max, level) => (FEASIBILITY_ORDER.indexOf(level) > FEASIBILITY_ORDER.indexOf(max) ? level : max), 'very_low');
+}
+
+export function exposureFeasibility(exposures: BusExposureMetadata[] | undefined): AttackFeasibility {
+  return maxFeasibility(...reachableEntryPoints(exposures).map((entry) => ENTRY_POINT_FEASIBILITY[entry]));
+}
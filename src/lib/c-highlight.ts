@@ -0,0 +1,86 @@
+// Line-by-line C/C++ syntax highlighting for the source viewer. Block
+// comments may span lines, so the caller threads the returned state from one
+// line into the next.
+
+export type TokenKind = 'plain' | 'keyword' | 'type' | 'string' | 'number' | 'comment' | 'preprocessor';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+export interface HighlightState {
+  inBlockComment: boolean;
+}
+
+const KEYWORDS = new Set([
+  'auto', 'break', 'case', 'catch', 'class', 'const', 'constexpr', 'continue', 'default', 'delete', 'do', 'else',
+  'enum', 'extern', 'for', 'goto', 'if', 'inline', 'namespace', 'new', 'nullptr', 'private', 'protected', 'public',
+  'register', 'restrict', 'return', 'sizeof', 'static', 'struct', 'switch', 'template', 'this', 'throw', 'try',
+  'typedef', 'typename', 'union', 'using', 'virtual', 'volatile', 'while', 'NULL', 'true', 'false',
+]);
+
+const TYPES = /^(?:void|char|short|int|long|float|double|signed|unsigned|bool|_Bool|size_t|ssize_t|u?int(?:8|16|32|64)_t|uint(?:8|16|32|64)|sint(?:8|16|32|64)|float32|float64|boolean|Std_ReturnType)$/;
+
+const TOKEN = /(\/\/.*$)|(\/\*)|("(?:[^"\\]|\\.)*"?|'(?:[^'\\]|\\.)*'?)|(\b0[xX][0-9a-fA-F]+[uUlL]*\b|\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?[uUlLfF]*\b)|([A-Za-z_]\w*)/g;
+
+export const TOKEN_CLASSES: Record<TokenKind, string> = {
+  plain: 'text-foreground',
+  keyword: 'text-purple-400',
+  type: 'text-blue-400',
+  string: 'text-green-400',
+  number: 'text-orange-400',
+  comment: 'text-muted-foreground italic',
+  preprocessor: 'text-pink-400',
+};
+
+export function highlightLine(line: string, state: HighlightState): Token[] {
+  const tokens: Token[] = [];
+  const push = (kind: TokenKind, text: string) => {
+    if (text) tokens.push({ kind, text });
+  };
+
+  let pos = 0;
+  if (state.inBlockComment) {
+    const end = line.indexOf('*/');
+    if (end < 0) return [{ kind: 'comment', text: line }];
+    push('comment', line.slice(0, end + 2));
+    pos = end + 2;
+    state.inBlockComment = false;
+  }
+
+  if (pos === 0 && /^\s*#/.test(line)) {
+    const comment = line.search(/\/[/*]/);
+    push('preprocessor', comment < 0 ? line : line.slice(0, comment));
+    if (comment < 0) return tokens;
+    pos = comment;
+  }
+
+  TOKEN.lastIndex = pos;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN.exec(line))) {
+    push('plain', line.slice(pos, match.index));
+    const [text, lineComment, blockStart, string, number, word] = match;
+    if (lineComment) {
+      push('comment', text);
+    } else if (blockStart) {
+      const end = line.indexOf('*/', match.index + 2);
+      if (end < 0) {
+        push('comment', line.slice(match.index));
+        state.inBlockComment = true;
+        return tokens;
+      }
+      push('comment', line.slice(match.index, end + 2));
+      TOKEN.lastIndex = end + 2;
+    } else if (string) {
+      push('string', text);
+    } else if (number) {
+      push('number', text);
+    } else if (word) {
+      push(KEYWORDS.has(word) ? 'keyword' : TYPES.test(word) ? 'type' : 'plain', text);
+    }
+    pos = TOKEN.lastIndex;
+  }
+  push('plain', line.slice(pos));
+  return tokens;
+}
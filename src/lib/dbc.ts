@@ -0,0 +1,67 @@
+// Client-side read of a CAN database (DBC): the node list and, per message,
+// its sender and the nodes receiving any of its signals. Signal layouts,
+// value tables and attributes are not needed for exposure mapping and are
+// skipped.
+
+export interface DbcMessage {
+  id: number;
+  extended: boolean;
+  name: string;
+  dlc: number;
+  transmitter: string | null;
+  receivers: string[];
+  signalCount: number;
+}
+
+export interface DbcDatabase {
+  nodes: string[];
+  messages: DbcMessage[];
+}
+
+// Placeholder node and pseudo message used by Vector tools for unassigned signals
+const PLACEHOLDER_NODE = 'Vector__XXX';
+const INDEPENDENT_SIGNALS = 'VECTOR__INDEPENDENT_SIG_MSG';
+
+export function parseDbc(source: string): DbcDatabase {
+  const nodes = new Set<string>();
+  const messages: DbcMessage[] = [];
+  let current: DbcMessage | null = null;
+
+  for (const line of source.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    let match: RegExpMatchArray | null;
+
+    if ((match = trimmed.match(/^BU_\s*:(.*)$/))) {
+      match[1].split(/\s+/).filter((node) => node && node !== PLACEHOLDER_NODE).forEach((node) => nodes.add(node));
+    } else if ((match = trimmed.match(/^BO_\s+(\d+)\s+(\w+)\s*:\s*(\d+)\s+(\w+)/))) {
+      const rawId = Number(match[1]);
+      current = match[2] === INDEPENDENT_SIGNALS ? null : {
+        // Bit 31 marks a 29-bit identifier
+        id: rawId & 0x1fffffff,
+        extended: rawId >= 0x80000000,
+        name: match[2],
+        dlc: Number(match[3]),
+        transmitter: match[4] === PLACEHOLDER_NODE ? null : match[4],
+        receivers: [],
+        signalCount: 0,
+      };
+      if (current) messages.push(current);
+    } else if (current && (match = trimmed.match(/^SG_\s.*"[^"]*"\s*(.*)$/))) {
+      current.signalCount++;
+      for (const receiver of match[1].split(/[\s,]+/)) {
+        if (receiver && receiver !== PLACEHOLDER_NODE && !current.receivers.includes(receiver)) current.receivers.push(receiver);
+      }
+    } else {
+      current = null;
+    }
+  }
+
+  if (messages.length === 0) throw new Error('no message definitions (BO_) found');
+
+  // Senders and receivers missing from BU_ are still nodes on the bus
+  for (const message of messages) {
+    if (message.transmitter) nodes.add(message.transmitter);
+    message.receivers.forEach((receiver) => nodes.add(receiver));
+  }
+  return { nodes: [...nodes].sort(), messages };
+}
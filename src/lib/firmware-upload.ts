@@ -0,0 +1,129 @@
+// Resumable upload of firmware artifacts into the private `firmware` bucket
+// using Supabase Storage's TUS endpoint. An interrupted upload is resumed
+// from the last acknowledged offset when the same file is uploaded again.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export const FIRMWARE_BUCKET = 'firmware';
+
+// Supabase Storage requires 6 MB chunks for resumable uploads
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const MAX_CHUNK_RETRIES = 3;
+const RESUME_KEY_PREFIX = 'firmware-upload:';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_PUBLISHABLE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+/**
+ * Objects live under the owner's folder (enforced by the bucket policies)
+ * and are keyed by content hash, so resubmitting a file resumes or
+ * overwrites the same object instead of storing another copy.
+ */
+export function firmwareObjectPath(userId: string, contentKey: string, fileName: string): string {
+  const safeName = fileName.replace(/[^A-Za-z0-9._-]/g, '_');
+  return `${userId}/${contentKey}/${safeName}`;
+}
+
+function encodeMetadata(fields: Record<string, string>): string {
+  return Object.entries(fields)
+    .map(([key, value]) => `${key} ${btoa(unescape(encodeURIComponent(value)))}`)
+    .join(',');
+}
+
+async function tusHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  if (!data.session) throw new Error('Not authenticated');
+  return {
+    'Authorization': `Bearer ${data.session.access_token}`,
+    'apikey': SUPABASE_PUBLISHABLE_KEY,
+    'Tus-Resumable': '1.0.0',
+  };
+}
+
+async function createUpload(file: File, objectPath: string, bucket: string): Promise<string> {
+  const response = await fetch(`${SUPABASE_URL}/storage/v1/upload/resumable`, {
+    method: 'POST',
+    headers: {
+      ...(await tusHeaders()),
+      'x-upsert': 'true',
+      'Upload-Length': String(file.size),
+      'Upload-Metadata': encodeMetadata({
+        bucketName: bucket,
+        objectName: objectPath,
+        contentType: file.type || 'application/octet-stream',
+        cacheControl: '3600',
+      }),
+    },
+  });
+  const location = response.headers.get('Location');
+  if (!response.ok || !location) {
+    throw new Error(`Could not start upload (${response.status}): ${await response.text()}`);
+  }
+  return location;
+}
+
+// Returns the server's offset for an existing upload, or null if it expired
+async function getOffset(uploadUrl: string): Promise<number | null> {
+  const response = await fetch(uploadUrl, { method: 'HEAD', headers: await tusHeaders() });
+  if (!response.ok) return null;
+  const offset = Number(response.headers.get('Upload-Offset'));
+  return Number.isFinite(offset) ? offset : null;
+}
+
+async function sendChunk(uploadUrl: string, file: File, offset: number): Promise<number> {
+  const response = await fetch(uploadUrl, {
+    method: 'PATCH',
+    headers: {
+      ...(await tusHeaders()),
+      'Upload-Offset': String(offset),
+      'Content-Type': 'application/offset+octet-stream',
+    },
+    body: file.slice(offset, offset + CHUNK_SIZE),
+  });
+  if (!response.ok) {
+    throw new Error(`Upload failed at byte ${offset} (${response.status})`);
+  }
+  return Number(response.headers.get('Upload-Offset'));
+}
+
+/**
+ * Uploads `file` to `objectPath` in the firmware bucket (or `bucket`). Each
+ * chunk is retried with backoff; `onProgress` receives the fraction uploaded (0-1).
+ */
+export async function uploadFirmware(
+  file: File,
+  objectPath: string,
+  onProgress?: (fraction: number) => void,
+  bucket = FIRMWARE_BUCKET,
+): Promise<string> {
+  const resumeKey = `${RESUME_KEY_PREFIX}${objectPath}:${file.size}:${file.lastModified}`;
+  let uploadUrl = localStorage.getItem(resumeKey);
+  let offset = uploadUrl ? await getOffset(uploadUrl) : null;
+
+  if (!uploadUrl || offset === null) {
+    uploadUrl = await createUpload(file, objectPath, bucket);
+    localStorage.setItem(resumeKey, uploadUrl);
+    offset = 0;
+  }
+
+  onProgress?.(file.size > 0 ? offset / file.size : 1);
+
+  while (offset < file.size) {
+    let attempt = 0;
+    for (;;) {
+      try {
+        offset = await sendChunk(uploadUrl, file, offset);
+        break;
+      } catch (error) {
+        if (++attempt > MAX_CHUNK_RETRIES) throw error;
+        await new Promise(r => setTimeout(r, 1000 * 2 ** attempt));
+        // The server may have stored part of the chunk before failing
+        offset = (await getOffset(uploadUrl)) ?? offset;
+      }
+    }
+    onProgress?.(offset / file.size);
+  }
+
+  localStorage.removeItem(resumeKey);
+  return objectPath;
+}
@@ -0,0 +1,27 @@
+// Lightweight client-side read of a VBF header, used to prefill the upload
+// form. Full block and checksum verification happens in analyze-binary.
+
+export interface VbfHeaderFields {
+  swPartNumber: string | null;
+  swVersion: string | null;
+}
+
+const HEADER_READ_LIMIT = 64 * 1024;
+
+function readField(header: string, name: string): string | null {
+  const match = header.match(new RegExp(`\\b${name}\\s*=\\s*\\{?\\s*"([^"]*)"`));
+  return match ? match[1].trim() || null : null;
+}
+
+export async function readVbfHeader(file: File): Promise<VbfHeaderFields | null> {
+  if (!file.name.toLowerCase().endsWith('.vbf')) return null;
+
+  const text = await file.slice(0, HEADER_READ_LIMIT).text();
+  if (!text.trimStart().startsWith('vbf_version')) return null;
+
+  const header = text.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/[^\n]*/g, '');
+  return {
+    swPartNumber: readField(header, 'sw_part_number'),
+    swVersion: readField(header, 'sw_version'),
+  };
+}
@@ -1,7 +1,7 @@
 import { useParams, useNavigate } from 'react-router-dom';
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
-import { ArrowLeft, Download, RefreshCw, Cpu, Calendar, Hash, HardDrive, Microchip, Loader2, Shield, Key, FileCode, FileText, FileDown, Package, Target, ClipboardCheck, Info, GitCompare } from 'lucide-react';
+import { ArrowLeft, Download, RefreshCw, Cpu, Calendar, Hash, HardDrive, Microchip, Loader2, Shield, Key, FileCode, FileText, FileDown, Package, Target, ClipboardCheck, Info, GitCompare, XCircle, Type, Binary, Archive } from 'lucide-react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Button } from '@/components/ui/button';
 import { StatusBadge } from '@/components/ui/status-badge';
@@ -17,12 +17,16 @@ import { TARATab } from '@/components/scan/TARATab';
 import { ComplianceTab } from '@/components/scan/ComplianceTab';
 import { BinaryMetadataTab } from '@/components/scan/BinaryMetadataTab';
 import { VersionComparisonTab } from '@/components/scan/VersionComparisonTab';
-import { useScan, useVulnerabilities, useComplianceResults, useAnalysisLogs, useGenerateReport, useSBOMComponents, useScans } from '@/hooks/useScans';
+import { StringsTab } from '@/components/scan/StringsTab';
+import { HexViewer, type ByteRange } from '@/components/scan/HexViewer';
+import { ArchiveFilesTab } from '@/components/scan/ArchiveFilesTab';
+import { BootChainCard } from '@/components/scan/BootChainCard';
+import { useScan, useVulnerabilities, useComplianceResults, useAnalysisLogs, useGenerateReport, useSBOMComponents, useScans, useCancelScan, useVulnerabilityMatches } from '@/hooks/useScans';
 import { supabase } from '@/integrations/supabase/client';
 import { format } from 'date-fns';
 import { toast } from '@/hooks/use-toast';
 import { jsPDF } from 'jspdf';
-import type { ScanStatus } from '@/types/scan';
+import type { ArchiveMemberMetadata, ScanAnalysisMetadata, ScanStatus } from '@/types/scan';
 
 export default function ScanDetails() {
   const { id } = useParams();
@@ -33,9 +37,25 @@ export default function ScanDetails() {
   const { data: vulnerabilities = [] } = useVulnerabilities(id);
   const { data: complianceResults = [] } = useComplianceResults(id);
   const { data: sbomComponents = [] } = useSBOMComponents(id);
+  const { data: vulnMatches = [] } = useVulnerabilityMatches(id);
   const { data: logs = [] } = useAnalysisLogs(id);
   const { data: allScans = [] } = useScans();
   const generateReport = useGenerateReport();
+  const cancelScan = useCancelScan();
+  const [activeTab, setActiveTab] = useState('vulnerabilities');
+  const [hexTarget, setHexTarget] = useState<ByteRange | null>(null);
+  const [memberPath, setMemberPath] = useState<string | null>(null);
+
+  const showInHex = (range: ByteRange) => {
+    setHexTarget(range);
+    setActiveTab('hex');
+  };
+
+  const openMember = (member: ArchiveMemberMetadata) => {
+    setMemberPath(member.path);
+    setHexTarget(null);
+    setActiveTab(member.kind === 'binary' ? 'hex' : 'code');
+  };
 
   useEffect(() => {
     if (!id) return;
@@ -182,6 +202,18 @@ export default function ScanDetails() {
   const passCount = complianceResults.filter(r => r.status === 'pass').length;
   const complianceScore = complianceResults.length > 0 ? Math.round((passCount / complianceResults.length) * 100) : 0;
 
+  const isInProgress = scan.status !== 'complete' && scan.status !== 'failed';
+  const metadata = scan.metadata as ScanAnalysisMetadata | null;
+  // Archive uploads show one member at a time in the viewers and the Strings tab
+  const archive = metadata?.archive;
+  const member = archive ? archive.members.find(m => m.path === memberPath) ?? archive.members[0] ?? null : null;
+  const isBinary = member ? member.kind === 'binary' : !!metadata?.memoryMap;
+  const viewerVulnerabilities = member ? vulnerabilities.filter(v => v.member_path === member.path) : vulnerabilities;
+  const viewerComplianceResults = member ? complianceResults.filter(r => r.member_path === member.path) : complianceResults;
+  const pipelineStages: string[] = ['parsing', 'decompiling', 'analyzing', 'enriching'];
+  const failedStage = [...logs].reverse().find(l => pipelineStages.includes(l.stage))?.stage as ScanStatus | undefined;
+  const failureReason = [...logs].reverse().find(l => l.log_level === 'error' && l.stage === 'failed')?.message;
+
   return (
     <AppLayout>
       <div className="space-y-6">
@@ -210,6 +242,12 @@ export default function ScanDetails() {
 
           <div className="flex items-center gap-3">
             <StatusBadge status={(scan.status || 'queued') as ScanStatus} />
+            {isInProgress && (
+              <Button variant="outline" size="sm" onClick={() => cancelScan.mutate(scan.id)} disabled={cancelScan.isPending}>
+                <XCircle className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+            )}
             <Button variant="outline" size="sm" disabled>
               <RefreshCw className="w-4 h-4 mr-2" />
               Re-scan
@@ -273,9 +311,9 @@ export default function ScanDetails() {
           </div>
         </div>
 
-        <PipelineStatus currentStatus={(scan.status || 'queued') as ScanStatus} progress={scan.progress || 0} />
+        <PipelineStatus currentStatus={(scan.status || 'queued') as ScanStatus} progress={scan.progress || 0} failedStage={failedStage} />
 
-        {scan.status !== 'complete' && scan.status !== 'failed' && logs.length > 0 && (
+        {scan.status !== 'complete' && logs.length > 0 && (
           <div className="glass-card rounded-xl border border-border p-5">
             <h3 className="text-sm font-medium text-muted-foreground mb-4">Analysis Logs</h3>
             <div className="space-y-2 max-h-48 overflow-y-auto font-mono text-xs">
@@ -292,8 +330,10 @@ export default function ScanDetails() {
 
         {scan.status === 'complete' && <ExecutiveSummary scan={scan} vulnerabilityCounts={vulnCounts} complianceScore={complianceScore} />}
 
+        {scan.status === 'complete' && metadata?.bootChain && metadata.bootChain.length > 0 && <BootChainCard reports={metadata.bootChain} />}
+
         {scan.status === 'complete' && (
-          <Tabs defaultValue="vulnerabilities" className="space-y-4">
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
             <TabsList className="flex flex-wrap h-auto gap-1 bg-muted/50 p-1">
               <TabsTrigger value="vulnerabilities" className="gap-1.5 text-xs">
                 <Shield className="w-3.5 h-3.5" />Vulnerabilities
@@ -313,29 +353,56 @@ export default function ScanDetails() {
               <TabsTrigger value="compliance" className="gap-1.5 text-xs">
                 <ClipboardCheck className="w-3.5 h-3.5" />Compliance
               </TabsTrigger>
+              {archive && (
+                <TabsTrigger value="files" className="gap-1.5 text-xs">
+                  <Archive className="w-3.5 h-3.5" />Files
+                  <span className="text-[10px] bg-muted px-1 rounded">{archive.members.length}</span>
+                </TabsTrigger>
+              )}
               <TabsTrigger value="metadata" className="gap-1.5 text-xs">
                 <Info className="w-3.5 h-3.5" />Binary Info
               </TabsTrigger>
+              <TabsTrigger value="strings" className="gap-1.5 text-xs">
+                <Type className="w-3.5 h-3.5" />Strings
+              </TabsTrigger>
               <TabsTrigger value="comparison" className="gap-1.5 text-xs">
                 <GitCompare className="w-3.5 h-3.5" />Compare
               </TabsTrigger>
-              <TabsTrigger value="code" className="gap-1.5 text-xs">
-                <FileCode className="w-3.5 h-3.5" />Code View
-              </TabsTrigger>
+              {isBinary ? (
+                <TabsTrigger value="hex" className="gap-1.5 text-xs">
+                  <Binary className="w-3.5 h-3.5" />Hex View
+                </TabsTrigger>
+              ) : (
+                <TabsTrigger value="code" className="gap-1.5 text-xs">
+                  <FileCode className="w-3.5 h-3.5" />Code View
+                </TabsTrigger>
+              )}
             </TabsList>
 
             <TabsContent value="vulnerabilities"><VulnerabilityList vulnerabilities={vulnerabilities.filter(v => v.cwe_id !== 'CWE-798' && v.cwe_id !== 'CWE-359')} /></TabsContent>
             <TabsContent value="secrets"><SecretsFindings vulnerabilities={vulnerabilities} /></TabsContent>
-            <TabsContent value="sbom"><SBOMTab scanId={id!} components={sbomComponents} ecuName={scan.ecu_name} /></TabsContent>
-            <TabsContent value="tara"><TARATab vulnerabilities={vulnerabilities} ecuName={scan.ecu_name} riskScore={scan.risk_score} /></TabsContent>
+            <TabsContent value="sbom"><SBOMTab scanId={id!} components={sbomComponents} ecuName={scan.ecu_name} crypto={metadata?.crypto} matches={vulnMatches} /></TabsContent>
+            <TabsContent value="tara"><TARATab vulnerabilities={vulnerabilities} ecuName={scan.ecu_name} riskScore={scan.risk_score} ecuModel={metadata?.ecuModel} busExposure={metadata?.busExposure} uds={metadata?.uds} bootChain={metadata?.bootChain} /></TabsContent>
             <TabsContent value="compliance"><ComplianceTab results={complianceResults} ecuName={scan.ecu_name} /></TabsContent>
-            <TabsContent value="metadata"><BinaryMetadataTab scan={scan} /></TabsContent>
+            {archive && (
+              <TabsContent value="files">
+                <ArchiveFilesTab archive={archive} vulnerabilities={vulnerabilities} selectedPath={member?.path ?? null} onOpen={openMember} />
+              </TabsContent>
+            )}
+            <TabsContent value="metadata"><BinaryMetadataTab scan={scan} onShowInHex={showInHex} member={member} /></TabsContent>
+            <TabsContent value="strings"><StringsTab key={member?.path} scan={scan} onShowInHex={showInHex} member={member} /></TabsContent>
             <TabsContent value="comparison"><VersionComparisonTab currentScan={scan} currentVulnerabilities={vulnerabilities} allScans={allScans} /></TabsContent>
-            <TabsContent value="code"><CodeViewer vulnerabilities={vulnerabilities} fileName={scan.file_name} /></TabsContent>
+            {isBinary ? (
+              <TabsContent value="hex"><HexViewer key={member?.path} scan={scan} vulnerabilities={viewerVulnerabilities} target={hexTarget} member={member} /></TabsContent>
+            ) : (
+              <TabsContent value="code">
+                <CodeViewer key={member?.path} scan={scan} vulnerabilities={viewerVulnerabilities} complianceResults={viewerComplianceResults} member={member} />
+              </TabsContent>
+            )}
           </Tabs>
         )}
 
-        {scan.status !== 'complete' && scan.status !== 'failed' && (
+        {isInProgress && (
           <div className="glass-card rounded-xl border border-border p-8 text-center">
             <div className="animate-pulse">
               <div className="w-16 h-16 rounded-full bg-primary/20 mx-auto mb-4 flex items-center justify-center">
@@ -353,7 +420,7 @@ export default function ScanDetails() {
               <Cpu className="w-8 h-8 text-destructive" />
             </div>
             <h3 className="text-lg font-semibold text-foreground mb-2">Analysis Failed</h3>
-            <p className="text-muted-foreground mb-4">An error occurred during the analysis.</p>
+            <p className="text-muted-foreground mb-4">{failureReason || 'An error occurred during the analysis.'}</p>
             <Button onClick={() => navigate('/upload')}>Start New Scan</Button>
           </div>
         )}
@@ -12,6 +12,9 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card';
+import { SignatureRulesCard } from '@/components/settings/SignatureRulesCard';
+import { NetworkDatabasesCard } from '@/components/settings/NetworkDatabasesCard';
+import { VulnerabilityFeedsCard } from '@/components/settings/VulnerabilityFeedsCard';
 
 export default function Settings() {
   return (
@@ -156,6 +159,12 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        <SignatureRulesCard />
+
+        <NetworkDatabasesCard />
+
+        <VulnerabilityFeedsCard />
+
         {/* Database Settings */}
         <Card className="glass-card border-border">
           <CardHeader>
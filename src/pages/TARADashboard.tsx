@@ -14,20 +14,32 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Slider } from '@/components/ui/slider';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { BusExposureList } from '@/components/scan/BusExposureList';
 import { useScans, useVulnerabilities } from '@/hooks/useScans';
 import { toast } from '@/hooks/use-toast';
+import {
+  ENTRY_POINT_LABELS,
+  exposureFeasibility,
+  isRemotelyReachable,
+  maxFeasibility,
+  reachableEntryPoints,
+  type AttackFeasibility,
+} from '@/lib/bus-exposure';
+import type { BusExposureMetadata, ScanAnalysisMetadata } from '@/types/scan';
 
 interface TARAAssessment {
   id: string;
   ecuName: string;
   ecuType: string;
   ciaScores: { confidentiality: number; integrity: number; availability: number };
-  attackFeasibility: 'very_low' | 'low' | 'medium' | 'high' | 'very_high';
+  attackFeasibility: AttackFeasibility;
   impactRating: 'negligible' | 'moderate' | 'serious' | 'severe';
   riskValue: number;
   mitigatingControlsCount: number;
   lastUpdated: Date;
   scanId?: string;
+  /** Undefined when no CAN databases were imported at scan time. */
+  busExposure?: BusExposureMetadata[];
 }
 
 export default function TARADashboard() {
@@ -42,7 +54,6 @@ export default function TARADashboard() {
   const [formData, setFormData] = useState({
     ecuName: '',
     ecuType: '',
-    networkContext: 'CAN',
     confidentiality: [3],
     integrity: [3],
     availability: [3],
@@ -63,24 +74,32 @@ export default function TARADashboard() {
     const a = Math.max(0, baseScore - criticalCount * 0.8 - highCount * 0.4);
 
     const riskValue = Math.min(100, (criticalCount * 25 + highCount * 15 + scanVulns.length * 2));
+    const busExposure = (scan.metadata as ScanAnalysisMetadata | null)?.busExposure;
 
     return {
       id: scan.id,
       ecuName: scan.ecu_name,
       ecuType: scan.ecu_type,
       ciaScores: { confidentiality: c, integrity: i, availability: a },
-      attackFeasibility: criticalCount > 2 ? 'very_high' : criticalCount > 0 ? 'high' : highCount > 2 ? 'medium' : 'low',
+      attackFeasibility: maxFeasibility(
+        criticalCount > 2 ? 'very_high' : criticalCount > 0 ? 'high' : highCount > 2 ? 'medium' : 'low',
+        exposureFeasibility(busExposure),
+      ),
       impactRating: criticalCount > 1 ? 'severe' : criticalCount > 0 ? 'serious' : highCount > 0 ? 'moderate' : 'negligible',
       riskValue,
       mitigatingControlsCount: Math.floor(Math.random() * 8) + 2,
       lastUpdated: new Date(scan.updated_at || scan.created_at || Date.now()),
       scanId: scan.id,
+      busExposure,
     };
   });
 
-  // Vulnerabilities requiring TARA updates
+  // Vulnerabilities requiring TARA updates, including high-severity findings
+  // on ECUs reachable from outside the vehicle
+  const remoteScanIds = new Set(taraAssessments.filter(a => isRemotelyReachable(a.busExposure)).map(a => a.id));
   const vulnsRequiringUpdate = vulnerabilities.filter(v => 
     v.severity === 'critical' || 
+    (v.severity === 'high' && remoteScanIds.has(v.scan_id)) ||
     (v.attack_vector && v.attack_vector.toLowerCase().includes('network'))
   ).slice(0, 5);
 
@@ -117,6 +136,11 @@ export default function TARADashboard() {
     </div>
   );
 
+  // Exposure comes from the latest scan of an ECU with the entered name
+  const formExposure = taraAssessments.find(
+    a => a.ecuName.trim().toLowerCase() === formData.ecuName.trim().toLowerCase(),
+  )?.busExposure;
+
   const handleCreateAssessment = () => {
     toast({ title: 'TARA Assessment Created', description: `Assessment for ${formData.ecuName} has been created.` });
     setIsCreateModalOpen(false);
@@ -180,18 +204,16 @@ export default function TARADashboard() {
                     </Select>
                   </div>
                   <div className="space-y-2">
-                    <Label>Network Context</Label>
-                    <Select value={formData.networkContext} onValueChange={(v) => setFormData({ ...formData, networkContext: v })}>
-                      <SelectTrigger><SelectValue /></SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="CAN">CAN Bus</SelectItem>
-                        <SelectItem value="LIN">LIN</SelectItem>
-                        <SelectItem value="FlexRay">FlexRay</SelectItem>
-                        <SelectItem value="Ethernet">Automotive Ethernet</SelectItem>
-                        <SelectItem value="Private">Private Network</SelectItem>
-                        <SelectItem value="Public">Public Interface</SelectItem>
-                      </SelectContent>
-                    </Select>
+                    <Label>Bus Exposure</Label>
+                    {formExposure?.length ? (
+                      <BusExposureList exposures={formExposure} />
+                    ) : (
+                      <p className="text-xs text-muted-foreground p-3 bg-muted/50 rounded-lg">
+                        {formData.ecuName.trim()
+                          ? 'No scan of this ECU was mapped to an imported CAN database. Import DBC files under Settings → Vehicle Networks and rescan.'
+                          : 'Enter the ECU name of a scanned ECU to see which entry points can reach it.'}
+                      </p>
+                    )}
                   </div>
                 </TabsContent>
 
@@ -404,6 +426,7 @@ export default function TARADashboard() {
             <TableHeader>
               <TableRow>
                 <TableHead>ECU Name</TableHead>
+                <TableHead>Exposure</TableHead>
                 <TableHead>CIA Scores</TableHead>
                 <TableHead>Attack Feasibility</TableHead>
                 <TableHead>Impact</TableHead>
@@ -420,6 +443,22 @@ export default function TARADashboard() {
                     <div className="font-medium">{assessment.ecuName}</div>
                     <div className="text-xs text-muted-foreground">{assessment.ecuType}</div>
                   </TableCell>
+                  <TableCell>
+                    {assessment.busExposure?.length ? (
+                      <div className="flex flex-wrap gap-1">
+                        {reachableEntryPoints(assessment.busExposure).map((entry) => (
+                          <Badge key={entry} variant={entry === 'obd' ? 'secondary' : 'destructive'} className="text-xs">
+                            {ENTRY_POINT_LABELS[entry]}
+                          </Badge>
+                        ))}
+                        {reachableEntryPoints(assessment.busExposure).length === 0 && (
+                          <span className="text-xs text-muted-foreground">Internal only</span>
+                        )}
+                      </div>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">Not mapped</span>
+                    )}
+                  </TableCell>
                   <TableCell>
                     <div className="flex flex-col gap-1">
                       <div className="flex items-center gap-1">
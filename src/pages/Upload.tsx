@@ -1,24 +1,44 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
-import { Upload as UploadIcon, ArrowRight, Loader2 } from 'lucide-react';
+import { Upload as UploadIcon, ArrowRight, Loader2, Copy } from 'lucide-react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { FileDropzone } from '@/components/upload/FileDropzone';
 import { MetadataForm } from '@/components/upload/MetadataForm';
 import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { ScanMetadata } from '@/types/scan';
 import { toast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
-import { useCreateScan, useStartAnalysis } from '@/hooks/useScans';
+import { useCreateScan, useDuplicateScan, useStartAnalysis } from '@/hooks/useScans';
+import { readVbfHeader } from '@/lib/vbf';
+import { computeFileHashes, type FileHashes } from '@/lib/hash';
+import { firmwareObjectPath, uploadFirmware } from '@/lib/firmware-upload';
+import { Progress } from '@/components/ui/progress';
 
 export default function Upload() {
   const navigate = useNavigate();
   const { user } = useAuth();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [fileHashes, setFileHashes] = useState<FileHashes | null>(null);
+  const [isHashing, setIsHashing] = useState(false);
+  const [pendingSubmit, setPendingSubmit] = useState<ScanMetadata | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const currentFile = useRef<File | null>(null);
   
   const createScan = useCreateScan();
   const startAnalysis = useStartAnalysis();
+  const { data: duplicateScan } = useDuplicateScan(fileHashes?.sha256);
 
   const form = useForm<ScanMetadata>({
     defaultValues: {
@@ -34,6 +54,56 @@ export default function Upload() {
     },
   });
 
+  const hashFile = async (file: File) => {
+    setIsHashing(true);
+    try {
+      const hashes = await computeFileHashes(file);
+      // Ignore the result if another file was picked in the meantime
+      if (currentFile.current === file) setFileHashes(hashes);
+    } catch (error) {
+      toast({
+        title: 'Hashing failed',
+        description: error instanceof Error ? error.message : 'Could not compute file hashes',
+        variant: 'destructive',
+      });
+    } finally {
+      if (currentFile.current === file) setIsHashing(false);
+    }
+  };
+
+  const handleFileSelect = async (file: File) => {
+    setSelectedFile(file);
+    setFileHashes(null);
+    currentFile.current = file;
+    hashFile(file);
+
+    const vbfHeader = await readVbfHeader(file).catch(() => null);
+    if (!vbfHeader) return;
+
+    const prefilled: string[] = [];
+    if (vbfHeader.swPartNumber && !form.getValues('ecuName')) {
+      form.setValue('ecuName', vbfHeader.swPartNumber);
+      prefilled.push('ECU name');
+    }
+    if (vbfHeader.swVersion && !form.getValues('version')) {
+      form.setValue('version', vbfHeader.swVersion);
+      prefilled.push('version');
+    }
+    if (prefilled.length > 0) {
+      toast({
+        title: 'VBF header detected',
+        description: `Prefilled ${prefilled.join(' and ')} from sw_part_number / sw_version.`,
+      });
+    }
+  };
+
+  const handleClear = () => {
+    setSelectedFile(null);
+    setFileHashes(null);
+    setIsHashing(false);
+    currentFile.current = null;
+  };
+
   const handleSubmit = async (data: ScanMetadata) => {
     if (!selectedFile) {
       toast({
@@ -53,19 +123,26 @@ export default function Upload() {
       return;
     }
 
+    if (duplicateScan) {
+      setPendingSubmit(data);
+      return;
+    }
+
+    await runAnalysis(data);
+  };
+
+  const runAnalysis = async (data: ScanMetadata) => {
+    if (!selectedFile || !user) return;
+
     setIsSubmitting(true);
 
     try {
-      // Read file as base64
-      const fileContent = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => {
-          const base64 = (reader.result as string).split(',')[1];
-          resolve(base64);
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(selectedFile);
-      });
+      // Upload the original artifact first so a failed upload leaves no scan behind
+      const storagePath = await uploadFirmware(
+        selectedFile,
+        firmwareObjectPath(user.id, fileHashes?.sha256 ?? crypto.randomUUID(), selectedFile.name),
+        setUploadProgress,
+      );
 
       // Create scan record in database
       const scan = await createScan.mutateAsync({
@@ -77,6 +154,10 @@ export default function Upload() {
         platform: data.platform || null,
         file_name: selectedFile.name,
         file_size: selectedFile.size,
+        file_hash: fileHashes?.sha256 ?? null,
+        file_sha1: fileHashes?.sha1 ?? null,
+        file_md5: fileHashes?.md5 ?? null,
+        storage_path: storagePath,
         architecture: data.architecture,
         deep_analysis: data.enableDeepAnalysis,
         compliance_frameworks: data.complianceFrameworks,
@@ -92,7 +173,6 @@ export default function Upload() {
       // Start analysis in background (don't await)
       startAnalysis.mutate({
         scanId: scan.id,
-        fileContent,
         fileName: selectedFile.name,
         metadata: {
           ecuName: data.ecuName,
@@ -115,6 +195,7 @@ export default function Upload() {
       });
     } finally {
       setIsSubmitting(false);
+      setUploadProgress(null);
     }
   };
 
@@ -139,10 +220,38 @@ export default function Upload() {
           <div className="glass-card rounded-xl border border-border p-6">
             <h2 className="text-lg font-semibold text-foreground mb-4">Binary File</h2>
             <FileDropzone
-              onFileSelect={setSelectedFile}
+              onFileSelect={handleFileSelect}
               selectedFile={selectedFile}
-              onClear={() => setSelectedFile(null)}
+              onClear={handleClear}
             />
+            {selectedFile && (
+              <div className="mt-4 space-y-1 text-xs text-muted-foreground">
+                {isHashing || !fileHashes ? (
+                  <div className="flex items-center gap-2">
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                    Computing file hashes...
+                  </div>
+                ) : (
+                  <>
+                    <div>SHA-256: <span className="font-mono text-foreground">{fileHashes.sha256}</span></div>
+                    <div>SHA-1: <span className="font-mono">{fileHashes.sha1}</span></div>
+                    <div>MD5: <span className="font-mono">{fileHashes.md5}</span></div>
+                  </>
+                )}
+                {uploadProgress !== null && (
+                  <div className="pt-2 space-y-1">
+                    <div>Uploading... {Math.round(uploadProgress * 100)}%</div>
+                    <Progress value={uploadProgress * 100} className="h-2" />
+                  </div>
+                )}
+                {duplicateScan && (
+                  <div className="flex items-center gap-2 pt-2 text-warning">
+                    <Copy className="w-3 h-3" />
+                    Identical to {duplicateScan.ecu_name} {duplicateScan.version || ''}, analyzed {new Date(duplicateScan.completed_at || duplicateScan.created_at || '').toLocaleDateString()}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Metadata Form Section */}
@@ -181,7 +290,7 @@ export default function Upload() {
             </Button>
             <Button 
               type="submit" 
-              disabled={!selectedFile || isSubmitting}
+              disabled={!selectedFile || isHashing || isSubmitting}
               className="gap-2 bg-gradient-to-r from-primary to-accent hover:opacity-90"
             >
               {isSubmitting ? (
@@ -198,6 +307,34 @@ export default function Upload() {
             </Button>
           </div>
         </form>
+
+        <AlertDialog open={!!pendingSubmit} onOpenChange={(open) => !open && setPendingSubmit(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>This file was already analyzed</AlertDialogTitle>
+              <AlertDialogDescription>
+                A completed scan of a byte-identical file (same SHA-256) exists:{' '}
+                <span className="font-medium text-foreground">{duplicateScan?.ecu_name} {duplicateScan?.version || ''}</span>
+                {duplicateScan?.completed_at && <> from {new Date(duplicateScan.completed_at).toLocaleString()}</>}.
+                Reuse its results, or run a fresh analysis anyway?
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel
+                onClick={() => {
+                  const data = pendingSubmit;
+                  setPendingSubmit(null);
+                  if (data) runAnalysis(data);
+                }}
+              >
+                Re-run Analysis
+              </AlertDialogCancel>
+              <AlertDialogAction onClick={() => duplicateScan && navigate(`/scans/${duplicateScan.id}`)}>
+                Open Existing Scan
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </div>
     </AppLayout>
   );
@@ -111,3 +111,350 @@ export interface ScanMetadata {
   enableDeepAnalysis?: boolean;
   complianceFrameworks: string[];
 }
+
+export interface ElfSection {
+  index: number;
+  name: string;
+  type: string;
+  flags: string;
+  address: number;
+  offset: number;
+  size: number;
+  align: number;
+  entrySize: number;
+  link: number;
+}
+
+export interface ElfProgramHeader {
+  type: string;
+  flags: string;
+  offset: number;
+  virtualAddress: number;
+  physicalAddress: number;
+  fileSize: number;
+  memorySize: number;
+  align: number;
+}
+
+export interface ElfMetadata {
+  elfClass: 'ELF32' | 'ELF64';
+  endianness: 'little' | 'big';
+  fileType: string;
+  machine: string;
+  machineCode: number;
+  architecture: Architecture | null;
+  entryPoint: number;
+  flags: number;
+  sections: ElfSection[];
+  programHeaders: ElfProgramHeader[];
+  symbolSummary: {
+    total: number;
+    functions: number;
+    globalVariables: number;
+    localSymbols: number;
+    undefinedSymbols: number;
+  };
+  compilerStrings: string[];
+  compilerFlags: string | null;
+  buildId: string | null;
+  bindNow: boolean;
+}
+
+export interface VbfMetadata {
+  header: {
+    vbfVersion: string | null;
+    swPartNumber: string | null;
+    swVersion: string | null;
+    swPartType: string | null;
+    ecuAddress: number | null;
+    erase: { start: number; length: number }[];
+    verificationBlockStart: number | null;
+    fileChecksum: number | null;
+    fields: Record<string, string>;
+  };
+  blocks: {
+    address: number;
+    length: number;
+    offset: number;
+    crc: number;
+    computedCrc: number;
+    valid: boolean;
+  }[];
+  computedFileChecksum: number;
+  fileChecksumValid: boolean | null;
+  errors: string[];
+}
+
+export interface MemoryMapMetadata {
+  format: 'elf' | 'ihex' | 'srec' | 'vbf' | 'raw';
+  size: number;
+  segments: { name?: string; address: number; offset: number; size: number }[];
+  gaps: { start: number; end: number }[];
+  overlaps: { address: number; length: number; identical: boolean }[];
+  entryPoint: number | null;
+  header: string | null;
+  recordCount: number;
+  errorCount: number;
+}
+
+export interface ArchitectureDetectionMetadata {
+  architecture: Exclude<Architecture, 'Unknown'> | null;
+  confidence: 'high' | 'medium' | 'low';
+  endianness: 'little' | 'big' | null;
+  variant: string | null;
+  evidence: string[];
+  scores: Record<Exclude<Architecture, 'Unknown'>, number>;
+}
+
+export interface DisassemblyMetadata {
+  mode: 'thumb' | 'arm' | 'vle' | 'booke';
+  functionCount: number;
+  instructionCount: number;
+  callEdges: number;
+  tailCalls: number;
+  dataRefs: number;
+  bySource: Record<string, number>;
+  mostCalled: { address: number; name: string; callers: number }[];
+  truncated: boolean;
+}
+
+export type StringCategory = 'url' | 'crypto' | 'path' | 'format' | 'version' | 'other';
+export type StringEncoding = 'ascii' | 'utf16le' | 'utf16be';
+
+export interface StringsMetadata {
+  total: number;
+  byCategory: Partial<Record<StringCategory, number>>;
+  byEncoding: Partial<Record<StringEncoding, number>>;
+  truncated: boolean;
+}
+
+export interface EntropyRegionMetadata {
+  kind: 'high-entropy' | 'erased';
+  offset: number;
+  length: number;
+  address: number | null;
+  entropy: number;
+  classification: 'encrypted' | 'compressed' | null;
+}
+
+export interface EntropyMetadata {
+  blockSize: number;
+  /** Entropy of consecutive blocks of blockSize bytes, in bits per byte. */
+  blocks: number[];
+  sections: { name: string; offset: number; size: number; entropy: number }[];
+  regions: EntropyRegionMetadata[];
+  overall: number;
+  truncated: boolean;
+}
+
+export type HardeningStatus = 'pass' | 'warning' | 'fail' | 'not-applicable' | 'unknown';
+
+export interface HardeningMetadata {
+  target: 'hosted' | 'cortex-m' | 'bare-metal';
+  checks: {
+    id: 'canary' | 'nx' | 'relro' | 'pie' | 'fortify' | 'stripped' | 'mpu' | 'sram-xn';
+    label: string;
+    status: HardeningStatus;
+    evidence: string;
+  }[];
+}
+
+export interface ArchiveMemberMetadata {
+  path: string;
+  size: number;
+  kind: 'source' | 'binary';
+  /** Storage path of the member as extracted from the archive. */
+  artifactPath: string;
+  /** Storage path of the flattened image when the member is a container format. */
+  imagePath?: string;
+  format?: MemoryMapMetadata['format'];
+  architecture?: Exclude<Architecture, 'Unknown'> | null;
+  disassembly?: DisassemblyMetadata;
+  entropy?: EntropyMetadata;
+  hardening?: HardeningMetadata;
+  strings?: StringsMetadata;
+}
+
+export interface ArchiveMetadata {
+  format: 'zip' | 'tar' | 'tar.gz';
+  totalSize: number;
+  members: ArchiveMemberMetadata[];
+  skipped: { path: string; size: number | null; reason: string }[];
+}
+
+// ECU model parsed from the AUTOSAR ARXML files of a scan
+interface ArxmlLocationMetadata {
+  file: string;
+  line: number;
+}
+
+export interface EcuModelMetadata {
+  documents: string[];
+  extract: string | null;
+  ecuInstances: (ArxmlLocationMetadata & { name: string; controllers: { name: string; bus: string }[] })[];
+  components: (ArxmlLocationMetadata & {
+    name: string;
+    path: string;
+    kind: string;
+    ports: { name: string; direction: 'provided' | 'required' | 'provided-required'; interface: string | null }[];
+    runnables: { name: string; symbol: string | null; periodMs: number | null }[];
+  })[];
+  signalCount: number;
+  pdus: (ArxmlLocationMetadata & {
+    name: string;
+    path: string;
+    length: number | null;
+    signals: string[];
+    safetyRelevant: boolean;
+    /** Name of the SECURED-I-PDU protecting this PDU, if any. */
+    securedBy: string | null;
+  })[];
+  secOc: (ArxmlLocationMetadata & {
+    name: string;
+    payload: string | null;
+    direction: 'tx' | 'rx' | null;
+    freshnessValueLength: number | null;
+    freshnessValueTxLength: number | null;
+    authInfoTxLength: number | null;
+  })[];
+  diagnosticServices: (ArxmlLocationMetadata & {
+    name: string;
+    serviceId: number | null;
+    service: string;
+    securityLevels: string[];
+    sessions: string[];
+    authenticationRoles: string[];
+  })[];
+  truncated: boolean;
+  errors: string[];
+}
+
+export type BootCheckStatus = 'pass' | 'warning' | 'fail';
+
+// Secure boot / update chain evidence for one source file or firmware image
+export interface BootChainMetadata {
+  /** Archive member path, or the uploaded file name. */
+  file: string;
+  verifyRoutines: { name: string; evidence: string; line: number | null; address: number | null }[];
+  publicKeys: { label: string; bits: number | null; line: number | null; offset: number | null }[];
+  hashes: string[];
+  rollback: { evidence: string; line: number | null; offset: number | null }[];
+  verifyCalls: {
+    caller: string;
+    verifier: string;
+    outcome: 'checked' | 'ignored' | 'returned' | 'unknown';
+    jumps: boolean;
+    line: number | null;
+    address: number | null;
+  }[];
+  checks: { authenticity: BootCheckStatus; enforcement: BootCheckStatus; rollback: BootCheckStatus };
+}
+
+export type EntryPoint = 'obd' | 'telematics' | 'infotainment';
+
+// Where the scanned ECU sits on a platform's CAN buses, one entry per platform
+// whose network databases have a node matching the ECU name
+export interface BusExposureMetadata {
+  platform: string;
+  node: string;
+  buses: { bus: string; transmits: string[]; receives: string[] }[];
+  /** Shortest route per entry point, as alternating entry/bus/gateway names. */
+  paths: { entry: EntryPoint; route: string[] }[];
+}
+
+// How an SBOM component was identified (sbom_components.evidence)
+export interface ComponentEvidence {
+  kind: 'banner' | 'symbol' | 'string' | 'include' | 'version-macro' | 'llm';
+  detail: string;
+  offset: number | null;
+  line: number | null;
+}
+
+// Why a component was linked to an advisory by the vulnerability database
+// matcher (vuln_matches.evidence)
+export interface VulnMatchEvidence {
+  /** CPE match criteria, or the package (ecosystem/name or purl). */
+  criteria: string;
+  range: string;
+  component_version: string;
+  /** Platform CPEs of an AND configuration that were assumed to apply. */
+  assumed_platforms: string[];
+}
+
+export type CryptoIssueKind = 'weak-hash-auth' | 'weak-cipher' | 'ecb-mode' | 'static-iv' | 'rand-key' | 'weak-rsa' | 'hardcoded-key';
+
+// Cryptographic algorithms and libraries recognised in one source file or
+// firmware image (the CBOM part of the SBOM), and the misuse found
+export interface CryptoInventoryMetadata {
+  /** Archive member path, or the uploaded file name. */
+  file: string;
+  algorithms: {
+    name: string;
+    primitive: 'block-cipher' | 'stream-cipher' | 'hash' | 'mac' | 'signature' | 'key-agree';
+    mode: string | null;
+    keyBits: number | null;
+    weak: boolean;
+    evidence: { kind: 'constant' | 'symbol' | 'source'; detail: string; line: number | null; offset: number | null }[];
+  }[];
+  libraries: { name: string; version: string | null; offset: number }[];
+  issues: {
+    kind: CryptoIssueKind;
+    algorithm: string;
+    severity: Severity;
+    title: string;
+    function: string | null;
+    line: number | null;
+    offset: number | null;
+  }[];
+}
+
+export type UdsIssueKind =
+  | 'unprotected-service'
+  | 'constant-xor-key'
+  | 'short-seed'
+  | 'predictable-seed'
+  | 'missing-attempt-counter';
+
+// UDS (ISO 14229) services recovered from one source file or firmware image,
+// and the diagnostic access issues found in them
+export interface UdsSurfaceMetadata {
+  /** Archive member path, or the uploaded file name. */
+  file: string;
+  services: {
+    sid: number;
+    name: string;
+    handlers: string[];
+    /** null when the access check could not be determined. */
+    securityGated: boolean | null;
+    line: number | null;
+    address: number | null;
+  }[];
+  issues: {
+    kind: UdsIssueKind;
+    sid: number | null;
+    severity: Severity;
+    title: string;
+    function: string | null;
+    threat: { r155: string; r155Threat: string; iso21434: string };
+  }[];
+}
+
+// Shape of scans.metadata as written by the analyze-binary pipeline
+export interface ScanAnalysisMetadata {
+  archive?: ArchiveMetadata;
+  architecture?: ArchitectureDetectionMetadata;
+  bootChain?: BootChainMetadata[];
+  busExposure?: BusExposureMetadata[];
+  crypto?: CryptoInventoryMetadata[];
+  disassembly?: DisassemblyMetadata;
+  ecuModel?: EcuModelMetadata;
+  entropy?: EntropyMetadata;
+  elf?: ElfMetadata;
+  hardening?: HardeningMetadata;
+  /** Storage path of the flattened image when the upload was a container format. */
+  imagePath?: string;
+  memoryMap?: MemoryMapMetadata;
+  strings?: StringsMetadata;
+  uds?: UdsSurfaceMetadata[];
+  vbf?: VbfMetadata;
+}
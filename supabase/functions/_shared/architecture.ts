@@ -0,0 +1,263 @@
+// Identifies the CPU architecture of a firmware image from its content: the
+// ELF e_machine field when there is one, otherwise boot headers / vector
+// tables and the density of characteristic instruction encodings.
+
+import type { FirmwareImage } from "./firmware-image.ts";
+
+export type DetectedArchitecture = 'ARM' | 'PowerPC' | 'TriCore' | 'x86';
+
+export interface ArchitectureDetection {
+  architecture: DetectedArchitecture | null;
+  confidence: 'high' | 'medium' | 'low';
+  endianness: 'little' | 'big' | null;
+  /** Instruction-set variant when it can be told apart, e.g. "Thumb-2" or "VLE". */
+  variant: string | null;
+  evidence: string[];
+  /** Characteristic instruction hits per KiB of non-erased data. */
+  scores: Record<DetectedArchitecture, number>;
+}
+
+interface InstructionPattern {
+  architecture: DetectedArchitecture;
+  variant?: string;
+  label: string;
+  bytes: number[];
+  /** Bits of `bytes` that must match; defaults to all. */
+  mask?: number[];
+  align: number;
+}
+
+// Byte sequences as they appear in memory for the architecture's usual
+// endianness (little for ARM/TriCore/x86, big for PowerPC).
+const INSTRUCTION_PATTERNS: InstructionPattern[] = [
+  // Thumb: push {..., lr} (0xB5xx), bx lr (0x4770), push.w {..., lr} (0xE92D 0x4xxx)
+  { architecture: 'ARM', variant: 'Thumb-2', label: 'Thumb push {lr}', bytes: [0x00, 0xb5], mask: [0x00, 0xff], align: 2 },
+  { architecture: 'ARM', variant: 'Thumb-2', label: 'Thumb bx lr', bytes: [0x70, 0x47], align: 2 },
+  { architecture: 'ARM', variant: 'Thumb-2', label: 'Thumb-2 push.w {lr}', bytes: [0x2d, 0xe9, 0x00, 0x40], mask: [0xff, 0xff, 0x00, 0xf0], align: 2 },
+  // A32: push {..., lr} (0xE92D4xxx), bx lr (0xE12FFF1E)
+  { architecture: 'ARM', variant: 'A32', label: 'ARM push {lr}', bytes: [0x00, 0x40, 0x2d, 0xe9], mask: [0x00, 0xf0, 0xff, 0xff], align: 4 },
+  { architecture: 'ARM', variant: 'A32', label: 'ARM bx lr', bytes: [0x1e, 0xff, 0x2f, 0xe1], align: 4 },
+  // PowerPC Book E: mflr r0, mtlr r0, blr, stwu r1,-N(r1)
+  { architecture: 'PowerPC', label: 'mflr r0', bytes: [0x7c, 0x08, 0x02, 0xa6], align: 4 },
+  { architecture: 'PowerPC', label: 'mtlr r0', bytes: [0x7c, 0x08, 0x03, 0xa6], align: 4 },
+  { architecture: 'PowerPC', label: 'blr', bytes: [0x4e, 0x80, 0x00, 0x20], align: 4 },
+  { architecture: 'PowerPC', label: 'stwu r1', bytes: [0x94, 0x21, 0xff, 0x00], mask: [0xff, 0xff, 0xff, 0x00], align: 4 },
+  // PowerPC VLE: se_mflr r0 (0x0080), e_stwu r1,-N(r1) (0x1821 0x06xx)
+  { architecture: 'PowerPC', variant: 'VLE', label: 'se_mflr r0', bytes: [0x00, 0x80], align: 2 },
+  { architecture: 'PowerPC', variant: 'VLE', label: 'e_stwu r1', bytes: [0x18, 0x21, 0x06, 0x00], mask: [0xff, 0xff, 0xff, 0x00], align: 2 },
+  // TriCore: ret (0x9000), mov.aa a14,a10 (0xAE40)
+  { architecture: 'TriCore', label: 'ret', bytes: [0x00, 0x90], align: 2 },
+  { architecture: 'TriCore', label: 'mov.aa a14, a10', bytes: [0x40, 0xae], align: 2 },
+  // x86: push ebp; mov ebp, esp (two encodings) and the x86-64 variant
+  { architecture: 'x86', label: 'push ebp; mov ebp, esp', bytes: [0x55, 0x89, 0xe5], align: 1 },
+  { architecture: 'x86', label: 'push ebp; mov ebp, esp', bytes: [0x55, 0x8b, 0xec], align: 1 },
+  { architecture: 'x86', variant: 'x86-64', label: 'push rbp; mov rbp, rsp', bytes: [0x55, 0x48, 0x89, 0xe5], align: 1 },
+];
+
+const ENDIANNESS: Record<DetectedArchitecture, 'little' | 'big'> = {
+  ARM: 'little',
+  PowerPC: 'big',
+  TriCore: 'little',
+  x86: 'little',
+};
+
+// Heuristic thresholds: a winner needs this many hits, this many times the
+// random-data expectation, and a clear lead over the runner-up.
+const MIN_HITS = 12;
+const MIN_ENRICHMENT = 4;
+const MIN_LEAD = 2;
+const MAX_SCAN_BYTES = 4 * 1024 * 1024;
+
+const ERASED = new Set([0x00, 0xff]);
+
+function readU32(data: Uint8Array, offset: number, little: boolean): number {
+  return little
+    ? (data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16) | (data[offset + 3] << 24)) >>> 0
+    : ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0;
+}
+
+function inImage(image: FirmwareImage, address: number): boolean {
+  return image.segments.some(s => address >= s.address && address < s.address + s.size);
+}
+
+/** Cortex-M: initial SP in SRAM followed by odd (Thumb) handler addresses inside the image. */
+export function cortexMVectorTable(image: FirmwareImage): string | null {
+  for (const segment of image.segments) {
+    if (segment.size < 64) continue;
+    const sp = readU32(image.data, segment.offset, true);
+    if (sp < 0x1fff0000 || sp > 0x20100000 || sp % 4 !== 0) continue;
+
+    let thumbHandlers = 0;
+    for (let i = 1; i < 16; i++) {
+      const vector = readU32(image.data, segment.offset + i * 4, true);
+      if (vector === 0) continue;
+      if ((vector & 1) === 1 && inImage(image, vector & ~1)) thumbHandlers++;
+    }
+    if (thumbHandlers >= 4) {
+      const reset = readU32(image.data, segment.offset + 4, true) & ~1;
+      return `Cortex-M vector table at 0x${segment.address.toString(16)} (SP 0x${sp.toString(16)}, reset 0x${reset.toString(16)}, ${thumbHandlers} Thumb handlers)`;
+    }
+  }
+  return null;
+}
+
+/** MPC5xxx Boot Assist Module: reset configuration half word 0x?05A at a boot sector start. */
+function ppcResetConfigWord(image: FirmwareImage): { evidence: string; vle: boolean } | null {
+  for (const segment of image.segments) {
+    for (let offset = 0; offset + 8 <= segment.size && offset < 0x40000; offset += 0x4000) {
+      const at = segment.offset + offset;
+      if (image.data[at + 1] !== 0x5a || (image.data[at] & 0xfe) !== 0x00) continue;
+      const entry = readU32(image.data, at + 4, false);
+      if (!inImage(image, entry)) continue;
+      const vle = (image.data[at] & 0x01) === 1;
+      return {
+        evidence: `MPC5xxx RCHW at 0x${(segment.address + offset).toString(16)}, boot vector 0x${entry.toString(16)}${vle ? ' (VLE)' : ''}`,
+        vle,
+      };
+    }
+  }
+  return null;
+}
+
+/** AURIX Boot Mode Header: BMHDID 0xB359 followed by start address and a CRC/inverted-CRC pair. */
+function aurixBootModeHeader(image: FirmwareImage): string | null {
+  for (const segment of image.segments) {
+    for (let offset = 0; offset + 16 <= segment.size && offset < 0x40000; offset += 0x20) {
+      const at = segment.offset + offset;
+      if (image.data[at + 2] !== 0x59 || image.data[at + 3] !== 0xb3) continue;
+      const start = readU32(image.data, at + 4, true);
+      const crc = readU32(image.data, at + 8, true);
+      const crcInverse = readU32(image.data, at + 12, true);
+      if ((crc ^ crcInverse) >>> 0 !== 0xffffffff) continue;
+      if (start >>> 28 !== 0x8 && start >>> 28 !== 0xa) continue;
+      return `AURIX boot mode header at 0x${(segment.address + offset).toString(16)}, start address 0x${start.toString(16)}`;
+    }
+  }
+  return null;
+}
+
+function matchesAt(data: Uint8Array, offset: number, pattern: InstructionPattern): boolean {
+  for (let i = 0; i < pattern.bytes.length; i++) {
+    const mask = pattern.mask?.[i] ?? 0xff;
+    if ((data[offset + i] & mask) !== (pattern.bytes[i] & mask)) return false;
+  }
+  return true;
+}
+
+// Candidate patterns per leading byte, so the scan only tests what can match
+const PATTERNS_BY_FIRST_BYTE: InstructionPattern[][] = Array.from({ length: 256 }, (_, byte) =>
+  INSTRUCTION_PATTERNS.filter(p => (byte & (p.mask?.[0] ?? 0xff)) === (p.bytes[0] & (p.mask?.[0] ?? 0xff))));
+
+function maskedBits(pattern: InstructionPattern): number {
+  let bits = 0;
+  pattern.bytes.forEach((_, i) => {
+    for (let m = pattern.mask?.[i] ?? 0xff; m; m &= m - 1) bits++;
+  });
+  return bits;
+}
+
+/**
+ * Counts pattern hits and compares them with the count expected in random
+ * data of the same size, so short patterns (e.g. Thumb push) do not win on
+ * compressed or encrypted images just by being short.
+ */
+function scoreInstructions(data: Uint8Array) {
+  const length = Math.min(data.length, MAX_SCAN_BYTES);
+  const hits = new Map<InstructionPattern, number>(INSTRUCTION_PATTERNS.map(p => [p, 0]));
+  let liveBytes = 0;
+
+  for (let offset = 0; offset < length; offset++) {
+    if (!ERASED.has(data[offset])) liveBytes++;
+    for (const pattern of PATTERNS_BY_FIRST_BYTE[data[offset]]) {
+      if (offset % pattern.align === 0 && offset + pattern.bytes.length <= length && matchesAt(data, offset, pattern)) {
+        hits.set(pattern, hits.get(pattern)! + 1);
+      }
+    }
+  }
+
+  const kib = Math.max(liveBytes / 1024, 1);
+  const totals: Record<DetectedArchitecture, number> = { ARM: 0, PowerPC: 0, TriCore: 0, x86: 0 };
+  const expected: Record<DetectedArchitecture, number> = { ARM: 0, PowerPC: 0, TriCore: 0, x86: 0 };
+  for (const [pattern, count] of hits) {
+    totals[pattern.architecture] += count;
+    expected[pattern.architecture] += (liveBytes / pattern.align) * 2 ** -maskedBits(pattern);
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const architectures = Object.keys(totals) as DetectedArchitecture[];
+  const scores = Object.fromEntries(architectures.map(a => [a, round(totals[a] / kib)])) as Record<DetectedArchitecture, number>;
+  const enrichment = Object.fromEntries(architectures.map(a => [a, round(totals[a] / Math.max(expected[a], 1))])) as Record<DetectedArchitecture, number>;
+
+  return { hits, totals, scores, enrichment };
+}
+
+function dominantVariant(hits: Map<InstructionPattern, number>, architecture: DetectedArchitecture): string | null {
+  const byVariant = new Map<string, number>();
+  for (const [pattern, count] of hits) {
+    if (pattern.architecture !== architecture || !pattern.variant) continue;
+    byVariant.set(pattern.variant, (byVariant.get(pattern.variant) ?? 0) + count);
+  }
+  const [best] = [...byVariant.entries()].sort((a, b) => b[1] - a[1]);
+  return best && best[1] >= MIN_HITS ? best[0] : null;
+}
+
+export function detectArchitecture(image: FirmwareImage): ArchitectureDetection {
+  const { hits, totals, scores, enrichment } = scoreInstructions(image.data);
+  const evidence: string[] = [];
+
+  if (image.elf) {
+    const { elf } = image;
+    return {
+      architecture: elf.architecture,
+      confidence: 'high',
+      endianness: elf.endianness,
+      variant: elf.architecture === 'ARM' ? dominantVariant(hits, 'ARM') : null,
+      evidence: [`ELF e_machine ${elf.machineCode} (${elf.machine})`],
+      scores,
+    };
+  }
+
+  const ranked = (Object.keys(totals) as DetectedArchitecture[]).sort((a, b) => enrichment[b] - enrichment[a]);
+  for (const arch of ranked.filter(a => totals[a] > 0)) {
+    const labels = INSTRUCTION_PATTERNS.filter(p => p.architecture === arch && hits.get(p)! > 0)
+      .map(p => `${p.label} x${hits.get(p)}`);
+    evidence.push(`${arch}: ${scores[arch]} hits/KiB, ${enrichment[arch]}x random (${labels.join(', ')})`);
+  }
+
+  const bootHeader: [DetectedArchitecture, string, string | null] | null = (() => {
+    const vectors = cortexMVectorTable(image);
+    if (vectors) return ['ARM', vectors, 'Thumb-2'];
+    const rchw = ppcResetConfigWord(image);
+    if (rchw) return ['PowerPC', rchw.evidence, rchw.vle ? 'VLE' : null];
+    const bmhd = aurixBootModeHeader(image);
+    if (bmhd) return ['TriCore', bmhd, null];
+    return null;
+  })();
+
+  if (bootHeader) {
+    const [architecture, headerEvidence, variant] = bootHeader;
+    return {
+      architecture,
+      confidence: 'high',
+      endianness: ENDIANNESS[architecture],
+      variant: variant ?? dominantVariant(hits, architecture),
+      evidence: [headerEvidence, ...evidence],
+      scores,
+    };
+  }
+
+  const [best, runnerUp] = ranked;
+  if (totals[best] < MIN_HITS || enrichment[best] < MIN_ENRICHMENT) {
+    return { architecture: null, confidence: 'low', endianness: null, variant: null, evidence, scores };
+  }
+
+  const lead = enrichment[best] / Math.max(enrichment[runnerUp], 1);
+  return {
+    architecture: best,
+    confidence: lead >= MIN_LEAD ? 'medium' : 'low',
+    endianness: ENDIANNESS[best],
+    variant: dominantVariant(hits, best),
+    evidence,
+    scores,
+  };
+}
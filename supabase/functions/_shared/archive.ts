@@ -0,0 +1,227 @@
+// Unpacks zip and (gzipped) tar deliveries into individual members. Every
+// size is checked while inflating so a compression bomb stops at the limit
+// instead of exhausting the worker, and member paths are normalized so none
+// can escape the archive root (absolute paths, `..`, links are refused).
+
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
+
+export interface ArchiveMember {
+  path: string;
+  data: Uint8Array;
+}
+
+export interface SkippedMember {
+  path: string;
+  size: number | null;
+  reason: string;
+}
+
+export interface UnpackedArchive {
+  format: ArchiveFormat;
+  members: ArchiveMember[];
+  skipped: SkippedMember[];
+  totalSize: number;
+}
+
+export const MAX_ARCHIVE_ENTRIES = 2000;
+export const MAX_MEMBER_BYTES = 100 * 1024 * 1024;
+export const MAX_UNPACKED_BYTES = 256 * 1024 * 1024;
+
+export class ArchiveError extends Error {}
+
+export function detectArchiveFormat(bytes: Uint8Array, fileName: string): ArchiveFormat | null {
+  const name = fileName.toLowerCase();
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04) return 'zip';
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b && /\.(tgz|tar\.gz)$/.test(name)) return 'tar.gz';
+  if (bytes.length >= 512 && new TextDecoder().decode(bytes.subarray(257, 262)) === 'ustar') return 'tar';
+  if (name.endsWith('.tar') && bytes.length >= 512) return 'tar';
+  return null;
+}
+
+/** Returns the cleaned relative path, or null if it would leave the archive root. */
+export function safeMemberPath(raw: string): string | null {
+  const path = raw.replace(/\\/g, '/');
+  if (path.startsWith('/') || /^[A-Za-z]:/.test(path) || path.includes('\0')) return null;
+  const parts = path.split('/').filter(part => part && part !== '.');
+  if (parts.length === 0 || parts.some(part => part === '..')) return null;
+  return parts.join('/');
+}
+
+/** Inflates a gzip or raw deflate stream, failing as soon as the output exceeds limit. */
+export async function inflate(data: Uint8Array, format: 'gzip' | 'deflate-raw', limit: number): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream(format));
+  const reader = stream.getReader();
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > limit) {
+      await reader.cancel();
+      throw new ArchiveError(`inflated size exceeds ${limit} bytes`);
+    }
+    parts.push(value);
+  }
+  const out = new Uint8Array(length);
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
+
+/** Tracks the running total so the archive as a whole stays under MAX_UNPACKED_BYTES. */
+class Budget {
+  used = 0;
+
+  remaining(): number {
+    return Math.min(MAX_MEMBER_BYTES, MAX_UNPACKED_BYTES - this.used);
+  }
+
+  take(size: number) {
+    this.used += size;
+  }
+}
+
+async function unpackZip(bytes: Uint8Array, result: UnpackedArchive, maxEntries: number) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // End of central directory: fixed 22 bytes plus a comment of up to 64 KiB
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new ArchiveError('zip end of central directory not found');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let pos = view.getUint32(eocd + 16, true);
+  if (entryCount === 0xffff || pos === 0xffffffff) throw new ArchiveError('ZIP64 archives are not supported');
+  if (entryCount > maxEntries) throw new ArchiveError(`archive has ${entryCount} entries (limit ${maxEntries})`);
+
+  const budget = new Budget();
+  const decoder = new TextDecoder();
+  for (let n = 0; n < entryCount; n++) {
+    if (pos + 46 > bytes.length || view.getUint32(pos, true) !== 0x02014b50) {
+      throw new ArchiveError('corrupt zip central directory');
+    }
+    const flags = view.getUint16(pos + 8, true);
+    const method = view.getUint16(pos + 10, true);
+    const compressedSize = view.getUint32(pos + 20, true);
+    const size = view.getUint32(pos + 24, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    const mode = view.getUint32(pos + 38, true) >>> 16;
+    const localOffset = view.getUint32(pos + 42, true);
+    const rawName = decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength));
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    if (rawName.endsWith('/')) continue;
+    const path = safeMemberPath(rawName);
+    const rejected = !path ? 'unsafe path'
+      : (mode & 0o170000) === 0o120000 ? 'symbolic link'
+      : flags & 1 ? 'encrypted'
+      : method !== 0 && method !== 8 ? `unsupported compression method ${method}`
+      : size > budget.remaining() ? 'exceeds size limit'
+      : null;
+    if (!path || rejected) {
+      result.skipped.push({ path: path ?? rawName, size, reason: rejected ?? 'unsafe path' });
+      continue;
+    }
+
+    if (localOffset + 30 > bytes.length || view.getUint32(localOffset, true) !== 0x04034b50) {
+      throw new ArchiveError(`corrupt local header for ${path}`);
+    }
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+    let data: Uint8Array;
+    try {
+      // The declared size is not trusted; inflation is capped independently
+      data = method === 0 ? raw : await inflate(raw, 'deflate-raw', budget.remaining());
+    } catch (e) {
+      result.skipped.push({ path, size, reason: e instanceof Error ? e.message : String(e) });
+      continue;
+    }
+    budget.take(data.length);
+    result.members.push({ path, data });
+  }
+  result.totalSize = budget.used;
+}
+
+function tarString(bytes: Uint8Array, start: number, length: number): string {
+  const field = bytes.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(end < 0 ? field : field.subarray(0, end));
+}
+
+function tarOctal(bytes: Uint8Array, start: number, length: number): number {
+  const text = tarString(bytes, start, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function unpackTar(bytes: Uint8Array, result: UnpackedArchive, maxEntries: number) {
+  const budget = new Budget();
+  let pos = 0;
+  let entries = 0;
+  let longName: string | null = null;
+
+  while (pos + 512 <= bytes.length) {
+    const header = bytes.subarray(pos, pos + 512);
+    if (header.every(b => b === 0)) break;
+    if (++entries > maxEntries) throw new ArchiveError(`archive has more than ${maxEntries} entries`);
+
+    const size = tarOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const prefix = tarString(header, 345, 155);
+    const rawName = longName ?? (prefix ? `${prefix}/${tarString(header, 0, 100)}` : tarString(header, 0, 100));
+    const dataStart = pos + 512;
+    pos = dataStart + Math.ceil(size / 512) * 512;
+    if (dataStart + size > bytes.length) throw new ArchiveError(`truncated tar entry ${rawName}`);
+    const content = bytes.subarray(dataStart, dataStart + size);
+
+    // GNU long names and pax headers describe the entry that follows
+    if (type === 'L') {
+      longName = tarString(content, 0, content.length);
+      continue;
+    }
+    if (type === 'x') {
+      const record = new TextDecoder().decode(content).match(/^\d+ path=(.*)$/m);
+      longName = record ? record[1] : null;
+      continue;
+    }
+    longName = null;
+    if (type === 'g' || type === '5') continue;
+
+    const path = safeMemberPath(rawName);
+    const rejected = !path ? 'unsafe path'
+      : type === '2' ? 'symbolic link'
+      : type === '1' ? 'hard link'
+      : type !== '0' && type !== '7' ? `unsupported entry type '${type}'`
+      : size > budget.remaining() ? 'exceeds size limit'
+      : null;
+    if (!path || rejected) {
+      result.skipped.push({ path: path ?? rawName, size, reason: rejected ?? 'unsafe path' });
+      continue;
+    }
+
+    budget.take(size);
+    result.members.push({ path, data: content });
+  }
+  result.totalSize = budget.used;
+}
+
+/** maxEntries is raised for vulnerability feed dumps, which hold one small file per advisory. */
+export async function unpackArchive(bytes: Uint8Array, format: ArchiveFormat, maxEntries = MAX_ARCHIVE_ENTRIES): Promise<UnpackedArchive> {
+  const result: UnpackedArchive = { format, members: [], skipped: [], totalSize: 0 };
+  if (format === 'zip') {
+    await unpackZip(bytes, result, maxEntries);
+  } else {
+    unpackTar(format === 'tar.gz' ? await inflate(bytes, 'gzip', MAX_UNPACKED_BYTES + 1024 * 1024) : bytes, result, maxEntries);
+  }
+  return result;
+}
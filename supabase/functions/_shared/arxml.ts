@@ -0,0 +1,569 @@
+// AUTOSAR ARXML ingestion. Parses one or more ARXML documents (a delivery is
+// usually split across files that reference each other by path) into an ECU
+// model - software components, ports, runnables, the ECU extract, COM signals
+// and PDUs, SecOC protection and diagnostic services - and checks that model
+// for security misconfigurations.
+
+import type { VulnerabilityFinding } from "./findings.ts";
+import { formatSid, PROTECTED_SERVICES, UDS_SERVICE_NAMES } from "./uds.ts";
+
+export interface ArxmlDocument {
+  path: string;
+  text: string;
+}
+
+/** Where a model element is defined, for attributing findings. */
+export interface ArxmlLocation {
+  file: string;
+  line: number;
+}
+
+export interface EcuInstance extends ArxmlLocation {
+  name: string;
+  controllers: { name: string; bus: string }[];
+}
+
+export interface SwComponent extends ArxmlLocation {
+  name: string;
+  path: string;
+  kind: string;
+  ports: { name: string; direction: 'provided' | 'required' | 'provided-required'; interface: string | null }[];
+  runnables: { name: string; symbol: string | null; periodMs: number | null }[];
+}
+
+export interface ComPdu extends ArxmlLocation {
+  name: string;
+  path: string;
+  length: number | null;
+  signals: string[];
+  safetyRelevant: boolean;
+  /** Name of the secured PDU (or SecOC configuration) protecting this PDU. */
+  securedBy: string | null;
+}
+
+export interface SecOcConfig extends ArxmlLocation {
+  name: string;
+  /** Name of the authentic PDU carried as payload. */
+  payload: string | null;
+  direction: 'tx' | 'rx' | null;
+  freshnessValueLength: number | null;
+  freshnessValueTxLength: number | null;
+  authInfoTxLength: number | null;
+}
+
+export interface DiagnosticService extends ArxmlLocation {
+  name: string;
+  serviceId: number | null;
+  service: string;
+  securityLevels: string[];
+  sessions: string[];
+  authenticationRoles: string[];
+}
+
+export interface EcuModel {
+  documents: string[];
+  extract: string | null;
+  ecuInstances: EcuInstance[];
+  components: SwComponent[];
+  signalCount: number;
+  pdus: ComPdu[];
+  secOc: SecOcConfig[];
+  diagnosticServices: DiagnosticService[];
+  truncated: boolean;
+  errors: string[];
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+  line: number;
+}
+
+// Keeps the model stored on the scan a manageable size for large extracts
+const MAX_MODEL_ITEMS = 1000;
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, body: string) => {
+    if (body.startsWith('#x')) return String.fromCodePoint(parseInt(body.slice(2), 16));
+    if (body.startsWith('#')) return String.fromCodePoint(parseInt(body.slice(1), 10));
+    return ENTITIES[body] ?? entity;
+  });
+}
+
+const MARKUP = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<!DOCTYPE[^>]*>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const localName = (name: string) => name.slice(name.indexOf(':') + 1);
+
+/** Minimal non-validating XML parser that records the line of every element. */
+function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '', line: 1 };
+  const stack = [root];
+  let line = 1;
+  let pos = 0;
+
+  const advance = (to: number) => {
+    for (let i = source.indexOf('\n', pos); i >= 0 && i < to; i = source.indexOf('\n', i + 1)) line++;
+    pos = to;
+  };
+
+  MARKUP.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = MARKUP.exec(source))) {
+    const current = stack[stack.length - 1];
+    current.text += decodeEntities(source.slice(pos, match.index));
+    advance(match.index);
+
+    const [markup, cdata, closing, rawName, rawAttributes, selfClosing] = match;
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (rawName) {
+      const name = localName(rawName);
+      if (closing) {
+        if (current.name !== name) throw new Error(`line ${line}: </${name}> does not close <${current.name}>`);
+        stack.pop();
+      } else {
+        const attributes: Record<string, string> = {};
+        for (const [, key, double, single] of rawAttributes.matchAll(ATTRIBUTE)) {
+          attributes[localName(key)] = decodeEntities(double ?? single);
+        }
+        const element: XmlElement = { name, attributes, children: [], text: '', line };
+        current.children.push(element);
+        if (!selfClosing) stack.push(element);
+      }
+    }
+    advance(match.index + markup.length);
+  }
+
+  if (stack.length > 1) throw new Error(`<${stack[stack.length - 1].name}> opened on line ${stack[stack.length - 1].line} is never closed`);
+  return root;
+}
+
+const child = (element: XmlElement, name: string) => element.children.find(c => c.name === name);
+const childText = (element: XmlElement, name: string) => child(element, name)?.text.trim() || null;
+
+function descendants(element: XmlElement, name: string, out: XmlElement[] = []): XmlElement[] {
+  for (const c of element.children) {
+    if (c.name === name) out.push(c);
+    descendants(c, name, out);
+  }
+  return out;
+}
+
+function numberIn(element: XmlElement, name: string): number | null {
+  const text = descendants(element, name)[0]?.text.trim();
+  if (!text) return null;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+}
+
+const lastSegment = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+interface Indexed {
+  element: XmlElement;
+  path: string;
+  file: string;
+}
+
+/**
+ * Indexes every identifiable element (one with a SHORT-NAME) by its absolute
+ * AUTOSAR path, and every element by tag name together with the path of its
+ * nearest identifiable ancestor.
+ */
+class ArxmlIndex {
+  byPath = new Map<string, Indexed>();
+  byTag = new Map<string, Indexed[]>();
+  pathOf = new Map<XmlElement, string>();
+
+  add(root: XmlElement, file: string) {
+    const walk = (element: XmlElement, parentPath: string) => {
+      const shortName = childText(element, 'SHORT-NAME');
+      const path = shortName ? `${parentPath}/${shortName}` : parentPath;
+      const entry = { element, path, file };
+      if (shortName) {
+        this.pathOf.set(element, path);
+        if (!this.byPath.has(path)) this.byPath.set(path, entry);
+      }
+      const list = this.byTag.get(element.name);
+      if (list) list.push(entry);
+      else this.byTag.set(element.name, [entry]);
+      for (const c of element.children) walk(c, path);
+    };
+    walk(root, '');
+  }
+
+  tagged(...names: string[]): Indexed[] {
+    return names.flatMap(name => this.byTag.get(name) ?? []);
+  }
+
+  resolve(ref: string | null | undefined): Indexed | undefined {
+    return ref ? this.byPath.get(ref.trim()) : undefined;
+  }
+}
+
+function location(entry: Indexed): ArxmlLocation {
+  return { file: entry.file, line: child(entry.element, 'SHORT-NAME')?.line ?? entry.element.line };
+}
+
+const SWC_TYPES: Record<string, string> = {
+  'APPLICATION-SW-COMPONENT-TYPE': 'application',
+  'SENSOR-ACTUATOR-SW-COMPONENT-TYPE': 'sensor-actuator',
+  'COMPLEX-DEVICE-DRIVER-SW-COMPONENT-TYPE': 'complex-driver',
+  'ECU-ABSTRACTION-SW-COMPONENT-TYPE': 'ecu-abstraction',
+  'SERVICE-SW-COMPONENT-TYPE': 'service',
+  'COMPOSITION-SW-COMPONENT-TYPE': 'composition',
+  'NV-BLOCK-SW-COMPONENT-TYPE': 'nv-block',
+  'PARAMETER-SW-COMPONENT-TYPE': 'parameter',
+};
+
+const PORT_TYPES: Record<string, { direction: SwComponent['ports'][number]['direction']; interfaceRef: string }> = {
+  'P-PORT-PROTOTYPE': { direction: 'provided', interfaceRef: 'PROVIDED-INTERFACE-TREF' },
+  'R-PORT-PROTOTYPE': { direction: 'required', interfaceRef: 'REQUIRED-INTERFACE-TREF' },
+  'PR-PORT-PROTOTYPE': { direction: 'provided-required', interfaceRef: 'PROVIDED-REQUIRED-INTERFACE-TREF' },
+};
+
+const COMM_CONTROLLERS: Record<string, string> = {
+  'CAN-COMMUNICATION-CONTROLLER': 'CAN',
+  'ETHERNET-COMMUNICATION-CONTROLLER': 'Ethernet',
+  'FLEXRAY-COMMUNICATION-CONTROLLER': 'FlexRay',
+  'LIN-MASTER': 'LIN',
+  'LIN-SLAVE': 'LIN',
+};
+
+// UDS service identifiers for the DEXT (diagnostic extract) service instances
+const DIAGNOSTIC_SERVICES: Record<string, number> = {
+  'DIAGNOSTIC-SESSION-CONTROL': 0x10,
+  'DIAGNOSTIC-ECU-RESET': 0x11,
+  'DIAGNOSTIC-CLEAR-DIAGNOSTIC-INFORMATION': 0x14,
+  'DIAGNOSTIC-READ-DTC-INFORMATION': 0x19,
+  'DIAGNOSTIC-READ-DATA-BY-IDENTIFIER': 0x22,
+  'DIAGNOSTIC-READ-MEMORY-BY-ADDRESS': 0x23,
+  'DIAGNOSTIC-SECURITY-ACCESS': 0x27,
+  'DIAGNOSTIC-COMMUNICATION-CONTROL': 0x28,
+  'DIAGNOSTIC-AUTHENTICATION': 0x29,
+  'DIAGNOSTIC-WRITE-DATA-BY-IDENTIFIER': 0x2e,
+  'DIAGNOSTIC-IO-CONTROL': 0x2f,
+  'DIAGNOSTIC-ROUTINE-CONTROL': 0x31,
+  'DIAGNOSTIC-REQUEST-DOWNLOAD': 0x34,
+  'DIAGNOSTIC-REQUEST-UPLOAD': 0x35,
+  'DIAGNOSTIC-TRANSFER-EXIT': 0x37,
+  'DIAGNOSTIC-REQUEST-FILE-TRANSFER': 0x38,
+  'DIAGNOSTIC-WRITE-MEMORY-BY-ADDRESS': 0x3d,
+  'DIAGNOSTIC-TESTER-PRESENT': 0x3e,
+  'DIAGNOSTIC-CONTROL-DTC-SETTING': 0x85,
+};
+
+// Name fragments of signals/PDUs that feed vehicle-dynamics or safety
+// functions. Matched against camelCase/underscore-separated words.
+const SAFETY_WORDS = new Set(['esp', 'esc', 'abs', 'eps', 'adas', 'acc', 'aeb', 'lka', 'srs', 'epb']);
+const SAFETY_PREFIXES = ['brak', 'brk', 'steer', 'str', 'torq', 'trq', 'airbag', 'crash', 'accel', 'throttl', 'pedal', 'speed', 'spd', 'velo', 'gear', 'yaw', 'wheel', 'whl', 'inverter', 'immobil', 'park', 'lane', 'collision'];
+
+export function isSafetyRelevantName(name: string): boolean {
+  const words = name.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  return words.some(word => SAFETY_WORDS.has(word) || SAFETY_PREFIXES.some(prefix => word.startsWith(prefix)));
+}
+
+const definitionName = (element: XmlElement) => lastSegment(childText(element, 'DEFINITION-REF') ?? '');
+
+/** ECUC parameter/reference values of a container, by the last segment of their definition. */
+function ecucValues(container: XmlElement): Map<string, string[]> {
+  const values = new Map<string, string[]>();
+  for (const group of ['PARAMETER-VALUES', 'REFERENCE-VALUES']) {
+    for (const value of child(container, group)?.children ?? []) {
+      const text = childText(value, 'VALUE') ?? childText(value, 'VALUE-REF');
+      if (!text) continue;
+      const key = definitionName(value);
+      values.set(key, [...(values.get(key) ?? []), text]);
+    }
+  }
+  return values;
+}
+
+const ecucNumber = (values: Map<string, string[]>, key: string) => {
+  const value = Number(values.get(key)?.[0]);
+  return Number.isFinite(value) ? value : null;
+};
+
+function buildComponents(index: ArxmlIndex): SwComponent[] {
+  // Timing events name the runnable they start; the period is in seconds
+  const periods = new Map<string, number>();
+  for (const event of index.tagged('TIMING-EVENT')) {
+    const runnable = childText(event.element, 'START-ON-EVENT-REF');
+    const period = Number(childText(event.element, 'PERIOD'));
+    if (runnable && Number.isFinite(period)) periods.set(runnable, Math.round(period * 1e6) / 1e3);
+  }
+
+  return index.tagged(...Object.keys(SWC_TYPES)).map(entry => ({
+    name: lastSegment(entry.path),
+    path: entry.path,
+    kind: SWC_TYPES[entry.element.name],
+    ports: (child(entry.element, 'PORTS')?.children ?? [])
+      .filter(port => PORT_TYPES[port.name])
+      .map(port => {
+        const interfaceRef = childText(port, PORT_TYPES[port.name].interfaceRef);
+        return {
+          name: childText(port, 'SHORT-NAME') ?? '',
+          direction: PORT_TYPES[port.name].direction,
+          interface: interfaceRef ? lastSegment(interfaceRef) : null,
+        };
+      }),
+    runnables: descendants(entry.element, 'RUNNABLE-ENTITY').map(runnable => ({
+      name: childText(runnable, 'SHORT-NAME') ?? '',
+      symbol: childText(runnable, 'SYMBOL'),
+      periodMs: periods.get(index.pathOf.get(runnable) ?? '') ?? null,
+    })),
+    ...location(entry),
+  }));
+}
+
+function buildSecOc(index: ArxmlIndex): SecOcConfig[] {
+  const configs: SecOcConfig[] = [];
+
+  // System description: SECURED-I-PDU with its props inline (R4.x) or referenced (R19-11+)
+  for (const entry of index.tagged('SECURED-I-PDU')) {
+    const pdu = entry.element;
+    const props = [
+      pdu,
+      index.resolve(childText(pdu, 'AUTHENTICATION-PROPS-REF'))?.element,
+      index.resolve(childText(pdu, 'FRESHNESS-PROPS-REF'))?.element,
+    ].filter((e): e is XmlElement => !!e);
+    const find = (name: string) => props.map(p => numberIn(p, name)).find(v => v !== null) ?? null;
+
+    // The payload is a PDU triggering pointing at the authentic PDU
+    const payloadRef = childText(pdu, 'PAYLOAD-REF');
+    const triggering = index.resolve(payloadRef);
+    const authenticRef = triggering ? childText(triggering.element, 'I-PDU-REF') : null;
+    const payload = authenticRef ?? payloadRef;
+
+    configs.push({
+      name: lastSegment(entry.path),
+      payload: payload ? lastSegment(payload) : null,
+      direction: null,
+      freshnessValueLength: find('FRESHNESS-VALUE-LENGTH'),
+      freshnessValueTxLength: find('FRESHNESS-VALUE-TX-LENGTH'),
+      authInfoTxLength: find('AUTH-INFO-TX-LENGTH'),
+      ...location(entry),
+    });
+  }
+
+  // ECU configuration of the SecOC BSW module
+  for (const entry of index.tagged('ECUC-CONTAINER-VALUE')) {
+    const kind = definitionName(entry.element);
+    if (kind !== 'SecOCTxPduProcessing' && kind !== 'SecOCRxPduProcessing') continue;
+    const direction = kind === 'SecOCTxPduProcessing' ? 'tx' : 'rx';
+    const values = ecucValues(entry.element);
+    const layer = descendants(entry.element, 'ECUC-CONTAINER-VALUE')
+      .find(c => /^SecOC(Tx|Rx)AuthenticPduLayer$/.test(definitionName(c)));
+    const authenticRef = layer ? [...ecucValues(layer).values()].flat()[0] : null;
+
+    configs.push({
+      name: lastSegment(entry.path),
+      payload: authenticRef ? lastSegment(authenticRef) : null,
+      direction,
+      freshnessValueLength: ecucNumber(values, 'SecOCFreshnessValueLength'),
+      freshnessValueTxLength: ecucNumber(values, 'SecOCFreshnessValueTruncLength') ?? ecucNumber(values, 'SecOCFreshnessValueTxLength'),
+      authInfoTxLength: ecucNumber(values, 'SecOCAuthInfoTruncLength') ?? ecucNumber(values, 'SecOCAuthInfoTxLength'),
+      ...location(entry),
+    });
+  }
+
+  return configs;
+}
+
+function buildPdus(index: ArxmlIndex, secOc: SecOcConfig[]): ComPdu[] {
+  const protectedBy = new Map(secOc.filter(c => c.payload).map(c => [c.payload!, c.name]));
+  return index.tagged('I-SIGNAL-I-PDU').map(entry => {
+    const name = lastSegment(entry.path);
+    const signals = descendants(entry.element, 'I-SIGNAL-REF').map(ref => lastSegment(ref.text.trim()));
+    return {
+      name,
+      path: entry.path,
+      length: numberIn(entry.element, 'LENGTH'),
+      signals,
+      safetyRelevant: isSafetyRelevantName(name) || signals.some(isSafetyRelevantName),
+      securedBy: protectedBy.get(name) ?? null,
+      ...location(entry),
+    };
+  });
+}
+
+function buildDiagnosticServices(index: ArxmlIndex): DiagnosticService[] {
+  const services: DiagnosticService[] = [];
+
+  // Diagnostic extract: each service instance references an access permission
+  for (const entry of index.tagged(...Object.keys(DIAGNOSTIC_SERVICES))) {
+    const serviceId = DIAGNOSTIC_SERVICES[entry.element.name];
+    const permission = index.resolve(childText(entry.element, 'ACCESS-PERMISSION-REF'))?.element;
+    const refs = (name: string) => (permission ? descendants(permission, name) : []).map(ref => lastSegment(ref.text.trim()));
+    services.push({
+      name: lastSegment(entry.path),
+      serviceId,
+      service: UDS_SERVICE_NAMES[serviceId],
+      securityLevels: refs('SECURITY-LEVEL-REF'),
+      sessions: refs('DIAGNOSTIC-SESSION-REF'),
+      authenticationRoles: refs('AUTHENTICATION-ROLE-REF'),
+      ...location(entry),
+    });
+  }
+
+  // ECU configuration of the Dcm service tables
+  for (const entry of index.tagged('ECUC-CONTAINER-VALUE')) {
+    if (definitionName(entry.element) !== 'DcmDsdService') continue;
+    const values = ecucValues(entry.element);
+    const serviceId = ecucNumber(values, 'DcmDsdSidTabServiceId');
+    const matching = (suffix: string) => [...values.entries()]
+      .filter(([key]) => key.endsWith(suffix))
+      .flatMap(([, refs]) => refs.map(lastSegment));
+    services.push({
+      name: lastSegment(entry.path),
+      serviceId,
+      service: (serviceId !== null && UDS_SERVICE_NAMES[serviceId]) || 'Unknown service',
+      securityLevels: matching('SecurityLevelRef'),
+      sessions: matching('SessionLevelRef'),
+      authenticationRoles: matching('AuthenticationRoleRef'),
+      ...location(entry),
+    });
+  }
+
+  return services;
+}
+
+export function isArxml(fileName: string): boolean {
+  return fileName.toLowerCase().endsWith('.arxml');
+}
+
+export function buildEcuModel(documents: ArxmlDocument[]): EcuModel {
+  const index = new ArxmlIndex();
+  const errors: string[] = [];
+  for (const document of documents) {
+    try {
+      index.add(parseXml(document.text), document.path);
+    } catch (e) {
+      errors.push(`${document.path}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  const system = index.tagged('SYSTEM').find(s => childText(s.element, 'CATEGORY') === 'ECU_EXTRACT');
+  const ecuInstances = index.tagged('ECU-INSTANCE').map(entry => ({
+    name: lastSegment(entry.path),
+    controllers: (child(entry.element, 'COMM-CONTROLLERS')?.children ?? [])
+      .filter(c => COMM_CONTROLLERS[c.name])
+      .map(c => ({ name: childText(c, 'SHORT-NAME') ?? '', bus: COMM_CONTROLLERS[c.name] })),
+    ...location(entry),
+  }));
+
+  const secOc = buildSecOc(index);
+  const model: EcuModel = {
+    documents: documents.map(d => d.path),
+    extract: system ? lastSegment(system.path) : null,
+    ecuInstances,
+    components: buildComponents(index),
+    signalCount: index.tagged('I-SIGNAL').length,
+    pdus: buildPdus(index, secOc),
+    secOc,
+    diagnosticServices: buildDiagnosticServices(index),
+    truncated: false,
+    errors,
+  };
+
+  for (const key of ['ecuInstances', 'components', 'pdus', 'secOc', 'diagnosticServices'] as const) {
+    if (model[key].length > MAX_MODEL_ITEMS) {
+      model[key].length = MAX_MODEL_ITEMS;
+      model.truncated = true;
+    }
+  }
+  return model;
+}
+
+// A full freshness value below 32 bits wraps within hours on a 10 ms PDU,
+// after which captured messages can be replayed
+const MIN_FRESHNESS_BITS = 32;
+// AUTOSAR SecOC profile 1 (the weakest standard profile) transmits 24 MAC bits
+const MIN_MAC_BITS = 24;
+
+/** Deterministic configuration findings, attributed to the defining file and line. */
+export function checkEcuModel(model: EcuModel, sourceLines: Map<string, string[]>): VulnerabilityFinding[] {
+  const findings: VulnerabilityFinding[] = [];
+  const push = (at: ArxmlLocation, finding: Omit<VulnerabilityFinding, 'affected_component' | 'line_number' | 'code_snippet' | 'detection_method'>) => {
+    findings.push({
+      ...finding,
+      affected_component: at.file,
+      line_number: at.line,
+      code_snippet: sourceLines.get(at.file)?.[at.line - 1]?.trim() ?? null,
+      detection_method: 'static',
+    });
+  };
+
+  for (const pdu of model.pdus) {
+    if (!pdu.safetyRelevant || pdu.securedBy) continue;
+    const safetySignals = pdu.signals.filter(isSafetyRelevantName);
+    push(pdu, {
+      cwe_id: 'CWE-345',
+      severity: 'high',
+      title: 'Safety-relevant PDU without SecOC protection',
+      description: `I-PDU ${pdu.name} carries safety-relevant data${safetySignals.length ? ` (${safetySignals.slice(0, 5).join(', ')})` : ''} but no secured PDU or SecOC configuration uses it as authentic payload. Any node on the bus can inject or modify it.`,
+      remediation: 'Route the PDU through SecOC (SECURED-I-PDU / SecOCTxPduProcessing) with a MAC of at least 64 bits where bandwidth allows and a monotonic freshness value.',
+      attack_vector: 'Spoofed or replayed frames injected on the vehicle bus',
+      impact: 'Manipulation of safety functions such as braking, steering or propulsion',
+    });
+  }
+
+  for (const config of model.secOc) {
+    if (config.freshnessValueLength !== null && config.freshnessValueLength < MIN_FRESHNESS_BITS) {
+      push(config, {
+        cwe_id: 'CWE-294',
+        severity: 'medium',
+        title: 'SecOC freshness value too short',
+        description: `${config.name}${config.payload ? ` (protecting ${config.payload})` : ''} uses a ${config.freshnessValueLength}-bit freshness value; the counter wraps quickly and previously captured messages become valid again.`,
+        remediation: `Use a freshness value of at least ${MIN_FRESHNESS_BITS} bits (counter or time based) and transmit only its truncated low bits.`,
+        attack_vector: 'Replay of captured authenticated messages after the freshness counter wraps',
+        impact: 'Authenticated commands can be replayed',
+      });
+    }
+    if (config.authInfoTxLength !== null && config.authInfoTxLength < MIN_MAC_BITS) {
+      push(config, {
+        cwe_id: 'CWE-326',
+        severity: 'medium',
+        title: 'SecOC MAC truncated too far',
+        description: `${config.name} transmits only ${config.authInfoTxLength} bits of the MAC, which an attacker can brute-force on the bus.`,
+        remediation: `Transmit at least ${MIN_MAC_BITS} MAC bits (AUTOSAR SecOC profile 1), preferably 64 or more.`,
+        attack_vector: 'Online guessing of truncated MACs',
+        impact: 'Forged messages accepted as authentic',
+      });
+    }
+  }
+
+  for (const service of model.diagnosticServices) {
+    const severity = service.serviceId !== null ? PROTECTED_SERVICES[service.serviceId] : undefined;
+    if (!severity || service.securityLevels.length > 0 || service.authenticationRoles.length > 0) continue;
+    push(service, {
+      cwe_id: 'CWE-306',
+      severity,
+      title: `Diagnostic ${service.service} exposed without security access`,
+      description: `Diagnostic service ${service.name} (SID ${formatSid(service.serviceId!)} ${service.service}) is not restricted to a security level or authentication role${service.sessions.length ? `; it is available in ${service.sessions.join(', ')}` : ''}.`,
+      remediation: 'Reference a DiagnosticSecurityLevel (UDS 0x27) or authentication role (UDS 0x29) in the service access permission.',
+      attack_vector: 'Diagnostic requests via the OBD port or a compromised gateway',
+      impact: 'Unauthorized reconfiguration, memory access or reprogramming of the ECU',
+    });
+  }
+
+  return findings;
+}
+
+/** Short description of the model for the LLM prompt. */
+export function describeEcuModel(model: EcuModel): string {
+  const lines = [
+    `${model.components.length} software component(s), ${model.pdus.length} I-PDU(s), ${model.signalCount} signal(s), ${model.secOc.length} SecOC configuration(s), ${model.diagnosticServices.length} diagnostic service(s)`,
+  ];
+  if (model.extract) lines.push(`ECU extract: ${model.extract}`);
+  for (const ecu of model.ecuInstances.slice(0, 5)) {
+    lines.push(`ECU instance ${ecu.name}: ${ecu.controllers.map(c => `${c.bus} ${c.name}`).join(', ') || 'no controllers'}`);
+  }
+  const unsecured = model.pdus.filter(p => p.safetyRelevant && !p.securedBy);
+  if (unsecured.length > 0) lines.push(`Safety-relevant PDUs without SecOC: ${unsecured.slice(0, 20).map(p => p.name).join(', ')}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,418 @@
+// Secure boot / firmware update chain evidence. Looks for the pieces of an
+// authenticated chain — signature verification routines, embedded public
+// keys, hash implementations, rollback (anti-downgrade) counters — and checks
+// that callers of the verification act on its result before they jump into or
+// commit the verified image. The outcome is assessed against UNECE R156.
+
+import { findFunctions, matching, type FunctionScope } from "./c-checker.ts";
+import { tokenizeC } from "./c-tokenizer.ts";
+import type { ArchitectureDetection } from "./architecture.ts";
+import { codeReader, functionInstructions, type DisassemblyResult, type RecoveredFunction } from "./disassembly.ts";
+import type { FirmwareImage } from "./firmware-image.ts";
+import type { ComplianceFinding, VulnerabilityFinding } from "./findings.ts";
+
+export type BootCheckStatus = 'pass' | 'warning' | 'fail';
+export type VerifyOutcome = 'checked' | 'ignored' | 'returned' | 'unknown';
+
+export interface BootChainReport {
+  verifyRoutines: { name: string; evidence: string; line: number | null; address: number | null }[];
+  publicKeys: { label: string; bits: number | null; line: number | null; offset: number | null }[];
+  hashes: string[];
+  rollback: { evidence: string; line: number | null; offset: number | null }[];
+  /** Calls of a verification routine and what the caller does with the result. */
+  verifyCalls: {
+    caller: string;
+    verifier: string;
+    outcome: VerifyOutcome;
+    /** The caller also transfers control to a loaded image. */
+    jumps: boolean;
+    line: number | null;
+    address: number | null;
+  }[];
+  checks: { authenticity: BootCheckStatus; enforcement: BootCheckStatus; rollback: BootCheckStatus };
+}
+
+const normalize = (name: string) => name.toLowerCase().replace(/_/g, '');
+
+const VERIFY_NAME = /verif\w*(sig|image|app|fw|firmware|update|boot|block|header|cert)|(sig|signature|cert)\w*verif|(rsa|ecdsa|eddsa|ed25519|pkcs1|pss)\w*verif|secureboot|authenticat\w*(image|app|fw|firmware|update)|checksignature|validate(image|signature|fw|firmware|app)/;
+const HASH_NAME = /sha(1|224|256|384|512|2|3)|md5|cmac|hmac/;
+const ROLLBACK_NAME = /rollback|antirollback|securityversion|secversion|svncounter|minversion|monotoniccounter|versioncounter|downgrade/;
+const JUMP_NAME = /jump|startapp|bootapp|runapp|executeapp|launchapp|branchto|gotoapp|callapp|enterapp|startimage|bootimage|startapplication/;
+
+function hashAlgorithm(name: string): string {
+  const match = normalize(name).match(/sha(1|224|256|384|512|3)|md5|cmac|hmac/);
+  return match ? (match[1] ? `SHA-${match[1]}` : match[0].toUpperCase()) : name;
+}
+
+// Absence of evidence only warns: keys may live in an HSM and verification in
+// another file or image, but a discarded verification result is a failure
+function assess(report: Omit<BootChainReport, 'checks'>): BootChainReport['checks'] {
+  const verifies = report.verifyRoutines.length > 0;
+  const anchored = report.publicKeys.length > 0;
+  const outcomes = report.verifyCalls.map(call => call.outcome);
+  return {
+    authenticity: verifies && anchored ? 'pass' : 'warning',
+    enforcement: outcomes.includes('ignored') ? 'fail' : outcomes.includes('checked') ? 'pass' : 'warning',
+    rollback: report.rollback.length > 0 ? 'pass' : 'warning',
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Source analysis
+
+// A cast to a function pointer, as in ((void (*)(void))APP_START)()
+const FUNCTION_POINTER_CAST = /\(\s*[\w\s]+\(\s*\*\s*\w*\s*\)\s*\([^()]*\)\s*\)/;
+const ASM_JUMP = /\basm\b|__asm/;
+const ASM_BRANCH = /\b(bx|blx|mtctr|bctr|jmp)\b/;
+
+/** Boot chain evidence in one C source file, or null if it has nothing to do with booting or updating. */
+export function analyzeBootChainSource(source: string): BootChainReport | null {
+  const tokens = tokenizeC(source);
+  const lines = source.split(/\r?\n/);
+  const functions = findFunctions(tokens);
+  const byName = new Map(functions.map(scope => [scope.name, scope]));
+  const lineOf = (scope: FunctionScope) => tokens[scope.paramsStart - 1].line;
+
+  const verifyRoutines: BootChainReport['verifyRoutines'] = [];
+  const verifierNames = new Set<string>();
+  const hashes = new Set<string>();
+  const rollback: BootChainReport['rollback'] = [];
+  const publicKeys: BootChainReport['publicKeys'] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (t.kind === 'string' && /BEGIN (RSA )?PUBLIC KEY/.test(t.value)) {
+      publicKeys.push({ label: 'PEM public key', bits: null, line: t.line, offset: null });
+    }
+    if (t.kind !== 'ident') continue;
+    const name = normalize(t.value);
+    const called = tokens[i + 1]?.value === '(';
+
+    if (called && VERIFY_NAME.test(name) && !verifierNames.has(t.value)) {
+      verifierNames.add(t.value);
+      const scope = byName.get(t.value);
+      verifyRoutines.push({
+        name: t.value,
+        evidence: scope ? 'defined here' : 'called',
+        line: scope ? lineOf(scope) : t.line,
+        address: null,
+      });
+    }
+    if (called && HASH_NAME.test(name)) hashes.add(hashAlgorithm(t.value));
+    if (ROLLBACK_NAME.test(name) && !rollback.some(r => r.evidence === t.value)) {
+      rollback.push({ evidence: t.value, line: t.line, offset: null });
+    }
+    // Key material declared as an array: const uint8_t oem_public_key[64] = {...}
+    if (/pub(lic)?key|rootkey|oemkey|signingkey|verifykey|modulus|trustanchor/.test(name) && tokens[i + 1]?.value === '['
+      && !publicKeys.some(k => k.label === t.value)) {
+      const size = tokens[i + 2]?.kind === 'number' ? Number(tokens[i + 2].value.replace(/[uUlL]+$/, '')) : NaN;
+      publicKeys.push({ label: t.value, bits: Number.isInteger(size) && size > 0 ? size * 8 : null, line: t.line, offset: null });
+    }
+  }
+
+  // Functions that hand control to a loaded image
+  const jumpLines = new Map<FunctionScope, number>();
+  for (const scope of functions) {
+    for (let i = scope.bodyStart; i < scope.bodyEnd && !jumpLines.has(scope); i++) {
+      const t = tokens[i];
+      const text = lines[t.line - 1] ?? '';
+      const jumps = (t.kind === 'ident' && tokens[i + 1]?.value === '(' && JUMP_NAME.test(normalize(t.value)))
+        || FUNCTION_POINTER_CAST.test(text)
+        || (ASM_JUMP.test(text) && ASM_BRANCH.test(text));
+      if (jumps) jumpLines.set(scope, t.line);
+    }
+  }
+
+  if (verifyRoutines.length === 0 && jumpLines.size === 0 && rollback.length === 0) return null;
+
+  // A call used as a statement (or cast to void) discards the verification result
+  const verifyCalls: BootChainReport['verifyCalls'] = [];
+  for (const scope of functions) {
+    for (let i = scope.bodyStart + 1; i < scope.bodyEnd; i++) {
+      const t = tokens[i];
+      if (t.kind !== 'ident' || !verifierNames.has(t.value) || tokens[i + 1]?.value !== '(' || t.value === scope.name) continue;
+      const close = matching(tokens, i + 1);
+      const previous = tokens[i - 1]?.value;
+      const voided = previous === ')' && tokens[i - 2]?.value === 'void' && tokens[i - 3]?.value === '(';
+      const statement = [';', '{', '}', ':', 'else'].includes(previous ?? '') || voided;
+      verifyCalls.push({
+        caller: scope.name,
+        verifier: t.value,
+        outcome: statement && tokens[close + 1]?.value === ';' ? 'ignored' : tokens[i - 1]?.value === 'return' ? 'returned' : 'checked',
+        jumps: jumpLines.has(scope),
+        line: t.line,
+        address: null,
+      });
+      i = close;
+    }
+  }
+
+  const report = { verifyRoutines, publicKeys, hashes: [...hashes], rollback, verifyCalls };
+  return { ...report, checks: assess(report) };
+}
+
+// ---------------------------------------------------------------------------
+// Image analysis
+
+interface KeyPattern {
+  label: string;
+  bytes: number[];
+  bits: (data: Uint8Array, end: number) => number | null;
+}
+
+const hexBytes = (hex: string) => hex.split(' ').map(b => parseInt(b, 16));
+
+/** Bit length of a DER INTEGER starting at `at` (RSA modulus), ignoring its sign byte. */
+function derIntegerBits(data: Uint8Array, at: number): number | null {
+  if (data[at] !== 0x02) return null;
+  let length = data[at + 1];
+  let start = at + 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < count; i++) length = (length << 8) | data[start + i];
+    start += count;
+  }
+  if (data[start] === 0) length--;
+  return length > 0 ? length * 8 : null;
+}
+
+const KEY_PATTERNS: KeyPattern[] = [
+  {
+    // SubjectPublicKeyInfo rsaEncryption OID, then BIT STRING { SEQUENCE { modulus, exponent } }
+    label: 'RSA public key (DER)',
+    bytes: hexBytes('06 09 2a 86 48 86 f7 0d 01 01 01'),
+    bits: (data, end) => {
+      for (let i = end; i < end + 16; i++) if (data[i] === 0x02 && data[i + 1] >= 0x81) return derIntegerBits(data, i);
+      return null;
+    },
+  },
+  {
+    label: 'RSA modulus with exponent 65537',
+    bytes: hexBytes('02 82 01 01 00'),
+    bits: (data, end) => (findBytes(data, hexBytes('02 03 01 00 01'), end + 255, end + 262) >= 0 ? 2048 : null),
+  },
+  {
+    label: 'RSA modulus with exponent 65537',
+    bytes: hexBytes('02 82 02 01 00'),
+    bits: (data, end) => (findBytes(data, hexBytes('02 03 01 00 01'), end + 511, end + 518) >= 0 ? 4096 : null),
+  },
+  { label: 'ECDSA P-256 public key (DER)', bytes: hexBytes('06 07 2a 86 48 ce 3d 02 01 06 08 2a 86 48 ce 3d 03 01 07'), bits: () => 256 },
+  { label: 'ECDSA P-384 public key (DER)', bytes: hexBytes('06 07 2a 86 48 ce 3d 02 01 06 05 2b 81 04 00 22'), bits: () => 384 },
+  { label: 'Ed25519 public key (DER)', bytes: hexBytes('30 2a 30 05 06 03 2b 65 70 03 21 00'), bits: () => 256 },
+  { label: 'PEM public key', bytes: [...new TextEncoder().encode('-----BEGIN PUBLIC KEY-----')], bits: () => null },
+  { label: 'PEM RSA public key', bytes: [...new TextEncoder().encode('-----BEGIN RSA PUBLIC KEY-----')], bits: () => null },
+];
+
+const HASH_PATTERNS: { algorithm: string; bytes: number[] }[] = [
+  { algorithm: 'SHA-256', bytes: hexBytes('42 8a 2f 98 71 37 44 91 b5 c0 fb cf') },
+  { algorithm: 'SHA-256', bytes: hexBytes('98 2f 8a 42 91 44 37 71 cf fb c0 b5') },
+  { algorithm: 'SHA-256', bytes: hexBytes('6a 09 e6 67 bb 67 ae 85 3c 6e f3 72') },
+  { algorithm: 'SHA-256', bytes: hexBytes('67 e6 09 6a 85 ae 67 bb 72 f3 6e 3c') },
+  { algorithm: 'SHA-512', bytes: hexBytes('6a 09 e6 67 f3 bc c9 08 bb 67 ae 85') },
+  { algorithm: 'SHA-512', bytes: hexBytes('08 c9 bc f3 67 e6 09 6a 3b a7 ca 84') },
+];
+
+const ROLLBACK_TEXT = /anti[-_ ]?rollback|rollback[-_ ]?(counter|protection|index|version)|security[-_ ]?version|min(imum)?[-_ ]?version|downgrade/gi;
+const MAX_MATCHES = 8;
+
+function findBytes(data: Uint8Array, pattern: number[], from: number, to = data.length): number {
+  const last = Math.min(to, data.length - pattern.length);
+  outer: for (let i = Math.max(0, from); i <= last; i++) {
+    if (data[i] !== pattern[0]) continue;
+    for (let j = 1; j < pattern.length; j++) if (data[i + j] !== pattern[j]) continue outer;
+    return i;
+  }
+  return -1;
+}
+
+function findAll(data: Uint8Array, pattern: number[]): number[] {
+  const hits: number[] = [];
+  for (let at = findBytes(data, pattern, 0); at >= 0 && hits.length < MAX_MATCHES; at = findBytes(data, pattern, at + 1)) hits.push(at);
+  return hits;
+}
+
+function offsetToImageAddress(image: FirmwareImage, offset: number): number | null {
+  const segment = image.segments.find(s => offset >= s.offset && offset < s.offset + s.size);
+  return segment ? segment.address + (offset - segment.offset) : null;
+}
+
+const ARM_CONDITION = /(eq|ne|cs|cc|mi|pl|vs|vc|hi|ls|ge|lt|gt|le)(\.w)?$/;
+// Instructions examined after a verification call before giving up
+const RESULT_WINDOW = 16;
+
+/** What the code after a call at `from` does with the result, from the caller's instruction stream. */
+function callOutcome(disassembly: DisassemblyResult, instructions: ReturnType<typeof functionInstructions>, from: number): { outcome: VerifyOutcome; jumps: boolean } {
+  const index = instructions.findIndex(ins => ins.address === from);
+  if (index < 0) return { outcome: 'unknown', jumps: false };
+  const jumps = instructions.some(ins => ins.flow === 'indirect' || ins.flow === 'indirect-call');
+  for (const ins of instructions.slice(index + 1, index + 1 + RESULT_WINDOW)) {
+    const conditional = ins.flow === 'branch' || ins.mnemonic === 'it'
+      || (disassembly.mode === 'arm' && ARM_CONDITION.test(ins.mnemonic));
+    if (conditional) return { outcome: 'checked', jumps };
+    if (ins.flow === 'indirect' || ins.flow === 'indirect-call') return { outcome: 'ignored', jumps: true };
+    if (ins.flow === 'return') return { outcome: 'returned', jumps };
+    if (ins.flow === 'jump' || ins.flow === 'invalid') break;
+  }
+  return { outcome: 'unknown', jumps };
+}
+
+/** Public keys embedded in an image (DER, raw RSA moduli and PEM), at most MAX_MATCHES per pattern. */
+export function findPublicKeys(data: Uint8Array): BootChainReport['publicKeys'] {
+  const publicKeys: BootChainReport['publicKeys'] = [];
+  for (const pattern of KEY_PATTERNS) {
+    for (const offset of findAll(data, pattern.bytes)) {
+      // A DER modulus inside an SPKI that was already reported is the same key
+      if (publicKeys.some(k => offset >= k.offset! && offset < k.offset! + 64)) continue;
+      publicKeys.push({ label: pattern.label, bits: pattern.bits(data, offset + pattern.bytes.length), line: null, offset });
+    }
+  }
+  return publicKeys;
+}
+
+/** Boot chain evidence in a firmware image; the call checks need a disassembly. */
+export function analyzeBootChainImage(
+  image: FirmwareImage,
+  detection: ArchitectureDetection | null,
+  disassembly: DisassemblyResult | null,
+): BootChainReport {
+  const { data } = image;
+
+  const publicKeys = findPublicKeys(data);
+  const hashes = [...new Set(HASH_PATTERNS.filter(p => findBytes(data, p.bytes, 0) >= 0).map(p => p.algorithm))];
+
+  const rollback: BootChainReport['rollback'] = [];
+  const text = new TextDecoder('latin1').decode(data);
+  for (const match of text.matchAll(ROLLBACK_TEXT)) {
+    if (rollback.length >= MAX_MATCHES) break;
+    if (!rollback.some(r => r.evidence.toLowerCase() === match[0].toLowerCase())) {
+      rollback.push({ evidence: match[0], line: null, offset: match.index ?? null });
+    }
+  }
+
+  const symbols = [
+    ...(disassembly?.functions.map(f => f.name) ?? []),
+    ...(image.elf?.symbols.filter(s => s.name).map(s => s.name) ?? []),
+  ];
+  for (const name of new Set(symbols)) {
+    if (ROLLBACK_NAME.test(normalize(name)) && rollback.length < MAX_MATCHES) rollback.push({ evidence: name, line: null, offset: null });
+    if (HASH_NAME.test(normalize(name))) hashes.push(hashAlgorithm(name));
+  }
+
+  const verifyRoutines: BootChainReport['verifyRoutines'] = [];
+  const verifyCalls: BootChainReport['verifyCalls'] = [];
+  if (disassembly) {
+    const byAddress = new Map(disassembly.functions.map(f => [f.address, f]));
+    const verifiers = new Map<number, RecoveredFunction>();
+    for (const fn of disassembly.functions) {
+      if (VERIFY_NAME.test(normalize(fn.name))) {
+        verifiers.set(fn.address, fn);
+        verifyRoutines.push({ name: fn.name, evidence: 'symbol name', line: null, address: fn.address });
+      }
+    }
+
+    // Code that loads the address of an embedded key is where the key is used;
+    // the DER patterns match a few bytes into the SubjectPublicKeyInfo
+    const keyRanges = publicKeys
+      .map(k => offsetToImageAddress(image, k.offset!))
+      .filter((address): address is number => address !== null);
+    for (const xref of disassembly.xrefs) {
+      if (xref.kind !== 'pointer' || !keyRanges.some(start => xref.to >= start - 16 && xref.to < start + 64)) continue;
+      const fn = byAddress.get(xref.fromFunction);
+      if (!fn || verifiers.has(fn.address)) continue;
+      verifiers.set(fn.address, fn);
+      verifyRoutines.push({ name: fn.name, evidence: 'references embedded public key', line: null, address: fn.address });
+    }
+
+    const reader = codeReader(image, disassembly.mode, detection);
+    const decoded = new Map<number, ReturnType<typeof functionInstructions>>();
+    for (const xref of disassembly.xrefs) {
+      const verifier = verifiers.get(xref.to);
+      const caller = byAddress.get(xref.fromFunction);
+      if (xref.kind !== 'call' || !verifier || !caller || caller === verifier) continue;
+      if (!decoded.has(caller.address)) decoded.set(caller.address, functionInstructions(reader, disassembly.mode, caller));
+      verifyCalls.push({
+        caller: caller.name,
+        verifier: verifier.name,
+        ...callOutcome(disassembly, decoded.get(caller.address)!, xref.from),
+        line: null,
+        address: xref.from,
+      });
+    }
+  }
+
+  const report = { verifyRoutines, publicKeys, hashes: [...new Set(hashes)], rollback, verifyCalls };
+  return { ...report, checks: assess(report) };
+}
+
+// ---------------------------------------------------------------------------
+// Findings
+
+function addressToOffset(image: FirmwareImage, address: number): number | null {
+  const segment = image.segments.find(s => address >= s.address && address < s.address + s.size);
+  return segment ? segment.offset + (address - segment.address) : null;
+}
+
+/** Verification results that are discarded, worst when the caller then jumps into the image. */
+export function bootChainFindings(report: BootChainReport, fileName: string, lines: string[] | null, image: FirmwareImage | null): VulnerabilityFinding[] {
+  return report.verifyCalls.filter(call => call.outcome === 'ignored').map(call => ({
+    cwe_id: 'CWE-347',
+    severity: call.jumps ? 'critical' : 'high',
+    title: call.jumps ? 'Boot image executed without acting on its signature check' : 'Signature verification result ignored',
+    description: `${call.caller}() calls ${call.verifier}() but does not branch on its result${call.jumps ? ' before transferring control to the loaded image' : ''}, so a modified or unsigned image passes the check.`,
+    affected_component: fileName,
+    affected_function: call.caller,
+    code_snippet: call.line !== null ? lines?.[call.line - 1]?.trim() ?? null : null,
+    line_number: call.line,
+    byte_offset: call.address !== null && image ? addressToOffset(image, call.address) : null,
+    detection_method: 'static',
+    remediation: 'Only jump to, or commit, the image when the verification returns success; fail closed (stay in the bootloader or recovery) otherwise.',
+    attack_vector: 'Flashing a modified image through the update or diagnostic interface',
+    impact: 'Persistent execution of attacker-controlled firmware',
+  }));
+}
+
+export function bootChainComplianceResults(report: BootChainReport): ComplianceFinding[] {
+  const verification = report.verifyRoutines.length > 0
+    ? `Signature verification: ${report.verifyRoutines.map(r => r.name).join(', ')}`
+    : 'No signature verification routine found';
+  const keys = report.publicKeys.length > 0
+    ? `Trust anchor: ${report.publicKeys.map(k => `${k.label}${k.bits ? ` (${k.bits} bit)` : ''}`).join(', ')}`
+    : 'No embedded public key found (it may be held by an HSM)';
+  const calls = report.verifyCalls.length > 0
+    ? report.verifyCalls.map(c => `${c.caller} -> ${c.verifier}: result ${c.outcome}`).join('\n')
+    : 'No call of a verification routine could be followed';
+  const rollback = report.rollback.length > 0
+    ? `Rollback protection: ${report.rollback.map(r => r.evidence).join(', ')}`
+    : 'No rollback counter or security version found';
+  const worse = (a: BootCheckStatus, b: BootCheckStatus) => (a === 'fail' || b === 'fail' ? 'fail' : a === 'warning' || b === 'warning' ? 'warning' : 'pass');
+
+  return [
+    {
+      framework: 'UNECE R156',
+      rule_id: '7.1.3.1',
+      rule_description: 'Software updates are protected against manipulation: images are signature-verified against an embedded trust anchor',
+      status: report.checks.authenticity,
+      details: [verification, keys, report.hashes.length > 0 ? `Hash implementations: ${report.hashes.join(', ')}` : null].filter(Boolean).join('\n'),
+      line_number: report.verifyRoutines[0]?.line ?? null,
+    },
+    {
+      framework: 'UNECE R156',
+      rule_id: '7.2.2.1',
+      rule_description: 'Authenticity and integrity of software updates are enforced and invalid (including downgraded) updates are rejected',
+      status: worse(report.checks.enforcement, report.checks.rollback),
+      details: `${calls}\n${rollback}`,
+      line_number: report.verifyCalls.find(c => c.outcome === 'ignored')?.line ?? null,
+    },
+  ];
+}
+
+/** Compact text form for the LLM prompt. */
+export function describeBootChain(report: BootChainReport): string {
+  return [
+    `verification routines: ${report.verifyRoutines.map(r => r.name).join(', ') || 'none found'}`,
+    `public keys: ${report.publicKeys.map(k => k.label).join(', ') || 'none found'}`,
+    `verify results: ${report.verifyCalls.map(c => `${c.caller}->${c.verifier} ${c.outcome}`).join(', ') || 'no calls followed'}`,
+    `rollback protection: ${report.rollback.length > 0 ? 'present' : 'not found'}`,
+  ].join('; ');
+}
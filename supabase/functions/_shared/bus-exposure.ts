@@ -0,0 +1,139 @@
+// Maps an ECU onto the vehicle networks described by the owner's CAN
+// databases (DBC files) and works out which external entry points can reach
+// it. Buses of one platform are joined through nodes that appear on more than
+// one of them (gateways); a gateway is assumed to forward between all of its
+// buses, so the result is an upper bound on exposure.
+
+export type EntryPoint = 'obd' | 'telematics' | 'infotainment';
+
+export interface DbcMessage {
+  id: number;
+  extended: boolean;
+  name: string;
+  dlc: number;
+  transmitter: string | null;
+  receivers: string[];
+  signalCount: number;
+}
+
+/** One row of public.network_databases: a DBC for one bus of a platform. */
+export interface NetworkDatabase {
+  platform: string;
+  bus_name: string;
+  nodes: string[];
+  messages: DbcMessage[];
+  obd_accessible: boolean;
+  /** Nodes that are themselves an entry point, e.g. the telematics unit. */
+  entry_points: Record<string, EntryPoint>;
+}
+
+export interface BusExposure {
+  platform: string;
+  node: string;
+  buses: { bus: string; transmits: string[]; receives: string[] }[];
+  /** Shortest route per entry point, as alternating entry/bus/gateway names. */
+  paths: { entry: EntryPoint; route: string[] }[];
+}
+
+const ENTRY_LABELS: Record<EntryPoint, string> = {
+  obd: 'OBD port',
+  telematics: 'Telematics',
+  infotainment: 'Infotainment',
+};
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Finds the DBC node a scan's free-text ECU name refers to: an exact match
+ * ignoring case and punctuation, else a node name that appears as a word of
+ * the ECU name ("BCM" in "BCM body controller").
+ */
+export function matchNode(ecuName: string, nodes: string[]): string | null {
+  const target = normalize(ecuName);
+  const exact = nodes.find(node => normalize(node) === target);
+  if (exact) return exact;
+  const words = new Set(ecuName.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean));
+  return nodes.find(node => node.length >= 3 && words.has(node.toLowerCase())) ?? null;
+}
+
+function entryPaths(buses: NetworkDatabase[], node: string): BusExposure['paths'] {
+  const seeds: { entry: EntryPoint; bus: number; route: string[] }[] = [];
+  const paths = new Map<EntryPoint, string[]>();
+  const keep = (entry: EntryPoint, route: string[]) => {
+    const known = paths.get(entry);
+    if (!known || route.length < known.length) paths.set(entry, route);
+  };
+
+  buses.forEach((bus, index) => {
+    if (bus.obd_accessible) seeds.push({ entry: 'obd', bus: index, route: [ENTRY_LABELS.obd, bus.bus_name] });
+    for (const [entryNode, entry] of Object.entries(bus.entry_points)) {
+      if (!bus.nodes.includes(entryNode)) continue;
+      if (entryNode === node) {
+        keep(entry, [ENTRY_LABELS[entry], node]);
+      } else {
+        seeds.push({ entry, bus: index, route: [`${ENTRY_LABELS[entry]} (${entryNode})`, bus.bus_name] });
+      }
+    }
+  });
+
+  // Breadth-first over buses from each seed; the first bus carrying the node
+  // gives the shortest route for that seed
+  for (const seed of seeds) {
+    const visited = new Set([seed.bus]);
+    const queue = [{ bus: seed.bus, route: seed.route }];
+    while (queue.length > 0) {
+      const { bus, route } = queue.shift()!;
+      if (buses[bus].nodes.includes(node)) {
+        keep(seed.entry, route);
+        break;
+      }
+      for (const gateway of buses[bus].nodes) {
+        buses.forEach((next, index) => {
+          if (visited.has(index) || !next.nodes.includes(gateway)) return;
+          visited.add(index);
+          queue.push({ bus: index, route: [...route, gateway, next.bus_name] });
+        });
+      }
+    }
+  }
+
+  return [...paths.entries()].map(([entry, route]) => ({ entry, route }));
+}
+
+/** Exposure of the ECU on every platform that has a node matching its name. */
+export function computeBusExposure(databases: NetworkDatabase[], ecuName: string): BusExposure[] {
+  const byPlatform = new Map<string, NetworkDatabase[]>();
+  for (const database of databases) {
+    byPlatform.set(database.platform, [...(byPlatform.get(database.platform) ?? []), database]);
+  }
+
+  const exposures: BusExposure[] = [];
+  for (const [platform, buses] of byPlatform) {
+    const node = matchNode(ecuName, [...new Set(buses.flatMap(bus => bus.nodes))]);
+    if (!node) continue;
+    exposures.push({
+      platform,
+      node,
+      buses: buses.filter(bus => bus.nodes.includes(node)).map(bus => ({
+        bus: bus.bus_name,
+        transmits: bus.messages.filter(m => m.transmitter === node).map(m => m.name),
+        receives: bus.messages.filter(m => m.receivers.includes(node)).map(m => m.name),
+      })),
+      paths: entryPaths(buses, node),
+    });
+  }
+  return exposures;
+}
+
+/** Compact text form for the LLM prompt. */
+export function describeBusExposure(exposures: BusExposure[]): string {
+  return exposures.map(exposure => {
+    const buses = exposure.buses
+      .map(bus => `${bus.bus} (transmits ${bus.transmits.length}, receives ${bus.receives.length} messages)`)
+      .join(', ');
+    const paths = exposure.paths.length > 0
+      ? exposure.paths.map(path => `reachable from ${ENTRY_LABELS[path.entry]}: ${path.route.join(' -> ')}`).join('; ')
+      : 'not reachable from the OBD port, telematics or infotainment';
+    return `${exposure.platform}: node ${exposure.node} on ${buses}; ${paths}`;
+  }).join('\n');
+}
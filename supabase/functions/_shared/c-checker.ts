@@ -0,0 +1,402 @@
+// Deterministic static checks for C sources. Every rule works on the token
+// stream from c-tokenizer.ts, so the same input always yields the same
+// findings and line numbers, independent of the LLM.
+
+import { tokenizeC, type CToken } from "./c-tokenizer.ts";
+import type { VulnerabilityFinding } from "./findings.ts";
+
+const C_EXTENSIONS = ['.c', '.h', '.cpp', '.hpp', '.cc', '.cxx'];
+
+export function isCSource(fileName: string): boolean {
+  return C_EXTENSIONS.some(ext => fileName.toLowerCase().endsWith(ext));
+}
+
+export interface FunctionScope {
+  name: string;
+  paramsStart: number; // index of the '(' opening the parameter list
+  bodyStart: number; // index of '{'
+  bodyEnd: number; // index of the matching '}'
+}
+
+interface CheckContext {
+  fileName: string;
+  lines: string[];
+  tokens: CToken[];
+  functions: FunctionScope[];
+}
+
+interface StaticRule {
+  id: string;
+  title: string;
+  cwe: string;
+  severity: VulnerabilityFinding['severity'];
+  remediation: string;
+  check(ctx: CheckContext, scope: FunctionScope): { index: number; description: string; title?: string; cwe?: string; severity?: VulnerabilityFinding['severity'] }[];
+}
+
+const KEYWORDS_BEFORE_PAREN = new Set(['if', 'while', 'for', 'switch', 'return', 'sizeof', 'do', 'else']);
+
+export function matching(tokens: CToken[], open: number): number {
+  const openValue = tokens[open].value;
+  const closeValue = openValue === '(' ? ')' : openValue === '[' ? ']' : '}';
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    if (tokens[i].value === openValue) depth++;
+    else if (tokens[i].value === closeValue && --depth === 0) return i;
+  }
+  return tokens.length - 1;
+}
+
+function matchingBackward(tokens: CToken[], close: number): number {
+  const closeValue = tokens[close].value;
+  const openValue = closeValue === ')' ? '(' : closeValue === ']' ? '[' : '{';
+  let depth = 0;
+  for (let i = close; i >= 0; i--) {
+    if (tokens[i].value === closeValue) depth++;
+    else if (tokens[i].value === openValue && --depth === 0) return i;
+  }
+  return 0;
+}
+
+/** Function definitions: `name ( ... ) {` at file scope. */
+export function findFunctions(tokens: CToken[]): FunctionScope[] {
+  const functions: FunctionScope[] = [];
+  let depth = 0;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (t.kind !== 'punct') continue;
+    if (t.value === '{') {
+      if (depth === 0 && tokens[i - 1]?.value === ')') {
+        const paramsStart = matchingBackward(tokens, i - 1);
+        const name = tokens[paramsStart - 1];
+        if (name?.kind === 'ident' && !KEYWORDS_BEFORE_PAREN.has(name.value)) {
+          const bodyEnd = matching(tokens, i);
+          functions.push({ name: name.value, paramsStart, bodyStart: i, bodyEnd });
+          i = bodyEnd;
+          continue;
+        }
+      }
+      depth++;
+    } else if (t.value === '}') {
+      depth = Math.max(0, depth - 1);
+    }
+  }
+  return functions;
+}
+
+interface Call {
+  name: string;
+  index: number; // index of the callee identifier
+  args: [number, number][]; // [start, end) token ranges
+  end: number; // index of ')'
+}
+
+function callsIn(tokens: CToken[], scope: FunctionScope, names: Set<string>): Call[] {
+  const calls: Call[] = [];
+  for (let i = scope.bodyStart + 1; i < scope.bodyEnd; i++) {
+    const t = tokens[i];
+    if (t.kind !== 'ident' || !names.has(t.value) || tokens[i + 1]?.value !== '(') continue;
+    // Member access (obj.strcpy) is not a call to the library function
+    if (tokens[i - 1]?.value === '.' || tokens[i - 1]?.value === '->') continue;
+
+    const end = matching(tokens, i + 1);
+    const args: [number, number][] = [];
+    let start = i + 2;
+    let depth = 0;
+    for (let j = i + 2; j < end; j++) {
+      const v = tokens[j].value;
+      if (v === '(' || v === '[' || v === '{') depth++;
+      else if (v === ')' || v === ']' || v === '}') depth--;
+      else if (v === ',' && depth === 0) {
+        args.push([start, j]);
+        start = j + 1;
+      }
+    }
+    if (start < end) args.push([start, end]);
+    calls.push({ name: t.value, index: i, args, end });
+  }
+  return calls;
+}
+
+const isMacroConstant = (t: CToken) => t.kind === 'ident' && /^[A-Z][A-Z0-9_]*$/.test(t.value);
+
+/** Identifiers in a range that are not constants and not inside sizeof(...). */
+function variablesIn(tokens: CToken[], [start, end]: [number, number]): string[] {
+  const names: string[] = [];
+  for (let i = start; i < end; i++) {
+    const t = tokens[i];
+    if (t.kind !== 'ident') continue;
+    if (t.value === 'sizeof') {
+      if (tokens[i + 1]?.value === '(') i = matching(tokens, i + 1);
+      continue;
+    }
+    if (!isMacroConstant(t) && tokens[i + 1]?.value !== '(') names.push(t.value);
+  }
+  return names;
+}
+
+const RELATIONAL = new Set(['<', '<=', '>', '>=']);
+
+const unboundedCopy: StaticRule = {
+  id: 'STATIC-UNBOUNDED-COPY',
+  title: 'Unbounded string copy',
+  cwe: 'CWE-120',
+  severity: 'high',
+  remediation: 'Use a bounded alternative (strncpy/strlcpy with explicit termination, snprintf) and check the destination size.',
+  check(ctx, scope) {
+    const calls = callsIn(ctx.tokens, scope, new Set(['strcpy', 'strcat', 'sprintf', 'vsprintf', 'gets', 'stpcpy', 'wcscpy', 'wcscat']));
+    return calls.map(call => call.name === 'gets'
+      ? {
+        index: call.index,
+        title: 'Use of gets()',
+        cwe: 'CWE-242',
+        severity: 'critical' as const,
+        description: 'gets() reads input with no length limit and cannot be used safely; any input longer than the buffer overflows it.',
+      }
+      : {
+        index: call.index,
+        title: `Unbounded copy with ${call.name}()`,
+        description: `${call.name}() writes to its destination without a size limit; a source longer than the destination buffer overflows it.`,
+      });
+  },
+};
+
+const uncheckedMemcpy: StaticRule = {
+  id: 'STATIC-MEMCPY-LENGTH',
+  title: 'Unchecked memcpy length',
+  cwe: 'CWE-805',
+  severity: 'high',
+  remediation: 'Validate the length against the destination size before copying, e.g. `if (len > sizeof(dst)) return E_NOT_OK;`.',
+  check(ctx, scope) {
+    const hits = [];
+    for (const call of callsIn(ctx.tokens, scope, new Set(['memcpy', 'memmove']))) {
+      if (call.args.length < 3) continue;
+      const variables = variablesIn(ctx.tokens, call.args[2]);
+      if (variables.length === 0) continue;
+
+      // A length is considered checked if it takes part in a relational
+      // comparison (or a min()) earlier in the same function
+      const checked = variables.some(name => {
+        for (let i = scope.paramsStart; i < call.index; i++) {
+          const t = ctx.tokens[i];
+          if (t.kind !== 'ident' || t.value !== name) continue;
+          if (RELATIONAL.has(ctx.tokens[i - 1]?.value) || RELATIONAL.has(ctx.tokens[i + 1]?.value)) return true;
+        }
+        return false;
+      }) || ctx.tokens.slice(call.args[2][0], call.args[2][1]).some(t => /^(min|MIN)$/i.test(t.value));
+
+      if (!checked) {
+        hits.push({
+          index: call.index,
+          title: `Unchecked length in ${call.name}()`,
+          description: `The length passed to ${call.name}() (${variables.join(', ')}) is not compared against a bound before the copy.`,
+        });
+      }
+    }
+    return hits;
+  },
+};
+
+const FORMAT_ARGUMENT: Record<string, number> = {
+  printf: 0, fprintf: 1, sprintf: 1, snprintf: 2, dprintf: 1, syslog: 1,
+};
+
+const formatString: StaticRule = {
+  id: 'STATIC-FORMAT-STRING',
+  title: 'Non-literal format string',
+  cwe: 'CWE-134',
+  severity: 'high',
+  remediation: 'Pass a string literal as the format and supply data as arguments, e.g. `printf("%s", msg)`.',
+  check(ctx, scope) {
+    const hits = [];
+    for (const call of callsIn(ctx.tokens, scope, new Set(Object.keys(FORMAT_ARGUMENT)))) {
+      const arg = call.args[FORMAT_ARGUMENT[call.name]];
+      if (!arg) continue;
+      if (ctx.tokens[arg[0]].kind === 'string') continue;
+      hits.push({
+        index: call.index,
+        description: `The format argument of ${call.name}() is not a string literal; attacker-influenced data containing %n or %s can read or write memory.`,
+      });
+    }
+    return hits;
+  },
+};
+
+const SIGNED_TYPES = new Set(['int', 'short', 'long', 'signed', 'int8_t', 'int16_t', 'int32_t', 'int64_t', 'ssize_t', 'sint8', 'sint16', 'sint32', 'sint64']);
+const UNSIGNED_TYPES = new Set(['unsigned', 'size_t', 'uint8_t', 'uint16_t', 'uint32_t', 'uint64_t', 'uint8', 'uint16', 'uint32', 'uint64']);
+const UNSIGNED_RESULT_CALLS = new Set(['sizeof', 'strlen', 'strnlen', 'wcslen']);
+
+/** Local and parameter declarations in a function, classified by signedness. */
+function declaredSignedness(tokens: CToken[], scope: FunctionScope): Map<string, 'signed' | 'unsigned'> {
+  const result = new Map<string, 'signed' | 'unsigned'>();
+  for (let i = scope.paramsStart + 1; i < scope.bodyEnd; i++) {
+    const t = tokens[i];
+    if (t.kind !== 'ident' || (!SIGNED_TYPES.has(t.value) && !UNSIGNED_TYPES.has(t.value))) continue;
+
+    let unsigned = UNSIGNED_TYPES.has(t.value) || tokens[i - 1]?.value === 'unsigned';
+    let j = i + 1;
+    while (tokens[j]?.kind === 'ident' && (SIGNED_TYPES.has(tokens[j].value) || UNSIGNED_TYPES.has(tokens[j].value) || tokens[j].value === 'const')) {
+      if (UNSIGNED_TYPES.has(tokens[j].value)) unsigned = true;
+      j++;
+    }
+    // Pointers are not integers
+    if (tokens[j]?.value === '*') continue;
+    const name = tokens[j];
+    if (name?.kind === 'ident' && [';', '=', ',', ')', '['].includes(tokens[j + 1]?.value)) {
+      result.set(name.value, unsigned ? 'unsigned' : 'signed');
+    }
+    i = j;
+  }
+  return result;
+}
+
+function operandSignedness(
+  tokens: CToken[],
+  index: number,
+  side: 'left' | 'right',
+  declared: Map<string, 'signed' | 'unsigned'>,
+): 'signed' | 'unsigned' | null {
+  const t = tokens[index];
+  if (!t) return null;
+  if (side === 'right' && t.kind === 'ident') {
+    if (UNSIGNED_RESULT_CALLS.has(t.value) && tokens[index + 1]?.value === '(') return 'unsigned';
+    if (tokens[index + 1]?.value === '(' || tokens[index + 1]?.value === '[' || tokens[index + 1]?.value === '.' || tokens[index + 1]?.value === '->') return null;
+    return declared.get(t.value) ?? null;
+  }
+  if (side === 'left') {
+    if (t.value === ')') {
+      const open = matchingBackward(tokens, index);
+      return UNSIGNED_RESULT_CALLS.has(tokens[open - 1]?.value) ? 'unsigned' : null;
+    }
+    if (t.kind === 'ident' && !['.', '->'].includes(tokens[index - 1]?.value)) return declared.get(t.value) ?? null;
+  }
+  return null;
+}
+
+const signedUnsignedCompare: StaticRule = {
+  id: 'STATIC-SIGNED-UNSIGNED-COMPARE',
+  title: 'Signed/unsigned length comparison',
+  cwe: 'CWE-195',
+  severity: 'medium',
+  remediation: 'Use an unsigned type (size_t) for lengths, or reject negative values before comparing.',
+  check(ctx, scope) {
+    const declared = declaredSignedness(ctx.tokens, scope);
+    const hits = [];
+    for (let i = scope.bodyStart + 1; i < scope.bodyEnd; i++) {
+      if (ctx.tokens[i].kind !== 'punct' || !RELATIONAL.has(ctx.tokens[i].value)) continue;
+      const left = operandSignedness(ctx.tokens, i - 1, 'left', declared);
+      const right = operandSignedness(ctx.tokens, i + 1, 'right', declared);
+      if (left && right && left !== right) {
+        const signedSide = left === 'signed' ? ctx.tokens[i - 1].value : ctx.tokens[i + 1].value;
+        hits.push({
+          index: i,
+          description: `Signed value '${signedSide}' is compared with an unsigned length; a negative value converts to a large unsigned number and passes the bound check.`,
+        });
+      }
+    }
+    return hits;
+  },
+};
+
+const ALLOCATORS = new Set(['malloc', 'calloc', 'realloc']);
+const POINTER_CONSUMERS = new Set(['memcpy', 'memmove', 'memset', 'strcpy', 'strncpy', 'strcat', 'strncat', 'sprintf', 'snprintf', 'fread', 'fgets']);
+
+function isNullCheck(tokens: CToken[], i: number): boolean {
+  const prev = tokens[i - 1]?.value;
+  const next = tokens[i + 1]?.value;
+  if (prev === '!' || next === '==' || next === '!=' || prev === '==' || prev === '!=') return true;
+  if (next === '&&' || next === '||' || next === '?' || prev === '&&' || prev === '||') return true;
+  // if (p) / while (p) / assert(p)
+  return prev === '(' && next === ')' && ['if', 'while', 'assert'].includes(tokens[i - 2]?.value);
+}
+
+function isDereference(tokens: CToken[], i: number): boolean {
+  const next = tokens[i + 1]?.value;
+  if (next === '[' || next === '->') return true;
+  const prev = tokens[i - 1];
+  if (prev?.value === '*') {
+    const before = tokens[i - 2];
+    // Unary '*': not preceded by an operand
+    return !before || !(before.kind === 'ident' || before.kind === 'number' || before.value === ')' || before.value === ']');
+  }
+  // First argument of a function that writes through the pointer
+  return prev?.value === '(' && POINTER_CONSUMERS.has(tokens[i - 2]?.value);
+}
+
+const missingNullCheck: StaticRule = {
+  id: 'STATIC-MALLOC-NULL-CHECK',
+  title: 'Missing NULL check after allocation',
+  cwe: 'CWE-690',
+  severity: 'medium',
+  remediation: 'Check the allocation result against NULL before using it and handle the failure path.',
+  check(ctx, scope) {
+    const { tokens } = ctx;
+    const hits = [];
+    for (const call of callsIn(tokens, scope, ALLOCATORS)) {
+      // Walk back over an optional cast to find `ptr =`
+      let k = call.index - 1;
+      if (tokens[k]?.value === ')') k = matchingBackward(tokens, k) - 1;
+      if (tokens[k]?.value !== '=' || tokens[k - 1]?.kind !== 'ident') continue;
+      const pointer = tokens[k - 1].value;
+
+      let statementEnd = call.end;
+      while (statementEnd < scope.bodyEnd && tokens[statementEnd].value !== ';') statementEnd++;
+
+      for (let i = statementEnd + 1; i < scope.bodyEnd; i++) {
+        if (tokens[i].kind !== 'ident' || tokens[i].value !== pointer) continue;
+        if (['.', '->'].includes(tokens[i - 1]?.value)) continue;
+        if (isNullCheck(tokens, i) || tokens[i + 1]?.value === '=') break;
+        if (isDereference(tokens, i)) {
+          hits.push({
+            index: call.index,
+            description: `The result of ${call.name}() stored in '${pointer}' is used on line ${tokens[i].line} without checking for NULL.`,
+          });
+          break;
+        }
+      }
+    }
+    return hits;
+  },
+};
+
+export const STATIC_RULES: StaticRule[] = [
+  unboundedCopy,
+  uncheckedMemcpy,
+  formatString,
+  signedUnsignedCompare,
+  missingNullCheck,
+];
+
+export function runStaticChecks(source: string, fileName: string): VulnerabilityFinding[] {
+  const tokens = tokenizeC(source);
+  const ctx: CheckContext = {
+    fileName,
+    lines: source.split(/\r?\n/),
+    tokens,
+    functions: findFunctions(tokens),
+  };
+
+  const findings: VulnerabilityFinding[] = [];
+  for (const scope of ctx.functions) {
+    for (const rule of STATIC_RULES) {
+      for (const hit of rule.check(ctx, scope)) {
+        const line = tokens[hit.index].line;
+        findings.push({
+          cwe_id: hit.cwe ?? rule.cwe,
+          severity: hit.severity ?? rule.severity,
+          title: hit.title ?? rule.title,
+          description: `${hit.description} [${rule.id}]`,
+          affected_component: fileName,
+          affected_function: `${scope.name}()`,
+          code_snippet: ctx.lines[line - 1]?.trim() ?? null,
+          line_number: line,
+          detection_method: 'static',
+          remediation: rule.remediation,
+        });
+      }
+    }
+  }
+
+  return findings.sort((a, b) => (a.line_number ?? 0) - (b.line_number ?? 0));
+}
@@ -0,0 +1,117 @@
+// Minimal C tokenizer for the static checker. It is not a preprocessor or a
+// parser: comments are dropped, directives become single tokens, and every
+// token keeps the 1-based line it starts on.
+
+export type CTokenKind = 'ident' | 'number' | 'string' | 'char' | 'punct' | 'directive';
+
+export interface CToken {
+  kind: CTokenKind;
+  value: string;
+  line: number;
+}
+
+// Longest first so that e.g. `<<=` is not split into `<<` and `=`
+const PUNCTUATORS = [
+  '<<=', '>>=', '...', '->', '++', '--', '<<', '>>', '<=', '>=', '==', '!=', '&&', '||',
+  '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '##',
+];
+
+const isIdentStart = (ch: string) => /[A-Za-z_]/.test(ch);
+const isIdentPart = (ch: string) => /[A-Za-z0-9_]/.test(ch);
+
+export function tokenizeC(source: string): CToken[] {
+  const tokens: CToken[] = [];
+  let line = 1;
+  let atLineStart = true;
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (ch === '\n') {
+      line++;
+      atLineStart = true;
+      i++;
+      continue;
+    }
+    if (ch === ' ' || ch === '\t' || ch === '\r' || ch === '\f' || ch === '\v') {
+      i++;
+      continue;
+    }
+
+    // Comments
+    if (ch === '/' && source[i + 1] === '/') {
+      while (i < source.length && source[i] !== '\n') i++;
+      continue;
+    }
+    if (ch === '/' && source[i + 1] === '*') {
+      i += 2;
+      while (i < source.length && !(source[i] === '*' && source[i + 1] === '/')) {
+        if (source[i] === '\n') line++;
+        i++;
+      }
+      i += 2;
+      continue;
+    }
+
+    // Preprocessor directive, including backslash continuations
+    if (ch === '#' && atLineStart) {
+      const startLine = line;
+      let text = '';
+      while (i < source.length && source[i] !== '\n') {
+        if (source[i] === '\\' && source[i + 1] === '\n') {
+          line++;
+          i += 2;
+          continue;
+        }
+        text += source[i++];
+      }
+      tokens.push({ kind: 'directive', value: text.trim(), line: startLine });
+      continue;
+    }
+    atLineStart = false;
+
+    if (ch === '"' || ch === "'") {
+      const startLine = line;
+      let j = i + 1;
+      while (j < source.length && source[j] !== ch && source[j] !== '\n') {
+        if (source[j] === '\\') j++;
+        j++;
+      }
+      tokens.push({ kind: ch === '"' ? 'string' : 'char', value: source.slice(i, j + 1), line: startLine });
+      i = j + 1;
+      continue;
+    }
+
+    if (isIdentStart(ch)) {
+      let j = i + 1;
+      while (j < source.length && isIdentPart(source[j])) j++;
+      // String prefixes: L"...", u8"..."
+      if ((source[j] === '"' || source[j] === "'") && /^(L|u|U|u8)$/.test(source.slice(i, j))) {
+        i = j;
+        continue;
+      }
+      tokens.push({ kind: 'ident', value: source.slice(i, j), line });
+      i = j;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      let j = i + 1;
+      while (j < source.length && /[0-9A-Za-z_.]/.test(source[j])) {
+        // Exponent sign: 1e-5, 0x1p+3
+        if (/[eEpP]/.test(source[j]) && /[+-]/.test(source[j + 1] ?? '')) j++;
+        j++;
+      }
+      tokens.push({ kind: 'number', value: source.slice(i, j), line });
+      i = j;
+      continue;
+    }
+
+    const punct = PUNCTUATORS.find(p => source.startsWith(p, i)) ?? ch;
+    tokens.push({ kind: 'punct', value: punct, line });
+    i += punct.length;
+  }
+
+  return tokens;
+}
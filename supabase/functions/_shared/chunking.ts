@@ -0,0 +1,233 @@
+// Splits uploads into LLM-sized pieces so the whole file is examined rather
+// than a preview. Source files are cut at top-level declaration boundaries
+// (never inside a function body); binaries are cut per section/segment and
+// then into fixed windows.
+
+import type { FirmwareImage } from "./firmware-image.ts";
+import type { RecoveredFunction } from "./disassembly.ts";
+
+export interface AnalysisChunk {
+  id: number;
+  label: string;
+  kind: 'source' | 'binary';
+  component: string;
+  content: string;
+  startLine?: number;
+  endLine?: number;
+  address?: number;
+  size?: number;
+  /** Position of a binary region inside FirmwareImage.data. */
+  offset?: number;
+}
+
+export const MAX_SOURCE_CHUNK_CHARS = 12000;
+export const MAX_BINARY_CHUNKS = 48;
+const MIN_BINARY_WINDOW = 64 * 1024;
+const MAX_STRINGS_CHARS = 6000;
+const HEX_SAMPLE_BYTES = 256;
+const MIN_STRING_LENGTH = 6;
+
+/**
+ * Returns the 1-based line numbers at which a top-level construct ends, i.e.
+ * where brace depth returns to zero outside comments, strings and char
+ * literals. Lines ending a preprocessor directive at depth zero count too.
+ */
+function topLevelBoundaries(lines: string[]): Set<number> {
+  const boundaries = new Set<number>();
+  let depth = 0;
+  let inBlockComment = false;
+
+  lines.forEach((line, index) => {
+    let inString: '"' | "'" | null = null;
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i];
+      if (inBlockComment) {
+        if (ch === '*' && line[i + 1] === '/') { inBlockComment = false; i++; }
+        continue;
+      }
+      if (inString) {
+        if (ch === '\\') i++;
+        else if (ch === inString) inString = null;
+        continue;
+      }
+      if (ch === '/' && line[i + 1] === '/') break;
+      if (ch === '/' && line[i + 1] === '*') { inBlockComment = true; i++; continue; }
+      if (ch === '"' || ch === "'") { inString = ch; continue; }
+      if (ch === '{') depth++;
+      if (ch === '}') depth = Math.max(0, depth - 1);
+    }
+    const trimmed = line.trim();
+    if (depth === 0 && !inBlockComment && (trimmed.endsWith('}') || trimmed.endsWith(';') || trimmed.startsWith('#') || trimmed === '')) {
+      boundaries.add(index + 1);
+    }
+  });
+
+  return boundaries;
+}
+
+export function chunkSource(text: string, fileName: string, maxChars = MAX_SOURCE_CHUNK_CHARS): AnalysisChunk[] {
+  const lines = text.split(/\r?\n/);
+  const boundaries = topLevelBoundaries(lines);
+  const chunks: AnalysisChunk[] = [];
+
+  let start = 1;
+  let size = 0;
+  let lastBoundary = 0;
+
+  const emit = (end: number) => {
+    if (end < start) return;
+    const numbered = lines.slice(start - 1, end).map((line, i) => `${start + i}: ${line}`).join('\n');
+    if (numbered.trim()) {
+      chunks.push({
+        id: chunks.length,
+        label: `${fileName} lines ${start}-${end}`,
+        kind: 'source',
+        component: fileName,
+        content: numbered,
+        startLine: start,
+        endLine: end,
+      });
+    }
+    start = end + 1;
+    lastBoundary = 0;
+  };
+
+  for (let line = 1; line <= lines.length; line++) {
+    size += lines[line - 1].length + 1;
+    if (boundaries.has(line)) lastBoundary = line;
+    if (size < maxChars) continue;
+
+    // Prefer cutting at the last top-level boundary; a single function larger
+    // than the budget is cut where it is rather than dropped.
+    const end = lastBoundary >= start ? lastBoundary : line;
+    emit(end);
+    // Lines between the cut and the current line carry over into the next chunk
+    size = lines.slice(end, line).reduce((sum, l) => sum + l.length + 1, 0);
+  }
+  emit(lines.length);
+
+  return chunks;
+}
+
+function extractStrings(data: Uint8Array, baseAddress: number, limit: number): string {
+  const out: string[] = [];
+  let used = 0;
+  let run = '';
+  let runStart = 0;
+
+  for (let i = 0; i <= data.length; i++) {
+    const b = i < data.length ? data[i] : 0;
+    if (b >= 0x20 && b < 0x7f) {
+      if (!run) runStart = i;
+      run += String.fromCharCode(b);
+      continue;
+    }
+    if (run.length >= MIN_STRING_LENGTH) {
+      const entry = `0x${(baseAddress + runStart).toString(16).padStart(8, '0')}: ${run}`;
+      if (used + entry.length > limit) break;
+      out.push(entry);
+      used += entry.length + 1;
+    }
+    run = '';
+  }
+  return out.join('\n');
+}
+
+function hexSample(data: Uint8Array, baseAddress: number): string {
+  const rows: string[] = [];
+  const length = Math.min(data.length, HEX_SAMPLE_BYTES);
+  for (let i = 0; i < length; i += 16) {
+    const row = Array.from(data.subarray(i, Math.min(i + 16, length)))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join(' ');
+    rows.push(`0x${(baseAddress + i).toString(16).padStart(8, '0')}: ${row}`);
+  }
+  return rows.join('\n');
+}
+
+/**
+ * Functions to list per region: recovered ones (with their callees) when the
+ * disassembly stage ran, otherwise ELF function symbols.
+ */
+function regionFunctions(image: FirmwareImage, recovered?: RecoveredFunction[]): { address: number; line: string }[] {
+  if (recovered && recovered.length > 0) {
+    const names = new Map(recovered.map(f => [f.address, f.name]));
+    return recovered.map(f => {
+      const callees = f.calls.slice(0, 8).map(a => names.get(a) ?? `0x${a.toString(16)}`);
+      return {
+        address: f.address,
+        line: `0x${f.address.toString(16)} ${f.name}${callees.length > 0 ? ` -> ${callees.join(', ')}` : ''}`,
+      };
+    });
+  }
+  return (image.elf?.symbols.filter(s => s.type === 'FUNC' && s.name) ?? [])
+    .map(s => ({ address: s.value, line: `0x${s.value.toString(16)} ${s.name}` }));
+}
+
+/**
+ * Segments to cover and the window size so that every segment gets at least
+ * one chunk and the total stays within maxChunks. When there are more
+ * segments than chunks, those with the fewest functions (then the smallest)
+ * are left out.
+ */
+function planBinaryChunks(
+  image: FirmwareImage,
+  functions: { address: number }[],
+  maxChunks: number,
+): { segments: FirmwareImage['segments']; window: number } {
+  let segments = image.segments.filter(s => s.size > 0);
+  if (segments.length > maxChunks) {
+    const functionCount = (s: FirmwareImage['segments'][number]) =>
+      functions.filter(f => f.address >= s.address && f.address < s.address + s.size).length;
+    const kept = new Set([...segments]
+      .sort((a, b) => functionCount(b) - functionCount(a) || b.size - a.size)
+      .slice(0, maxChunks));
+    segments = segments.filter(s => kept.has(s));
+  }
+
+  const total = segments.reduce((sum, s) => sum + s.size, 0);
+  const chunkCount = (window: number) => segments.reduce((sum, s) => sum + Math.ceil(s.size / window), 0);
+  let window = Math.max(MIN_BINARY_WINDOW, Math.ceil(total / maxChunks));
+  // Each segment's last window is partial, so widen until the rounding fits
+  while (chunkCount(window) > maxChunks) window = Math.ceil(window * 1.25);
+  return { segments, window };
+}
+
+export function chunkBinary(image: FirmwareImage, maxChunks = MAX_BINARY_CHUNKS, recovered?: RecoveredFunction[]): AnalysisChunk[] {
+  const functions = regionFunctions(image, recovered);
+  const { segments, window } = planBinaryChunks(image, functions, maxChunks);
+  const chunks: AnalysisChunk[] = [];
+
+  for (const segment of segments) {
+    const name = segment.name || `segment@0x${segment.address.toString(16)}`;
+    for (let pos = 0; pos < segment.size; pos += window) {
+      const size = Math.min(window, segment.size - pos);
+      const address = segment.address + pos;
+      const data = image.data.subarray(segment.offset + pos, segment.offset + pos + size);
+      const inRange = functions
+        .filter(f => f.address >= address && f.address < address + size)
+        .slice(0, 150)
+        .map(f => f.line);
+
+      const content = [
+        `Region ${name} 0x${address.toString(16).padStart(8, '0')}-0x${(address + size - 1).toString(16).padStart(8, '0')} (${size} bytes)`,
+        inRange.length > 0 ? `Functions in region (address name -> callees):\n${inRange.join('\n')}` : '',
+        `Printable strings (address: text):\n${extractStrings(data, address, MAX_STRINGS_CHARS) || '(none)'}`,
+        `Hex sample:\n${hexSample(data, address)}`,
+      ].filter(Boolean).join('\n\n');
+
+      chunks.push({
+        id: chunks.length,
+        label: `${name} +0x${pos.toString(16)}`,
+        kind: 'binary',
+        component: name,
+        content,
+        address,
+        size,
+        offset: segment.offset + pos,
+      });
+    }
+  }
+
+  return chunks;
+}
@@ -0,0 +1,38 @@
+// Checksums used by automotive flash containers.
+
+/** CRC-16/CCITT-FALSE: poly 0x1021, init 0xFFFF, no reflection (VBF block checksum). */
+export function crc16Ccitt(data: Uint8Array): number {
+  let crc = 0xffff;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data[i] << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+let crc32Table: Uint32Array | null = null;
+
+function getCrc32Table(): Uint32Array {
+  if (crc32Table) return crc32Table;
+  crc32Table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crc32Table[n] = c >>> 0;
+  }
+  return crc32Table;
+}
+
+/** CRC-32 (IEEE 802.3 / zlib), as used for the VBF file_checksum. */
+export function crc32(data: Uint8Array): number {
+  const table = getCrc32Table();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
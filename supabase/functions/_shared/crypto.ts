@@ -0,0 +1,658 @@
+// Cryptographic inventory and crypto-misuse checks. Algorithms are recognised
+// from constant tables, function/symbol names and library banners in images,
+// and from API calls in C sources. The inventory feeds the CycloneDX CBOM;
+// weak or misused primitives (MD5/SHA-1 for authentication, DES/3DES, ECB,
+// static IVs, rand()-derived keys, short RSA keys, hard-coded symmetric keys)
+// become findings.
+
+import { findFunctions, matching, type FunctionScope } from "./c-checker.ts";
+import { tokenizeC, type CToken } from "./c-tokenizer.ts";
+import { findPublicKeys } from "./boot-chain.ts";
+import { functionContaining, functionsReferencing, type DisassemblyResult, type RecoveredFunction } from "./disassembly.ts";
+import { offsetToAddress, type FirmwareImage } from "./firmware-image.ts";
+import type { VulnerabilityFinding } from "./findings.ts";
+
+/** CycloneDX 1.6 cryptoProperties.algorithmProperties.primitive values used here. */
+export type CryptoPrimitive = 'block-cipher' | 'stream-cipher' | 'hash' | 'mac' | 'signature' | 'key-agree';
+
+export interface CryptoEvidence {
+  kind: 'constant' | 'symbol' | 'source';
+  detail: string;
+  line: number | null;
+  offset: number | null;
+}
+
+export interface CryptoAlgorithm {
+  name: string;
+  primitive: CryptoPrimitive;
+  /** Lower-case block cipher mode (ecb, cbc, gcm, ...). */
+  mode: string | null;
+  keyBits: number | null;
+  /** Broken or deprecated for new designs. */
+  weak: boolean;
+  evidence: CryptoEvidence[];
+}
+
+export interface CryptoLibrary {
+  name: string;
+  version: string | null;
+  offset: number;
+}
+
+export type CryptoIssueKind = 'weak-hash-auth' | 'weak-cipher' | 'ecb-mode' | 'static-iv' | 'rand-key' | 'weak-rsa' | 'hardcoded-key';
+
+export interface CryptoIssue {
+  kind: CryptoIssueKind;
+  algorithm: string;
+  severity: VulnerabilityFinding['severity'];
+  title: string;
+  description: string;
+  function: string | null;
+  line: number | null;
+  address: number | null;
+  offset: number | null;
+  length: number | null;
+}
+
+export interface CryptoInventory {
+  algorithms: CryptoAlgorithm[];
+  libraries: CryptoLibrary[];
+  issues: CryptoIssue[];
+}
+
+const CATALOG: Record<string, { primitive: CryptoPrimitive; weak: boolean }> = {
+  AES: { primitive: 'block-cipher', weak: false },
+  DES: { primitive: 'block-cipher', weak: true },
+  '3DES': { primitive: 'block-cipher', weak: true },
+  Blowfish: { primitive: 'block-cipher', weak: true },
+  ChaCha20: { primitive: 'stream-cipher', weak: false },
+  RC4: { primitive: 'stream-cipher', weak: true },
+  MD5: { primitive: 'hash', weak: true },
+  'SHA-1': { primitive: 'hash', weak: true },
+  'SHA-256': { primitive: 'hash', weak: false },
+  'SHA-512': { primitive: 'hash', weak: false },
+  HMAC: { primitive: 'mac', weak: false },
+  CMAC: { primitive: 'mac', weak: false },
+  RSA: { primitive: 'signature', weak: false },
+  ECDSA: { primitive: 'signature', weak: false },
+  Ed25519: { primitive: 'signature', weak: false },
+  ECDH: { primitive: 'key-agree', weak: false },
+  X25519: { primitive: 'key-agree', weak: false },
+};
+
+const SYMMETRIC = new Set(['AES', 'DES', '3DES', 'Blowfish', 'ChaCha20', 'RC4', 'HMAC', 'CMAC']);
+
+// Checked in order against lower-cased names; 3DES before DES, SHA-1 must not match sha1xx
+const NAME_PATTERNS: [RegExp, string][] = [
+  [/aes/, 'AES'],
+  [/des3|3des|tdes|tripledes|desede|des_ede/, '3DES'],
+  [/(^|_)des(_|$)|^des(en|de)?crypt|^des_?setkey/, 'DES'],
+  [/blowfish|(^|_)bf_(en|de)crypt/, 'Blowfish'],
+  [/chacha/, 'ChaCha20'],
+  [/(^|_)a?rc4(_|$)/, 'RC4'],
+  [/md5/, 'MD5'],
+  [/sha_?1(?!\d)/, 'SHA-1'],
+  [/sha_?(256|224)|sha2_?256/, 'SHA-256'],
+  [/sha_?(512|384)/, 'SHA-512'],
+  [/hmac/, 'HMAC'],
+  [/cmac/, 'CMAC'],
+  [/ecdsa/, 'ECDSA'],
+  [/ed25519/, 'Ed25519'],
+  [/ecdh/, 'ECDH'],
+  [/x25519|curve25519/, 'X25519'],
+  [/(^|_)rsa/, 'RSA'],
+];
+const MODE_PATTERN = /(^|_)(ecb|cbc|gcm|ctr|ccm|cfb\d*|ofb)(_|$)/;
+const KEY_BITS_PATTERN = /(^|_)(128|192|256)(_|$)/;
+
+// Function names that suggest a digest is used to authenticate something
+const AUTH_CONTEXT = /auth|verif|sign|login|passw|token|challenge|seed|cert|mac(?!hine)|response|unlock|secaccess|securityaccess/;
+const KEY_GEN = /gen\w*key|key\w*gen|generate\w*(key|iv|nonce)|derive\w*key|new\w*key/;
+const KEY_SETUP = /setkey|set_key|key_?(expan|sched|setup)|(aes|des|cipher)\w*_?init/;
+const IV_NAME = /^(\w*_)?(iv|nonce|init_?vector|initialization_?vector)$/;
+const KEY_LIKE = /key|(^|_)iv(_|$)|nonce|salt/;
+const SECRET_KEY_NAME = /key/;
+const NOT_SECRET_KEY = /pub|public|modulus|board|pad|code|map|cert|count|num|len|size|index|idx|name|id$|table|mask|state|press|event|hot/;
+const KEY_LENGTHS = new Set([16, 24, 32]);
+
+function algorithmForName(name: string): { name: string; mode: string | null; keyBits: number | null } | null {
+  const lower = name.toLowerCase();
+  const match = NAME_PATTERNS.find(([pattern]) => pattern.test(lower));
+  if (!match) return null;
+  const mode = lower.match(MODE_PATTERN)?.[2].replace(/\d+$/, '') ?? null;
+  const bits = lower.match(KEY_BITS_PATTERN)?.[2];
+  return { name: match[1], mode, keyBits: bits && match[1] === 'AES' ? Number(bits) : null };
+}
+
+/** AES-128-CBC, RSA-2048, SHA-256 */
+export function algorithmLabel(algorithm: Pick<CryptoAlgorithm, 'name' | 'mode' | 'keyBits'>): string {
+  return [algorithm.name, algorithm.keyBits, algorithm.mode?.toUpperCase()].filter(Boolean).join('-');
+}
+
+const MAX_EVIDENCE = 5;
+const MAX_ISSUES = 50;
+
+class InventoryBuilder {
+  readonly algorithms: CryptoAlgorithm[] = [];
+
+  add(name: string, mode: string | null, keyBits: number | null, evidence: CryptoEvidence): CryptoAlgorithm {
+    let entry = this.algorithms.find(a => a.name === name && a.mode === mode && (a.keyBits === keyBits || keyBits === null || a.keyBits === null));
+    if (!entry) {
+      const { primitive, weak } = CATALOG[name];
+      entry = { name, primitive, mode, keyBits, weak, evidence: [] };
+      this.algorithms.push(entry);
+    }
+    entry.keyBits ??= keyBits;
+    if (entry.evidence.length < MAX_EVIDENCE && !entry.evidence.some(e => e.detail === evidence.detail)) entry.evidence.push(evidence);
+    return entry;
+  }
+
+  /**
+   * A key size seen once for an algorithm applies to all its uses, and a
+   * use without a mode folds into the moded one (setkey + crypt_cbc is AES-128-CBC).
+   */
+  build(): CryptoAlgorithm[] {
+    for (const name of new Set(this.algorithms.map(a => a.name))) {
+      const entries = this.algorithms.filter(a => a.name === name);
+      const sizes = new Set(entries.map(a => a.keyBits).filter(bits => bits !== null));
+      if (sizes.size === 1) for (const entry of entries) entry.keyBits = [...sizes][0];
+      for (const entry of entries) if (name === 'RSA' && entry.keyBits !== null && entry.keyBits < 2048) entry.weak = true;
+      const moded = entries.filter(a => a.mode !== null);
+      if (moded.length === 1) {
+        for (const entry of entries.filter(a => a.mode === null && a.keyBits === moded[0].keyBits)) {
+          moded[0].evidence.push(...entry.evidence.slice(0, MAX_EVIDENCE - moded[0].evidence.length));
+          this.algorithms.splice(this.algorithms.indexOf(entry), 1);
+        }
+      }
+    }
+    return this.algorithms;
+  }
+}
+
+function weakCipherIssues(algorithms: CryptoAlgorithm[], issue: (algorithm: CryptoAlgorithm) => Omit<CryptoIssue, 'kind' | 'algorithm' | 'severity' | 'title' | 'description'>): CryptoIssue[] {
+  const issues: CryptoIssue[] = [];
+  for (const algorithm of algorithms) {
+    if (['DES', '3DES', 'Blowfish', 'RC4'].includes(algorithm.name) && !issues.some(i => i.algorithm === algorithm.name)) {
+      issues.push({
+        kind: 'weak-cipher',
+        algorithm: algorithm.name,
+        severity: algorithm.name === 'DES' || algorithm.name === 'RC4' ? 'high' : 'medium',
+        title: `Weak cipher ${algorithm.name} in use`,
+        description: algorithm.name === 'DES'
+          ? 'DES has a 56-bit key that can be exhausted in hours with commodity hardware.'
+          : algorithm.name === 'RC4'
+            ? 'RC4 keystream biases allow plaintext recovery; it is prohibited in current protocols.'
+            : `${algorithm.name} has a 64-bit block, so long-lived keys are exposed to birthday attacks (Sweet32); it is deprecated by NIST.`,
+        ...issue(algorithm),
+      });
+    }
+    if (algorithm.mode === 'ecb' && !issues.some(i => i.kind === 'ecb-mode' && i.algorithm === algorithm.name)) {
+      issues.push({
+        kind: 'ecb-mode',
+        algorithm: algorithm.name,
+        severity: 'medium',
+        title: `${algorithm.name} used in ECB mode`,
+        description: 'ECB encrypts identical plaintext blocks to identical ciphertext blocks, leaking data patterns and allowing blocks to be swapped or replayed.',
+        ...issue(algorithm),
+      });
+    }
+  }
+  return issues;
+}
+
+// ---------------------------------------------------------------------------
+// Source analysis
+
+/** Crypto use in one C source file, or null when it uses none. */
+export function analyzeCryptoSource(source: string): CryptoInventory | null {
+  const tokens = tokenizeC(source);
+  const functions = findFunctions(tokens);
+  const scopeAt = (index: number) => functions.find(f => index > f.bodyStart && index < f.bodyEnd) ?? null;
+  const builder = new InventoryBuilder();
+  const issues: CryptoIssue[] = [];
+  const sourceIssue = (fields: Omit<CryptoIssue, 'address' | 'offset' | 'length'>) => {
+    if (issues.length < MAX_ISSUES && !issues.some(i => i.kind === fields.kind && i.line === fields.line)) {
+      issues.push({ ...fields, address: null, offset: null, length: null });
+    }
+  };
+  const firstLine = new Map<CryptoAlgorithm, { line: number; scope: FunctionScope | null }>();
+  // Only reported when the file also uses a symmetric cipher or MAC
+  const hardcodedKeys: { name: string; bytes: number; line: number; scope: string | null }[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (t.kind === 'directive') {
+      // #define RSA_KEY_BITS 1024
+      const define = t.value.match(/^#\s*define\s+(\w*(rsa|key)\w*(bits|size|len)\w*)\s+\(?(\d+)/i);
+      const bits = define ? Number(define[4]) : NaN;
+      if (define && /rsa/i.test(source) && bits >= 256 && bits < 2048 && bits % 256 === 0) {
+        builder.add('RSA', null, bits, { kind: 'source', detail: define[1], line: t.line, offset: null });
+        sourceIssue(weakRsaIssue(bits, null, t.line));
+      }
+      continue;
+    }
+    if (t.kind !== 'ident') continue;
+    const called = tokens[i + 1]?.value === '(' && tokens[i - 1]?.value !== '.' && tokens[i - 1]?.value !== '->';
+    const constant = /^[A-Z0-9_]+$/.test(t.value) && /_/.test(t.value);
+    const found = called || constant ? algorithmForName(t.value) : null;
+    const scope = scopeAt(i);
+
+    if (found) {
+      let keyBits = found.keyBits;
+      const args = called ? callArguments(tokens, i + 1) : [];
+      // mbedtls_aes_setkey_enc(&ctx, key, 128), mbedtls_rsa_gen_key(&rsa, f_rng, p_rng, 1024, 65537)
+      const sizeArg = args.map(arg => (arg.length === 1 && arg[0].kind === 'number' ? Number(arg[0].value.replace(/[uUlL]+$/, '')) : NaN))
+        .find(value => (found.name === 'AES' && [128, 192, 256].includes(value)) || (found.name === 'RSA' && value >= 512 && value <= 8192 && value % 256 === 0));
+      if (sizeArg !== undefined) keyBits = sizeArg;
+      const algorithm = builder.add(found.name, found.mode, keyBits, { kind: 'source', detail: t.value, line: t.line, offset: null });
+      if (!firstLine.has(algorithm)) firstLine.set(algorithm, { line: t.line, scope });
+
+      if (found.name === 'RSA' && keyBits !== null && keyBits < 2048) sourceIssue(weakRsaIssue(keyBits, scope?.name ?? null, t.line));
+
+      // MD5/SHA-1 computed in an authentication routine, or as the digest of an HMAC
+      if ((found.name === 'MD5' || found.name === 'SHA-1') && scope) {
+        const hmac = /hmac/i.test(t.value) || tokens.slice(Math.max(scope.bodyStart, i - 8), i + 8).some(n => n.kind === 'ident' && /hmac/i.test(n.value));
+        if (hmac || AUTH_CONTEXT.test(scope.name.toLowerCase())) {
+          sourceIssue({
+            kind: 'weak-hash-auth',
+            algorithm: found.name,
+            severity: 'high',
+            title: `${found.name} used for authentication in ${scope.name}()`,
+            description: `${scope.name}() authenticates with ${hmac ? `HMAC-${found.name}` : found.name}. ${found.name === 'MD5' ? 'MD5 collisions can be computed in seconds' : 'SHA-1 collisions are practical (SHAttered)'}, so it must not protect authenticity.`,
+            function: scope.name,
+            line: t.line,
+          });
+        }
+      }
+      continue;
+    }
+
+    const name = t.value.toLowerCase();
+    const declaresArray = tokens[i + 1]?.value === '[';
+    const initializer = declaresArray ? matching(tokens, i + 1) + 1 : i + 1;
+
+    // uint8_t iv[16] = {0}; or memset(iv, 0, sizeof iv)
+    if (IV_NAME.test(name) && tokens[initializer]?.value === '=' && ['{', '"'].some(open => tokens[initializer + 1]?.value.startsWith(open))) {
+      sourceIssue(staticIvIssue(t.value, scope?.name ?? null, t.line, 'is initialised with a constant'));
+    }
+    if (called && t.value === 'memset' && IV_NAME.test(tokens[i + 2]?.value.toLowerCase() ?? '') && tokens[i + 4]?.value === '0') {
+      sourceIssue(staticIvIssue(tokens[i + 2].value, scope?.name ?? null, t.line, 'is zero-filled'));
+    }
+
+    // key[i] = rand() & 0xff; or rand() called from a key generation routine
+    if (called && /^(rand|random|rand_r)$/.test(t.value) && scope) {
+      let start = i;
+      while (start > scope.bodyStart && ![';', '{', '}'].includes(tokens[start - 1].value)) start--;
+      const assigned = tokens.slice(start, i).findIndex(n => n.value === '=');
+      const target = assigned >= 0 ? tokens.slice(start, start + assigned).find(n => n.kind === 'ident' && KEY_LIKE.test(n.value.toLowerCase())) : undefined;
+      if (target || KEY_GEN.test(scope.name.toLowerCase())) {
+        sourceIssue({
+          kind: 'rand-key',
+          algorithm: 'rand()',
+          severity: 'high',
+          title: `Key material derived from ${t.value}()`,
+          description: `${target ? `${target.value} is filled` : `${scope.name}() generates key material`} from ${t.value}(), a predictable PRNG whose state follows from its seed; keys and IVs must come from a cryptographically secure generator.`,
+          function: scope.name,
+          line: t.line,
+        });
+      }
+    }
+
+    // static const uint8_t aes_key[16] = { 0x2b, 0x7e, ... };
+    if (SECRET_KEY_NAME.test(name) && !NOT_SECRET_KEY.test(name) && tokens[initializer]?.value === '=') {
+      const value = tokens[initializer + 1];
+      const bytes = value?.value === '{'
+        ? tokens.slice(initializer + 2, matching(tokens, initializer + 1)).filter(n => n.kind === 'number' || n.kind === 'char').length
+        : value?.kind === 'string' ? value.value.length - 2 : 0;
+      if (KEY_LENGTHS.has(bytes)) {
+        hardcodedKeys.push({ name: t.value, bytes, line: t.line, scope: scope?.name ?? null });
+      }
+    }
+  }
+
+  const algorithms = builder.build();
+  if (algorithms.some(a => SYMMETRIC.has(a.name))) {
+    for (const key of hardcodedKeys) {
+      sourceIssue({
+        kind: 'hardcoded-key',
+        algorithm: algorithms.find(a => SYMMETRIC.has(a.name))!.name,
+        severity: 'high',
+        title: `Hard-coded symmetric key ${key.name}`,
+        description: `${key.name} holds a ${key.bytes * 8}-bit key in the source, so it is identical in every unit and recoverable from any firmware dump.`,
+        function: key.scope,
+        line: key.line,
+      });
+    }
+  }
+
+  for (const issue of weakCipherIssues(algorithms, algorithm => {
+    const first = firstLine.get(algorithm) ?? { line: algorithm.evidence[0]?.line ?? null, scope: null };
+    return { function: first.scope?.name ?? null, line: first.line, address: null, offset: null, length: null };
+  })) sourceIssue(issue);
+
+  if (algorithms.length === 0 && issues.length === 0) return null;
+  return { algorithms, libraries: [], issues };
+}
+
+function callArguments(tokens: CToken[], open: number): CToken[][] {
+  const close = matching(tokens, open);
+  const args: CToken[][] = [[]];
+  for (let i = open + 1; i < close; i++) {
+    const value = tokens[i].value;
+    if (value === '(' || value === '[' || value === '{') {
+      const end = matching(tokens, i);
+      args[args.length - 1].push(...tokens.slice(i, end + 1));
+      i = end;
+    } else if (value === ',') {
+      args.push([]);
+    } else {
+      args[args.length - 1].push(tokens[i]);
+    }
+  }
+  return args;
+}
+
+function weakRsaIssue(bits: number, fn: string | null, line: number | null): Omit<CryptoIssue, 'address' | 'offset' | 'length'> {
+  return {
+    kind: 'weak-rsa',
+    algorithm: 'RSA',
+    severity: bits <= 1024 ? 'high' : 'medium',
+    title: `RSA key of ${bits} bits`,
+    description: `RSA-${bits} is below the 2048-bit minimum; ${bits <= 1024 ? '1024-bit moduli are within reach of well-funded attackers and are disallowed by NIST since 2013' : 'it does not provide 112-bit security'}.`,
+    function: fn,
+    line,
+  };
+}
+
+function staticIvIssue(name: string, fn: string | null, line: number, how: string): Omit<CryptoIssue, 'address' | 'offset' | 'length'> {
+  return {
+    kind: 'static-iv',
+    algorithm: 'IV',
+    severity: 'medium',
+    title: `Static IV ${name}`,
+    description: `${name} ${how}, so every message is encrypted under the same IV/nonce: CBC leaks common prefixes and CTR/GCM nonce reuse exposes the keystream (and the GCM authentication key).`,
+    function: fn,
+    line,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Image analysis
+
+const hexBytes = (hex: string) => hex.split(' ').map(b => parseInt(b, 16));
+
+const TABLE_PATTERNS: { algorithm: string; label: string; bytes: number[] }[] = [
+  { algorithm: 'AES', label: 'AES S-box', bytes: hexBytes('63 7c 77 7b f2 6b 6f c5 30 01 67 2b fe d7 ab 76') },
+  { algorithm: 'AES', label: 'AES inverse S-box', bytes: hexBytes('52 09 6a d5 30 36 a5 38 bf 40 a3 9e 81 f3 d7 fb') },
+  { algorithm: 'AES', label: 'AES T-table', bytes: hexBytes('a5 63 63 c6 84 7c 7c f8 99 77 77 ee') },
+  { algorithm: 'AES', label: 'AES T-table', bytes: hexBytes('c6 63 63 a5 f8 7c 7c 84 ee 77 77 99') },
+  { algorithm: 'DES', label: 'DES S-box 1', bytes: hexBytes('0e 04 0d 01 02 0f 0b 08 03 0a 06 0c 05 09 00 07') },
+  { algorithm: 'DES', label: 'DES SP-box', bytes: hexBytes('00 04 01 01 00 00 00 00 00 00 01 00 04 04 01 01') },
+  { algorithm: 'DES', label: 'DES SP-box', bytes: hexBytes('01 01 04 00 00 00 00 00 00 01 00 00 01 01 04 04') },
+  { algorithm: 'DES', label: 'DES PC-1 permutation', bytes: hexBytes('39 31 29 21 19 11 09 01 3a 32 2a 22 1a 12') },
+  { algorithm: 'SHA-256', label: 'SHA-256 round constants', bytes: hexBytes('42 8a 2f 98 71 37 44 91 b5 c0 fb cf') },
+  { algorithm: 'SHA-256', label: 'SHA-256 round constants', bytes: hexBytes('98 2f 8a 42 91 44 37 71 cf fb c0 b5') },
+  { algorithm: 'SHA-512', label: 'SHA-512 round constants', bytes: hexBytes('42 8a 2f 98 d7 28 ae 22 71 37 44 91') },
+  { algorithm: 'SHA-512', label: 'SHA-512 round constants', bytes: hexBytes('22 ae 28 d7 98 2f 8a 42 cd 65 ef 23') },
+  { algorithm: 'MD5', label: 'MD5 sine table', bytes: hexBytes('78 a4 6a d7 56 b7 c7 e8 db 70 20 24') },
+  { algorithm: 'MD5', label: 'MD5 sine table', bytes: hexBytes('d7 6a a4 78 e8 c7 b7 56 24 20 70 db') },
+  { algorithm: 'Blowfish', label: 'Blowfish P-array', bytes: hexBytes('88 6a 3f 24 d3 08 a3 85 2e 8a 19 13') },
+  { algorithm: 'Blowfish', label: 'Blowfish P-array', bytes: hexBytes('24 3f 6a 88 85 a3 08 d3 13 19 8a 2e') },
+  { algorithm: 'ChaCha20', label: '"expand 32-byte k" constant', bytes: [...new TextEncoder().encode('expand 32-byte k')] },
+];
+
+// Unrolled implementations keep their constants in literal pools rather than tables
+const WORD_SETS: { algorithm: string; label: string; words: number[]; min: number }[] = [
+  { algorithm: 'MD5', label: 'MD5 round constants', words: [0xd76aa478, 0xe8c7b756, 0x242070db, 0xc1bdceee, 0xf57c0faf], min: 3 },
+  // RIPEMD-160 shares the other SHA-1 constants, but not K4
+  { algorithm: 'SHA-1', label: 'SHA-1 round constants', words: [0xca62c1d6, 0x8f1bbcdc, 0x6ed9eba1, 0x5a827999], min: 3 },
+];
+const SHA1_K4 = 0xca62c1d6;
+
+const LIBRARY_BANNERS: { name: string; pattern: RegExp }[] = [
+  { name: 'mbed TLS', pattern: /mbed ?TLS (\d+\.\d+\.\d+)/ },
+  { name: 'wolfSSL', pattern: /wolfSSL(?: v| version )?(\d+\.\d+\.\d+)?/ },
+  { name: 'OpenSSL', pattern: /OpenSSL (\d+\.\d+\.\d+[a-z]?)/ },
+  { name: 'BearSSL', pattern: /BearSSL(?: v?(\d+\.\d+(?:\.\d+)?))?/ },
+  { name: 'TinyCrypt', pattern: /tinycrypt/i },
+  { name: 'micro-ecc', pattern: /micro-ecc|uECC_(sign|verify)/ },
+  { name: 'LibTomCrypt', pattern: /LibTomCrypt(?: (\d+\.\d+(?:\.\d+)?))?/ },
+  { name: 'Microchip CryptoAuthLib', pattern: /cryptoauthlib|atcab_(init|sign|verify)/ },
+];
+
+function findBytes(data: Uint8Array, pattern: number[]): number {
+  outer: for (let i = 0; i + pattern.length <= data.length; i++) {
+    if (data[i] !== pattern[0]) continue;
+    for (let j = 1; j < pattern.length; j++) if (data[i + j] !== pattern[j]) continue outer;
+    return i;
+  }
+  return -1;
+}
+
+function addressToOffset(image: FirmwareImage, address: number): number | null {
+  const segment = image.segments.find(s => address >= s.address && address < s.address + s.size);
+  return segment ? segment.offset + (address - segment.address) : null;
+}
+
+/** 16 bytes that look like key material rather than code, text, padding or a lookup table. */
+function looksLikeKey(data: Uint8Array, offset: number): boolean {
+  if (offset < 0 || offset + 16 > data.length) return false;
+  const block = data.subarray(offset, offset + 16);
+  const distinct = new Set(block).size;
+  const printable = block.every(b => b >= 0x20 && b < 0x7f);
+  // An ASCII key is a 16/24/32 character string; other text is not a key
+  if (printable) return [16, 24, 32].some(length => data[offset + length] === 0 && data.subarray(offset, offset + length).every(b => b >= 0x20 && b < 0x7f));
+  return distinct >= 12;
+}
+
+/** Crypto in a firmware image, or null when none is recognised; misuse checks that follow calls need a disassembly. */
+export function analyzeCryptoImage(image: FirmwareImage, disassembly: DisassemblyResult | null): CryptoInventory | null {
+  const { data } = image;
+  const builder = new InventoryBuilder();
+  const tables: { offset: number; length: number }[] = [];
+
+  for (const pattern of TABLE_PATTERNS) {
+    const offset = findBytes(data, pattern.bytes);
+    if (offset < 0) continue;
+    tables.push({ offset, length: 256 });
+    builder.add(pattern.algorithm, null, null, { kind: 'constant', detail: pattern.label, line: null, offset });
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  for (const set of WORD_SETS) {
+    for (const little of [true, false]) {
+      const hits = new Map<number, number>();
+      for (let offset = 0; offset + 4 <= data.length; offset += 4) {
+        const word = view.getUint32(offset, little);
+        if (set.words.includes(word) && !hits.has(word)) hits.set(word, offset);
+      }
+      if (hits.size < set.min || (set.algorithm === 'SHA-1' && !hits.has(SHA1_K4))) continue;
+      builder.add(set.algorithm, null, null, { kind: 'constant', detail: set.label, line: null, offset: Math.min(...hits.values()) });
+      break;
+    }
+  }
+
+  const keyIssues: CryptoIssue[] = [];
+  for (const key of findPublicKeys(data)) {
+    const curve = key.label.match(/^(ECDSA|Ed25519)/)?.[1];
+    if (key.label.startsWith('RSA')) {
+      builder.add('RSA', null, key.bits, { kind: 'constant', detail: key.label, line: null, offset: key.offset });
+      if (key.bits !== null && key.bits < 2048 && key.offset !== null) {
+        keyIssues.push({
+          ...weakRsaIssue(key.bits, null, null),
+          address: offsetToAddress(image, key.offset),
+          offset: key.offset,
+          length: Math.ceil(key.bits / 8),
+        });
+      }
+    }
+    else if (curve) builder.add(curve, null, curve === 'ECDSA' ? key.bits : null, { kind: 'constant', detail: key.label, line: null, offset: key.offset });
+  }
+
+  const names = new Set([
+    ...(disassembly?.functions.map(f => f.name) ?? []),
+    ...(image.elf?.symbols.filter(s => s.name && (s.type === 'FUNC' || s.type === 'OBJECT')).map(s => s.name) ?? []),
+  ]);
+  for (const name of names) {
+    const found = algorithmForName(name);
+    if (found) builder.add(found.name, found.mode, found.keyBits, { kind: 'symbol', detail: name, line: null, offset: null });
+  }
+
+  const text = new TextDecoder('latin1').decode(data);
+  const libraries: CryptoLibrary[] = [];
+  for (const banner of LIBRARY_BANNERS) {
+    const match = banner.pattern.exec(text);
+    if (match) libraries.push({ name: banner.name, version: match[1] && /^\d/.test(match[1]) ? match[1] : null, offset: match.index });
+  }
+
+  const algorithms = builder.build();
+  const issues: CryptoIssue[] = [];
+  const firstOffset = (algorithm: CryptoAlgorithm) => algorithm.evidence.find(e => e.offset !== null)?.offset ?? null;
+  issues.push(...weakCipherIssues(algorithms, algorithm => ({
+    function: algorithm.evidence.find(e => e.kind === 'symbol')?.detail ?? null,
+    line: null,
+    address: null,
+    offset: firstOffset(algorithm),
+    length: firstOffset(algorithm) !== null ? 16 : null,
+  })));
+
+  issues.push(...keyIssues);
+  if (disassembly) issues.push(...imageMisuse(image, disassembly, algorithms, tables));
+  if (algorithms.length === 0 && libraries.length === 0 && issues.length === 0) return null;
+  return { algorithms, libraries, issues: issues.slice(0, MAX_ISSUES) };
+}
+
+function imageMisuse(
+  image: FirmwareImage,
+  disassembly: DisassemblyResult,
+  algorithms: CryptoAlgorithm[],
+  tables: { offset: number; length: number }[],
+): CryptoIssue[] {
+  const issues: CryptoIssue[] = [];
+  const byAddress = new Map(disassembly.functions.map(f => [f.address, f]));
+  const callersOf = (fn: RecoveredFunction) => fn.calledBy.map(address => byAddress.get(address)).filter((f): f is RecoveredFunction => !!f);
+  const issueAt = (fn: RecoveredFunction, fields: Omit<CryptoIssue, 'function' | 'line' | 'address' | 'offset' | 'length'>) => ({
+    ...fields, function: fn.name, line: null, address: fn.address, offset: addressToOffset(image, fn.address), length: null,
+  });
+
+  // MD5/SHA-1 routines called from authentication code
+  for (const fn of disassembly.functions) {
+    const found = algorithmForName(fn.name);
+    if (found?.name !== 'MD5' && found?.name !== 'SHA-1') continue;
+    const hmac = /hmac/i.test(fn.name);
+    for (const caller of hmac ? [fn, ...callersOf(fn)] : callersOf(fn)) {
+      if (!hmac && !AUTH_CONTEXT.test(caller.name.toLowerCase())) continue;
+      if (issues.some(i => i.kind === 'weak-hash-auth' && i.function === caller.name)) continue;
+      issues.push(issueAt(caller, {
+        kind: 'weak-hash-auth',
+        algorithm: found.name,
+        severity: 'high',
+        title: `${found.name} used for authentication in ${caller.name}()`,
+        description: `${caller.name}() authenticates with ${hmac ? `HMAC-${found.name}` : `${found.name} (${fn.name})`}, which no longer resists collisions.`,
+      }));
+      if (hmac) break;
+    }
+  }
+
+  // rand() feeding key generation or key setup
+  const keySetup = new Set(disassembly.functions.filter(f => KEY_SETUP.test(f.name.toLowerCase())).map(f => f.address));
+  for (const table of tables) {
+    const address = offsetToAddress(image, table.offset);
+    if (address === null) continue;
+    for (const fn of functionsReferencing(disassembly, address, table.length)) keySetup.add(fn.address);
+  }
+  for (const fn of disassembly.functions.filter(f => /^(rand|random|rand_r)$/.test(f.name))) {
+    for (const caller of callersOf(fn)) {
+      if (!KEY_GEN.test(caller.name.toLowerCase()) && !caller.calls.some(address => keySetup.has(address))) continue;
+      issues.push(issueAt(caller, {
+        kind: 'rand-key',
+        algorithm: 'rand()',
+        severity: 'high',
+        title: `Key material derived from ${fn.name}() in ${caller.name}()`,
+        description: `${caller.name}() calls ${fn.name}() and sets up or generates a key; ${fn.name}() is a predictable PRNG.`,
+      }));
+    }
+  }
+
+  // Constant 16-byte blobs whose address is passed by a caller of a key setup routine
+  const symmetric = algorithms.find(a => SYMMETRIC.has(a.name) && a.primitive === 'block-cipher');
+  const seen = new Set<number>();
+  for (const xref of disassembly.xrefs) {
+    if (xref.kind !== 'pointer' || seen.has(xref.to)) continue;
+    const caller = byAddress.get(xref.fromFunction);
+    if (!caller || !caller.calls.some(address => keySetup.has(address)) || keySetup.has(caller.address)) continue;
+    const offset = addressToOffset(image, xref.to);
+    if (offset === null || functionContaining(disassembly, xref.to) || tables.some(t => offset >= t.offset && offset < t.offset + t.length)) continue;
+    if (!looksLikeKey(image.data, offset)) continue;
+    seen.add(xref.to);
+    issues.push({
+      kind: 'hardcoded-key',
+      algorithm: symmetric?.name ?? 'AES',
+      severity: 'high',
+      title: `Hard-coded symmetric key at offset 0x${offset.toString(16)}`,
+      description: `${caller.name}() passes the constant at 0x${xref.to.toString(16)} to a ${symmetric?.name ?? 'cipher'} key setup routine, so the key is identical in every unit and can be read from any firmware dump.`,
+      function: caller.name,
+      line: null,
+      address: xref.from,
+      offset,
+      length: 16,
+    });
+  }
+  return issues;
+}
+
+// ---------------------------------------------------------------------------
+// Findings and summaries
+
+const CWE: Record<CryptoIssueKind, string> = {
+  'weak-hash-auth': 'CWE-327',
+  'weak-cipher': 'CWE-327',
+  'ecb-mode': 'CWE-327',
+  'weak-rsa': 'CWE-327',
+  'static-iv': 'CWE-330',
+  'rand-key': 'CWE-330',
+  'hardcoded-key': 'CWE-321',
+};
+
+const REMEDIATION: Record<CryptoIssueKind, string> = {
+  'weak-hash-auth': 'Use SHA-256 or better; for message authentication use HMAC-SHA-256 or AES-CMAC (as AUTOSAR SecOC does).',
+  'weak-cipher': 'Replace with AES-128 or AES-256 in an authenticated mode (GCM/CCM) or AES-CMAC for authentication.',
+  'ecb-mode': 'Use an authenticated mode such as AES-GCM or AES-CCM, or CBC/CTR with a separate MAC.',
+  'weak-rsa': 'Use RSA keys of at least 3072 bits (2048 as an absolute minimum) or ECDSA P-256.',
+  'static-iv': 'Generate a fresh IV/nonce per message from the TRNG/CSPRNG (or a never-repeating counter for CTR/GCM) and send it with the ciphertext.',
+  'rand-key': 'Derive keys from the hardware TRNG or a CSPRNG (e.g. CTR_DRBG seeded from the TRNG); never from rand()/random().',
+  'hardcoded-key': 'Provision per-device keys at end of line into the HSM/secure storage, or derive them from a per-device secret; never ship keys in the image.',
+};
+
+export function cryptoFindings(inventory: CryptoInventory, fileName: string, lines: string[] | null): VulnerabilityFinding[] {
+  return inventory.issues.map(issue => ({
+    cwe_id: CWE[issue.kind],
+    severity: issue.severity,
+    title: issue.title,
+    description: issue.description,
+    affected_component: fileName,
+    affected_function: issue.function,
+    code_snippet: issue.line !== null ? lines?.[issue.line - 1]?.trim() ?? null : null,
+    line_number: issue.line,
+    byte_offset: issue.offset,
+    byte_length: issue.length,
+    detection_method: 'static',
+    remediation: REMEDIATION[issue.kind],
+  }));
+}
+
+/** Persisted on scans.metadata.crypto. */
+export function summarizeCrypto(inventory: CryptoInventory) {
+  return {
+    algorithms: inventory.algorithms,
+    libraries: inventory.libraries,
+    issues: inventory.issues.map(i => ({ kind: i.kind, algorithm: i.algorithm, severity: i.severity, title: i.title, function: i.function, line: i.line, offset: i.offset })),
+  };
+}
+
+/** Compact text form for the LLM prompt. */
+export function describeCrypto(inventory: CryptoInventory): string {
+  const algorithms = inventory.algorithms.map(a => `${algorithmLabel(a)}${a.weak ? ' (weak)' : ''}`).join(', ') || 'none';
+  const libraries = inventory.libraries.map(l => `${l.name}${l.version ? ` ${l.version}` : ''}`).join(', ');
+  return `algorithms: ${algorithms}${libraries ? `; libraries: ${libraries}` : ''}; misuse: ${inventory.issues.map(i => i.title).join(', ') || 'none found'}`;
+}
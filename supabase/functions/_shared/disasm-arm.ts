@@ -0,0 +1,226 @@
+// ARM decoders for function recovery: Thumb/Thumb-2 (Cortex-M/R) and A32.
+// Control flow, stack frame setup and PC-relative loads are decoded exactly;
+// other instructions only get a coarse mnemonic and their length.
+
+import type { CodeReader, Instruction } from "./disassembly.ts";
+
+const REGISTERS = ['r0', 'r1', 'r2', 'r3', 'r4', 'r5', 'r6', 'r7', 'r8', 'r9', 'r10', 'r11', 'r12', 'sp', 'lr', 'pc'];
+const CONDITIONS = ['eq', 'ne', 'cs', 'cc', 'mi', 'pl', 'vs', 'vc', 'hi', 'ls', 'ge', 'lt', 'gt', 'le', '', ''];
+const DATA_PROCESSING_16 = ['ands', 'eors', 'lsls', 'lsrs', 'asrs', 'adcs', 'sbcs', 'rors', 'tst', 'rsbs', 'cmp', 'cmn', 'orrs', 'muls', 'bics', 'mvns'];
+
+function signExtend(value: number, bits: number): number {
+  const shift = 32 - bits;
+  return (value << shift) >> shift;
+}
+
+function hex(value: number): string {
+  return `0x${(value >>> 0).toString(16)}`;
+}
+
+function registerList(mask: number, extra?: string): string {
+  const regs = REGISTERS.filter((_, i) => mask & (1 << i));
+  if (extra) regs.push(extra);
+  return `{${regs.join(', ')}}`;
+}
+
+function instruction(address: number, size: number, mnemonic: string, operands = '', extra: Partial<Instruction> = {}): Instruction {
+  return { address, size, mnemonic, operands, flow: 'none', target: null, dataRef: null, prologue: false, ...extra };
+}
+
+/** Word-aligned PC as seen by a Thumb literal load. */
+function thumbLiteralBase(address: number): number {
+  return (address + 4) & ~3;
+}
+
+function decodeThumb16(address: number, hw: number): Instruction {
+  const pc = address + 4;
+
+  if ((hw & 0xfe00) === 0xb400) {
+    const lr = (hw & 0x100) !== 0;
+    return instruction(address, 2, 'push', registerList(hw & 0xff, lr ? 'lr' : undefined), { prologue: lr });
+  }
+  if ((hw & 0xfe00) === 0xbc00) {
+    const returns = (hw & 0x100) !== 0;
+    return instruction(address, 2, 'pop', registerList(hw & 0xff, returns ? 'pc' : undefined), { flow: returns ? 'return' : 'none' });
+  }
+  if ((hw & 0xff00) === 0x4700) {
+    const rm = (hw >> 3) & 0xf;
+    if (hw & 0x80) return instruction(address, 2, 'blx', REGISTERS[rm], { flow: 'indirect-call' });
+    return instruction(address, 2, 'bx', REGISTERS[rm], { flow: rm === 14 ? 'return' : 'indirect' });
+  }
+  if ((hw & 0xff87) === 0x4687) {
+    // mov pc, rm
+    const rm = (hw >> 3) & 0xf;
+    return instruction(address, 2, 'mov', `pc, ${REGISTERS[rm]}`, { flow: rm === 14 ? 'return' : 'indirect' });
+  }
+  if ((hw & 0xf000) === 0xd000) {
+    const cond = (hw >> 8) & 0xf;
+    if (cond === 0xf) return instruction(address, 2, 'svc', `#${hw & 0xff}`);
+    if (cond === 0xe) return instruction(address, 2, 'udf', `#${hw & 0xff}`, { flow: 'invalid' });
+    const target = pc + signExtend((hw & 0xff) << 1, 9);
+    return instruction(address, 2, `b${CONDITIONS[cond]}`, hex(target), { flow: 'branch', target });
+  }
+  if ((hw & 0xf800) === 0xe000) {
+    const target = pc + signExtend((hw & 0x7ff) << 1, 12);
+    return instruction(address, 2, 'b', hex(target), { flow: 'jump', target });
+  }
+  if ((hw & 0xf500) === 0xb100) {
+    const target = pc + ((((hw >> 9) & 1) << 6) | (((hw >> 3) & 0x1f) << 1));
+    return instruction(address, 2, hw & 0x800 ? 'cbnz' : 'cbz', `${REGISTERS[hw & 7]}, ${hex(target)}`, { flow: 'branch', target });
+  }
+  if ((hw & 0xf800) === 0x4800) {
+    const dataRef = thumbLiteralBase(address) + (hw & 0xff) * 4;
+    return instruction(address, 2, 'ldr', `${REGISTERS[(hw >> 8) & 7]}, [pc, #${(hw & 0xff) * 4}]`, { dataRef });
+  }
+  if ((hw & 0xf800) === 0xa000) {
+    const dataRef = thumbLiteralBase(address) + (hw & 0xff) * 4;
+    return instruction(address, 2, 'adr', `${REGISTERS[(hw >> 8) & 7]}, ${hex(dataRef)}`, { dataRef });
+  }
+  if (hw === 0xbf00) return instruction(address, 2, 'nop');
+  if ((hw & 0xff00) === 0xbf00) return instruction(address, 2, 'it', hex(hw & 0xff));
+  if ((hw & 0xff00) === 0xbe00) return instruction(address, 2, 'bkpt', `#${hw & 0xff}`);
+  if ((hw & 0xff80) === 0xb000) return instruction(address, 2, 'add', `sp, #${(hw & 0x7f) * 4}`);
+  if ((hw & 0xff80) === 0xb080) return instruction(address, 2, 'sub', `sp, #${(hw & 0x7f) * 4}`);
+  if ((hw & 0xfc00) === 0x4000) {
+    return instruction(address, 2, DATA_PROCESSING_16[(hw >> 6) & 0xf], `${REGISTERS[hw & 7]}, ${REGISTERS[(hw >> 3) & 7]}`);
+  }
+  if ((hw & 0xe000) === 0x2000) {
+    const op = ['movs', 'cmp', 'adds', 'subs'][(hw >> 11) & 3];
+    return instruction(address, 2, op, `${REGISTERS[(hw >> 8) & 7]}, #${hw & 0xff}`);
+  }
+  if ((hw & 0xe000) === 0x0000) {
+    const op = (hw >> 11) & 3;
+    if (op === 3) return instruction(address, 2, hw & 0x200 ? 'subs' : 'adds', `${REGISTERS[hw & 7]}, ${REGISTERS[(hw >> 3) & 7]}`);
+    return instruction(address, 2, ['lsls', 'lsrs', 'asrs'][op], `${REGISTERS[hw & 7]}, ${REGISTERS[(hw >> 3) & 7]}, #${(hw >> 6) & 0x1f}`);
+  }
+  if ((hw & 0xf000) === 0x5000 || (hw & 0xe000) === 0x6000 || (hw & 0xf000) === 0x8000 || (hw & 0xf000) === 0x9000) {
+    return instruction(address, 2, hw & 0x800 ? 'ldr' : 'str', `${REGISTERS[hw & 7]}, [...]`);
+  }
+  if ((hw & 0xf000) === 0xc000) {
+    return instruction(address, 2, hw & 0x800 ? 'ldmia' : 'stmia', `${REGISTERS[(hw >> 8) & 7]}!, ${registerList(hw & 0xff)}`);
+  }
+  return instruction(address, 2, '.inst', hex(hw));
+}
+
+function decodeThumb32(address: number, hw1: number, hw2: number): Instruction {
+  const pc = address + 4;
+
+  if ((hw1 & 0xf800) === 0xf000 && (hw2 & 0x8000) === 0x8000) {
+    const s = (hw1 >> 10) & 1;
+    const j1 = (hw2 >> 13) & 1;
+    const j2 = (hw2 >> 11) & 1;
+
+    // BL / BLX / B.W share the T4 offset encoding
+    if ((hw2 & 0x5000) !== 0) {
+      const i1 = 1 - (j1 ^ s);
+      const i2 = 1 - (j2 ^ s);
+      const offset = signExtend((s << 24) | (i1 << 23) | (i2 << 22) | ((hw1 & 0x3ff) << 12) | ((hw2 & 0x7ff) << 1), 25);
+      if ((hw2 & 0xd000) === 0xd000) return instruction(address, 4, 'bl', hex(pc + offset), { flow: 'call', target: pc + offset });
+      if ((hw2 & 0xd000) === 0xc000) {
+        const target = (pc + offset) & ~3;
+        return instruction(address, 4, 'blx', hex(target), { flow: 'call', target });
+      }
+      return instruction(address, 4, 'b.w', hex(pc + offset), { flow: 'jump', target: pc + offset });
+    }
+
+    // B<cond>.W (T3); cond 0b111x is the misc-control space (msr, mrs, barriers)
+    const cond = (hw1 >> 6) & 0xf;
+    if ((hw2 & 0xd000) === 0x8000 && cond < 0xe) {
+      const offset = signExtend((s << 20) | (j2 << 19) | (j1 << 18) | ((hw1 & 0x3f) << 12) | ((hw2 & 0x7ff) << 1), 21);
+      return instruction(address, 4, `b${CONDITIONS[cond]}.w`, hex(pc + offset), { flow: 'branch', target: pc + offset });
+    }
+    return instruction(address, 4, '.inst.w', hex((hw1 << 16) | hw2));
+  }
+
+  if (hw1 === 0xe92d) {
+    return instruction(address, 4, 'push.w', registerList(hw2 & 0x5fff), { prologue: (hw2 & 0x4000) !== 0 });
+  }
+  if (hw1 === 0xe8bd) {
+    const returns = (hw2 & 0x8000) !== 0;
+    return instruction(address, 4, 'pop.w', registerList(hw2), { flow: returns ? 'return' : 'none' });
+  }
+  if (hw1 === 0xf85d && hw2 === 0xfb04) {
+    return instruction(address, 4, 'ldr.w', 'pc, [sp], #4', { flow: 'return' });
+  }
+  if ((hw1 & 0xff7f) === 0xf85f) {
+    const imm12 = hw2 & 0xfff;
+    const dataRef = thumbLiteralBase(address) + (hw1 & 0x80 ? imm12 : -imm12);
+    const rt = hw2 >> 12;
+    return instruction(address, 4, 'ldr.w', `${REGISTERS[rt]}, ${hex(dataRef)}`, { dataRef, flow: rt === 15 ? 'indirect' : 'none' });
+  }
+  if ((hw1 & 0xfff0) === 0xe8d0 && (hw2 & 0xffe0) === 0xf000) {
+    return instruction(address, 4, hw2 & 0x10 ? 'tbh' : 'tbb', `[${REGISTERS[hw1 & 0xf]}, ${REGISTERS[hw2 & 0xf]}]`, { flow: 'indirect' });
+  }
+  if ((hw1 & 0xfe00) === 0xf800) {
+    return instruction(address, 4, hw1 & 0x10 ? 'ldr.w' : 'str.w', `${REGISTERS[hw2 >> 12]}, [...]`);
+  }
+  return instruction(address, 4, '.inst.w', hex((hw1 << 16) | hw2));
+}
+
+export function decodeThumb(reader: CodeReader, address: number): Instruction | null {
+  const hw1 = reader.u16(address);
+  if (hw1 === null) return null;
+  if (hw1 === 0xffff) return instruction(address, 2, '.erased', '', { flow: 'invalid' });
+
+  // 0b11101, 0b11110 and 0b11111 prefixes introduce a 32-bit encoding
+  if (hw1 >>> 11 >= 0x1d) {
+    const hw2 = reader.u16(address + 2);
+    if (hw2 === null) return null;
+    return decodeThumb32(address, hw1, hw2);
+  }
+  return decodeThumb16(address, hw1);
+}
+
+export function decodeArm(reader: CodeReader, address: number): Instruction | null {
+  const word = reader.u32(address);
+  if (word === null) return null;
+  if (word === 0xffffffff) return instruction(address, 4, '.erased', '', { flow: 'invalid' });
+
+  const cond = word >>> 28;
+  const pc = address + 8;
+  const suffix = CONDITIONS[cond];
+
+  if (cond === 0xf) {
+    if ((word & 0x0e000000) === 0x0a000000) {
+      // Switches to Thumb; the H bit supplies the halfword offset
+      const target = pc + signExtend((word & 0xffffff) << 2, 26) + ((word >> 23) & 2);
+      return instruction(address, 4, 'blx', hex(target), { flow: 'call', target });
+    }
+    return instruction(address, 4, '.inst', hex(word));
+  }
+  if ((word & 0x0e000000) === 0x0a000000) {
+    const target = pc + signExtend((word & 0xffffff) << 2, 26);
+    const link = (word & 0x01000000) !== 0;
+    const flow = link ? 'call' : cond === 0xe ? 'jump' : 'branch';
+    return instruction(address, 4, `${link ? 'bl' : 'b'}${suffix}`, hex(target), { flow, target });
+  }
+  if ((word & 0x0ffffff0) === 0x012fff10) {
+    const rm = word & 0xf;
+    return instruction(address, 4, `bx${suffix}`, REGISTERS[rm], {
+      flow: rm === 14 ? (cond === 0xe ? 'return' : 'none') : cond === 0xe ? 'indirect' : 'none',
+    });
+  }
+  if ((word & 0x0ffffff0) === 0x012fff30) {
+    return instruction(address, 4, `blx${suffix}`, REGISTERS[word & 0xf], { flow: 'indirect-call' });
+  }
+  if ((word & 0x0fff0000) === 0x092d0000) {
+    return instruction(address, 4, `push${suffix}`, registerList(word & 0xffff), { prologue: (word & 0x4000) !== 0 });
+  }
+  if ((word & 0x0fff0000) === 0x08bd0000) {
+    const returns = (word & 0x8000) !== 0 && cond === 0xe;
+    return instruction(address, 4, `pop${suffix}`, registerList(word & 0xffff), { flow: returns ? 'return' : 'none' });
+  }
+  if ((word & 0x0f7f0000) === 0x051f0000) {
+    const imm12 = word & 0xfff;
+    const dataRef = pc + (word & 0x00800000 ? imm12 : -imm12);
+    const rt = (word >> 12) & 0xf;
+    return instruction(address, 4, `ldr${suffix}`, `${REGISTERS[rt]}, ${hex(dataRef)}`, {
+      dataRef,
+      flow: rt === 15 && cond === 0xe ? 'indirect' : 'none',
+    });
+  }
+  if ((word & 0x0fffffff) === 0x01a0f00e && cond === 0xe) {
+    return instruction(address, 4, 'mov', 'pc, lr', { flow: 'return' });
+  }
+  return instruction(address, 4, `.inst${suffix}`, hex(word));
+}
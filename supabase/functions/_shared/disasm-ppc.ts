@@ -0,0 +1,146 @@
+// PowerPC decoders for function recovery: VLE (MPC55xx/56xx/57xx, SPC5) and
+// classic Book E. As with the ARM decoders, branches, calls, returns and the
+// stack frame prologue are exact; everything else is sized but not named.
+
+import type { CodeReader, Instruction } from "./disassembly.ts";
+
+function signExtend(value: number, bits: number): number {
+  const shift = 32 - bits;
+  return (value << shift) >> shift;
+}
+
+function hex(value: number): string {
+  return `0x${(value >>> 0).toString(16)}`;
+}
+
+function instruction(address: number, size: number, mnemonic: string, operands = '', extra: Partial<Instruction> = {}): Instruction {
+  return { address, size, mnemonic, operands, flow: 'none', target: null, dataRef: null, prologue: false, ...extra };
+}
+
+// 16-bit VLE register fields address r0-r7 and r24-r31
+function vleRegister(field: number): string {
+  return `r${field < 8 ? field : field + 16}`;
+}
+
+const VLE_SYSTEM: Record<number, [string, Instruction['flow']]> = {
+  0x0000: ['se_illegal', 'invalid'],
+  0x0001: ['se_isync', 'none'],
+  0x0002: ['se_sc', 'none'],
+  0x0004: ['se_blr', 'return'],
+  0x0005: ['se_blrl', 'indirect-call'],
+  0x0006: ['se_bctr', 'indirect'],
+  0x0007: ['se_bctrl', 'indirect-call'],
+  0x0008: ['se_rfi', 'return'],
+  0x0009: ['se_rfci', 'return'],
+  0x000a: ['se_rfdi', 'return'],
+  0x000b: ['se_rfmci', 'return'],
+};
+
+const VLE_SPR_MOVES: Record<number, string> = { 0x0080: 'se_mflr', 0x0090: 'se_mtlr', 0x00a0: 'se_mfctr', 0x00b0: 'se_mtctr' };
+
+/** Primary-opcode-31 instructions shared by VLE and Book E code. */
+function decodeOpcode31(address: number, word: number): Instruction | null {
+  if ((word & 0xfc1fffff) >>> 0 === 0x7c0802a6) return instruction(address, 4, 'mflr', `r${(word >> 21) & 31}`);
+  if ((word & 0xfc1fffff) >>> 0 === 0x7c0803a6) return instruction(address, 4, 'mtlr', `r${(word >> 21) & 31}`);
+  if ((word & 0xfc1fffff) >>> 0 === 0x7c0903a6) return instruction(address, 4, 'mtctr', `r${(word >> 21) & 31}`);
+  return null;
+}
+
+export function decodeVle(reader: CodeReader, address: number): Instruction | null {
+  const hw = reader.u16(address);
+  if (hw === null) return null;
+
+  // Bit 3 of the primary opcode selects a 32-bit encoding
+  if ((hw >> 12) & 1) {
+    const low = reader.u16(address + 2);
+    if (low === null) return null;
+    const word = ((hw << 16) | low) >>> 0;
+    if (word === 0xffffffff) return instruction(address, 4, '.erased', '', { flow: 'invalid' });
+
+    if ((word & 0xfe000000) >>> 0 === 0x78000000) {
+      const target = address + signExtend(word & 0x01fffffe, 25);
+      const link = (word & 1) === 1;
+      return instruction(address, 4, link ? 'e_bl' : 'e_b', hex(target), { flow: link ? 'call' : 'jump', target });
+    }
+    if ((word & 0xffc00000) >>> 0 === 0x7a000000) {
+      const target = address + signExtend(word & 0xfffe, 16);
+      const link = (word & 1) === 1;
+      return instruction(address, 4, link ? 'e_bcl' : 'e_bc', `${(word >> 20) & 3}, ${(word >> 16) & 31}, ${hex(target)}`, {
+        flow: link ? 'call' : 'branch',
+        target,
+      });
+    }
+    if ((word & 0xffffff00) >>> 0 === 0x18210600) {
+      return instruction(address, 4, 'e_stwu', `r1, ${signExtend(word & 0xff, 8)}(r1)`, { prologue: true });
+    }
+    if (hw >>> 10 === 31) {
+      const known = decodeOpcode31(address, word);
+      if (known) return known;
+    }
+    return instruction(address, 4, '.long', hex(word));
+  }
+
+  if (hw === 0xffff) return instruction(address, 2, '.erased', '', { flow: 'invalid' });
+  const system = VLE_SYSTEM[hw];
+  if (system) return instruction(address, 2, system[0], '', { flow: system[1] });
+
+  const move = VLE_SPR_MOVES[hw & 0xfff0];
+  if (move) return instruction(address, 2, move, vleRegister(hw & 0xf));
+
+  if ((hw & 0xfe00) === 0xe800) {
+    const target = address + signExtend((hw & 0xff) << 1, 9);
+    const link = (hw & 0x100) !== 0;
+    return instruction(address, 2, link ? 'se_bl' : 'se_b', hex(target), { flow: link ? 'call' : 'jump', target });
+  }
+  if ((hw & 0xf800) === 0xe000) {
+    const target = address + signExtend((hw & 0xff) << 1, 9);
+    return instruction(address, 2, 'se_bc', `${(hw >> 10) & 1}, ${(hw >> 8) & 3}, ${hex(target)}`, { flow: 'branch', target });
+  }
+  return instruction(address, 2, '.short', hex(hw));
+}
+
+export function decodeBookE(reader: CodeReader, address: number): Instruction | null {
+  const word = reader.u32(address);
+  if (word === null) return null;
+  if (word === 0xffffffff || word === 0) return instruction(address, 4, '.erased', '', { flow: 'invalid' });
+
+  const opcode = word >>> 26;
+  const link = (word & 1) === 1;
+  const absolute = (word & 2) === 2;
+
+  if (opcode === 18) {
+    const displacement = signExtend(word & 0x03fffffc, 26);
+    const target = absolute ? displacement >>> 0 : address + displacement;
+    return instruction(address, 4, `b${link ? 'l' : ''}${absolute ? 'a' : ''}`, hex(target), { flow: link ? 'call' : 'jump', target });
+  }
+  if (opcode === 16) {
+    const bo = (word >> 21) & 31;
+    const displacement = signExtend(word & 0xfffc, 16);
+    const target = absolute ? displacement >>> 0 : address + displacement;
+    const always = (bo & 0x14) === 0x14;
+    const flow = link ? 'call' : always ? 'jump' : 'branch';
+    return instruction(address, 4, `bc${link ? 'l' : ''}`, `${bo}, ${(word >> 16) & 31}, ${hex(target)}`, { flow, target });
+  }
+  if (opcode === 19) {
+    const xo = (word >> 1) & 0x3ff;
+    const always = (((word >> 21) & 31) & 0x14) === 0x14;
+    if (xo === 16) {
+      if (link) return instruction(address, 4, 'blrl', '', { flow: 'indirect-call' });
+      return instruction(address, 4, always ? 'blr' : 'bclr', '', { flow: always ? 'return' : 'none' });
+    }
+    if (xo === 528) {
+      if (link) return instruction(address, 4, 'bctrl', '', { flow: 'indirect-call' });
+      return instruction(address, 4, always ? 'bctr' : 'bcctr', '', { flow: always ? 'indirect' : 'none' });
+    }
+    if (xo === 50 || xo === 51 || xo === 38) return instruction(address, 4, 'rfi', '', { flow: 'return' });
+  }
+  if (opcode === 37 && ((word >> 16) & 0x3ff) === 0x21 && (word & 0x8000)) {
+    // stwu r1, -N(r1)
+    return instruction(address, 4, 'stwu', `r1, ${signExtend(word & 0xffff, 16)}(r1)`, { prologue: true });
+  }
+  if (opcode === 31) {
+    const known = decodeOpcode31(address, word);
+    if (known) return known;
+  }
+  return instruction(address, 4, '.long', hex(word));
+}
@@ -0,0 +1,398 @@
+// Function recovery for raw and container firmware. Functions are seeded from
+// ELF symbols, the entry point, the reset vector table and stack-frame
+// prologues, then traversed recursively to find their extent, the call graph
+// and cross-references into code and data.
+
+import type { ArchitectureDetection } from "./architecture.ts";
+import { decodeArm, decodeThumb } from "./disasm-arm.ts";
+import { decodeBookE, decodeVle } from "./disasm-ppc.ts";
+import type { FirmwareImage } from "./firmware-image.ts";
+
+export type InstructionFlow = 'none' | 'call' | 'indirect-call' | 'jump' | 'branch' | 'return' | 'indirect' | 'invalid';
+
+export interface Instruction {
+  address: number;
+  size: number;
+  mnemonic: string;
+  operands: string;
+  flow: InstructionFlow;
+  /** Destination of a direct branch or call. */
+  target: number | null;
+  /** Address read by a PC-relative load (literal pool entry). */
+  dataRef: number | null;
+  /** Sets up a stack frame that saves the return address. */
+  prologue: boolean;
+}
+
+export interface CodeReader {
+  u16(address: number): number | null;
+  u32(address: number): number | null;
+}
+
+export type DisassemblyMode = 'thumb' | 'arm' | 'vle' | 'booke';
+export type FunctionSource = 'symbol' | 'entry' | 'vector' | 'call' | 'prologue';
+
+export interface RecoveredFunction {
+  address: number;
+  name: string;
+  size: number;
+  instructionCount: number;
+  source: FunctionSource;
+  calls: number[];
+  calledBy: number[];
+}
+
+export interface CrossReference {
+  from: number;
+  to: number;
+  /** call/jump into another function, data = literal pool read, pointer = address held in that literal. */
+  kind: 'call' | 'jump' | 'data' | 'pointer';
+  /** Start address of the function containing `from`. */
+  fromFunction: number;
+}
+
+export interface DisassemblyResult {
+  mode: DisassemblyMode;
+  functions: RecoveredFunction[];
+  xrefs: CrossReference[];
+  instructionCount: number;
+  truncated: boolean;
+}
+
+type Decoder = (reader: CodeReader, address: number) => Instruction | null;
+
+const DECODERS: Record<DisassemblyMode, Decoder> = {
+  thumb: decodeThumb,
+  arm: decodeArm,
+  vle: decodeVle,
+  booke: decodeBookE,
+};
+
+const ALIGNMENT: Record<DisassemblyMode, number> = { thumb: 2, arm: 4, vle: 2, booke: 4 };
+
+// Cheap raw-byte checks run before a full decode during the prologue sweep
+const PROLOGUE_HINTS: Record<DisassemblyMode, (reader: CodeReader, address: number) => boolean> = {
+  thumb: (r, a) => {
+    const hw = r.u16(a);
+    return hw !== null && (((hw & 0xff00) === 0xb500) || hw === 0xe92d);
+  },
+  arm: (r, a) => {
+    const word = r.u32(a);
+    return word !== null && (word & 0x0fff4000) === 0x092d4000;
+  },
+  vle: (r, a) => r.u16(a) === 0x1821,
+  booke: (r, a) => r.u16(a) === 0x9421,
+};
+
+const MAX_FUNCTION_INSTRUCTIONS = 20000;
+const MAX_TOTAL_INSTRUCTIONS = 1_500_000;
+const MAX_XREFS = 50000;
+const MAX_VECTORS = 256;
+const BOUNDARY_FLOWS = new Set<InstructionFlow>(['return', 'jump', 'indirect', 'invalid']);
+
+class ImageReader implements CodeReader {
+  private segments: FirmwareImage['segments'];
+  private last: FirmwareImage['segments'][number] | null = null;
+
+  constructor(private image: FirmwareImage, private little: boolean) {
+    this.segments = [...image.segments].filter(s => s.size > 0).sort((a, b) => a.address - b.address);
+  }
+
+  private offsetOf(address: number, length: number): number | null {
+    const hit = (s: FirmwareImage['segments'][number]) => address >= s.address && address + length <= s.address + s.size;
+    if (this.last && hit(this.last)) return this.last.offset + (address - this.last.address);
+
+    let lo = 0;
+    let hi = this.segments.length - 1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      const segment = this.segments[mid];
+      if (address < segment.address) hi = mid - 1;
+      else if (address >= segment.address + segment.size) lo = mid + 1;
+      else {
+        if (!hit(segment)) return null;
+        this.last = segment;
+        return segment.offset + (address - segment.address);
+      }
+    }
+    return null;
+  }
+
+  contains(address: number): boolean {
+    return this.offsetOf(address, 1) !== null;
+  }
+
+  u16(address: number): number | null {
+    const offset = this.offsetOf(address, 2);
+    if (offset === null) return null;
+    const d = this.image.data;
+    return this.little ? d[offset] | (d[offset + 1] << 8) : (d[offset] << 8) | d[offset + 1];
+  }
+
+  u32(address: number): number | null {
+    const offset = this.offsetOf(address, 4);
+    if (offset === null) return null;
+    const d = this.image.data;
+    return this.little
+      ? (d[offset] | (d[offset + 1] << 8) | (d[offset + 2] << 16) | (d[offset + 3] << 24)) >>> 0
+      : ((d[offset] << 24) | (d[offset + 1] << 16) | (d[offset + 2] << 8) | d[offset + 3]) >>> 0;
+  }
+}
+
+export function selectDisassemblyMode(image: FirmwareImage, detection: ArchitectureDetection | null): DisassemblyMode | null {
+  switch (detection?.architecture) {
+    case 'ARM':
+      if (image.elf?.elfClass === 'ELF64') return null;
+      if (detection.variant === 'A32' && (image.entryPoint === null || image.entryPoint % 2 === 0)) return 'arm';
+      return 'thumb';
+    case 'PowerPC':
+      return detection.variant === 'VLE' ? 'vle' : 'booke';
+    default:
+      return null;
+  }
+}
+
+function vectorTableHandlers(image: FirmwareImage, reader: ImageReader): number[] {
+  for (const segment of image.segments) {
+    const sp = reader.u32(segment.address);
+    if (sp === null || sp < 0x1fff0000 || sp > 0x20100000) continue;
+
+    const handlers: number[] = [];
+    for (let i = 1; i < MAX_VECTORS; i++) {
+      const vector = reader.u32(segment.address + i * 4);
+      if (vector === null) break;
+      if (vector === 0) continue;
+      if ((vector & 1) === 0 || !reader.contains(vector & ~1)) break;
+      handlers.push(vector & ~1);
+    }
+    if (handlers.length >= 4) return handlers;
+  }
+  return [];
+}
+
+/** Boot vector from an MPC5xxx reset configuration half word at a boot sector start. */
+function ppcBootVectors(image: FirmwareImage, reader: ImageReader): number[] {
+  const vectors: number[] = [];
+  for (const segment of image.segments) {
+    for (let offset = 0; offset + 8 <= segment.size && offset < 0x40000; offset += 0x4000) {
+      const rchw = reader.u16(segment.address + offset);
+      if (rchw === null || (rchw & 0xfeff) !== 0x005a) continue;
+      const entry = reader.u32(segment.address + offset + 4);
+      if (entry !== null && reader.contains(entry)) vectors.push(entry);
+    }
+  }
+  return vectors;
+}
+
+function codeSegments(image: FirmwareImage): FirmwareImage['segments'] {
+  if (!image.elf) return image.segments;
+  const executable = new Set(image.elf.sections.filter(s => s.flags.includes('X')).map(s => s.name));
+  return image.segments.filter(s => s.name && executable.has(s.name));
+}
+
+/** A prologue only starts a function if the code before it ends one (or it is padding). */
+function followsBoundary(reader: ImageReader, decode: Decoder, mode: DisassemblyMode, address: number): boolean {
+  if (!reader.contains(address - 1)) return true;
+  const sizes = mode === 'thumb' || mode === 'vle' ? [2, 4] : [4];
+  return sizes.some(size => {
+    const previous = decode(reader, address - size);
+    if (!previous || previous.size !== size) return false;
+    return BOUNDARY_FLOWS.has(previous.flow) || previous.mnemonic === 'nop' || reader.u16(address - 2) === 0;
+  });
+}
+
+const isLittleEndian = (mode: DisassemblyMode, detection: ArchitectureDetection | null) =>
+  mode === 'thumb' || mode === 'arm' ? detection?.endianness !== 'big' : false;
+
+export function disassemble(image: FirmwareImage, detection: ArchitectureDetection | null): DisassemblyResult | null {
+  const mode = selectDisassemblyMode(image, detection);
+  if (!mode) return null;
+
+  const reader = new ImageReader(image, isLittleEndian(mode, detection));
+  const decode = DECODERS[mode];
+  const align = ALIGNMENT[mode];
+  const thumbBit = (address: number) => (mode === 'thumb' ? address & ~1 : address);
+
+  const seeds = new Map<number, { source: FunctionSource; name?: string; size?: number }>();
+  const addSeed = (address: number, source: FunctionSource, name?: string, size?: number) => {
+    const existing = seeds.get(address);
+    if (existing && (existing.name || !name)) return;
+    if (address % align !== 0 || !reader.contains(address)) return;
+    seeds.set(address, { source: existing?.source ?? source, name, size });
+  };
+
+  for (const symbol of image.elf?.symbols ?? []) {
+    if (symbol.type === 'FUNC' && symbol.value !== 0) addSeed(thumbBit(symbol.value), 'symbol', symbol.name || undefined, symbol.size || undefined);
+  }
+  if (image.entryPoint !== null) addSeed(thumbBit(image.entryPoint), 'entry');
+  if (mode === 'thumb') vectorTableHandlers(image, reader).forEach(address => addSeed(address, 'vector'));
+  if (mode === 'vle' || mode === 'booke') ppcBootVectors(image, reader).forEach(address => addSeed(address, 'entry'));
+
+  for (const segment of codeSegments(image)) {
+    const start = segment.address + ((align - (segment.address % align)) % align);
+    for (let address = start; address + align <= segment.address + segment.size; address += align) {
+      if (!PROLOGUE_HINTS[mode](reader, address)) continue;
+      if (decode(reader, address)?.prologue && followsBoundary(reader, decode, mode, address)) addSeed(address, 'prologue');
+    }
+  }
+
+  const starts = new Set(seeds.keys());
+  const queue = [...starts].sort((a, b) => a - b);
+  const functions = new Map<number, RecoveredFunction>();
+  const xrefs = new Map<string, CrossReference>();
+  let instructionCount = 0;
+  // The instruction budget stops recovery; the xref cap only stops recording xrefs
+  let instructionsExhausted = false;
+  let xrefsCapped = false;
+
+  const addXref = (xref: CrossReference) => {
+    if (xrefs.size >= MAX_XREFS) {
+      xrefsCapped = true;
+      return;
+    }
+    xrefs.set(`${xref.from}|${xref.to}|${xref.kind}`, xref);
+  };
+
+  while (queue.length > 0 && !instructionsExhausted) {
+    const start = queue.shift()!;
+    const seed = seeds.get(start)!;
+    const visited = new Set<number>();
+    const blocks = [start];
+    const calls = new Set<number>();
+    let end = start + align;
+
+    while (blocks.length > 0 && visited.size < MAX_FUNCTION_INSTRUCTIONS) {
+      let pc = blocks.pop()!;
+      while (!visited.has(pc) && (pc === start || !starts.has(pc))) {
+        if (instructionCount >= MAX_TOTAL_INSTRUCTIONS) {
+          instructionsExhausted = true;
+          break;
+        }
+        const ins = decode(reader, pc);
+        if (!ins || ins.flow === 'invalid') break;
+        visited.add(pc);
+        instructionCount++;
+        end = Math.max(end, pc + ins.size);
+
+        if (ins.dataRef !== null && reader.contains(ins.dataRef)) {
+          addXref({ from: pc, to: ins.dataRef, kind: 'data', fromFunction: start });
+          const pointer = mode === 'thumb' || mode === 'arm' ? reader.u32(ins.dataRef) : null;
+          if (pointer !== null && ins.mnemonic.startsWith('ldr') && reader.contains(thumbBit(pointer))) {
+            addXref({ from: pc, to: thumbBit(pointer), kind: 'pointer', fromFunction: start });
+          }
+        }
+
+        const target = ins.target !== null && reader.contains(ins.target) ? ins.target : null;
+        if (ins.flow === 'call' && target !== null) {
+          addXref({ from: pc, to: target, kind: 'call', fromFunction: start });
+          calls.add(target);
+          if (!starts.has(target)) {
+            starts.add(target);
+            seeds.set(target, { source: 'call' });
+            queue.push(target);
+          }
+        } else if ((ins.flow === 'jump' || ins.flow === 'branch') && target !== null) {
+          // A branch to another function's entry is a tail call
+          if (starts.has(target) && target !== start) addXref({ from: pc, to: target, kind: 'jump', fromFunction: start });
+          else blocks.push(target);
+        }
+
+        if (ins.flow === 'jump' || ins.flow === 'return' || ins.flow === 'indirect') break;
+        pc += ins.size;
+      }
+    }
+
+    functions.set(start, {
+      address: start,
+      name: seed.name ?? `sub_${start.toString(16).padStart(8, '0')}`,
+      size: seed.size ?? end - start,
+      instructionCount: visited.size,
+      source: seed.source,
+      calls: [...calls].sort((a, b) => a - b),
+      calledBy: [],
+    });
+  }
+
+  for (const xref of xrefs.values()) {
+    if (xref.kind !== 'call') continue;
+    const callee = functions.get(xref.to);
+    if (callee && !callee.calledBy.includes(xref.fromFunction)) callee.calledBy.push(xref.fromFunction);
+  }
+
+  return {
+    mode,
+    functions: [...functions.values()].sort((a, b) => a.address - b.address),
+    xrefs: [...xrefs.values()],
+    instructionCount,
+    truncated: instructionsExhausted || xrefsCapped,
+  };
+}
+
+/** Reads the image with the byte order the disassembly was decoded in; null outside the image. */
+export function codeReader(image: FirmwareImage, mode: DisassemblyMode, detection: ArchitectureDetection | null): CodeReader {
+  return new ImageReader(image, isLittleEndian(mode, detection));
+}
+
+/** Instructions of a recovered function, decoded linearly over its extent. */
+export function functionInstructions(reader: CodeReader, mode: DisassemblyMode, fn: RecoveredFunction): Instruction[] {
+  const decode = DECODERS[mode];
+  const instructions: Instruction[] = [];
+  for (let pc = fn.address; pc < fn.address + fn.size && instructions.length < MAX_FUNCTION_INSTRUCTIONS;) {
+    const ins = decode(reader, pc);
+    if (!ins) break;
+    instructions.push(ins);
+    pc += ins.size;
+  }
+  return instructions;
+}
+
+/** The recovered function whose body covers `address`, if any. */
+export function functionContaining(result: DisassemblyResult, address: number): RecoveredFunction | null {
+  let lo = 0;
+  let hi = result.functions.length - 1;
+  let candidate: RecoveredFunction | null = null;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (result.functions[mid].address <= address) {
+      candidate = result.functions[mid];
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return candidate && address < candidate.address + Math.max(candidate.size, 1) ? candidate : null;
+}
+
+/** Functions that load the address of (or a literal inside) [address, address + length). */
+export function functionsReferencing(result: DisassemblyResult, address: number, length: number): RecoveredFunction[] {
+  const starts = new Set<number>();
+  for (const xref of result.xrefs) {
+    if ((xref.kind === 'data' || xref.kind === 'pointer') && xref.to >= address && xref.to < address + Math.max(length, 1)) {
+      starts.add(xref.fromFunction);
+    }
+  }
+  return result.functions.filter(f => starts.has(f.address));
+}
+
+/** Persisted on scans.metadata.disassembly - the full tables live in scan_functions / scan_xrefs. */
+export function summarizeDisassembly(result: DisassemblyResult) {
+  const bySource: Record<string, number> = {};
+  for (const f of result.functions) bySource[f.source] = (bySource[f.source] ?? 0) + 1;
+  const count = (kind: CrossReference['kind']) => result.xrefs.filter(x => x.kind === kind).length;
+
+  return {
+    mode: result.mode,
+    functionCount: result.functions.length,
+    instructionCount: result.instructionCount,
+    callEdges: count('call'),
+    tailCalls: count('jump'),
+    dataRefs: count('data') + count('pointer'),
+    bySource,
+    mostCalled: [...result.functions]
+      .sort((a, b) => b.calledBy.length - a.calledBy.length)
+      .slice(0, 10)
+      .filter(f => f.calledBy.length > 0)
+      .map(f => ({ address: f.address, name: f.name, callers: f.calledBy.length })),
+    truncated: result.truncated,
+  };
+}
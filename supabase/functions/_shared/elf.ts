@@ -0,0 +1,446 @@
+// ELF32/ELF64 parser for both byte orders. Only reads structures that are
+// needed by the analysis pipeline; relocations and DWARF are ignored.
+
+export interface ElfSection {
+  index: number;
+  name: string;
+  type: string;
+  flags: string;
+  address: number;
+  offset: number;
+  size: number;
+  align: number;
+  entrySize: number;
+  link: number;
+}
+
+export interface ElfProgramHeader {
+  type: string;
+  flags: string;
+  offset: number;
+  virtualAddress: number;
+  physicalAddress: number;
+  fileSize: number;
+  memorySize: number;
+  align: number;
+}
+
+export interface ElfSymbol {
+  name: string;
+  value: number;
+  size: number;
+  type: 'NOTYPE' | 'OBJECT' | 'FUNC' | 'SECTION' | 'FILE' | 'TLS' | 'OTHER';
+  bind: 'LOCAL' | 'GLOBAL' | 'WEAK' | 'OTHER';
+  sectionIndex: number;
+  dynamic: boolean;
+}
+
+export interface ElfSymbolSummary {
+  total: number;
+  functions: number;
+  globalVariables: number;
+  localSymbols: number;
+  undefinedSymbols: number;
+}
+
+export interface ElfInfo {
+  elfClass: 'ELF32' | 'ELF64';
+  endianness: 'little' | 'big';
+  fileType: string;
+  machine: string;
+  machineCode: number;
+  architecture: 'ARM' | 'PowerPC' | 'TriCore' | 'x86' | null;
+  entryPoint: number;
+  flags: number;
+  sections: ElfSection[];
+  programHeaders: ElfProgramHeader[];
+  symbols: ElfSymbol[];
+  symbolSummary: ElfSymbolSummary;
+  compilerStrings: string[];
+  compilerFlags: string | null;
+  buildId: string | null;
+  /** Dynamic objects only: symbols are resolved at load time, which full RELRO depends on. */
+  bindNow: boolean;
+}
+
+// What gets persisted on scans.metadata.elf - the full symbol table stays in memory.
+export type ElfSummary = Omit<ElfInfo, 'symbols'>;
+
+const MACHINES: Record<number, { name: string; architecture: ElfInfo['architecture'] }> = {
+  3: { name: 'Intel 80386', architecture: 'x86' },
+  8: { name: 'MIPS', architecture: null },
+  20: { name: 'PowerPC', architecture: 'PowerPC' },
+  21: { name: 'PowerPC64', architecture: 'PowerPC' },
+  40: { name: 'ARM', architecture: 'ARM' },
+  42: { name: 'SuperH', architecture: null },
+  44: { name: 'Infineon TriCore', architecture: 'TriCore' },
+  62: { name: 'x86-64', architecture: 'x86' },
+  83: { name: 'Atmel AVR', architecture: null },
+  87: { name: 'NEC/Renesas V850', architecture: null },
+  94: { name: 'Tensilica Xtensa', architecture: null },
+  183: { name: 'AArch64', architecture: 'ARM' },
+  243: { name: 'RISC-V', architecture: null },
+};
+
+const FILE_TYPES: Record<number, string> = { 0: 'NONE', 1: 'REL', 2: 'EXEC', 3: 'DYN', 4: 'CORE' };
+
+const SECTION_TYPES: Record<number, string> = {
+  0: 'NULL', 1: 'PROGBITS', 2: 'SYMTAB', 3: 'STRTAB', 4: 'RELA', 5: 'HASH', 6: 'DYNAMIC',
+  7: 'NOTE', 8: 'NOBITS', 9: 'REL', 10: 'SHLIB', 11: 'DYNSYM', 14: 'INIT_ARRAY',
+  15: 'FINI_ARRAY', 16: 'PREINIT_ARRAY', 17: 'GROUP', 18: 'SYMTAB_SHNDX',
+  0x6ffffff6: 'GNU_HASH', 0x6ffffffd: 'VERDEF', 0x6ffffffe: 'VERNEED', 0x6fffffff: 'VERSYM',
+  0x70000001: 'ARM_EXIDX', 0x70000003: 'ARM_ATTRIBUTES',
+};
+
+const SEGMENT_TYPES: Record<number, string> = {
+  0: 'NULL', 1: 'LOAD', 2: 'DYNAMIC', 3: 'INTERP', 4: 'NOTE', 5: 'SHLIB', 6: 'PHDR', 7: 'TLS',
+  0x6474e550: 'GNU_EH_FRAME', 0x6474e551: 'GNU_STACK', 0x6474e552: 'GNU_RELRO',
+  0x70000001: 'ARM_EXIDX',
+};
+
+const SECTION_FLAGS: [number, string][] = [
+  [0x1, 'W'], [0x2, 'A'], [0x4, 'X'], [0x10, 'M'], [0x20, 'S'],
+  [0x40, 'I'], [0x80, 'L'], [0x100, 'O'], [0x200, 'G'], [0x400, 'T'],
+];
+
+const SYMBOL_TYPES: ElfSymbol['type'][] = ['NOTYPE', 'OBJECT', 'FUNC', 'SECTION', 'FILE', 'OTHER', 'TLS'];
+const SYMBOL_BINDS: ElfSymbol['bind'][] = ['LOCAL', 'GLOBAL', 'WEAK'];
+
+const NT_GNU_BUILD_ID = 3;
+const DT_BIND_NOW = 24;
+const DT_FLAGS = 30;
+const DT_FLAGS_1 = 0x6ffffffb;
+const DF_BIND_NOW = 0x8;
+const DF_1_NOW = 0x1;
+const SHN_UNDEF = 0;
+const MAX_SECTIONS = 4096;
+const MAX_SYMBOLS = 200000;
+
+export function isElf(bytes: Uint8Array): boolean {
+  return bytes.length >= 16 &&
+    bytes[0] === 0x7f && bytes[1] === 0x45 && bytes[2] === 0x4c && bytes[3] === 0x46;
+}
+
+class ElfReader {
+  private view: DataView;
+
+  constructor(readonly bytes: Uint8Array, readonly is64: boolean, readonly little: boolean) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private check(offset: number, size: number) {
+    if (offset < 0 || offset + size > this.bytes.length) {
+      throw new Error(`ELF structure at 0x${offset.toString(16)} extends past end of file`);
+    }
+  }
+
+  u8(offset: number): number {
+    this.check(offset, 1);
+    return this.view.getUint8(offset);
+  }
+
+  u16(offset: number): number {
+    this.check(offset, 2);
+    return this.view.getUint16(offset, this.little);
+  }
+
+  u32(offset: number): number {
+    this.check(offset, 4);
+    return this.view.getUint32(offset, this.little);
+  }
+
+  u64(offset: number): number {
+    this.check(offset, 8);
+    return Number(this.view.getBigUint64(offset, this.little));
+  }
+
+  // Native word: 4 bytes on ELF32, 8 bytes on ELF64
+  word(offset: number): number {
+    return this.is64 ? this.u64(offset) : this.u32(offset);
+  }
+
+  cString(offset: number, limit = this.bytes.length): string {
+    let end = offset;
+    while (end < limit && this.bytes[end] !== 0) end++;
+    return new TextDecoder('latin1').decode(this.bytes.subarray(offset, end));
+  }
+}
+
+function describeFlags(value: number, table: [number, string][]): string {
+  return table.filter(([bit]) => (value & bit) !== 0).map(([, letter]) => letter).join('');
+}
+
+function describeSegmentFlags(value: number): string {
+  return `${value & 4 ? 'R' : '-'}${value & 2 ? 'W' : '-'}${value & 1 ? 'X' : '-'}`;
+}
+
+function sectionData(reader: ElfReader, section: ElfSection): Uint8Array {
+  if (section.type === 'NOBITS' || section.size === 0) return new Uint8Array(0);
+  if (section.offset + section.size > reader.bytes.length) {
+    throw new Error(`Section ${section.name || section.index} extends past end of file`);
+  }
+  return reader.bytes.subarray(section.offset, section.offset + section.size);
+}
+
+function readSections(reader: ElfReader, shoff: number, shentsize: number, shnum: number, shstrndx: number): ElfSection[] {
+  if (shoff === 0 || shnum === 0) return [];
+  if (shnum > MAX_SECTIONS) throw new Error(`Implausible section count: ${shnum}`);
+
+  const raw = [];
+  for (let i = 0; i < shnum; i++) {
+    const base = shoff + i * shentsize;
+    if (reader.is64) {
+      raw.push({
+        nameOffset: reader.u32(base),
+        type: reader.u32(base + 4),
+        flags: reader.u64(base + 8),
+        address: reader.u64(base + 16),
+        offset: reader.u64(base + 24),
+        size: reader.u64(base + 32),
+        link: reader.u32(base + 40),
+        align: reader.u64(base + 48),
+        entrySize: reader.u64(base + 56),
+      });
+    } else {
+      raw.push({
+        nameOffset: reader.u32(base),
+        type: reader.u32(base + 4),
+        flags: reader.u32(base + 8),
+        address: reader.u32(base + 12),
+        offset: reader.u32(base + 16),
+        size: reader.u32(base + 20),
+        link: reader.u32(base + 24),
+        align: reader.u32(base + 32),
+        entrySize: reader.u32(base + 36),
+      });
+    }
+  }
+
+  const names = raw[shstrndx];
+  return raw.map((s, index) => ({
+    index,
+    name: names && names.offset + s.nameOffset < reader.bytes.length
+      ? reader.cString(names.offset + s.nameOffset, names.offset + names.size)
+      : '',
+    type: SECTION_TYPES[s.type] ?? `0x${s.type.toString(16)}`,
+    flags: describeFlags(s.flags, SECTION_FLAGS),
+    address: s.address,
+    offset: s.offset,
+    size: s.size,
+    align: s.align,
+    entrySize: s.entrySize,
+    link: s.link,
+  }));
+}
+
+function readProgramHeaders(reader: ElfReader, phoff: number, phentsize: number, phnum: number): ElfProgramHeader[] {
+  const headers: ElfProgramHeader[] = [];
+  if (phoff === 0) return headers;
+
+  for (let i = 0; i < phnum; i++) {
+    const base = phoff + i * phentsize;
+    const type = reader.u32(base);
+    const header = reader.is64
+      ? {
+          flags: reader.u32(base + 4),
+          offset: reader.u64(base + 8),
+          virtualAddress: reader.u64(base + 16),
+          physicalAddress: reader.u64(base + 24),
+          fileSize: reader.u64(base + 32),
+          memorySize: reader.u64(base + 40),
+          align: reader.u64(base + 48),
+        }
+      : {
+          offset: reader.u32(base + 4),
+          virtualAddress: reader.u32(base + 8),
+          physicalAddress: reader.u32(base + 12),
+          fileSize: reader.u32(base + 16),
+          memorySize: reader.u32(base + 20),
+          flags: reader.u32(base + 24),
+          align: reader.u32(base + 28),
+        };
+
+    headers.push({
+      ...header,
+      type: SEGMENT_TYPES[type] ?? `0x${type.toString(16)}`,
+      flags: describeSegmentFlags(header.flags),
+    });
+  }
+  return headers;
+}
+
+function readSymbols(reader: ElfReader, sections: ElfSection[]): ElfSymbol[] {
+  const symbols: ElfSymbol[] = [];
+
+  for (const table of sections) {
+    if (table.type !== 'SYMTAB' && table.type !== 'DYNSYM') continue;
+    const strings = sections[table.link];
+    const entrySize = table.entrySize || (reader.is64 ? 24 : 16);
+    const count = Math.floor(table.size / entrySize);
+
+    // Entry 0 is always the reserved null symbol
+    for (let i = 1; i < count && symbols.length < MAX_SYMBOLS; i++) {
+      const base = table.offset + i * entrySize;
+      let nameOffset: number, value: number, size: number, info: number, shndx: number;
+      if (reader.is64) {
+        nameOffset = reader.u32(base);
+        info = reader.u8(base + 4);
+        shndx = reader.u16(base + 6);
+        value = reader.u64(base + 8);
+        size = reader.u64(base + 16);
+      } else {
+        nameOffset = reader.u32(base);
+        value = reader.u32(base + 4);
+        size = reader.u32(base + 8);
+        info = reader.u8(base + 12);
+        shndx = reader.u16(base + 14);
+      }
+
+      symbols.push({
+        name: strings ? reader.cString(strings.offset + nameOffset, strings.offset + strings.size) : '',
+        value,
+        size,
+        type: SYMBOL_TYPES[info & 0xf] ?? 'OTHER',
+        bind: SYMBOL_BINDS[info >> 4] ?? 'OTHER',
+        sectionIndex: shndx,
+        dynamic: table.type === 'DYNSYM',
+      });
+    }
+  }
+  return symbols;
+}
+
+function summarizeSymbols(symbols: ElfSymbol[]): ElfSymbolSummary {
+  return {
+    total: symbols.length,
+    functions: symbols.filter(s => s.type === 'FUNC').length,
+    globalVariables: symbols.filter(s => s.type === 'OBJECT' && s.bind !== 'LOCAL').length,
+    localSymbols: symbols.filter(s => s.bind === 'LOCAL').length,
+    undefinedSymbols: symbols.filter(s => s.sectionIndex === SHN_UNDEF && s.name).length,
+  };
+}
+
+function readCompilerStrings(reader: ElfReader, sections: ElfSection[]): string[] {
+  const comment = sections.find(s => s.name === '.comment');
+  if (!comment) return [];
+  const text = new TextDecoder('latin1').decode(sectionData(reader, comment));
+  return [...new Set(text.split('\0').map(s => s.trim()).filter(Boolean))];
+}
+
+// Present when the toolchain was invoked with -frecord-gcc-switches
+function readCompilerFlags(reader: ElfReader, sections: ElfSection[]): string | null {
+  const record = sections.find(s => s.name === '.GCC.command.line');
+  if (!record) return null;
+  const text = new TextDecoder('latin1').decode(sectionData(reader, record));
+  const flags = text.split('\0').map(s => s.trim()).filter(Boolean);
+  return flags.length > 0 ? flags.join(' ') : null;
+}
+
+function readBuildId(reader: ElfReader, sections: ElfSection[], programHeaders: ElfProgramHeader[]): string | null {
+  const regions = sections.length > 0
+    ? sections.filter(s => s.type === 'NOTE').map(s => ({ offset: s.offset, size: s.size }))
+    : programHeaders.filter(p => p.type === 'NOTE').map(p => ({ offset: p.offset, size: p.fileSize }));
+
+  for (const region of regions) {
+    let pos = region.offset;
+    const end = region.offset + region.size;
+    while (pos + 12 <= end) {
+      const nameSize = reader.u32(pos);
+      const descSize = reader.u32(pos + 4);
+      const type = reader.u32(pos + 8);
+      const namePos = pos + 12;
+      const descPos = namePos + align4(nameSize);
+      if (descPos + descSize > end) break;
+
+      const name = reader.cString(namePos, namePos + nameSize);
+      if (name === 'GNU' && type === NT_GNU_BUILD_ID) {
+        return Array.from(reader.bytes.subarray(descPos, descPos + descSize))
+          .map(b => b.toString(16).padStart(2, '0'))
+          .join('');
+      }
+      pos = descPos + align4(descSize);
+    }
+  }
+  return null;
+}
+
+function readBindNow(reader: ElfReader, sections: ElfSection[], programHeaders: ElfProgramHeader[]): boolean {
+  const section = sections.find(s => s.type === 'DYNAMIC');
+  const segment = programHeaders.find(p => p.type === 'DYNAMIC');
+  const region = section ? { offset: section.offset, size: section.size }
+    : segment ? { offset: segment.offset, size: segment.fileSize }
+    : null;
+  if (!region) return false;
+
+  const entrySize = reader.is64 ? 16 : 8;
+  const end = Math.min(region.offset + region.size, reader.bytes.length);
+  for (let pos = region.offset; pos + entrySize <= end; pos += entrySize) {
+    const tag = reader.word(pos);
+    const value = reader.word(pos + entrySize / 2);
+    if (tag === 0) break;
+    if (tag === DT_BIND_NOW) return true;
+    if (tag === DT_FLAGS && (value & DF_BIND_NOW)) return true;
+    if (tag === DT_FLAGS_1 && (value & DF_1_NOW)) return true;
+  }
+  return false;
+}
+
+function align4(value: number): number {
+  return (value + 3) & ~3;
+}
+
+export function parseElf(bytes: Uint8Array): ElfInfo {
+  if (!isElf(bytes)) {
+    throw new Error('Not an ELF file (missing \\x7fELF magic)');
+  }
+
+  const elfClass = bytes[4];
+  const dataEncoding = bytes[5];
+  if (elfClass !== 1 && elfClass !== 2) throw new Error(`Unsupported ELF class: ${elfClass}`);
+  if (dataEncoding !== 1 && dataEncoding !== 2) throw new Error(`Unsupported ELF data encoding: ${dataEncoding}`);
+
+  const is64 = elfClass === 2;
+  const reader = new ElfReader(bytes, is64, dataEncoding === 1);
+
+  const fileType = reader.u16(16);
+  const machineCode = reader.u16(18);
+  const entryPoint = reader.word(24);
+  const phoff = reader.word(is64 ? 32 : 28);
+  const shoff = reader.word(is64 ? 40 : 32);
+  const flags = reader.u32(is64 ? 48 : 36);
+  const headerBase = is64 ? 52 : 40;
+  const phentsize = reader.u16(headerBase + 2);
+  const phnum = reader.u16(headerBase + 4);
+  const shentsize = reader.u16(headerBase + 6);
+  const shnum = reader.u16(headerBase + 8);
+  const shstrndx = reader.u16(headerBase + 10);
+
+  const sections = readSections(reader, shoff, shentsize, shnum, shstrndx);
+  const programHeaders = readProgramHeaders(reader, phoff, phentsize, phnum);
+  const symbols = readSymbols(reader, sections);
+  const machine = MACHINES[machineCode];
+
+  return {
+    elfClass: is64 ? 'ELF64' : 'ELF32',
+    endianness: reader.little ? 'little' : 'big',
+    fileType: FILE_TYPES[fileType] ?? `0x${fileType.toString(16)}`,
+    machine: machine?.name ?? `Unknown (${machineCode})`,
+    machineCode,
+    architecture: machine?.architecture ?? null,
+    entryPoint,
+    flags,
+    sections,
+    programHeaders,
+    symbols,
+    symbolSummary: summarizeSymbols(symbols),
+    compilerStrings: readCompilerStrings(reader, sections),
+    compilerFlags: readCompilerFlags(reader, sections),
+    buildId: readBuildId(reader, sections, programHeaders),
+    bindNow: readBindNow(reader, sections, programHeaders),
+  };
+}
+
+export function summarizeElf(info: ElfInfo): ElfSummary {
+  const { symbols: _symbols, ...summary } = info;
+  return summary;
+}
@@ -0,0 +1,174 @@
+// Byte-entropy profile of an image: Shannon entropy per section, per
+// fixed-size block (for the graph) and over a sliding window that locates
+// encrypted or compressed payloads. Runs of erased flash (0xFF) are reported
+// separately; they are expected in raw dumps but show where content ends.
+
+import type { FirmwareImage } from "./firmware-image.ts";
+import type { VulnerabilityFinding } from "./findings.ts";
+import { sectionRanges } from "./strings.ts";
+
+export interface EntropyRegion {
+  kind: 'high-entropy' | 'erased';
+  offset: number;
+  length: number;
+  address: number | null;
+  entropy: number;
+  /** High-entropy regions only: a byte distribution close to uniform suggests encryption. */
+  classification: 'encrypted' | 'compressed' | null;
+}
+
+export interface EntropyProfile {
+  blockSize: number;
+  /** Entropy of consecutive blocks of blockSize bytes, in bits per byte. */
+  blocks: number[];
+  sections: { name: string; offset: number; size: number; entropy: number }[];
+  regions: EntropyRegion[];
+  overall: number;
+  truncated: boolean;
+}
+
+const MAX_BLOCKS = 512;
+const MIN_BLOCK_SIZE = 256;
+const WINDOW = 1024;
+const STEP = 256;
+// Code for the usual MCU cores stays around 5.5-6.8 bits per byte in 1 KiB windows
+const HIGH_ENTROPY = 7.5;
+const MIN_ERASED_RUN = 1024;
+const MAX_REGIONS = 100;
+// Chi-square of a uniform byte distribution has 255 degrees of freedom
+const UNIFORM_CHI_SQUARE = 330;
+
+function entropyOf(counts: Uint32Array, total: number): number {
+  if (total === 0) return 0;
+  let entropy = 0;
+  for (const count of counts) {
+    if (count === 0) continue;
+    const p = count / total;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function histogram(data: Uint8Array, start: number, end: number): Uint32Array {
+  const counts = new Uint32Array(256);
+  for (let i = start; i < end; i++) counts[data[i]]++;
+  return counts;
+}
+
+export function byteEntropy(data: Uint8Array, start = 0, end = data.length): number {
+  return entropyOf(histogram(data, start, end), end - start);
+}
+
+function chiSquare(data: Uint8Array, start: number, end: number): number {
+  const counts = histogram(data, start, end);
+  const expected = (end - start) / 256;
+  let sum = 0;
+  for (const count of counts) sum += (count - expected) ** 2 / expected;
+  return sum;
+}
+
+function offsetToAddress(image: FirmwareImage, offset: number): number | null {
+  const segment = image.segments.find(s => offset >= s.offset && offset < s.offset + s.size);
+  return segment ? segment.address + (offset - segment.offset) : null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** Windows at or above HIGH_ENTROPY, merged into regions; the histogram slides STEP bytes at a time. */
+function highEntropyRegions(image: FirmwareImage): EntropyRegion[] {
+  const { data } = image;
+  const regions: EntropyRegion[] = [];
+  if (data.length < WINDOW) return regions;
+
+  const counts = histogram(data, 0, WINDOW);
+  let open: { start: number; end: number } | null = null;
+  const close = () => {
+    if (!open) return;
+    const { start, end } = open;
+    regions.push({
+      kind: 'high-entropy',
+      offset: start,
+      length: end - start,
+      address: offsetToAddress(image, start),
+      entropy: round(byteEntropy(data, start, end)),
+      classification: chiSquare(data, start, end) <= UNIFORM_CHI_SQUARE ? 'encrypted' : 'compressed',
+    });
+    open = null;
+  };
+
+  for (let start = 0; start + WINDOW <= data.length; start += STEP) {
+    if (start > 0) {
+      for (let i = start - STEP; i < start; i++) counts[data[i]]--;
+      for (let i = start + WINDOW - STEP; i < start + WINDOW; i++) counts[data[i]]++;
+    }
+    if (entropyOf(counts, WINDOW) >= HIGH_ENTROPY) {
+      if (open && start <= open.end) open.end = start + WINDOW;
+      else {
+        close();
+        open = { start, end: start + WINDOW };
+      }
+    }
+  }
+  close();
+  return regions;
+}
+
+function erasedRegions(image: FirmwareImage): EntropyRegion[] {
+  const { data } = image;
+  const regions: EntropyRegion[] = [];
+  let start = -1;
+  for (let i = 0; i <= data.length; i++) {
+    if (i < data.length && data[i] === 0xff) {
+      if (start < 0) start = i;
+      continue;
+    }
+    if (start >= 0 && i - start >= MIN_ERASED_RUN) {
+      regions.push({ kind: 'erased', offset: start, length: i - start, address: offsetToAddress(image, start), entropy: 0, classification: null });
+    }
+    start = -1;
+  }
+  return regions;
+}
+
+export function profileEntropy(image: FirmwareImage): EntropyProfile {
+  const { data } = image;
+  const blockSize = Math.max(MIN_BLOCK_SIZE, Math.ceil(data.length / MAX_BLOCKS / MIN_BLOCK_SIZE) * MIN_BLOCK_SIZE);
+  const blocks: number[] = [];
+  for (let start = 0; start < data.length; start += blockSize) {
+    blocks.push(round(byteEntropy(data, start, Math.min(data.length, start + blockSize))));
+  }
+
+  const sections = sectionRanges(image)
+    .filter(s => s.offset + s.size <= data.length)
+    .map(s => ({ name: s.name, offset: s.offset, size: s.size, entropy: round(byteEntropy(data, s.offset, s.offset + s.size)) }));
+
+  const high = highEntropyRegions(image);
+  const erased = erasedRegions(image);
+  const regions = [...high.slice(0, MAX_REGIONS), ...erased.slice(0, MAX_REGIONS)].sort((a, b) => a.offset - b.offset);
+
+  return {
+    blockSize,
+    blocks,
+    sections,
+    regions,
+    overall: round(byteEntropy(data)),
+    truncated: high.length > MAX_REGIONS || erased.length > MAX_REGIONS,
+  };
+}
+
+/** Informational findings for the high-entropy regions, so reviewers can jump to them. */
+export function entropyFindings(profile: EntropyProfile, fileName: string): VulnerabilityFinding[] {
+  return profile.regions.filter(r => r.kind === 'high-entropy').map(region => ({
+    severity: 'info',
+    title: `High-entropy region at offset 0x${region.offset.toString(16)} (${region.classification === 'encrypted' ? 'likely encrypted' : 'likely compressed'})`,
+    description: `${region.length} bytes${region.address !== null ? ` at 0x${region.address.toString(16)}` : ''} with ${region.entropy} bits of entropy per byte. ` +
+      (region.classification === 'encrypted'
+        ? 'The byte distribution is close to uniform, as for encrypted payloads, key material or random data; its contents were not analyzed.'
+        : 'The byte distribution is skewed, as for compressed payloads or packed resources; its contents were not analyzed.'),
+    affected_component: fileName,
+    byte_offset: region.offset,
+    byte_length: region.length,
+    detection_method: 'static',
+    remediation: 'Identify the payload. Encrypted or compressed code must be reviewed in its decrypted/decompressed form; key material belongs in a secure element or HSM.',
+  }));
+}
@@ -0,0 +1,160 @@
+// Finding shapes produced by the analyzers and the rules for merging the
+// per-chunk results into one de-duplicated set.
+
+export interface VulnerabilityFinding {
+  cve_id?: string | null;
+  cwe_id?: string | null;
+  severity: 'critical' | 'high' | 'medium' | 'low' | 'info';
+  cvss_score?: number | null;
+  title: string;
+  description?: string | null;
+  affected_component?: string | null;
+  affected_function?: string | null;
+  code_snippet?: string | null;
+  line_number?: number | null;
+  byte_offset?: number | null;
+  byte_length?: number | null;
+  detection_method?: string | null;
+  /** Source findings only: whether code_snippet was found in the uploaded file. */
+  location_verified?: boolean | null;
+  remediation?: string | null;
+  attack_vector?: string | null;
+  impact?: string | null;
+  /** Archive deliveries only: path of the member the finding is in. */
+  member_path?: string | null;
+}
+
+export interface ComplianceFinding {
+  framework: string;
+  rule_id: string;
+  rule_description?: string | null;
+  status: 'pass' | 'fail' | 'warning';
+  details?: string | null;
+  line_number?: number | null;
+  member_path?: string | null;
+}
+
+export type ComponentConfidence = 'high' | 'medium' | 'low';
+
+/** Where a component was identified: a byte offset for images, a line for sources. */
+export interface ComponentEvidence {
+  kind: 'banner' | 'symbol' | 'string' | 'include' | 'version-macro' | 'llm';
+  detail: string;
+  offset: number | null;
+  line: number | null;
+}
+
+export interface SbomFinding {
+  component_name: string;
+  version?: string | null;
+  license?: string | null;
+  source_file?: string | null;
+  vulnerabilities?: string[];
+  cpe?: string | null;
+  purl?: string | null;
+  /** Identified components only; model-reported components are kept as 'low' once their evidence is found in the file. */
+  confidence?: ComponentConfidence | null;
+  evidence?: ComponentEvidence[];
+  member_path?: string | null;
+}
+
+export interface SensitiveDataFinding {
+  type: string;
+  value: string;
+  location?: string | null;
+  severity?: string | null;
+  context?: string | null;
+  remediation?: string | null;
+  member_path?: string | null;
+}
+
+export interface AnalysisResult {
+  vulnerabilities: VulnerabilityFinding[];
+  complianceResults: ComplianceFinding[];
+  sbomComponents: SbomFinding[];
+  piiFindings: SensitiveDataFinding[];
+  secretFindings: SensitiveDataFinding[];
+  executiveSummary: string;
+  riskScore: number;
+}
+
+const SEVERITY_RANK: Record<string, number> = { critical: 4, high: 3, medium: 2, low: 1, info: 0 };
+const STATUS_RANK: Record<string, number> = { fail: 2, warning: 1, pass: 0 };
+
+type RawResult = Record<string, unknown>;
+
+function pick<T>(raw: RawResult, ...keys: string[]): T | undefined {
+  for (const key of keys) {
+    if (raw[key] !== undefined && raw[key] !== null) return raw[key] as T;
+  }
+  return undefined;
+}
+
+/** The LLM may answer in snake_case or camelCase; accept both. */
+export function normalizeAnalysisResult(raw: RawResult): AnalysisResult {
+  return {
+    vulnerabilities: pick(raw, 'vulnerabilities') || [],
+    complianceResults: pick(raw, 'complianceResults', 'compliance_results') || [],
+    sbomComponents: pick(raw, 'sbomComponents', 'sbom_components') || [],
+    piiFindings: pick(raw, 'piiFindings', 'pii_findings') || [],
+    secretFindings: pick(raw, 'secretFindings', 'secret_findings') || [],
+    executiveSummary: pick(raw, 'executiveSummary', 'executive_summary') || '',
+    riskScore: pick(raw, 'riskScore', 'risk_score') || 50,
+  };
+}
+
+/** Binary findings have no line; their byte offset keeps repeated matches in one image apart. */
+export function vulnerabilityKey(v: VulnerabilityFinding): string {
+  const location = v.line_number ?? (v.byte_offset != null ? `@${v.byte_offset}` : v.title?.toLowerCase().trim());
+  return `${v.member_path || ''}|${v.affected_component || ''}|${location}|${v.cwe_id || ''}`;
+}
+
+function dedupe<T>(items: T[], key: (item: T) => string, prefer: (current: T, next: T) => T): T[] {
+  const byKey = new Map<string, T>();
+  for (const item of items) {
+    const k = key(item);
+    const existing = byKey.get(k);
+    byKey.set(k, existing ? prefer(existing, item) : item);
+  }
+  return [...byKey.values()];
+}
+
+export function mergeAnalysisResults(results: AnalysisResult[]): AnalysisResult {
+  const vulnerabilities = dedupe(
+    results.flatMap(r => r.vulnerabilities),
+    vulnerabilityKey,
+    (a, b) => ((SEVERITY_RANK[b.severity] ?? 0) > (SEVERITY_RANK[a.severity] ?? 0) ? b : a),
+  );
+
+  const complianceResults = dedupe(
+    results.flatMap(r => r.complianceResults),
+    c => `${c.member_path || ''}|${c.framework}|${c.rule_id}`,
+    (a, b) => {
+      const worse = (STATUS_RANK[b.status] ?? 0) > (STATUS_RANK[a.status] ?? 0) ? b : a;
+      const details = [...new Set([a.details, b.details].filter(Boolean))].join('\n');
+      return { ...worse, details };
+    },
+  );
+
+  const sbomComponents = dedupe(
+    results.flatMap(r => r.sbomComponents),
+    c => `${c.member_path || ''}|${c.component_name.toLowerCase()}|${c.version || ''}`,
+    (a, b) => ({
+      ...a,
+      vulnerabilities: [...new Set([...(a.vulnerabilities || []), ...(b.vulnerabilities || [])])],
+      evidence: [...(a.evidence || []), ...(b.evidence || [])],
+    }),
+  );
+
+  const sensitiveKey = (f: SensitiveDataFinding) => `${f.member_path || ''}|${f.type}|${f.location || ''}|${f.value}`;
+
+  return {
+    vulnerabilities,
+    complianceResults,
+    sbomComponents,
+    piiFindings: dedupe(results.flatMap(r => r.piiFindings), sensitiveKey, a => a),
+    secretFindings: dedupe(results.flatMap(r => r.secretFindings), sensitiveKey, a => a),
+    executiveSummary: results.map(r => r.executiveSummary).filter(Boolean).join('\n\n'),
+    riskScore: Math.max(0, ...results.map(r => r.riskScore)),
+  };
+}
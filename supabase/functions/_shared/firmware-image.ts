@@ -0,0 +1,231 @@
+// In-memory representation of the firmware under analysis. Every loader
+// (ELF, Intel HEX, S-record, VBF, raw) produces a FirmwareImage so downstream
+// analyzers can work on bytes + load addresses without caring about the
+// container format.
+
+import { isElf, parseElf, type ElfInfo } from "./elf.ts";
+import { isIntelHex, isSRecord, parseIntelHex, parseSRecord, type HexRecordError } from "./hex-records.ts";
+import { isVbf, parseVbf, type VbfInfo } from "./vbf.ts";
+
+export type FirmwareFormat = 'elf' | 'ihex' | 'srec' | 'vbf' | 'raw';
+
+export interface ImageSegment {
+  name?: string;
+  address: number;
+  offset: number; // position of the segment inside FirmwareImage.data
+  size: number;
+}
+
+export interface MemoryGap {
+  start: number;
+  end: number;
+}
+
+export interface MemoryOverlap {
+  address: number;
+  length: number;
+  identical: boolean;
+}
+
+export interface FirmwareImage {
+  format: FirmwareFormat;
+  data: Uint8Array;
+  segments: ImageSegment[];
+  entryPoint: number | null;
+  gaps: MemoryGap[];
+  overlaps: MemoryOverlap[];
+  elf: ElfInfo | null;
+  vbf: VbfInfo | null;
+  header: string | null;
+  recordCount: number;
+  errors: HexRecordError[];
+}
+
+export interface DataChunk {
+  address: number;
+  data: Uint8Array;
+}
+
+export interface MemoryMap {
+  data: Uint8Array;
+  segments: ImageSegment[];
+  gaps: MemoryGap[];
+  overlaps: MemoryOverlap[];
+}
+
+// Flash erase value - unwritten bytes inside a contiguous run stay at 0xFF
+const ERASED_BYTE = 0xff;
+
+/**
+ * Merges address-tagged records into contiguous segments. Later records win
+ * where they overlap earlier ones, matching how a flash programmer would
+ * apply the file; every overlap is reported so conflicting data is visible.
+ */
+export function buildMemoryMap(chunks: DataChunk[]): MemoryMap {
+  const ordered = chunks
+    .filter(c => c.data.length > 0)
+    .map((chunk, order) => ({ ...chunk, order, end: chunk.address + chunk.data.length }))
+    .sort((a, b) => a.address - b.address || a.order - b.order);
+
+  const runs: { start: number; end: number; parts: typeof ordered }[] = [];
+  for (const chunk of ordered) {
+    const last = runs[runs.length - 1];
+    if (last && chunk.address <= last.end) {
+      last.parts.push(chunk);
+      last.end = Math.max(last.end, chunk.end);
+    } else {
+      runs.push({ start: chunk.address, end: chunk.end, parts: [chunk] });
+    }
+  }
+
+  const totalSize = runs.reduce((sum, run) => sum + (run.end - run.start), 0);
+  const data = new Uint8Array(totalSize).fill(ERASED_BYTE);
+  const segments: ImageSegment[] = [];
+  const overlaps: MemoryOverlap[] = [];
+  let offset = 0;
+
+  for (const run of runs) {
+    const size = run.end - run.start;
+    const written = new Uint8Array(size);
+    const region = data.subarray(offset, offset + size);
+
+    for (const part of [...run.parts].sort((a, b) => a.order - b.order)) {
+      const rel = part.address - run.start;
+      let overlapStart = -1;
+      let overlapLength = 0;
+      let identical = true;
+      for (let i = 0; i < part.data.length; i++) {
+        if (written[rel + i]) {
+          if (overlapStart < 0) overlapStart = i;
+          overlapLength++;
+          if (region[rel + i] !== part.data[i]) identical = false;
+        }
+      }
+      if (overlapLength > 0) {
+        overlaps.push({ address: part.address + overlapStart, length: overlapLength, identical });
+      }
+      region.set(part.data, rel);
+      written.fill(1, rel, rel + part.data.length);
+    }
+
+    segments.push({ address: run.start, offset, size });
+    offset += size;
+  }
+
+  const gaps: MemoryGap[] = [];
+  for (let i = 1; i < runs.length; i++) {
+    gaps.push({ start: runs[i - 1].end, end: runs[i].start });
+  }
+
+  return { data, segments, gaps, overlaps };
+}
+
+export function detectFirmwareFormat(bytes: Uint8Array, fileName: string): FirmwareFormat {
+  const name = fileName.toLowerCase();
+  if (isElf(bytes)) return 'elf';
+  if (isVbf(bytes)) return 'vbf';
+  if (/\.(hex|ihex|ihx)$/.test(name) && isIntelHex(bytes)) return 'ihex';
+  if (/\.(s19|s28|s37|srec|mot)$/.test(name) && isSRecord(bytes)) return 'srec';
+  // Fall back to content sniffing for misnamed uploads
+  if (isIntelHex(bytes)) return 'ihex';
+  if (isSRecord(bytes)) return 'srec';
+  return 'raw';
+}
+
+function fromElf(bytes: Uint8Array, elf: ElfInfo): FirmwareImage {
+  const segments = elf.sections
+    .filter(s => s.flags.includes('A') && s.type !== 'NOBITS' && s.size > 0)
+    .map(s => ({ name: s.name, address: s.address, offset: s.offset, size: s.size }));
+
+  return {
+    format: 'elf',
+    data: bytes,
+    segments,
+    entryPoint: elf.entryPoint,
+    gaps: [],
+    overlaps: [],
+    elf,
+    vbf: null,
+    header: null,
+    recordCount: 0,
+    errors: [],
+  };
+}
+
+export function rawFirmwareImage(bytes: Uint8Array): FirmwareImage {
+  return {
+    format: 'raw',
+    data: bytes,
+    segments: [{ address: 0, offset: 0, size: bytes.length }],
+    entryPoint: null,
+    gaps: [],
+    overlaps: [],
+    elf: null,
+    vbf: null,
+    header: null,
+    recordCount: 0,
+    errors: [],
+  };
+}
+
+export function loadFirmwareImage(bytes: Uint8Array, fileName: string): FirmwareImage {
+  const format = detectFirmwareFormat(bytes, fileName);
+
+  switch (format) {
+    case 'elf':
+      return fromElf(bytes, parseElf(bytes));
+    case 'ihex':
+    case 'srec': {
+      const text = new TextDecoder().decode(bytes);
+      const parsed = format === 'ihex' ? parseIntelHex(text) : parseSRecord(text);
+      const map = buildMemoryMap(parsed.chunks);
+      return {
+        format,
+        ...map,
+        entryPoint: parsed.entryPoint,
+        elf: null,
+        vbf: null,
+        header: parsed.header,
+        recordCount: parsed.recordCount,
+        errors: parsed.errors,
+      };
+    }
+    case 'vbf': {
+      const vbf = parseVbf(bytes);
+      const map = buildMemoryMap(vbf.blocks.map(b => ({ address: b.address, data: bytes.subarray(b.offset, b.offset + b.length) })));
+      return {
+        format,
+        ...map,
+        entryPoint: null,
+        elf: null,
+        vbf,
+        header: vbf.header.swPartNumber,
+        recordCount: vbf.blocks.length,
+        errors: [],
+      };
+    }
+    default:
+      return rawFirmwareImage(bytes);
+  }
+}
+
+/** Maps an offset inside image.data back to a load address. */
+export function offsetToAddress(image: FirmwareImage, offset: number): number | null {
+  const segment = image.segments.find(s => offset >= s.offset && offset < s.offset + s.size);
+  return segment ? segment.address + (offset - segment.offset) : null;
+}
+
+/** Persisted on scans.metadata.memoryMap - everything except the raw bytes. */
+export function summarizeImage(image: FirmwareImage) {
+  return {
+    format: image.format,
+    size: image.data.length,
+    segments: image.segments,
+    gaps: image.gaps,
+    overlaps: image.overlaps,
+    entryPoint: image.entryPoint,
+    header: image.header,
+    recordCount: image.recordCount,
+    errorCount: image.errors.length,
+  };
+}
@@ -0,0 +1,229 @@
+// checksec-style hardening properties of an image. Hosted ELF objects (with a
+// dynamic loader) get the usual Linux checks; bare-metal Cortex-M images are
+// judged on whether an MPU is set up and whether SRAM can execute code, since
+// the default Cortex-M memory map leaves SRAM executable.
+
+import { cortexMVectorTable, type ArchitectureDetection } from "./architecture.ts";
+import type { FirmwareImage } from "./firmware-image.ts";
+import type { ComplianceFinding } from "./findings.ts";
+
+export type HardeningStatus = 'pass' | 'warning' | 'fail' | 'not-applicable' | 'unknown';
+
+export type HardeningCheckId = 'canary' | 'nx' | 'relro' | 'pie' | 'fortify' | 'stripped' | 'mpu' | 'sram-xn';
+
+export interface HardeningCheck {
+  id: HardeningCheckId;
+  label: string;
+  status: HardeningStatus;
+  evidence: string;
+}
+
+export interface HardeningReport {
+  /** 'hosted' when the image is loaded by an OS loader, 'cortex-m' for Cortex-M firmware. */
+  target: 'hosted' | 'cortex-m' | 'bare-metal';
+  checks: HardeningCheck[];
+}
+
+const SRAM_START = 0x20000000;
+const SRAM_END = 0x40000000;
+
+const MPU_REGISTERS: Record<number, string> = {
+  0xe000ed90: 'MPU_TYPE',
+  0xe000ed94: 'MPU_CTRL',
+  0xe000ed98: 'MPU_RNR',
+  0xe000ed9c: 'MPU_RBAR',
+  0xe000eda0: 'MPU_RASR',
+};
+const MPU_SYMBOL = /^(HAL_MPU_|ARM_MPU_|MPU_Config|mpu_?init|vPortSetupMPU|prvSetupMPU)/i;
+
+// ARMv7-M MPU_RASR: XN (bit 28) and ENABLE set, a region of at least 32 bytes, reserved bits clear
+const RASR_XN = 1 << 28;
+const RASR_RESERVED = 0xe8c000c0;
+const LITERAL_POOL_SPAN = 256;
+
+const FORTIFIABLE = new Set(['memcpy', 'memmove', 'memset', 'strcpy', 'strncpy', 'strcat', 'strncat', 'sprintf', 'snprintf', 'vsprintf', 'vsnprintf', 'gets']);
+const STACK_SMASH_MESSAGE = 'stack smashing detected';
+
+const LABELS: Record<HardeningCheckId, string> = {
+  canary: 'Stack Canaries',
+  nx: 'NX / XN Segments',
+  relro: 'RELRO',
+  pie: 'PIE',
+  fortify: 'FORTIFY_SOURCE',
+  stripped: 'Symbols Stripped',
+  mpu: 'MPU Configured',
+  'sram-xn': 'SRAM Not Executable',
+};
+
+function check(id: HardeningCheckId, status: HardeningStatus, evidence: string): HardeningCheck {
+  return { id, label: LABELS[id], status, evidence };
+}
+
+const hex = (value: number) => `0x${value.toString(16)}`;
+const inSram = (address: number) => address >= SRAM_START && address < SRAM_END;
+
+function containsText(data: Uint8Array, text: string): boolean {
+  const needle = new TextEncoder().encode(text);
+  outer: for (let i = 0; i + needle.length <= data.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (data[i + j] !== needle[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+}
+
+/** Aligned little-endian literal words inside the loaded part of the image. */
+function* literalWords(image: FirmwareImage): Generator<{ offset: number; value: number }> {
+  const view = new DataView(image.data.buffer, image.data.byteOffset, image.data.byteLength);
+  for (const segment of image.segments) {
+    const end = Math.min(segment.offset + segment.size, image.data.length);
+    for (let offset = segment.offset + ((4 - (segment.address % 4)) % 4); offset + 4 <= end; offset += 4) {
+      yield { offset, value: view.getUint32(offset, true) };
+    }
+  }
+}
+
+function canaryCheck(image: FirmwareImage, names: Set<string>): HardeningCheck {
+  const flags = image.elf?.compilerFlags ?? '';
+  if (names.has('__stack_chk_fail') || names.has('__stack_chk_guard')) {
+    return check('canary', 'pass', `References ${['__stack_chk_fail', '__stack_chk_guard'].filter(n => names.has(n)).join(' and ')}`);
+  }
+  if (/-fstack-protector(-strong|-all)?\b/.test(flags)) return check('canary', 'pass', 'Built with -fstack-protector');
+  if (containsText(image.data, STACK_SMASH_MESSAGE)) return check('canary', 'pass', `Contains the "${STACK_SMASH_MESSAGE}" handler message`);
+  if (/-fno-stack-protector\b/.test(flags)) return check('canary', 'fail', 'Built with -fno-stack-protector');
+  return names.size > 0
+    ? check('canary', 'fail', 'No reference to __stack_chk_fail or __stack_chk_guard')
+    : check('canary', 'unknown', 'No symbol table; no stack protector handler found');
+}
+
+function nxCheck(image: FirmwareImage, hosted: boolean): HardeningCheck {
+  const { elf } = image;
+  if (!elf) return check('nx', 'unknown', `A ${image.format} image carries no segment permissions`);
+  const writableCode = elf.programHeaders.filter(p => p.type === 'LOAD' && p.flags.includes('W') && p.flags.includes('X'));
+  if (writableCode.length > 0) {
+    return check('nx', 'fail', `Writable and executable LOAD segment(s) at ${writableCode.map(p => hex(p.virtualAddress)).join(', ')}`);
+  }
+  if (hosted) {
+    const stack = elf.programHeaders.find(p => p.type === 'GNU_STACK');
+    if (!stack) return check('nx', 'fail', 'No PT_GNU_STACK header; the loader maps the stack executable');
+    if (stack.flags.includes('X')) return check('nx', 'fail', 'PT_GNU_STACK requests an executable stack');
+    return check('nx', 'pass', 'Non-executable stack; no segment is both writable and executable');
+  }
+  return check('nx', 'pass', 'No LOAD segment is both writable and executable');
+}
+
+function fortifyCheck(image: FirmwareImage, names: Set<string>): HardeningCheck {
+  const checked = [...names].filter(n => /^__\w+_chk$/.test(n) && !n.startsWith('__stack_chk'));
+  if (checked.length > 0) return check('fortify', 'pass', `Fortified calls: ${checked.slice(0, 5).join(', ')}`);
+  const flags = image.elf?.compilerFlags ?? '';
+  if (/-D_FORTIFY_SOURCE=[1-3]\b/.test(flags)) return check('fortify', 'pass', 'Built with -D_FORTIFY_SOURCE');
+  if (names.size === 0) return check('fortify', 'unknown', 'No symbol table to look for _chk variants');
+  const unchecked = [...names].filter(n => FORTIFIABLE.has(n));
+  return unchecked.length > 0
+    ? check('fortify', 'fail', `Calls ${unchecked.slice(0, 5).join(', ')} without _chk variants`)
+    : check('fortify', 'not-applicable', 'No fortifiable libc calls');
+}
+
+function strippedCheck(image: FirmwareImage): HardeningCheck {
+  const { elf } = image;
+  if (!elf) return check('stripped', 'pass', `A ${image.format} image carries no symbol table`);
+  const debug = elf.sections.filter(s => s.name.startsWith('.debug_')).map(s => s.name);
+  if (debug.length > 0) return check('stripped', 'fail', `Debug information shipped (${debug.slice(0, 3).join(', ')})`);
+  const symbols = elf.sections.some(s => s.type === 'SYMTAB') ? elf.symbolSummary.total : 0;
+  return symbols > 0
+    ? check('stripped', 'warning', `Symbol table with ${symbols} symbol(s)`)
+    : check('stripped', 'pass', 'No symbol table');
+}
+
+function mpuChecks(image: FirmwareImage, names: Set<string>): HardeningCheck[] {
+  const registers = new Map<string, number>();
+  const registerOffsets: number[] = [];
+  const attributes: { offset: number; value: number }[] = [];
+  for (const word of literalWords(image)) {
+    const register = MPU_REGISTERS[word.value];
+    if (register) {
+      registerOffsets.push(word.offset);
+      if (!registers.has(register)) registers.set(register, word.offset);
+    }
+    const { value } = word;
+    if ((value & RASR_XN) && (value & 1) && !(value & RASR_RESERVED) && ((value >> 1) & 0x1f) >= 4) attributes.push(word);
+  }
+  // Only attribute-like words in the same literal pool as an MPU register address count
+  const xnRegions = attributes
+    .filter(a => registerOffsets.some(offset => Math.abs(offset - a.offset) <= LITERAL_POOL_SPAN))
+    .map(a => a.value);
+  const symbols = [...names].filter(n => MPU_SYMBOL.test(n));
+  const configured = registers.has('MPU_CTRL') || registers.has('MPU_RBAR') || registers.has('MPU_RASR') || symbols.length > 0;
+  const evidence = [
+    ...[...registers].map(([register, offset]) => `${register} referenced at offset ${hex(offset)}`),
+    ...symbols.slice(0, 3),
+  ].join('; ');
+
+  const executableRam = image.elf?.sections.filter(s => s.flags.includes('X') && s.flags.includes('A') && inSram(s.address)) ?? [];
+  const sramXn = executableRam.length > 0
+    ? check('sram-xn', 'fail', `Code placed in SRAM: ${executableRam.map(s => `${s.name} at ${hex(s.address)}`).join(', ')}`)
+    : !configured
+      ? check('sram-xn', 'fail', 'No MPU setup; SRAM is executable in the default Cortex-M memory map')
+      : xnRegions.length > 0
+        ? check('sram-xn', 'pass', `MPU region attribute(s) with XN set: ${xnRegions.slice(0, 3).map(hex).join(', ')}`)
+        : check('sram-xn', 'warning', 'MPU is configured but no execute-never region attribute was found');
+
+  return [
+    configured ? check('mpu', 'pass', evidence) : check('mpu', 'fail', 'No MPU register access or MPU setup routine found'),
+    sramXn,
+  ];
+}
+
+export function analyzeHardening(image: FirmwareImage, detection: ArchitectureDetection | null): HardeningReport {
+  const { elf } = image;
+  const names = new Set(elf?.symbols.map(s => s.name).filter(Boolean) ?? []);
+  const hosted = elf !== null && (elf.fileType === 'DYN' || elf.programHeaders.some(p => p.type === 'INTERP' || p.type === 'DYNAMIC'));
+  const cortexM = !hosted && detection?.architecture === 'ARM' && cortexMVectorTable(image) !== null;
+  const fixed = 'Firmware is linked to fixed addresses without a dynamic loader';
+
+  const relro = !hosted ? check('relro', 'not-applicable', fixed)
+    : !elf!.programHeaders.some(p => p.type === 'GNU_RELRO') ? check('relro', 'fail', 'No PT_GNU_RELRO header')
+    : elf!.bindNow ? check('relro', 'pass', 'Full RELRO (PT_GNU_RELRO with BIND_NOW)')
+    : check('relro', 'warning', 'Partial RELRO (no BIND_NOW); the GOT stays writable');
+  const pie = !hosted ? check('pie', 'not-applicable', fixed)
+    : elf!.fileType === 'DYN' ? check('pie', 'pass', 'Position-independent (ET_DYN)')
+    : check('pie', 'fail', 'Fixed-address executable (ET_EXEC)');
+
+  const checks = [
+    canaryCheck(image, names),
+    nxCheck(image, hosted),
+    relro,
+    pie,
+    fortifyCheck(image, names),
+    strippedCheck(image),
+    ...(cortexM ? mpuChecks(image, names) : [
+      check('mpu', 'not-applicable', 'Not a Cortex-M image'),
+      check('sram-xn', 'not-applicable', 'Not a Cortex-M image'),
+    ]),
+  ];
+  return { target: hosted ? 'hosted' : cortexM ? 'cortex-m' : 'bare-metal', checks };
+}
+
+/** One UNECE R155 row carrying the matrix as evidence; omitted when nothing could be assessed. */
+export function hardeningComplianceResults(report: HardeningReport): ComplianceFinding[] {
+  const assessed = report.checks.filter(c => c.status !== 'not-applicable' && c.status !== 'unknown');
+  if (assessed.length === 0) return [];
+  const status = assessed.some(c => c.status === 'fail') ? 'fail' : assessed.some(c => c.status === 'warning') ? 'warning' : 'pass';
+  return [{
+    framework: 'UNECE R155',
+    rule_id: 'Annex 5 4.3.7',
+    rule_description: 'Potential vulnerabilities that could be exploited if not sufficiently protected or hardened',
+    status,
+    details: assessed.map(c => `${c.label}: ${c.status} - ${c.evidence}`).join('\n'),
+    line_number: null,
+  }];
+}
+
+/** Compact text form for the LLM prompt. */
+export function describeHardening(report: HardeningReport): string {
+  return report.checks
+    .filter(c => c.status !== 'not-applicable')
+    .map(c => `${c.label}: ${c.status}`)
+    .join(', ');
+}
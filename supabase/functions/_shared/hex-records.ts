@@ -0,0 +1,186 @@
+// Intel HEX and Motorola S-record decoders. Malformed or mis-checksummed
+// records are reported and skipped; the remaining records are still loaded.
+
+export interface HexRecordError {
+  line: number;
+  message: string;
+}
+
+export interface ParsedRecords {
+  chunks: { address: number; data: Uint8Array }[];
+  entryPoint: number | null;
+  header: string | null;
+  recordCount: number;
+  errors: HexRecordError[];
+}
+
+const MAX_REPORTED_ERRORS = 100;
+
+function firstNonBlank(bytes: Uint8Array): number {
+  for (let i = 0; i < Math.min(bytes.length, 64); i++) {
+    if (bytes[i] !== 0x20 && bytes[i] !== 0x09 && bytes[i] !== 0x0a && bytes[i] !== 0x0d) return i;
+  }
+  return -1;
+}
+
+export function isIntelHex(bytes: Uint8Array): boolean {
+  const i = firstNonBlank(bytes);
+  return i >= 0 && bytes[i] === 0x3a; // ':'
+}
+
+export function isSRecord(bytes: Uint8Array): boolean {
+  const i = firstNonBlank(bytes);
+  return i >= 0 && bytes[i] === 0x53 && bytes[i + 1] >= 0x30 && bytes[i + 1] <= 0x39; // 'S0'..'S9'
+}
+
+function hexToBytes(hex: string): Uint8Array | null {
+  if (hex.length % 2 !== 0 || !/^[0-9A-Fa-f]*$/.test(hex)) return null;
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return out;
+}
+
+function readBigEndian(bytes: Uint8Array, start: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) value = value * 256 + bytes[start + i];
+  return value;
+}
+
+function pushError(errors: HexRecordError[], line: number, message: string) {
+  if (errors.length < MAX_REPORTED_ERRORS) errors.push({ line, message });
+}
+
+export function parseIntelHex(text: string): ParsedRecords {
+  const result: ParsedRecords = { chunks: [], entryPoint: null, header: null, recordCount: 0, errors: [] };
+  let baseAddress = 0;
+  let sawEof = false;
+
+  const lines = text.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const lineNo = index + 1;
+    const line = lines[index].trim();
+    if (!line) continue;
+    if (sawEof) {
+      pushError(result.errors, lineNo, 'Data after end-of-file record');
+      break;
+    }
+    if (line[0] !== ':') {
+      pushError(result.errors, lineNo, 'Record does not start with ":"');
+      continue;
+    }
+
+    const bytes = hexToBytes(line.slice(1));
+    if (!bytes || bytes.length < 5) {
+      pushError(result.errors, lineNo, 'Malformed record');
+      continue;
+    }
+    const length = bytes[0];
+    if (bytes.length !== length + 5) {
+      pushError(result.errors, lineNo, `Byte count ${length} does not match record length`);
+      continue;
+    }
+    const expected = (0x100 - (bytes.subarray(0, bytes.length - 1).reduce((acc, b) => acc + b, 0) & 0xff)) & 0xff;
+    if (expected !== bytes[bytes.length - 1]) {
+      pushError(result.errors, lineNo, `Checksum mismatch (expected 0x${expected.toString(16).padStart(2, '0')})`);
+      continue;
+    }
+
+    result.recordCount++;
+    const offset = readBigEndian(bytes, 1, 2);
+    const type = bytes[3];
+    const data = bytes.subarray(4, 4 + length);
+
+    switch (type) {
+      case 0x00:
+        result.chunks.push({ address: baseAddress + offset, data: data.slice() });
+        break;
+      case 0x01:
+        sawEof = true;
+        break;
+      case 0x02: // Extended segment address: base = segment * 16
+        baseAddress = readBigEndian(data, 0, 2) * 16;
+        break;
+      case 0x03: // Start segment address (CS:IP)
+        result.entryPoint = readBigEndian(data, 0, 2) * 16 + readBigEndian(data, 2, 2);
+        break;
+      case 0x04: // Extended linear address: upper 16 bits
+        baseAddress = readBigEndian(data, 0, 2) * 0x10000;
+        break;
+      case 0x05: // Start linear address
+        result.entryPoint = readBigEndian(data, 0, 4);
+        break;
+      default:
+        pushError(result.errors, lineNo, `Unknown record type 0x${type.toString(16).padStart(2, '0')}`);
+    }
+  }
+
+  if (!sawEof) pushError(result.errors, lines.length, 'Missing end-of-file record');
+  return result;
+}
+
+const SREC_ADDRESS_BYTES: Record<string, number> = {
+  '0': 2, '1': 2, '2': 3, '3': 4, '5': 2, '6': 3, '7': 4, '8': 3, '9': 2,
+};
+
+export function parseSRecord(text: string): ParsedRecords {
+  const result: ParsedRecords = { chunks: [], entryPoint: null, header: null, recordCount: 0, errors: [] };
+  let dataRecords = 0;
+
+  const lines = text.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const lineNo = index + 1;
+    const line = lines[index].trim();
+    if (!line) continue;
+    if (line[0] !== 'S' || !(line[1] in SREC_ADDRESS_BYTES)) {
+      pushError(result.errors, lineNo, `Unsupported record type "${line.slice(0, 2)}"`);
+      continue;
+    }
+
+    const type = line[1];
+    const bytes = hexToBytes(line.slice(2));
+    if (!bytes || bytes.length < 3) {
+      pushError(result.errors, lineNo, 'Malformed record');
+      continue;
+    }
+    const count = bytes[0];
+    if (bytes.length !== count + 1) {
+      pushError(result.errors, lineNo, `Byte count ${count} does not match record length`);
+      continue;
+    }
+    const body = bytes.subarray(0, bytes.length - 1);
+    const expected = (~body.reduce((acc, b) => acc + b, 0)) & 0xff;
+    if (expected !== bytes[bytes.length - 1]) {
+      pushError(result.errors, lineNo, `Checksum mismatch (expected 0x${expected.toString(16).padStart(2, '0')})`);
+      continue;
+    }
+
+    result.recordCount++;
+    const addressBytes = SREC_ADDRESS_BYTES[type];
+    const address = readBigEndian(bytes, 1, addressBytes);
+    const data = bytes.subarray(1 + addressBytes, bytes.length - 1);
+
+    switch (type) {
+      case '0':
+        result.header = new TextDecoder('latin1').decode(data).replace(/\0+$/, '');
+        break;
+      case '1':
+      case '2':
+      case '3':
+        result.chunks.push({ address, data: data.slice() });
+        dataRecords++;
+        break;
+      case '5':
+      case '6':
+        if (address !== dataRecords) {
+          pushError(result.errors, lineNo, `Record count ${address} does not match ${dataRecords} data records`);
+        }
+        break;
+      default: // S7/S8/S9 termination with start address
+        result.entryPoint = address;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,79 @@
+// scan_jobs queue access for the analysis worker.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface ScanJobPayload {
+  fileName: string;
+  metadata: {
+    ecuName: string;
+    ecuType: string;
+    version?: string;
+    manufacturer?: string;
+    architecture: string;
+    deepAnalysis: boolean;
+    complianceFrameworks: string[];
+  };
+}
+
+export interface ScanJob {
+  id: string;
+  scan_id: string;
+  status: 'pending' | 'running' | 'complete' | 'failed' | 'cancelled';
+  payload: ScanJobPayload;
+  attempts: number;
+  max_attempts: number;
+  cancel_requested: boolean;
+}
+
+/** Transient upstream failure (rate limit, exhausted credits): the job is retried later. */
+export class RetryableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RetryableError';
+  }
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Cancelled by user');
+    this.name = 'JobCancelledError';
+  }
+}
+
+const BASE_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 15 * 60_000;
+
+/** Exponential backoff: 30 s, 60 s, 120 s, ... capped at 15 minutes. */
+export function retryDelayMs(attempt: number): number {
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempt - 1));
+}
+
+export async function claimScanJob(supabase: SupabaseClient, workerId: string, scanId?: string): Promise<ScanJob | null> {
+  const { data, error } = await supabase.rpc('claim_scan_job', { p_worker: workerId, p_scan_id: scanId ?? null });
+  if (error) throw new Error(`Could not claim scan job: ${error.message}`);
+  return (data as ScanJob[] | null)?.[0] ?? null;
+}
+
+export async function throwIfCancelled(supabase: SupabaseClient, jobId: string): Promise<void> {
+  const { data } = await supabase.from('scan_jobs').select('cancel_requested').eq('id', jobId).single();
+  if (data?.cancel_requested) throw new JobCancelledError();
+}
+
+export async function finishScanJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  status: 'complete' | 'failed' | 'cancelled',
+  lastError: string | null = null,
+) {
+  await supabase.from('scan_jobs').update({ status, last_error: lastError, locked_at: null, locked_by: null }).eq('id', jobId);
+}
+
+export async function rescheduleScanJob(supabase: SupabaseClient, jobId: string, delayMs: number, lastError: string) {
+  await supabase.from('scan_jobs').update({
+    status: 'pending',
+    run_after: new Date(Date.now() + delayMs).toISOString(),
+    last_error: lastError,
+    locked_at: null,
+    locked_by: null,
+  }).eq('id', jobId);
+}
@@ -0,0 +1,273 @@
+// Evidence-based SBOM: third-party components identified from version
+// banners, exported/recovered function names and distinctive strings in
+// images, and from #include directives and version macros in C sources.
+// Function names only help when the image keeps a symbol table; a stripped
+// image is identified by its banners and the strings listed per component,
+// so a library without either in the image is not reported.
+// Every component carries the evidence it was identified from and a
+// confidence; components the model reports are only kept when their evidence
+// can be found in the file.
+
+import { tokenizeC } from "./c-tokenizer.ts";
+import type { DisassemblyResult } from "./disassembly.ts";
+import type { FirmwareImage } from "./firmware-image.ts";
+import type { ComponentConfidence, ComponentEvidence, SbomFinding } from "./findings.ts";
+
+interface KnownComponent {
+  name: string;
+  /** NVD CPE vendor and product; null for proprietary stacks without CPEs. */
+  cpe: [string, string] | null;
+  license: string | ((version: string | null) => string);
+  /** Version, when present, is the first capture group. */
+  banners: RegExp[];
+  symbols: string[];
+  /** Text that survives stripping, such as error messages and task names. */
+  strings: string[];
+  includes: RegExp | null;
+  versionMacro: string | null;
+}
+
+const KNOWN_COMPONENTS: KnownComponent[] = [
+  {
+    name: 'OpenSSL',
+    cpe: ['openssl', 'openssl'],
+    license: version => (version && Number(version.split('.')[0]) >= 3 ? 'Apache-2.0' : 'OpenSSL'),
+    banners: [/OpenSSL (\d+\.\d+\.\d+[a-z]{0,2})(?:-[\w.]+)? +\d{1,2} \w{3} \d{4}/],
+    symbols: ['SSL_CTX_new', 'SSL_read', 'SSL_write', 'EVP_EncryptInit_ex', 'OPENSSL_init_ssl', 'OPENSSL_init_crypto', 'ERR_get_error'],
+    strings: ['no shared cipher', 'sslv3 alert handshake failure', 'wrong version number'],
+    includes: /^openssl\//,
+    versionMacro: 'OPENSSL_VERSION_TEXT',
+  },
+  {
+    name: 'Mbed TLS',
+    cpe: ['arm', 'mbed_tls'],
+    license: 'Apache-2.0',
+    banners: [/[Mm]bed ?TLS (\d+\.\d+\.\d+)/],
+    symbols: ['mbedtls_ssl_setup', 'mbedtls_ssl_handshake', 'mbedtls_x509_crt_parse', 'mbedtls_aes_setkey_enc', 'mbedtls_md_setup', 'mbedtls_pk_parse_key'],
+    // Error texts, present when built with MBEDTLS_ERROR_C
+    strings: ['SSL - The connection indicated an EOF', 'X509 - The CRT/CRL/CSR format is invalid', 'PK - Invalid key tag or value'],
+    includes: /^mbedtls\//,
+    versionMacro: 'MBEDTLS_VERSION_STRING',
+  },
+  {
+    name: 'wolfSSL',
+    cpe: ['wolfssl', 'wolfssl'],
+    license: 'GPL-2.0-or-later',
+    banners: [/wolfSSL v?(\d+\.\d+\.\d+)/],
+    symbols: ['wolfSSL_Init', 'wolfSSL_CTX_new', 'wolfSSL_connect', 'wolfSSL_read', 'wc_InitRng', 'wc_AesSetKey'],
+    strings: [],
+    includes: /^(wolfssl|cyassl)\//,
+    versionMacro: 'LIBWOLFSSL_VERSION_STRING',
+  },
+  {
+    name: 'zlib',
+    cpe: ['zlib', 'zlib'],
+    license: 'Zlib',
+    banners: [/(?:deflate|inflate) (\d+\.\d+(?:\.\d+){0,2}) Copyright \d{4}-\d{4} (?:Jean-loup Gailly|Mark Adler)/],
+    symbols: ['inflateInit_', 'inflateInit2_', 'deflateInit_', 'deflateInit2_', 'inflateEnd', 'deflateEnd'],
+    strings: ['incorrect header check', 'invalid distance too far back', 'invalid stored block lengths'],
+    includes: /^zlib\.h$/,
+    versionMacro: 'ZLIB_VERSION',
+  },
+  {
+    name: 'lwIP',
+    cpe: ['lwip_project', 'lwip'],
+    license: 'BSD-3-Clause',
+    banners: [/lwIP\/(\d+\.\d+\.\d+)/],
+    symbols: ['lwip_init', 'tcp_input', 'pbuf_alloc', 'netif_add', 'etharp_output', 'udp_sendto', 'lwip_socket'],
+    strings: ['tcpip_thread', 'pbuf_free: p->ref > 0', 'pbuf_alloc: erroneous type'],
+    includes: /^(lwip|netif|arch)\/|^lwipopts\.h$/,
+    versionMacro: 'LWIP_VERSION_STRING',
+  },
+  {
+    name: 'FreeRTOS',
+    cpe: ['amazon', 'freertos'],
+    license: 'MIT',
+    banners: [/FreeRTOS(?: Kernel)? V(\d+\.\d+\.\d+)/],
+    symbols: ['xTaskCreate', 'xTaskCreateStatic', 'vTaskStartScheduler', 'xQueueGenericSend', 'xQueueGenericCreate', 'pvPortMalloc', 'vTaskDelay'],
+    strings: ['Tmr Svc'],
+    includes: /^FreeRTOS\.h$/,
+    versionMacro: 'tskKERNEL_VERSION_NUMBER',
+  },
+  {
+    name: 'libcurl',
+    cpe: ['haxx', 'libcurl'],
+    license: 'curl',
+    banners: [/libcurl\/(\d+\.\d+\.\d+)/],
+    symbols: ['curl_easy_init', 'curl_easy_setopt', 'curl_easy_perform', 'curl_global_init'],
+    strings: ["Couldn't resolve host name", 'Timeout was reached', 'Failed writing received data to disk/application'],
+    includes: /^curl\/curl\.h$/,
+    versionMacro: 'LIBCURL_VERSION',
+  },
+  {
+    name: 'SQLite',
+    cpe: ['sqlite', 'sqlite'],
+    license: 'blessing',
+    banners: [],
+    symbols: ['sqlite3_open', 'sqlite3_open_v2', 'sqlite3_prepare_v2', 'sqlite3_step', 'sqlite3_exec'],
+    strings: ['SQLite format 3', 'database disk image is malformed'],
+    includes: /^sqlite3\.h$/,
+    versionMacro: 'SQLITE_VERSION',
+  },
+  // AUTOSAR basic software stacks identify themselves only by vendor strings
+  {
+    name: 'Vector MICROSAR',
+    cpe: null,
+    license: 'Proprietary',
+    banners: [/MICROSAR(?: Classic)?(?: (\d+\.\d+(?:\.\d+)?))?/],
+    symbols: [],
+    strings: ['Vector Informatik'],
+    includes: null,
+    versionMacro: null,
+  },
+  {
+    name: 'ETAS RTA-OS',
+    cpe: null,
+    license: 'Proprietary',
+    banners: [/RTA-OS(?: v?(\d+\.\d+\.\d+))?/],
+    symbols: ['Os_Cbk_Idle', 'Os_Cbk_GetStopwatch'],
+    strings: [],
+    includes: null,
+    versionMacro: null,
+  },
+  {
+    name: 'Elektrobit EB tresos',
+    cpe: null,
+    license: 'Proprietary',
+    banners: [/EB tresos(?: AutoCore)?(?: (\d+\.\d+\.\d+))?/],
+    symbols: [],
+    strings: ['Elektrobit Automotive'],
+    includes: null,
+    versionMacro: null,
+  },
+];
+
+const MAX_EVIDENCE = 5;
+
+function component(known: KnownComponent, version: string | null, confidence: ComponentConfidence, evidence: ComponentEvidence[]): SbomFinding {
+  const product = known.cpe?.[1] ?? known.name.toLowerCase().replace(/\s+/g, '-');
+  return {
+    component_name: known.name,
+    version,
+    license: typeof known.license === 'string' ? known.license : known.license(version),
+    source_file: evidence[0].detail,
+    vulnerabilities: [],
+    cpe: known.cpe ? `cpe:2.3:a:${known.cpe[0]}:${known.cpe[1]}:${version ?? '*'}:*:*:*:*:*:*:*` : null,
+    purl: `pkg:generic/${product}${version ? `@${version}` : ''}`,
+    confidence,
+    evidence: evidence.slice(0, MAX_EVIDENCE),
+  };
+}
+
+/**
+ * A banner with a version is high confidence; a banner without one, or two
+ * independent fingerprints (symbols or strings), medium. A single
+ * fingerprint is not enough to put a component in the SBOM. Without symbols
+ * only banners and strings can match.
+ */
+export function identifyImageComponents(image: FirmwareImage, disassembly: DisassemblyResult | null): SbomFinding[] {
+  const text = new TextDecoder('latin1').decode(image.data);
+  const names = new Set([
+    ...(disassembly?.functions.map(f => f.name) ?? []),
+    ...(image.elf?.symbols.filter(s => s.name).map(s => s.name) ?? []),
+  ]);
+  const components: SbomFinding[] = [];
+
+  for (const known of KNOWN_COMPONENTS) {
+    const evidence: ComponentEvidence[] = [];
+    let version: string | null = null;
+    let banner = false;
+    for (const pattern of known.banners) {
+      const match = pattern.exec(text);
+      if (!match) continue;
+      banner = true;
+      version ??= match[1] ?? null;
+      evidence.push({ kind: 'banner', detail: match[0], offset: match.index, line: null });
+    }
+    const fingerprints = [
+      ...known.symbols.filter(symbol => names.has(symbol)).map((symbol): ComponentEvidence => ({ kind: 'symbol', detail: symbol, offset: null, line: null })),
+      ...known.strings.flatMap((value): ComponentEvidence[] => {
+        const offset = text.indexOf(value);
+        return offset >= 0 ? [{ kind: 'string', detail: value, offset, line: null }] : [];
+      }),
+    ];
+    evidence.push(...fingerprints);
+    if (!banner && fingerprints.length < 2) continue;
+    components.push(component(known, version, banner && version ? 'high' : 'medium', evidence));
+  }
+  return components;
+}
+
+/** Components a C source pulls in through #include, with the version when it defines the library's version macro. */
+export function identifySourceComponents(source: string): SbomFinding[] {
+  const directives = tokenizeC(source).filter(t => t.kind === 'directive');
+  const components: SbomFinding[] = [];
+
+  for (const known of KNOWN_COMPONENTS) {
+    const evidence: ComponentEvidence[] = [];
+    let version: string | null = null;
+    for (const directive of directives) {
+      const include = directive.value.match(/^#\s*include\s*[<"]([^>"]+)[>"]/);
+      if (include && known.includes?.test(include[1])) {
+        evidence.push({ kind: 'include', detail: directive.value.trim(), offset: null, line: directive.line });
+      }
+      const define = directive.value.match(/^#\s*define\s+(\w+)\s+"[^"\d]*(\d+(?:\.\d+)+[a-z]{0,2})/);
+      if (define && define[1] === known.versionMacro) {
+        version = define[2];
+        evidence.push({ kind: 'version-macro', detail: directive.value.trim(), offset: null, line: directive.line });
+      }
+    }
+    if (evidence.length === 0) continue;
+    components.push(component(known, version, version ? 'high' : 'medium', evidence));
+  }
+  return components;
+}
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Model-reported components: those naming an identified component are
+ * replaced by it (keeping the model's CVEs when the versions agree), the rest
+ * are kept at low confidence only if the evidence quoted in source_file occurs
+ * in the file.
+ */
+export function reconcileReportedComponents(
+  reported: SbomFinding[],
+  identified: SbomFinding[],
+  text: string,
+  isSource: boolean,
+): { components: SbomFinding[]; dropped: number } {
+  const components = identified.map(c => ({ ...c }));
+  let dropped = 0;
+  for (const candidate of reported) {
+    const match = components.find(c => normalize(c.component_name) === normalize(candidate.component_name));
+    if (match) {
+      if (match.version && candidate.version === match.version) {
+        match.vulnerabilities = [...new Set([...(match.vulnerabilities ?? []), ...(candidate.vulnerabilities ?? [])])];
+      }
+      continue;
+    }
+    const quoted = candidate.source_file?.trim();
+    const index = quoted && quoted.length >= 4 ? text.indexOf(quoted) : -1;
+    if (index < 0) {
+      dropped++;
+      continue;
+    }
+    components.push({
+      ...candidate,
+      confidence: 'low',
+      evidence: [{
+        kind: 'llm',
+        detail: quoted!,
+        offset: isSource ? null : index,
+        line: isSource ? text.slice(0, index).split('\n').length : null,
+      }],
+    });
+  }
+  return { components, dropped };
+}
+
+/** Compact text form for the LLM prompt. */
+export function describeComponents(components: SbomFinding[]): string {
+  return components.map(c => `${c.component_name}${c.version ? ` ${c.version}` : ''} (${c.confidence}, ${c.evidence?.[0]?.kind})`).join(', ');
+}
@@ -0,0 +1,268 @@
+// Deterministic secret and PII scanner. Runs the pattern set over the whole
+// source file or reconstructed image, so every hit carries its real byte
+// offset (and line number for text), independent of what the LLM sees.
+
+import type { VulnerabilityFinding } from "./findings.ts";
+import { toByteString } from "./signatures.ts";
+
+export type SensitiveKind = 'secret' | 'pii';
+
+export interface SensitivePattern {
+  name: string;
+  regex: RegExp;
+  type: string;
+  severity: VulnerabilityFinding['severity'];
+  /** Minimum Shannon entropy (bits/char) of the captured value. */
+  minEntropy?: number;
+  validate?: (value: string, match: RegExpMatchArray) => boolean;
+}
+
+export interface SensitiveMatch {
+  kind: SensitiveKind;
+  pattern: SensitivePattern;
+  value: string;
+  offset: number;
+  length: number;
+  line: number | null;
+  entropy: number;
+  context: string;
+}
+
+// Patterns with a `value` group report the group as the secret value; the
+// offset still points at the start of the full match.
+export const SECRET_PATTERNS: SensitivePattern[] = [
+  { name: 'AWS Access Key', regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g, type: 'aws_key', severity: 'critical' },
+  {
+    name: 'AWS Secret Key',
+    regex: /(?<![A-Za-z0-9/+=])[A-Za-z0-9/+=]{40}(?![A-Za-z0-9/+=])/g,
+    type: 'aws_secret',
+    severity: 'critical',
+    minEntropy: 4.3,
+    validate: v => /[A-Z]/.test(v) && /[a-z]/.test(v) && /\d/.test(v),
+  },
+  {
+    name: 'API Key',
+    regex: /api[_-]?key['":\s]*[=:]\s*['"]?(?<value>[A-Za-z0-9_-]{20,})/gi,
+    type: 'api_key',
+    severity: 'high',
+    minEntropy: 3.5,
+  },
+  {
+    name: 'Password',
+    regex: /\b(?:pass(?:word|wd)?|pwd)['":\s]*[=:]\s*(?<quote>['"])?(?<value>[^\s'";,()]{8,})/gi,
+    type: 'password',
+    severity: 'critical',
+    // Unquoted identifiers are assignments from variables, not literals
+    validate: (v, m) => m.groups?.quote !== undefined || !/^[A-Za-z_][A-Za-z0-9_.]*$/.test(v),
+  },
+  { name: 'Private Key', regex: /-----BEGIN (?:RSA |EC |DSA |OPENSSH )?PRIVATE KEY-----/g, type: 'private_key', severity: 'critical' },
+  { name: 'JWT Token', regex: /eyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]+/g, type: 'jwt', severity: 'high' },
+  { name: 'Bearer Token', regex: /bearer\s+(?<value>[A-Za-z0-9_\-.=]{16,})/gi, type: 'bearer', severity: 'high', minEntropy: 3.5 },
+  { name: 'GitHub Token', regex: /\bgh[pousr]_[A-Za-z0-9_]{36,}/g, type: 'github_token', severity: 'critical' },
+];
+
+export const PII_PATTERNS: SensitivePattern[] = [
+  { name: 'Email Address', regex: /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g, type: 'email', severity: 'medium' },
+  {
+    name: 'Phone Number',
+    regex: /(?<![\d.])(?:\+\d{1,3}[-.\s]?)?\(?\d{3}\)?[-.\s]\d{3}[-.\s]\d{4}(?![\d.])/g,
+    type: 'phone',
+    severity: 'medium',
+  },
+  {
+    name: 'IP Address',
+    regex: /\b(?:\d{1,3}\.){3}\d{1,3}\b/g,
+    type: 'ip_address',
+    severity: 'low',
+    validate: v => v.split('.').every(octet => Number(octet) <= 255),
+  },
+  { name: 'MAC Address', regex: /\b(?:[0-9A-Fa-f]{2}[:-]){5}[0-9A-Fa-f]{2}\b/g, type: 'mac_address', severity: 'low' },
+  { name: 'Credit Card', regex: /\b(?:\d{4}[-\s]?){3}\d{4}\b/g, type: 'credit_card', severity: 'critical', validate: luhnValid },
+  {
+    name: 'SSN',
+    regex: /\b\d{3}-\d{2}-\d{4}\b/g,
+    type: 'ssn',
+    severity: 'critical',
+    validate: v => !/^(000|666|9\d\d)|-00-|-0000$/.test(v),
+  },
+];
+
+// Values that are documentation placeholders, loopback/broadcast addresses or
+// reserved example domains rather than real data.
+const ALLOWLIST: RegExp[] = [
+  /^(x+|\*+|\.+|0+|1234567890?)$/i,
+  /(example|placeholder|changeme_?later|your[_-]?(api[_-]?)?(key|token|password|secret)|dummy|redacted|<[^>]*>|\$\{[^}]*\})/i,
+  /@(example\.(com|org|net)|localhost|test)$/i,
+  /^(0\.0\.0\.0|127\.0\.0\.1|255\.255\.255\.255|192\.0\.2\.\d+|198\.51\.100\.\d+|203\.0\.113\.\d+)$/,
+  /^(00[:-]){5}00$|^(ff[:-]){5}ff$/i,
+];
+
+/** Appending this marker to a source line suppresses findings on that line. */
+const INLINE_ALLOW = /secret-scan:\s*allow/i;
+
+const MAX_FINDINGS = 200;
+const CONTEXT_LINES = 1;
+
+function luhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0 && !/^(\d)\1+$/.test(digits);
+}
+
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const ch of value) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function isAllowListed(value: string): boolean {
+  return ALLOWLIST.some(re => re.test(value));
+}
+
+function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) === 0x0a) starts.push(i + 1);
+  }
+  return starts;
+}
+
+function lineIndexAt(starts: number[], offset: number): number {
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (starts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+function lineAt(text: string, starts: number[], index: number): string {
+  const end = index + 1 < starts.length ? starts[index + 1] - 1 : text.length;
+  return text.slice(starts[index], end).replace(/\r$/, '');
+}
+
+/** The printable run around a binary hit, since binaries have no lines. */
+function printableRun(text: string, offset: number, length: number): string {
+  const printable = (c: number) => c >= 0x20 && c < 0x7f;
+  let start = offset;
+  let end = offset + length;
+  while (start > 0 && offset - start < 64 && printable(text.charCodeAt(start - 1))) start--;
+  while (end < text.length && end - offset - length < 64 && printable(text.charCodeAt(end))) end++;
+  return text.slice(start, end);
+}
+
+export function maskSecret(value: string): string {
+  if (value.length <= 8) return '••••••••';
+  return value.slice(0, 4) + '••••' + value.slice(-4);
+}
+
+/**
+ * Scans `data` for secrets and PII. With `isText` set, hits carry 1-based
+ * line numbers and the surrounding lines as context; otherwise the context
+ * is the printable string the hit sits in.
+ */
+export function scanSensitiveData(data: Uint8Array, isText: boolean): { matches: SensitiveMatch[]; truncated: boolean } {
+  const text = toByteString(data);
+  const starts = isText ? lineStarts(text) : [];
+  const matches: SensitiveMatch[] = [];
+  const seen = new Set<string>();
+  let truncated = false;
+
+  const groups: [SensitiveKind, SensitivePattern[]][] = [['secret', SECRET_PATTERNS], ['pii', PII_PATTERNS]];
+  for (const [kind, patterns] of groups) {
+    for (const pattern of patterns) {
+      const regex = new RegExp(pattern.regex.source, pattern.regex.flags);
+      for (const m of text.matchAll(regex)) {
+        const value = m.groups?.value ?? m[0];
+        const offset = m.index!;
+        const entropy = shannonEntropy(value);
+        if (pattern.minEntropy !== undefined && entropy < pattern.minEntropy) continue;
+        if (pattern.validate && !pattern.validate(value, m)) continue;
+        if (isAllowListed(value)) continue;
+
+        let line: number | null = null;
+        let context: string;
+        if (isText) {
+          const index = lineIndexAt(starts, offset);
+          if (INLINE_ALLOW.test(lineAt(text, starts, index))) continue;
+          line = index + 1;
+          const from = Math.max(0, index - CONTEXT_LINES);
+          const to = Math.min(starts.length - 1, index + CONTEXT_LINES);
+          const lines: string[] = [];
+          for (let i = from; i <= to; i++) lines.push(lineAt(text, starts, i));
+          context = lines.join('\n');
+        } else {
+          context = printableRun(text, offset, m[0].length);
+        }
+
+        // A longer secret pattern (e.g. a JWT) may also satisfy a generic one
+        const key = `${offset}|${kind}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        if (matches.length >= MAX_FINDINGS) {
+          truncated = true;
+          break;
+        }
+        matches.push({ kind, pattern, value, offset, length: m[0].length, line, entropy, context });
+      }
+    }
+  }
+
+  return { matches: matches.sort((a, b) => a.offset - b.offset), truncated };
+}
+
+export function sensitiveFindings(matches: SensitiveMatch[], fileName: string): VulnerabilityFinding[] {
+  return matches.map(match => {
+    const where = match.line !== null ? `line ${match.line}` : `offset 0x${match.offset.toString(16)}`;
+    const masked = maskSecret(match.value);
+    const context = match.kind === 'secret' ? match.context.split(match.value).join(masked) : match.context;
+
+    return match.kind === 'secret'
+      ? {
+        cwe_id: 'CWE-798',
+        severity: match.pattern.severity,
+        title: `Hardcoded Secret: ${match.pattern.name}`,
+        description: `Hardcoded ${match.pattern.type} at ${where}. Masked value: ${masked} (entropy ${match.entropy.toFixed(2)} bits/char)`,
+        affected_component: fileName,
+        line_number: match.line,
+        byte_offset: match.offset,
+        byte_length: match.length,
+        code_snippet: context,
+        detection_method: 'pattern',
+        remediation: 'Use secure key management (HSM/TPM), environment variables, or encrypted configuration.',
+        attack_vector: 'Credential extraction via firmware analysis, enabling unauthorized access',
+        impact: 'Full system compromise, unauthorized access, lateral movement',
+      }
+      : {
+        cwe_id: 'CWE-359',
+        severity: match.pattern.severity,
+        title: `PII Exposure: ${match.pattern.name}`,
+        description: `Personal Identifiable Information (${match.pattern.type}) at ${where}. Value: ${match.value}`,
+        affected_component: fileName,
+        line_number: match.line,
+        byte_offset: match.offset,
+        byte_length: match.length,
+        code_snippet: context,
+        detection_method: 'pattern',
+        remediation: 'Remove or encrypt PII. Use secure storage mechanisms.',
+        attack_vector: 'Data extraction through reverse engineering or memory dump',
+        impact: 'Privacy violation, GDPR/regulatory compliance issues',
+      };
+  });
+}
@@ -0,0 +1,77 @@
+// Runs the built-in and user-uploaded signature packs against a firmware
+// image and turns rule matches into vulnerability findings.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { offsetToAddress, type FirmwareImage } from "./firmware-image.ts";
+import type { VulnerabilityFinding } from "./findings.ts";
+import { BUILTIN_SIGNATURE_PACKS } from "./signature-packs.ts";
+import { matchSignatures, parseSignatureRules, type RuleMatch, type SignatureRule } from "./signatures.ts";
+
+const SEVERITIES = new Set(['critical', 'high', 'medium', 'low', 'info']);
+const MAX_LISTED_MATCHES = 5;
+
+let builtinRules: SignatureRule[] | null = null;
+
+function getBuiltinRules(): SignatureRule[] {
+  builtinRules ??= BUILTIN_SIGNATURE_PACKS.flatMap(pack => parseSignatureRules(pack.source, pack.name));
+  return builtinRules;
+}
+
+/** Built-in packs plus the user's enabled rule files. Broken user files are reported, not fatal. */
+async function loadSignatureRules(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<{ rules: SignatureRule[]; errors: string[] }> {
+  const rules = [...getBuiltinRules()];
+  const errors: string[] = [];
+
+  const { data } = await supabase.from('signature_rules').select('name, source').eq('user_id', userId).eq('enabled', true);
+  for (const file of data ?? []) {
+    try {
+      rules.push(...parseSignatureRules(file.source, file.name));
+    } catch (e) {
+      errors.push(`${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  return { rules, errors };
+}
+
+function formatLocation(image: FirmwareImage, offset: number): string {
+  const address = offsetToAddress(image, offset);
+  const at = `offset 0x${offset.toString(16)}`;
+  return address !== null && image.format !== 'raw' ? `${at} (address 0x${address.toString(16).padStart(8, '0')})` : at;
+}
+
+function signatureFindings(matches: RuleMatch[], image: FirmwareImage, fileName: string): VulnerabilityFinding[] {
+  return matches.map(({ rule, matches: hits }) => {
+    const first = hits[0];
+    const severity = String(rule.meta.severity ?? 'medium');
+    const listed = hits.slice(0, MAX_LISTED_MATCHES).map(h => `$${h.id} at ${formatLocation(image, h.offset)}`);
+    const more = hits.length > MAX_LISTED_MATCHES ? `; ${hits.length - MAX_LISTED_MATCHES} more` : '';
+    const description = String(rule.meta.description ?? rule.name);
+
+    return {
+      cwe_id: rule.meta.cwe ? String(rule.meta.cwe) : null,
+      severity: (SEVERITIES.has(severity) ? severity : 'medium') as VulnerabilityFinding['severity'],
+      title: `Signature match: ${rule.name}`,
+      description: `${description}. ${listed.length > 0 ? `Matched ${listed.join(', ')}${more}` : 'Matched private strings only'}. [${rule.pack}/${rule.name}]`,
+      affected_component: fileName,
+      code_snippet: rule.strings.find(s => s.id === first?.id)?.source ?? null,
+      byte_offset: first?.offset ?? null,
+      byte_length: first?.length ?? null,
+      detection_method: 'yara',
+      remediation: rule.meta.remediation ? String(rule.meta.remediation) : null,
+    };
+  });
+}
+
+export async function scanSignatures(
+  supabase: SupabaseClient,
+  userId: string,
+  image: FirmwareImage,
+  fileName: string,
+): Promise<{ findings: VulnerabilityFinding[]; ruleCount: number; errors: string[] }> {
+  const { rules, errors } = await loadSignatureRules(supabase, userId);
+  const matches = matchSignatures(rules, image.data);
+  return { findings: signatureFindings(matches, image, fileName), ruleCount: rules.length, errors };
+}
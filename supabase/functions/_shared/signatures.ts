@@ -0,0 +1,615 @@
+// YARA-style signature engine. Supports the subset of the YARA language
+// that firmware rule packs need:
+//
+//   rule Name : tag1 tag2 {
+//     meta:      key = "value" | 123 | true
+//     strings:   $a = "text" [nocase] [wide] [ascii] [fullword] [private]
+//                $b = { 63 7C ?? 7B [2-4] (F2 | F3) ?B }
+//                $c = /regex/[is]
+//     condition: boolean expression over $a, #a (count), @a (first offset),
+//                filesize, `N of (them | $a, $b*)`, and/or/not
+//   }
+//
+// Every string is compiled to a RegExp that runs over a one-char-per-byte
+// view of the image, so hex and text patterns share a single matcher.
+
+export type SignatureSeverity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+
+export interface SignatureString {
+  id: string;
+  kind: 'text' | 'hex' | 'regex';
+  source: string;
+  pattern: RegExp;
+  /** Counts towards the condition but is left out of the reported matches. */
+  private: boolean;
+}
+
+export interface SignatureRule {
+  name: string;
+  tags: string[];
+  meta: Record<string, string | number | boolean>;
+  strings: SignatureString[];
+  condition: ConditionNode;
+  pack: string;
+}
+
+export interface StringMatch {
+  id: string;
+  offset: number;
+  length: number;
+}
+
+export interface RuleMatch {
+  rule: SignatureRule;
+  matches: StringMatch[];
+}
+
+type ConditionNode =
+  | { type: 'and' | 'or'; left: ConditionNode; right: ConditionNode }
+  | { type: 'not'; operand: ConditionNode }
+  | { type: 'bool'; value: boolean }
+  | { type: 'string'; id: string }
+  | { type: 'compare'; left: ValueNode; op: string; right: ValueNode }
+  | { type: 'of'; quantifier: 'any' | 'all' | number; ids: string[] | 'them' };
+
+type ValueNode =
+  | { type: 'number'; value: number }
+  | { type: 'count' | 'offset'; id: string }
+  | { type: 'filesize' };
+
+// Matches kept per string for reporting; conditions see the full count
+const MAX_MATCHES_PER_STRING = 64;
+// Rules are user-supplied: hits counted per rule and scan time per rule are
+// bounded, and regexes that could backtrack catastrophically are refused
+const MAX_HITS_PER_RULE = 10000;
+const MAX_RULE_SCAN_MS = 2000;
+const MAX_REGEX_LENGTH = 256;
+
+// ---------------------------------------------------------------------------
+// Lexer
+
+type TokenKind = 'ident' | 'string' | 'number' | 'var' | 'count' | 'offset' | 'regex' | 'hex' | 'punct' | 'eof';
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+  line: number;
+}
+
+class RuleLexer {
+  private pos = 0;
+  private line = 1;
+
+  constructor(private readonly text: string) {}
+
+  private error(message: string): never {
+    throw new Error(`line ${this.line}: ${message}`);
+  }
+
+  private skipSpaceAndComments() {
+    for (;;) {
+      const ch = this.text[this.pos];
+      if (ch === '\n') { this.line++; this.pos++; continue; }
+      if (ch === ' ' || ch === '\t' || ch === '\r') { this.pos++; continue; }
+      if (ch === '/' && this.text[this.pos + 1] === '/') {
+        while (this.pos < this.text.length && this.text[this.pos] !== '\n') this.pos++;
+        continue;
+      }
+      if (ch === '/' && this.text[this.pos + 1] === '*') {
+        const end = this.text.indexOf('*/', this.pos + 2);
+        if (end < 0) this.error('unterminated comment');
+        for (let i = this.pos; i < end; i++) if (this.text[i] === '\n') this.line++;
+        this.pos = end + 2;
+        continue;
+      }
+      return;
+    }
+  }
+
+  peek(): Token {
+    const { pos, line } = this;
+    const token = this.next();
+    this.pos = pos;
+    this.line = line;
+    return token;
+  }
+
+  /**
+   * `valueContext` is set after `=` in a strings section, where `{` starts a
+   * hex string and `/` starts a regex.
+   */
+  next(valueContext = false): Token {
+    this.skipSpaceAndComments();
+    const line = this.line;
+    const ch = this.text[this.pos];
+    if (ch === undefined) return { kind: 'eof', value: '', line };
+
+    if (valueContext && ch === '{') {
+      const end = this.text.indexOf('}', this.pos);
+      if (end < 0) this.error('unterminated hex string');
+      const body = this.text.slice(this.pos + 1, end);
+      this.line += body.split('\n').length - 1;
+      this.pos = end + 1;
+      return { kind: 'hex', value: body, line };
+    }
+
+    if (valueContext && ch === '/') {
+      let i = this.pos + 1;
+      while (i < this.text.length && this.text[i] !== '/') {
+        if (this.text[i] === '\\') i++;
+        if (this.text[i] === '\n') this.error('unterminated regex');
+        i++;
+      }
+      let flagsEnd = i + 1;
+      while (/[is]/.test(this.text[flagsEnd] ?? '')) flagsEnd++;
+      const value = this.text.slice(this.pos, flagsEnd);
+      this.pos = flagsEnd;
+      return { kind: 'regex', value, line };
+    }
+
+    if (ch === '"') {
+      let i = this.pos + 1;
+      let value = '';
+      while (i < this.text.length && this.text[i] !== '"') {
+        if (this.text[i] === '\n') this.error('unterminated string');
+        if (this.text[i] === '\\') {
+          const esc = this.text[i + 1];
+          if (esc === 'x') {
+            value += String.fromCharCode(parseInt(this.text.slice(i + 2, i + 4), 16));
+            i += 4;
+            continue;
+          }
+          value += esc === 'n' ? '\n' : esc === 't' ? '\t' : esc === 'r' ? '\r' : esc;
+          i += 2;
+          continue;
+        }
+        value += this.text[i++];
+      }
+      this.pos = i + 1;
+      return { kind: 'string', value, line };
+    }
+
+    if (ch === '$' || ch === '#' || ch === '@') {
+      const match = /^[$#@][A-Za-z0-9_]*\*?/.exec(this.text.slice(this.pos));
+      this.pos += match![0].length;
+      const kind = ch === '$' ? 'var' : ch === '#' ? 'count' : 'offset';
+      return { kind, value: match![0].slice(1), line };
+    }
+
+    const number = /^(0x[0-9a-fA-F]+|\d+)(KB|MB)?/.exec(this.text.slice(this.pos));
+    if (number) {
+      this.pos += number[0].length;
+      let value = Number(number[1]);
+      if (number[2] === 'KB') value *= 1024;
+      if (number[2] === 'MB') value *= 1024 * 1024;
+      return { kind: 'number', value: String(value), line };
+    }
+
+    const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(this.text.slice(this.pos));
+    if (ident) {
+      this.pos += ident[0].length;
+      return { kind: 'ident', value: ident[0], line };
+    }
+
+    const punct = /^(==|!=|<=|>=|[{}():=<>,])/.exec(this.text.slice(this.pos));
+    if (!punct) this.error(`unexpected character '${ch}'`);
+    this.pos += punct[0].length;
+    return { kind: 'punct', value: punct[0], line };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Pattern compilation
+
+function byteEscape(code: number): string {
+  return `\\x${(code & 0xff).toString(16).padStart(2, '0')}`;
+}
+
+function compileText(value: string, modifiers: Set<string>): RegExp {
+  const ascii = [...value].map(c => byteEscape(c.charCodeAt(0))).join('');
+  const wide = [...value].map(c => byteEscape(c.charCodeAt(0)) + '\\x00').join('');
+  const variants: string[] = [];
+  if (modifiers.has('ascii') || !modifiers.has('wide')) variants.push(ascii);
+  if (modifiers.has('wide')) variants.push(wide);
+
+  let source = variants.length > 1 ? `(?:${variants.join('|')})` : variants[0];
+  if (modifiers.has('fullword')) source = `(?<![A-Za-z0-9_])${source}(?![A-Za-z0-9_])`;
+  return new RegExp(source, modifiers.has('nocase') ? 'gi' : 'g');
+}
+
+function nibbleClass(high: string, low: string): string {
+  if (high === '?' && low === '?') return '[\\s\\S]';
+  const codes: number[] = [];
+  for (let n = 0; n < 16; n++) {
+    codes.push(high === '?' ? (n << 4) | parseInt(low, 16) : (parseInt(high, 16) << 4) | n);
+  }
+  return `[${codes.map(byteEscape).join('')}]`;
+}
+
+function compileHex(body: string, line: number): RegExp {
+  const tokens = body.match(/\[\s*\d*\s*-?\s*\d*\s*\]|[0-9A-Fa-f?]{2}|[()|]|\S/g) ?? [];
+  let source = '';
+  for (const token of tokens) {
+    if (/^[0-9A-Fa-f?]{2}$/.test(token)) {
+      source += /\?/.test(token) ? nibbleClass(token[0], token[1]) : byteEscape(parseInt(token, 16));
+    } else if (token.startsWith('[')) {
+      const [, min, dash, max] = /\[\s*(\d*)\s*(-?)\s*(\d*)\s*\]/.exec(token)!;
+      source += dash ? `[\\s\\S]{${min || 0},${max}}` : `[\\s\\S]{${min}}`;
+    } else if (token === '(') {
+      source += '(?:';
+    } else if (token === ')' || token === '|') {
+      source += token;
+    } else {
+      throw new Error(`line ${line}: invalid hex string token '${token}'`);
+    }
+  }
+  if (!source) throw new Error(`line ${line}: empty hex string`);
+  return new RegExp(source, 'g');
+}
+
+/** True when a quantified group itself contains a quantifier, e.g. (a+)+ or (\w*x)*. */
+function hasNestedQuantifier(source: string): boolean {
+  const groups: boolean[] = [];
+  let quantified = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '\\') {
+      i++;
+    } else if (ch === '[') {
+      while (i < source.length && source[i] !== ']') i += source[i] === '\\' ? 2 : 1;
+    } else if (ch === '(') {
+      groups.push(quantified);
+      quantified = false;
+    } else if (ch === ')') {
+      const inner: boolean = quantified;
+      quantified = groups.pop() ?? false;
+      if (inner && /^([*+]|\{\d+,\d*\})/.test(source.slice(i + 1))) return true;
+      quantified ||= inner;
+    } else if (ch === '*' || ch === '+' || (ch === '{' && /^\{\d+,\d*\}/.test(source.slice(i)))) {
+      quantified = true;
+    }
+  }
+  return false;
+}
+
+function compileRegex(literal: string, line: number): RegExp {
+  const end = literal.lastIndexOf('/');
+  const flags = literal.slice(end + 1);
+  const source = literal.slice(1, end);
+  if (source.length > MAX_REGEX_LENGTH) throw new Error(`line ${line}: regex longer than ${MAX_REGEX_LENGTH} characters`);
+  if (hasNestedQuantifier(source)) throw new Error(`line ${line}: nested quantifiers such as (a+)+ are not allowed`);
+  try {
+    return new RegExp(source, `g${flags}`);
+  } catch (e) {
+    throw new Error(`line ${line}: invalid regex: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+
+class RuleParser {
+  private lexer: RuleLexer;
+  private token: Token;
+
+  constructor(text: string, private readonly pack: string) {
+    this.lexer = new RuleLexer(text);
+    this.token = this.lexer.next();
+  }
+
+  private advance(valueContext = false) {
+    this.token = this.lexer.next(valueContext);
+  }
+
+  private error(message: string): never {
+    throw new Error(`line ${this.token.line}: ${message}`);
+  }
+
+  private expect(value: string, valueContext = false) {
+    if (this.token.value !== value) this.error(`expected '${value}' but found '${this.token.value || 'end of file'}'`);
+    this.advance(valueContext);
+  }
+
+  parseRules(): SignatureRule[] {
+    const rules: SignatureRule[] = [];
+    while (this.token.kind !== 'eof') {
+      if (this.token.kind === 'ident' && this.token.value === 'import') {
+        this.error('imports are not supported');
+      }
+      // Private rules only make sense when other rules reference them, which this engine does not support
+      if (this.token.value === 'private') this.error('private rules are not supported');
+      while (this.token.value === 'global') this.advance();
+      rules.push(this.parseRule());
+    }
+    return rules;
+  }
+
+  private parseRule(): SignatureRule {
+    this.expect('rule');
+    if (this.token.kind !== 'ident') this.error('expected rule name');
+    const name = this.token.value;
+    this.advance();
+
+    const tags: string[] = [];
+    if (this.token.value === ':') {
+      this.advance();
+      while (this.token.kind === 'ident') {
+        tags.push(this.token.value);
+        this.advance();
+      }
+    }
+    this.expect('{');
+
+    const meta: SignatureRule['meta'] = {};
+    const strings: SignatureString[] = [];
+    let condition: ConditionNode | null = null;
+
+    while (this.token.value !== '}') {
+      const section = this.token.value;
+      this.advance();
+      this.expect(':');
+      if (section === 'meta') {
+        while (this.token.kind === 'ident' && !['strings', 'condition'].includes(this.token.value)) {
+          const key = this.token.value;
+          this.advance();
+          this.expect('=');
+          const value = this.token;
+          this.advance();
+          meta[key] = value.kind === 'number' ? Number(value.value)
+            : value.value === 'true' ? true
+            : value.value === 'false' ? false
+            : value.value;
+        }
+      } else if (section === 'strings') {
+        while (this.token.kind === 'var') {
+          strings.push(this.parseString(strings.length));
+        }
+      } else if (section === 'condition') {
+        condition = this.parseOr();
+      } else {
+        this.error(`unknown section '${section}'`);
+      }
+    }
+    this.advance();
+
+    if (!condition) throw new Error(`rule ${name}: missing condition`);
+    const ids = new Set(strings.map(s => s.id));
+    for (const id of referencedIds(condition)) {
+      if (!id.endsWith('*') && !ids.has(id)) throw new Error(`rule ${name}: condition references undefined string $${id}`);
+    }
+    return { name, tags, meta, strings, condition, pack: this.pack };
+  }
+
+  private parseString(index: number): SignatureString {
+    const id = this.token.value || `anon${index}`;
+    const line = this.token.line;
+    this.advance();
+    this.expect('=', true);
+
+    const value = this.token;
+    this.advance();
+    const modifiers = new Set<string>();
+    while (this.token.kind === 'ident' && ['nocase', 'wide', 'ascii', 'fullword', 'private'].includes(this.token.value)) {
+      modifiers.add(this.token.value);
+      this.advance();
+    }
+
+    const isPrivate = modifiers.has('private');
+    switch (value.kind) {
+      case 'string':
+        return { id, kind: 'text', source: value.value, pattern: compileText(value.value, modifiers), private: isPrivate };
+      case 'hex':
+        return { id, kind: 'hex', source: value.value.trim(), pattern: compileHex(value.value, line), private: isPrivate };
+      case 'regex':
+        return { id, kind: 'regex', source: value.value, pattern: compileRegex(value.value, line), private: isPrivate };
+      default:
+        throw new Error(`line ${line}: expected a string, hex string or regex for $${id}`);
+    }
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+    while (this.token.value === 'or') {
+      this.advance();
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseNot();
+    while (this.token.value === 'and') {
+      this.advance();
+      left = { type: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.token.value === 'not') {
+      this.advance();
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.token;
+
+    if (token.value === '(') {
+      this.advance();
+      const inner = this.parseOr();
+      this.expect(')');
+      return inner;
+    }
+    if (token.value === 'true' || token.value === 'false') {
+      this.advance();
+      return { type: 'bool', value: token.value === 'true' };
+    }
+    if (token.value === 'any' || token.value === 'all' || (token.kind === 'number' && this.peekIsOf())) {
+      this.advance();
+      this.expect('of');
+      return { type: 'of', quantifier: token.kind === 'number' ? Number(token.value) : token.value as 'any' | 'all', ids: this.parseStringSet() };
+    }
+    if (token.kind === 'var') {
+      this.advance();
+      return { type: 'string', id: token.value };
+    }
+
+    const left = this.parseValue();
+    if (!['==', '!=', '<', '<=', '>', '>='].includes(this.token.value)) this.error('expected a comparison operator');
+    const op = this.token.value;
+    this.advance();
+    return { type: 'compare', left, op, right: this.parseValue() };
+  }
+
+  // `3 of them` vs a numeric comparison such as `3 < #a`
+  private peekIsOf(): boolean {
+    return this.lexer.peek().value === 'of';
+  }
+
+  private parseStringSet(): string[] | 'them' {
+    if (this.token.value === 'them') {
+      this.advance();
+      return 'them';
+    }
+    this.expect('(');
+    const ids: string[] = [];
+    while (this.token.kind === 'var') {
+      ids.push(this.token.value);
+      this.advance();
+      if (this.token.value !== ',') break;
+      this.advance();
+    }
+    this.expect(')');
+    return ids;
+  }
+
+  private parseValue(): ValueNode {
+    const token = this.token;
+    this.advance();
+    if (token.kind === 'number') return { type: 'number', value: Number(token.value) };
+    if (token.kind === 'count') return { type: 'count', id: token.value };
+    if (token.kind === 'offset') return { type: 'offset', id: token.value };
+    if (token.value === 'filesize') return { type: 'filesize' };
+    throw new Error(`line ${token.line}: unexpected '${token.value}' in condition`);
+  }
+}
+
+function referencedIds(node: ConditionNode): string[] {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return [...referencedIds(node.left), ...referencedIds(node.right)];
+    case 'not':
+      return referencedIds(node.operand);
+    case 'string':
+      return [node.id];
+    case 'of':
+      return node.ids === 'them' ? [] : node.ids;
+    case 'compare':
+      return [node.left, node.right].flatMap(v => (v.type === 'count' || v.type === 'offset' ? [v.id] : []));
+    default:
+      return [];
+  }
+}
+
+/** Parses a rule file. Throws with a line number on the first syntax error. */
+export function parseSignatureRules(text: string, pack = 'custom'): SignatureRule[] {
+  return new RuleParser(text, pack).parseRules();
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+
+/** One UTF-16 code unit per byte, so RegExp offsets are byte offsets. */
+export function toByteString(data: Uint8Array): string {
+  const parts: string[] = [];
+  for (let i = 0; i < data.length; i += 0x8000) {
+    parts.push(String.fromCharCode(...data.subarray(i, i + 0x8000)));
+  }
+  return parts.join('');
+}
+
+function expandIds(ids: string[] | 'them', rule: SignatureRule): string[] {
+  const all = rule.strings.map(s => s.id);
+  if (ids === 'them') return all;
+  return ids.flatMap(id => (id.endsWith('*') ? all.filter(a => a.startsWith(id.slice(0, -1))) : [id]));
+}
+
+interface StringHits {
+  count: number;
+  firstOffset: number;
+}
+
+function evaluate(node: ConditionNode, rule: SignatureRule, hits: Map<string, StringHits>, fileSize: number): boolean {
+  const count = (id: string) => hits.get(id)?.count ?? 0;
+  const value = (v: ValueNode): number => {
+    switch (v.type) {
+      case 'number': return v.value;
+      case 'count': return count(v.id);
+      case 'offset': return hits.get(v.id)?.firstOffset ?? -1;
+      case 'filesize': return fileSize;
+    }
+  };
+
+  switch (node.type) {
+    case 'and': return evaluate(node.left, rule, hits, fileSize) && evaluate(node.right, rule, hits, fileSize);
+    case 'or': return evaluate(node.left, rule, hits, fileSize) || evaluate(node.right, rule, hits, fileSize);
+    case 'not': return !evaluate(node.operand, rule, hits, fileSize);
+    case 'bool': return node.value;
+    case 'string': return count(node.id) > 0;
+    case 'of': {
+      const ids = expandIds(node.ids, rule);
+      const matched = ids.filter(id => count(id) > 0).length;
+      const needed = node.quantifier === 'any' ? 1 : node.quantifier === 'all' ? ids.length : node.quantifier;
+      return matched >= needed;
+    }
+    case 'compare': {
+      const l = value(node.left);
+      const r = value(node.right);
+      switch (node.op) {
+        case '==': return l === r;
+        case '!=': return l !== r;
+        case '<': return l < r;
+        case '<=': return l <= r;
+        case '>': return l > r;
+        default: return l >= r;
+      }
+    }
+  }
+}
+
+export function matchSignatures(rules: SignatureRule[], data: Uint8Array): RuleMatch[] {
+  const haystack = toByteString(data);
+  const results: RuleMatch[] = [];
+
+  for (const rule of rules) {
+    const hits = new Map<string, StringHits>();
+    const reported: StringMatch[] = [];
+    const deadline = Date.now() + MAX_RULE_SCAN_MS;
+    let ruleHits = 0;
+    for (const str of rule.strings) {
+      const stats: StringHits = { count: 0, firstOffset: -1 };
+      str.pattern.lastIndex = 0;
+      let m: RegExpExecArray | null;
+      while (ruleHits < MAX_HITS_PER_RULE && Date.now() < deadline && (m = str.pattern.exec(haystack)) !== null) {
+        ruleHits++;
+        if (stats.count === 0) stats.firstOffset = m.index;
+        if (!str.private && stats.count < MAX_MATCHES_PER_STRING) {
+          reported.push({ id: str.id, offset: m.index, length: m[0].length });
+        }
+        stats.count++;
+        if (m[0].length === 0) str.pattern.lastIndex++;
+      }
+      hits.set(str.id, stats);
+    }
+
+    if (evaluate(rule.condition, rule, hits, data.length)) {
+      const matches = reported.sort((a, b) => a.offset - b.offset);
+      results.push({ rule, matches });
+    }
+  }
+
+  return results;
+}
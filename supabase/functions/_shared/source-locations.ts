@@ -0,0 +1,57 @@
+// Checks LLM-reported source locations against the uploaded file. A finding
+// is verified when its code snippet occurs in the source; the reported line
+// is then corrected to the nearest occurrence. Snippets that cannot be found
+// are kept but flagged, since the model may have paraphrased or invented them.
+
+export interface SourceLocation {
+  line: number | null;
+  verified: boolean | null;
+}
+
+const normalize = (line: string) => line.replace(/\s+/g, ' ').trim();
+
+// Placeholder lines the model uses when abbreviating a snippet
+const ELISION = /^(?:\.\.\.|…|\/\/ ?\.\.\.|\/\* ?\.\.\. ?\*\/)$/;
+
+export function splitSourceLines(source: string): string[] {
+  return source.split(/\r?\n/).map(normalize);
+}
+
+/**
+ * Locates `snippet` in the (normalized) source lines, preferring the
+ * occurrence closest to `hint`. Returns verified=null when there is nothing
+ * to check against (no snippet and no line).
+ */
+export function locateSnippet(lines: string[], snippet: string | null | undefined, hint: number | null | undefined): SourceLocation {
+  const hintLine = hint && hint >= 1 && hint <= lines.length ? hint : null;
+  const wanted = (snippet ?? '')
+    .split(/\r?\n/)
+    .map(line => normalize(line.replace(/^\s*\d+\s*[|:]\s?/, '')))
+    .filter(line => line && !ELISION.test(line));
+
+  if (wanted.length === 0) {
+    // Nothing to match; a line outside the file is still provably wrong
+    return { line: hintLine, verified: hint ? (hintLine ? null : false) : null };
+  }
+
+  let best: number | null = null;
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].includes(wanted[0])) continue;
+    // Later snippet lines must follow in order, allowing blank or skipped lines between them
+    let cursor = i + 1;
+    let matched = true;
+    for (const next of wanted.slice(1)) {
+      const found = lines.slice(cursor, cursor + 5).findIndex(line => line.includes(next));
+      if (found < 0) {
+        matched = false;
+        break;
+      }
+      cursor += found + 1;
+    }
+    if (!matched) continue;
+    const line = i + 1;
+    if (best === null || (hintLine !== null && Math.abs(line - hintLine) < Math.abs(best - hintLine))) best = line;
+  }
+
+  return best === null ? { line: hintLine, verified: false } : { line: best, verified: true };
+}
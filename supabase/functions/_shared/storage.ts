@@ -0,0 +1,65 @@
+// Access to uploaded artifacts in the private `firmware` bucket, and to the
+// vulnerability feed dumps in `vuln-feeds`.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export const FIRMWARE_BUCKET = 'firmware';
+export const VULN_FEED_BUCKET = 'vuln-feeds';
+
+/**
+ * Streams an object into a single buffer. The size is taken from
+ * Content-Length when present so the bytes are copied once, without the
+ * intermediate Blob a plain download() would allocate.
+ */
+export async function downloadArtifact(supabase: SupabaseClient, path: string, bucket = FIRMWARE_BUCKET): Promise<Uint8Array> {
+  const { data: signed, error } = await supabase.storage.from(bucket).createSignedUrl(path, 300);
+  if (error || !signed) {
+    throw new Error(`Artifact ${path} is not available: ${error?.message ?? 'no signed URL'}`);
+  }
+
+  const response = await fetch(signed.signedUrl);
+  if (!response.ok || !response.body) {
+    throw new Error(`Downloading ${path} failed with status ${response.status}`);
+  }
+
+  const declared = Number(response.headers.get('Content-Length'));
+  let buffer = new Uint8Array(Number.isFinite(declared) && declared > 0 ? declared : 1024 * 1024);
+  let length = 0;
+
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (length + value.length > buffer.length) {
+      const grown = new Uint8Array(Math.max(buffer.length * 2, length + value.length));
+      grown.set(buffer.subarray(0, length));
+      buffer = grown;
+    }
+    buffer.set(value, length);
+    length += value.length;
+  }
+
+  return buffer.subarray(0, length);
+}
+
+/**
+ * Path of the reconstructed memory image for container formats (Intel HEX,
+ * S-record, VBF). Byte offsets in findings and extracted strings refer to
+ * this image rather than to the uploaded text/container file.
+ */
+export function imageArtifactPath(storagePath: string): string {
+  return `${storagePath}.image`;
+}
+
+export async function uploadArtifact(supabase: SupabaseClient, path: string, bytes: Uint8Array): Promise<void> {
+  const { error } = await supabase.storage.from(FIRMWARE_BUCKET).upload(path, bytes, {
+    contentType: 'application/octet-stream',
+    upsert: true,
+  });
+  if (error) throw new Error(`Storing ${path} failed: ${error.message}`);
+}
+
+/** Path of one unpacked member of an archive upload, by its index in the archive. */
+export function memberArtifactPath(storagePath: string, index: number): string {
+  return `${storagePath}.members/${index}`;
+}
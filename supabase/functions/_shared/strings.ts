@@ -0,0 +1,174 @@
+// Extracts printable ASCII and UTF-16 strings from an image with their byte
+// offsets, load addresses and owning section, and classifies each one so the
+// Strings tab can filter the usual `strings | less` output.
+
+import type { FirmwareImage } from "./firmware-image.ts";
+import { shannonEntropy } from "./secrets.ts";
+
+export type StringEncoding = 'ascii' | 'utf16le' | 'utf16be';
+export type StringCategory = 'url' | 'crypto' | 'path' | 'format' | 'version' | 'other';
+
+export interface ExtractedString {
+  offset: number;
+  /** Length of the string in bytes (two per character for UTF-16). */
+  length: number;
+  address: number | null;
+  encoding: StringEncoding;
+  value: string;
+  section: string | null;
+  category: StringCategory;
+}
+
+export const MIN_STRING_LENGTH = 4;
+export const MAX_STRINGS = 20000;
+const MAX_STRING_CHARS = 1024;
+
+const CRYPTO_KEYWORDS = /-----BEGIN [A-Z ]+-----|\b(?:AES|DES|3DES|RSA|ECDSA|ECDH|EdDSA|HMAC|CMAC|SHA-?(?:1|224|256|384|512)|MD5|ChaCha20|Poly1305|secp\d+[rk]1|mbedtls|wolfSSL|OpenSSL|SecOC|SHE_)\w*/i;
+const HEX_BLOB = /^(?:0x)?[0-9a-fA-F]{32,}$/;
+const BASE64_BLOB = /^[A-Za-z0-9+/]{24,}={0,2}$/;
+const URL = /\b(?:[a-z][a-z0-9+.-]*:\/\/|www\.)[^\s"'<>]+/i;
+const PATH = /(?:^|[\s"'=])(?:\/(?:[\w.-]+\/)+[\w.-]*|[A-Za-z]:\\(?:[\w .-]+\\)*[\w .-]*|\.{1,2}\/[\w.-]+\/[\w./-]*)/;
+const FORMAT = /%[-+ #0]*(?:\d+|\*)?(?:\.(?:\d+|\*))?(?:hh|h|ll|l|z|j|t|L)?[diouxXeEfFgGcspn]/;
+const VERSION = /\b(?:version|ver\.?|rev(?:ision)?|build|release)\b|\bv?\d+\.\d+(?:\.\d+){1,3}\b|\bGCC:|\bcompiled\b/i;
+
+function isPrintable(b: number): boolean {
+  return (b >= 0x20 && b < 0x7f) || b === 0x09;
+}
+
+export function classifyString(value: string): StringCategory {
+  if (URL.test(value)) return 'url';
+  const compact = value.trim();
+  if (CRYPTO_KEYWORDS.test(value)) return 'crypto';
+  if ((HEX_BLOB.test(compact) || BASE64_BLOB.test(compact)) && shannonEntropy(compact) >= 3.5) return 'crypto';
+  if (PATH.test(value)) return 'path';
+  if (FORMAT.test(value)) return 'format';
+  if (VERSION.test(value)) return 'version';
+  return 'other';
+}
+
+export interface SectionRange {
+  name: string;
+  offset: number;
+  size: number;
+  address: number | null;
+}
+
+/**
+ * ELF uploads are scanned as whole files, so strings in non-loaded sections
+ * (.comment, .strtab) are attributed too; they just have no load address.
+ * Other formats use the reconstructed image segments.
+ */
+export function sectionRanges(image: FirmwareImage): SectionRange[] {
+  if (image.elf) {
+    return image.elf.sections
+      .filter(s => s.type !== 'NOBITS' && s.size > 0 && s.offset > 0)
+      .map(s => ({ name: s.name, offset: s.offset, size: s.size, address: s.flags.includes('A') ? s.address : null }));
+  }
+  return image.segments.map(s => ({
+    name: s.name || `segment@0x${s.address.toString(16)}`,
+    offset: s.offset,
+    size: s.size,
+    address: s.address,
+  }));
+}
+
+function scanAscii(data: Uint8Array, emit: (offset: number, length: number, value: string, encoding: StringEncoding) => boolean) {
+  let start = -1;
+  for (let i = 0; i <= data.length; i++) {
+    if (i < data.length && isPrintable(data[i])) {
+      if (start < 0) start = i;
+      continue;
+    }
+    if (start >= 0 && i - start >= MIN_STRING_LENGTH) {
+      let value = '';
+      for (let j = start; j < Math.min(i, start + MAX_STRING_CHARS); j++) value += String.fromCharCode(data[j]);
+      if (!emit(start, i - start, value, 'ascii')) return;
+    }
+    start = -1;
+  }
+}
+
+/** UTF-16 restricted to the Latin range, which covers what firmware stores this way (USB descriptors, UI text). */
+function scanUtf16(data: Uint8Array, bigEndian: boolean, emit: (offset: number, length: number, value: string, encoding: StringEncoding) => boolean) {
+  const encoding: StringEncoding = bigEndian ? 'utf16be' : 'utf16le';
+  for (let phase = 0; phase < 2; phase++) {
+    let start = -1;
+    let value = '';
+    for (let i = phase; i <= data.length; i += 2) {
+      const inside = i + 1 < data.length;
+      const char = inside ? (bigEndian ? data[i + 1] : data[i]) : 0;
+      const zero = inside ? (bigEndian ? data[i] : data[i + 1]) : 1;
+      if (zero === 0 && isPrintable(char)) {
+        if (start < 0) start = i;
+        if (value.length < MAX_STRING_CHARS) value += String.fromCharCode(char);
+        continue;
+      }
+      if (start >= 0 && (i - start) / 2 >= MIN_STRING_LENGTH) {
+        if (!emit(start, i - start, value, encoding)) return;
+      }
+      start = -1;
+      value = '';
+    }
+  }
+}
+
+export function extractStrings(image: FirmwareImage): { strings: ExtractedString[]; truncated: boolean } {
+  const sections = sectionRanges(image).sort((a, b) => a.offset - b.offset);
+  const strings: ExtractedString[] = [];
+  let truncated = false;
+
+  const emit = (offset: number, length: number, value: string, encoding: StringEncoding): boolean => {
+    if (strings.length >= MAX_STRINGS) {
+      truncated = true;
+      return false;
+    }
+    const section = sections.find(s => offset >= s.offset && offset < s.offset + s.size) ?? null;
+    strings.push({
+      offset,
+      length,
+      address: section?.address != null ? section.address + (offset - section.offset) : null,
+      encoding,
+      value,
+      section: section?.name ?? null,
+      category: classifyString(value),
+    });
+    return true;
+  };
+
+  scanAscii(image.data, emit);
+
+  // A big-endian run is the same bytes as a little-endian one shifted by one
+  // byte; of two such readings keep the longer, preferring little-endian
+  type Candidate = [number, number, string, StringEncoding];
+  const wide: Candidate[] = [];
+  const collect = (...candidate: Candidate) => {
+    wide.push(candidate);
+    return true;
+  };
+  scanUtf16(image.data, false, collect);
+  scanUtf16(image.data, true, collect);
+  const littleEndian = new Map(wide.filter(c => c[3] === 'utf16le').map(c => [c[0], c]));
+  const shadowed = new Set<Candidate>();
+  for (const candidate of wide) {
+    if (candidate[3] !== 'utf16be') continue;
+    const twin = littleEndian.get(candidate[0] + 1) ?? littleEndian.get(candidate[0] - 1);
+    if (twin) shadowed.add(candidate[1] > twin[1] ? twin : candidate);
+  }
+  for (const candidate of wide) {
+    if (!shadowed.has(candidate) && !emit(...candidate)) break;
+  }
+
+  strings.sort((a, b) => a.offset - b.offset);
+  return { strings, truncated };
+}
+
+/** Persisted on scans.metadata.strings. */
+export function summarizeStrings(strings: ExtractedString[], truncated: boolean) {
+  const byCategory: Record<string, number> = {};
+  const byEncoding: Record<string, number> = {};
+  for (const s of strings) {
+    byCategory[s.category] = (byCategory[s.category] ?? 0) + 1;
+    byEncoding[s.encoding] = (byEncoding[s.encoding] ?? 0) + 1;
+  }
+  return { total: strings.length, byCategory, byEncoding, truncated };
+}
@@ -0,0 +1,748 @@
+// UDS (ISO 14229) diagnostic service surface. Finds the service dispatch in
+// C sources (switch statements, handler tables, handler names) or the handler
+// table of a disassembled image, then reports which state-changing services
+// are reachable without SecurityAccess (0x27) or Authentication (0x29) and
+// how the seed/key exchange is implemented. Seed/key algorithm checks need
+// source; for images only the missing attempt counter can be recognized.
+// Every issue carries the UNECE R155 Annex 5 threat and the ISO/SAE 21434
+// threat scenario it maps to.
+
+import { findFunctions, matching, type FunctionScope } from "./c-checker.ts";
+import { tokenizeC, type CToken } from "./c-tokenizer.ts";
+import type { ArchitectureDetection } from "./architecture.ts";
+import {
+  codeReader,
+  functionInstructions,
+  type CodeReader,
+  type DisassemblyResult,
+  type RecoveredFunction,
+} from "./disassembly.ts";
+import type { FirmwareImage } from "./firmware-image.ts";
+import type { ComplianceFinding, VulnerabilityFinding } from "./findings.ts";
+
+export const UDS_SERVICE_NAMES: Record<number, string> = {
+  0x10: 'DiagnosticSessionControl',
+  0x11: 'ECUReset',
+  0x14: 'ClearDiagnosticInformation',
+  0x19: 'ReadDTCInformation',
+  0x22: 'ReadDataByIdentifier',
+  0x23: 'ReadMemoryByAddress',
+  0x27: 'SecurityAccess',
+  0x28: 'CommunicationControl',
+  0x29: 'Authentication',
+  0x2e: 'WriteDataByIdentifier',
+  0x2f: 'InputOutputControlByIdentifier',
+  0x31: 'RoutineControl',
+  0x34: 'RequestDownload',
+  0x35: 'RequestUpload',
+  0x36: 'TransferData',
+  0x37: 'RequestTransferExit',
+  0x38: 'RequestFileTransfer',
+  0x3d: 'WriteMemoryByAddress',
+  0x3e: 'TesterPresent',
+  0x85: 'ControlDTCSetting',
+};
+
+// Services that change ECU state or memory must sit behind SecurityAccess or Authentication
+export const PROTECTED_SERVICES: Record<number, VulnerabilityFinding['severity']> = {
+  0x11: 'medium',
+  0x14: 'low',
+  0x23: 'medium',
+  0x28: 'medium',
+  0x2e: 'high',
+  0x2f: 'high',
+  0x31: 'high',
+  0x34: 'critical',
+  0x35: 'high',
+  0x36: 'critical',
+  0x37: 'high',
+  0x38: 'high',
+  0x3d: 'critical',
+  0x85: 'medium',
+};
+
+const REPROGRAMMING_SERVICES = new Set([0x34, 0x36, 0x37, 0x38, 0x3d]);
+
+export const formatSid = (sid: number) => `0x${sid.toString(16).toUpperCase().padStart(2, '0')}`;
+
+export type UdsIssueKind =
+  | 'unprotected-service'
+  | 'constant-xor-key'
+  | 'short-seed'
+  | 'predictable-seed'
+  | 'missing-attempt-counter';
+
+export interface UdsThreat {
+  /** Section of UNECE R155 Annex 5 Part A. */
+  r155: string;
+  r155Threat: string;
+  /** ISO/SAE 21434 threat scenario, with its STRIDE category. */
+  iso21434: string;
+}
+
+export interface UdsService {
+  sid: number;
+  name: string;
+  handlers: string[];
+  /** null when neither the dispatch nor a handler body could be inspected. */
+  securityGated: boolean | null;
+  line: number | null;
+  address: number | null;
+}
+
+export interface UdsIssue {
+  kind: UdsIssueKind;
+  sid: number | null;
+  severity: VulnerabilityFinding['severity'];
+  cwe: string;
+  title: string;
+  description: string;
+  function: string | null;
+  line: number | null;
+  address: number | null;
+  threat: UdsThreat;
+}
+
+export interface UdsSurface {
+  services: UdsService[];
+  issues: UdsIssue[];
+}
+
+function threatFor(kind: UdsIssueKind, sid: number | null): UdsThreat {
+  switch (kind) {
+    case 'unprotected-service':
+      return sid !== null && REPROGRAMMING_SERVICES.has(sid)
+        ? {
+          r155: 'Annex 5 4.3.3',
+          r155Threat: 'Threats to vehicles regarding their update procedures: software reprogrammed through an unauthenticated diagnostic download',
+          iso21434: 'Tampering with ECU software via diagnostic reprogramming (STRIDE: Tampering)',
+        }
+        : {
+          r155: 'Annex 5 4.3.5',
+          r155Threat: 'Diagnostic access (e.g. OBD dongles) used to manipulate vehicle parameters or data',
+          iso21434: 'Diagnostic service executed without authorization (STRIDE: Elevation of privilege)',
+        };
+    case 'missing-attempt-counter':
+      return {
+        r155: 'Annex 5 4.3.5',
+        r155Threat: 'Diagnostic access (e.g. OBD dongles) used to facilitate attacks on the ECU',
+        iso21434: 'SecurityAccess key brute-forced through unlimited attempts (STRIDE: Spoofing)',
+      };
+    default:
+      return {
+        r155: 'Annex 5 4.3.7',
+        r155Threat: 'Cryptographic technologies can be compromised or are insufficiently applied',
+        iso21434: 'Valid SecurityAccess key derived from an observed seed (STRIDE: Spoofing)',
+      };
+  }
+}
+
+function issue(kind: UdsIssueKind, fields: Omit<UdsIssue, 'kind' | 'threat'>): UdsIssue {
+  return { kind, ...fields, threat: threatFor(kind, fields.sid) };
+}
+
+function unprotectedServiceIssue(service: UdsService, detail: string, location: Pick<UdsIssue, 'function' | 'line' | 'address'>): UdsIssue {
+  return issue('unprotected-service', {
+    sid: service.sid,
+    severity: PROTECTED_SERVICES[service.sid],
+    cwe: 'CWE-306',
+    title: `UDS ${service.name} reachable without security access`,
+    description: `Service ${formatSid(service.sid)} ${service.name}${service.handlers.length ? ` (${service.handlers.join(', ')})` : ''} ${detail}`,
+    ...location,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Source analysis
+
+const SID_ALIASES: [number, string[]][] = [
+  [0x10, ['diagnosticsessioncontrol', 'sessioncontrol']],
+  [0x11, ['ecureset']],
+  [0x14, ['cleardiagnosticinformation', 'cleardtc']],
+  [0x19, ['readdtcinformation']],
+  [0x22, ['readdatabyidentifier', 'rdbi']],
+  [0x23, ['readmemorybyaddress', 'rmba']],
+  [0x27, ['securityaccess', 'secaccess']],
+  [0x28, ['communicationcontrol']],
+  [0x2e, ['writedatabyidentifier', 'wdbi']],
+  [0x2f, ['inputoutputcontrol', 'iocontrolbyidentifier']],
+  [0x31, ['routinecontrol', 'routinectrl']],
+  [0x34, ['requestdownload', 'reqdownload']],
+  [0x35, ['requestupload', 'requpload']],
+  [0x36, ['transferdata']],
+  [0x37, ['requesttransferexit', 'transferexit']],
+  [0x38, ['requestfiletransfer']],
+  [0x3d, ['writememorybyaddress', 'wmba']],
+  [0x3e, ['testerpresent']],
+  [0x85, ['controldtcsetting']],
+];
+
+// Services that only an ECU diagnostic stack dispatches on, unlike the
+// negative response codes which share the 0x10-0x37 range
+const STACK_ONLY_SIDS = new Set([0x19, 0x27, 0x2e, 0x2f, 0x34, 0x3d, 0x3e, 0x85]);
+
+const normalize = (name: string) => name.toLowerCase().replace(/_/g, '');
+
+const isSecurityIdent = (name: string) => /secur|seclev|seclvl|unlock|authenticat|accessgrant|isgranted/.test(normalize(name));
+// Access column of a service table row, e.g. SEC_LEVEL_1, DCM_SEC_UNLOCKED, SEC_NONE
+const isSecurityLevelIdent = (name: string) => isSecurityIdent(name) || /^(dcm)?sec|lvl|level|lock|auth/.test(normalize(name));
+const isAttemptIdent = (name: string) =>
+  /attempt|retry|retries|fail(ed)?(cnt|count|counter|ctr)|lockout|delaytim|penalty|exceedednumber|requiredtimedelay|invalidkey(cnt|count)|falsekey/.test(normalize(name));
+
+/** Words of an identifier split at underscores and camel case: Dcm_DspReadDTCInfo -> dcm dsp read dtc info */
+const identifierWords = (name: string) => name
+  .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+  .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+  .toLowerCase()
+  .split(/[^a-z0-9]+/)
+  .filter(Boolean);
+
+/** Aliases match whole words only: 'rmba' is found in Dcm_Rmba but not in Dcm_FormBase. */
+function containsAlias(words: string[], alias: string): boolean {
+  for (let i = 0; i < words.length; i++) {
+    let joined = '';
+    for (let j = i; j < words.length && joined.length < alias.length; j++) {
+      joined += words[j];
+      if (joined === alias) return true;
+    }
+  }
+  return false;
+}
+
+function sidFromHandlerName(name: string): number | null {
+  const numbered = name.match(/(?:svc|service|sid)_?(?:0x)?([0-9a-f]{2})(?![0-9a-z])/i);
+  if (numbered && UDS_SERVICE_NAMES[parseInt(numbered[1], 16)]) return parseInt(numbered[1], 16);
+  const words = identifierWords(name);
+  return SID_ALIASES.find(([, aliases]) => aliases.some(alias => containsAlias(words, alias)))?.[0] ?? null;
+}
+
+// A name alone only marks a handler inside a diagnostic stack's namespace, so
+// driver code such as SPI_TransferData() is not taken for a UDS service
+const DIAGNOSTIC_PREFIX = /^(dcm|uds)_/i;
+
+function parseNumber(text: string): number | null {
+  const value = Number(text.replace(/[uUlL]+$/, ''));
+  return Number.isInteger(value) ? value : null;
+}
+
+function collectDefines(tokens: CToken[]): Map<string, { value: number; line: number }> {
+  const defines = new Map<string, { value: number; line: number }>();
+  for (const t of tokens) {
+    if (t.kind !== 'directive') continue;
+    const match = t.value.match(/^#\s*define\s+(\w+)\s+\(?\s*(?:\(\s*\w+\s*\))?\s*(0[xX][0-9a-fA-F]+|\d+)[uUlL]*\s*\)?\s*$/);
+    const value = match && parseNumber(match[2]);
+    if (match && value !== null) defines.set(match[1], { value, line: t.line });
+  }
+  return defines;
+}
+
+interface SourceContext {
+  tokens: CToken[];
+  functions: Map<string, FunctionScope>;
+  defines: Map<string, { value: number; line: number }>;
+}
+
+function constantAt(ctx: SourceContext, index: number): number | null {
+  const t = ctx.tokens[index];
+  if (!t) return null;
+  if (t.kind === 'number') return parseNumber(t.value);
+  if (t.kind === 'ident') return ctx.defines.get(t.value)?.value ?? null;
+  return null;
+}
+
+const CONTROL_KEYWORDS = new Set(['if', 'while', 'for', 'switch', 'return', 'sizeof']);
+
+function callsInRange(ctx: SourceContext, start: number, end: number): string[] {
+  const calls: string[] = [];
+  for (let i = start; i < end; i++) {
+    const t = ctx.tokens[i];
+    if (t.kind === 'ident' && ctx.tokens[i + 1]?.value === '(' && !CONTROL_KEYWORDS.has(t.value)) calls.push(t.value);
+  }
+  return calls;
+}
+
+/** Token ranges of a function body plus the bodies of the functions it calls in this file. */
+function bodyWithCallees(ctx: SourceContext, scope: FunctionScope): [number, number][] {
+  const ranges: [number, number][] = [[scope.bodyStart, scope.bodyEnd]];
+  for (const callee of new Set(callsInRange(ctx, scope.bodyStart, scope.bodyEnd))) {
+    const body = ctx.functions.get(callee);
+    if (body && body !== scope) ranges.push([body.bodyStart, body.bodyEnd]);
+  }
+  return ranges;
+}
+
+const rangesContain = (ctx: SourceContext, ranges: [number, number][], test: (t: CToken) => boolean) =>
+  ranges.some(([start, end]) => ctx.tokens.slice(start, end).some(test));
+
+interface DispatchEntry {
+  sid: number;
+  handler: string | null;
+  line: number;
+  /** true/false when the dispatch site itself shows the access check (or its absence). */
+  gated: boolean | null;
+  /** Found by its Dcm_/Uds_ name only, not in a dispatch switch or table. */
+  byName?: boolean;
+}
+
+function switchDispatch(ctx: SourceContext): DispatchEntry[] {
+  const { tokens } = ctx;
+  const entries: DispatchEntry[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].value !== 'switch' || tokens[i + 1]?.value !== '(') continue;
+    const exprEnd = matching(tokens, i + 1);
+    if (tokens[exprEnd + 1]?.value !== '{') continue;
+    const bodyEnd = matching(tokens, exprEnd + 1);
+
+    // Case labels at the top level of this switch body
+    const labels: { index: number; sid: number | null }[] = [];
+    let depth = 0;
+    for (let j = exprEnd + 2; j < bodyEnd; j++) {
+      const v = tokens[j].value;
+      if (v === '{') depth++;
+      else if (v === '}') depth--;
+      else if (depth === 0 && (v === 'case' || v === 'default')) {
+        labels.push({ index: j, sid: v === 'case' ? constantAt(ctx, tokens[j + 1]?.value === '(' ? j + 2 : j + 1) : null });
+      }
+    }
+
+    const sids = new Set(labels.map(l => l.sid).filter((sid): sid is number => sid !== null && !!UDS_SERVICE_NAMES[sid]));
+    const hinted = tokens.slice(i + 2, exprEnd).some(t => t.kind === 'ident' && /sid|service|svc/.test(normalize(t.value)));
+    if (!(hinted && sids.size >= 2) && !(sids.size >= 3 && [...sids].some(sid => STACK_ONLY_SIDS.has(sid)))) continue;
+
+    labels.forEach((label, n) => {
+      if (label.sid === null || !UDS_SERVICE_NAMES[label.sid]) return;
+      let colon = label.index;
+      while (colon < bodyEnd && tokens[colon].value !== ':') colon++;
+      const end = labels[n + 1]?.index ?? bodyEnd;
+      const calls = callsInRange(ctx, colon + 1, end);
+      const handler = calls.find(name => ctx.functions.has(name) || sidFromHandlerName(name) === label.sid) ?? calls[0] ?? null;
+      const checked = rangesContain(ctx, [[colon + 1, end]], t => t.kind === 'ident' && isSecurityIdent(t.value));
+      // Without a check here the case is only conclusive if all it calls is visible
+      const inline = calls.every(name => ctx.functions.has(name));
+      entries.push({ sid: label.sid, handler, line: tokens[label.index].line, gated: checked ? true : inline ? false : null });
+    });
+    i = exprEnd;
+  }
+  return entries;
+}
+
+function tableDispatch(ctx: SourceContext): DispatchEntry[] {
+  const { tokens } = ctx;
+  const rowsByParent = new Map<number, DispatchEntry[]>();
+  const stack: { index: number; leaf: boolean }[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const v = tokens[i].value;
+    if (v === '{') {
+      if (stack.length) stack[stack.length - 1].leaf = false;
+      stack.push({ index: i, leaf: true });
+      continue;
+    }
+    if (v !== '}' || !stack.length) continue;
+    const open = stack.pop()!;
+    if (!open.leaf || !stack.length || i - open.index > 24) continue;
+
+    // A row: {SID, ..., Handler, ...}
+    const sid = constantAt(ctx, tokens[open.index + 1]?.value === '(' ? open.index + 2 : open.index + 1);
+    if (sid === null || !UDS_SERVICE_NAMES[sid]) continue;
+    const row = tokens.slice(open.index + 1, i).filter(t => t.kind === 'ident' && !ctx.defines.has(t.value));
+    const security = row.filter(t => isSecurityLevelIdent(t.value)).map(t => normalize(t.value));
+    const handler = row.find(t => ctx.functions.has(t.value) || sidFromHandlerName(t.value) !== null)
+      ?? row.find(t => !isSecurityLevelIdent(t.value));
+    if (!handler) continue;
+
+    const gated = security.length === 0 ? null
+      : security.some(name => name.includes('unlock')) ? true
+      : security.every(name => /none|locked|any|all|nosec|free|open|public|default/.test(name)) ? false
+      : true;
+    const parent = stack[stack.length - 1].index;
+    rowsByParent.set(parent, [...(rowsByParent.get(parent) ?? []), { sid, handler: handler.value, line: tokens[open.index].line, gated }]);
+  }
+
+  return [...rowsByParent.values()].filter(rows => new Set(rows.map(r => r.sid)).size >= 3).flat();
+}
+
+function seedKeyIssues(ctx: SourceContext, securityHandlers: FunctionScope[]): UdsIssue[] {
+  const { tokens } = ctx;
+  const issues: UdsIssue[] = [];
+  const seedKeyFunctions = new Set(securityHandlers);
+  for (const scope of ctx.functions.values()) {
+    const name = normalize(scope.name);
+    if (name.includes('seed') || (name.includes('key') && /calc|comput|gen|deriv|check|compare|verif/.test(name))) seedKeyFunctions.add(scope);
+  }
+
+  const nameLine = (scope: FunctionScope) => tokens[scope.paramsStart - 1].line;
+  for (const scope of seedKeyFunctions) {
+    const location = { function: `${scope.name}()`, address: null };
+    for (let i = scope.bodyStart + 1; i < scope.bodyEnd; i++) {
+      const v = tokens[i].value;
+      if ((v === '^' || v === '^=') && (constantAt(ctx, i + 1) !== null || (v === '^' && constantAt(ctx, i - 1) !== null))) {
+        issues.push(issue('constant-xor-key', {
+          sid: 0x27,
+          severity: 'high',
+          cwe: 'CWE-327',
+          title: 'SecurityAccess key derived by XOR with a constant',
+          description: `${scope.name}() combines the seed with a fixed constant. One observed seed/key pair reveals the constant and unlocks every ECU sharing this software.`,
+          line: tokens[i].line,
+          ...location,
+        }));
+        break;
+      }
+    }
+    for (let i = scope.bodyStart + 1; i < scope.bodyEnd; i++) {
+      const t = tokens[i];
+      if (t.kind === 'ident' && (t.value === 'rand' || t.value === 'srand') && tokens[i + 1]?.value === '(') {
+        issues.push(issue('predictable-seed', {
+          sid: 0x27,
+          severity: 'medium',
+          cwe: 'CWE-338',
+          title: 'SecurityAccess seed generated with rand()',
+          description: `${scope.name}() uses the C library rand() for the seed; its sequence is predictable from a few observed seeds.`,
+          line: t.line,
+          ...location,
+        }));
+        break;
+      }
+      if (t.kind === 'ident' && normalize(t.value).includes('seed') && tokens[i + 1]?.value === '='
+        && constantAt(ctx, i + 2) !== null && tokens[i + 3]?.value === ';' && constantAt(ctx, i + 2) !== 0) {
+        issues.push(issue('predictable-seed', {
+          sid: 0x27,
+          severity: 'high',
+          cwe: 'CWE-330',
+          title: 'SecurityAccess seed is a constant',
+          description: `${scope.name}() assigns a fixed value to ${t.value}; the key for that seed can simply be replayed.`,
+          line: t.line,
+          ...location,
+        }));
+        break;
+      }
+    }
+  }
+
+  // Seed width: a length macro or a declaration of 16 bits or less
+  const SIZES: Record<string, number> = { uint8: 1, uint8_t: 1, char: 1, uint16: 2, uint16_t: 2, short: 2 };
+  let short: { bits: number; line: number } | null = null;
+  for (const [name, define] of ctx.defines) {
+    if (/seed.*(len|size|bytes)/.test(normalize(name)) && define.value > 0 && define.value <= 2) {
+      short = { bits: define.value * 8, line: define.line };
+      break;
+    }
+  }
+  for (let i = 1; !short && i < tokens.length; i++) {
+    const t = tokens[i];
+    const size = SIZES[tokens[i - 1].value];
+    if (!size || t.kind !== 'ident' || !normalize(t.value).includes('seed')) continue;
+    const count = tokens[i + 1]?.value === '[' ? constantAt(ctx, i + 2) : tokens[i + 1]?.value === ';' || tokens[i + 1]?.value === '=' ? 1 : null;
+    if (count !== null && count > 0 && count * size <= 2) short = { bits: count * size * 8, line: t.line };
+  }
+  if (short) {
+    issues.push(issue('short-seed', {
+      sid: 0x27,
+      severity: 'medium',
+      cwe: 'CWE-331',
+      title: `SecurityAccess seed of only ${short.bits} bits`,
+      description: `The seed is ${short.bits} bits wide. An attacker can collect seed/key pairs for every seed value, or wait for a repeated seed and replay its key.`,
+      function: null,
+      line: short.line,
+      address: null,
+    }));
+  }
+
+  // Attempt counter: a counter/delay variable or the 0x36/0x37 negative responses
+  const handler = securityHandlers[0];
+  if (handler) {
+    const ranges = securityHandlers.flatMap(scope => bodyWithCallees(ctx, scope));
+    const counted = rangesContain(ctx, ranges, t =>
+      (t.kind === 'ident' && isAttemptIdent(t.value)) || (t.kind === 'number' && [0x36, 0x37].includes(parseNumber(t.value) ?? -1)));
+    if (!counted) {
+      issues.push(issue('missing-attempt-counter', {
+        sid: 0x27,
+        severity: 'medium',
+        cwe: 'CWE-307',
+        title: 'SecurityAccess without failed-attempt counter',
+        description: `${securityHandlers.map(s => `${s.name}()`).join(', ')} never count invalid keys or answer with exceededNumberOfAttempts (0x36) / requiredTimeDelayNotExpired (0x37), so keys can be brute-forced at bus speed.`,
+        function: `${handler.name}()`,
+        line: nameLine(handler),
+        address: null,
+      }));
+    }
+  }
+
+  return issues;
+}
+
+/** UDS surface of one C source file, or null if it has no diagnostic service code. */
+export function analyzeUdsSource(source: string): UdsSurface | null {
+  const tokens = tokenizeC(source);
+  const ctx: SourceContext = {
+    tokens,
+    functions: new Map(findFunctions(tokens).map(scope => [scope.name, scope])),
+    defines: collectDefines(tokens),
+  };
+
+  const dispatch = [...switchDispatch(ctx), ...tableDispatch(ctx)];
+  for (const scope of ctx.functions.values()) {
+    const sid = DIAGNOSTIC_PREFIX.test(scope.name) ? sidFromHandlerName(scope.name) : null;
+    if (sid !== null && !dispatch.some(entry => entry.handler === scope.name)) {
+      dispatch.push({ sid, handler: scope.name, line: tokens[scope.paramsStart - 1].line, gated: null, byName: true });
+    }
+  }
+  if (dispatch.length === 0) return null;
+
+  const services = new Map<number, UdsService>();
+  for (const entry of dispatch) {
+    const service = services.get(entry.sid) ?? {
+      sid: entry.sid,
+      name: UDS_SERVICE_NAMES[entry.sid],
+      handlers: [],
+      securityGated: null,
+      line: entry.line,
+      address: null,
+    };
+    if (entry.handler && !service.handlers.includes(entry.handler)) service.handlers.push(entry.handler);
+
+    // The handler body (and what it calls here) settles a dispatch that could not
+    const body = entry.handler ? ctx.functions.get(entry.handler) : undefined;
+    const checked = body ? rangesContain(ctx, bodyWithCallees(ctx, body), t => t.kind === 'ident' && isSecurityIdent(t.value)) : null;
+    const gated = entry.gated === true || checked === true ? true
+      : entry.gated === false || checked === false ? false
+      : null;
+    service.securityGated = service.securityGated === true || gated === true ? true : gated ?? service.securityGated;
+    services.set(entry.sid, service);
+  }
+
+  // Reachability is only shown by a dispatch site; a handler known by name alone may be gated by its caller
+  const dispatched = new Set(dispatch.filter(entry => !entry.byName).map(entry => entry.sid));
+  const issues: UdsIssue[] = [];
+  for (const service of services.values()) {
+    if (service.securityGated !== false || !PROTECTED_SERVICES[service.sid] || !dispatched.has(service.sid)) continue;
+    issues.push(unprotectedServiceIssue(service,
+      'is dispatched without checking the security level or authentication state, neither at the dispatch nor in the handler.',
+      { function: service.handlers[0] ? `${service.handlers[0]}()` : null, line: service.line, address: null }));
+  }
+
+  const securityHandlers = (services.get(0x27)?.handlers ?? [])
+    .map(name => ctx.functions.get(name))
+    .filter((scope): scope is FunctionScope => !!scope);
+  issues.push(...seedKeyIssues(ctx, securityHandlers));
+
+  return { services: [...services.values()].sort((a, b) => a.sid - b.sid), issues };
+}
+
+// ---------------------------------------------------------------------------
+// Image analysis
+
+const TABLE_STRIDES = [8, 12, 16, 20, 24, 32];
+const MIN_TABLE_ENTRIES = 4;
+const CORE_SERVICES = [0x10, 0x22, 0x27, 0x3e];
+
+interface HandlerTable {
+  address: number;
+  stride: number;
+  entries: { sid: number; address: number; handler: RecoveredFunction }[];
+}
+
+function byteReader(image: FirmwareImage) {
+  const segments = [...image.segments].filter(s => s.size > 0);
+  let last = segments[0];
+  return (address: number): number | null => {
+    const hit = (s: typeof last) => s && address >= s.address && address < s.address + s.size;
+    if (!hit(last)) {
+      const found = segments.find(hit);
+      if (!found) return null;
+      last = found;
+    }
+    return image.data[last.offset + (address - last.address)];
+  };
+}
+
+/**
+ * Service tables are arrays of fixed-size records holding a SID byte and a
+ * pointer to the handler. A candidate needs at least MIN_TABLE_ENTRIES
+ * consecutive records with distinct SIDs whose pointers hit recovered
+ * function starts.
+ */
+function findHandlerTables(image: FirmwareImage, disassembly: DisassemblyResult, reader: CodeReader): HandlerTable[] {
+  const starts = new Map(disassembly.functions.map(f => [f.address, f]));
+  const thumb = disassembly.mode === 'thumb';
+  const byteAt = byteReader(image);
+  const handlerAt = (address: number) => {
+    const value = reader.u32(address);
+    if (value === null || (thumb && (value & 1) === 0)) return null;
+    return starts.get(thumb ? value & ~1 : value) ?? null;
+  };
+
+  const tables: HandlerTable[] = [];
+  for (const segment of image.segments) {
+    const end = segment.address + segment.size;
+    for (let address = segment.address + ((4 - (segment.address % 4)) % 4); address + 4 <= end; address += 4) {
+      if (!handlerAt(address)) continue;
+
+      let best: HandlerTable | null = null;
+      for (const stride of TABLE_STRIDES) {
+        if (!handlerAt(address + stride)) continue;
+        for (let sidOffset = -(stride - 4); sidOffset < stride; sidOffset++) {
+          if (sidOffset >= 0 && sidOffset < 4) continue;
+          const entries: HandlerTable['entries'] = [];
+          const seen = new Set<number>();
+          for (let k = 0; ; k++) {
+            const entry = address + k * stride;
+            const handler = handlerAt(entry);
+            const sid = byteAt(entry + sidOffset);
+            if (!handler || sid === null || !UDS_SERVICE_NAMES[sid] || seen.has(sid)) break;
+            seen.add(sid);
+            entries.push({ sid, address: entry + Math.min(0, sidOffset), handler });
+          }
+          if (entries.length < MIN_TABLE_ENTRIES || CORE_SERVICES.filter(sid => seen.has(sid)).length < 2) continue;
+          if (!best || entries.length > best.entries.length) best = { address: entries[0].address, stride, entries };
+        }
+      }
+      if (best) {
+        tables.push(best);
+        address += (best.entries.length - 1) * best.stride;
+      }
+    }
+  }
+  return tables;
+}
+
+/** RAM addresses loaded from literal pools by a function and its direct callees. */
+function ramReferences(fn: RecoveredFunction, starts: Map<number, RecoveredFunction>, reader: CodeReader, disassembly: DisassemblyResult): Set<number> {
+  const refs = new Set<number>();
+  for (const f of [fn, ...fn.calls.map(address => starts.get(address)).filter((f): f is RecoveredFunction => !!f)]) {
+    for (const ins of functionInstructions(reader, disassembly.mode, f)) {
+      if (ins.dataRef === null) continue;
+      const value = reader.u32(ins.dataRef);
+      // Outside the image and not a small constant: a variable in RAM or a peripheral register
+      if (value !== null && value > 0xffff && reader.u32(value) === null) refs.add(value);
+    }
+  }
+  return refs;
+}
+
+/** UDS surface of a disassembled image, or null if no service table was recovered. */
+export function analyzeUdsImage(
+  image: FirmwareImage,
+  detection: ArchitectureDetection | null,
+  disassembly: DisassemblyResult,
+): UdsSurface | null {
+  const reader = codeReader(image, disassembly.mode, detection);
+  const tables = findHandlerTables(image, disassembly, reader);
+  if (tables.length === 0) return null;
+
+  const starts = new Map(disassembly.functions.map(f => [f.address, f]));
+  const arm = disassembly.mode === 'thumb' || disassembly.mode === 'arm';
+  const services: UdsService[] = [];
+  const issues: UdsIssue[] = [];
+
+  for (const table of tables) {
+    // The security state is a RAM variable written by the 0x27/0x29 handlers
+    // and read by gated handlers; variables every handler touches (request
+    // and response buffers) say nothing about gating
+    const refs = new Map(table.entries.map(e => [e.sid, arm ? ramReferences(e.handler, starts, reader, disassembly) : new Set<number>()]));
+    const security = table.entries.filter(e => e.sid === 0x27 || e.sid === 0x29);
+    const common = [...refs.values()].reduce((a, b) => new Set([...a].filter(x => b.has(x))));
+    const securityVars = new Set(security.flatMap(e => [...refs.get(e.sid)!]).filter(v => !common.has(v)));
+
+    for (const entry of table.entries) {
+      const service: UdsService = {
+        sid: entry.sid,
+        name: UDS_SERVICE_NAMES[entry.sid],
+        handlers: [entry.handler.name],
+        securityGated: !arm ? null
+          : security.length === 0 ? false
+          : [...refs.get(entry.sid)!].some(v => securityVars.has(v)),
+        line: null,
+        address: entry.address,
+      };
+      services.push(service);
+      if (service.securityGated !== false || !PROTECTED_SERVICES[entry.sid]) continue;
+      issues.push(unprotectedServiceIssue(service, security.length === 0
+        ? `is in the service table at 0x${table.address.toString(16)}, which has no SecurityAccess or Authentication handler.`
+        : `does not read any state variable that the SecurityAccess/Authentication handlers maintain (service table at 0x${table.address.toString(16)}).`,
+      { function: entry.handler.name, line: null, address: entry.address }));
+    }
+
+    // Thumb immediates are decoded, so the 0x36/0x37 negative responses are visible
+    const securityAccess = table.entries.find(e => e.sid === 0x27);
+    if (securityAccess && disassembly.mode === 'thumb') {
+      const tree = [securityAccess.handler, ...securityAccess.handler.calls.map(a => starts.get(a)).filter((f): f is RecoveredFunction => !!f)];
+      const responds = tree.some(f => functionInstructions(reader, disassembly.mode, f)
+        .some(ins => /#(54|55)$/.test(ins.operands) && (ins.mnemonic === 'movs' || ins.mnemonic === 'cmp')));
+      if (!responds) {
+        issues.push(issue('missing-attempt-counter', {
+          sid: 0x27,
+          severity: 'medium',
+          cwe: 'CWE-307',
+          title: 'SecurityAccess without failed-attempt counter',
+          description: `The SecurityAccess handler ${securityAccess.handler.name} and its callees never produce exceededNumberOfAttempts (0x36) or requiredTimeDelayNotExpired (0x37), so keys can likely be brute-forced at bus speed.`,
+          function: securityAccess.handler.name,
+          line: null,
+          address: securityAccess.address,
+        }));
+      }
+    }
+  }
+
+  return { services, issues };
+}
+
+// ---------------------------------------------------------------------------
+// Findings
+
+function addressToOffset(image: FirmwareImage, address: number): number | null {
+  const segment = image.segments.find(s => address >= s.address && address < s.address + s.size);
+  return segment ? segment.offset + (address - segment.address) : null;
+}
+
+export function udsFindings(surface: UdsSurface, fileName: string, lines: string[] | null, image: FirmwareImage | null): VulnerabilityFinding[] {
+  return surface.issues.map(i => ({
+    cwe_id: i.cwe,
+    severity: i.severity,
+    title: i.title,
+    description: `${i.description} Threat: R155 ${i.threat.r155} (${i.threat.r155Threat}); ISO/SAE 21434 threat scenario: ${i.threat.iso21434}.`,
+    affected_component: fileName,
+    affected_function: i.function,
+    code_snippet: i.line !== null ? lines?.[i.line - 1]?.trim() ?? null : null,
+    line_number: i.line,
+    byte_offset: i.address !== null && image ? addressToOffset(image, i.address) : null,
+    detection_method: 'static',
+    remediation: i.kind === 'unprotected-service'
+      ? 'Check the security level (0x27) or authentication state (0x29) before executing the service and answer securityAccessDenied (0x33) otherwise.'
+      : i.kind === 'missing-attempt-counter'
+        ? 'Count invalid keys in non-volatile memory, answer exceededNumberOfAttempts (0x36) and enforce a delay (0x37) that survives resets.'
+        : 'Derive the key with a keyed MAC (e.g. AES-CMAC) over a random seed of at least 128 bits from a TRNG/DRBG, with per-ECU keys, or use Authentication (0x29) with certificates.',
+    attack_vector: 'Diagnostic requests via the OBD port or a compromised gateway',
+    impact: i.threat.iso21434,
+  }));
+}
+
+/** One failed R155 Annex 5 entry per threat the issues map to. */
+export function udsComplianceResults(surface: UdsSurface): ComplianceFinding[] {
+  const byThreat = new Map<string, UdsIssue[]>();
+  for (const i of surface.issues) byThreat.set(i.threat.r155, [...(byThreat.get(i.threat.r155) ?? []), i]);
+  return [...byThreat.values()].map(issues => ({
+    framework: 'UNECE R155',
+    rule_id: issues[0].threat.r155,
+    rule_description: issues[0].threat.r155Threat,
+    status: 'fail' as const,
+    details: issues.map(i => `${i.title}${i.function ? ` in ${i.function}` : ''}`).join('\n'),
+    line_number: issues[0].line,
+  }));
+}
+
+/** Persisted on scans.metadata.uds. */
+export function summarizeUds(surface: UdsSurface) {
+  return {
+    services: surface.services,
+    issues: surface.issues.map(i => ({ kind: i.kind, sid: i.sid, severity: i.severity, title: i.title, function: i.function, threat: i.threat })),
+  };
+}
+
+/** Compact text form for the LLM prompt. */
+export function describeUds(surface: UdsSurface): string {
+  return surface.services
+    .map(s => `${formatSid(s.sid)} ${s.name}${s.handlers.length ? ` -> ${s.handlers.join(', ')}` : ''}: ${s.securityGated === null ? 'access check not determined' : s.securityGated ? 'security gated' : 'NOT security gated'}`)
+    .join('\n');
+}
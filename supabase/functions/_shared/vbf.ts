@@ -0,0 +1,183 @@
+// Volvo Binary Format: an ASCII header block followed by binary data blocks
+// of the form <u32 address><u32 length><data><u16 CRC16>, all big-endian.
+
+import { crc16Ccitt, crc32 } from "./crc.ts";
+
+export interface VbfEraseRange {
+  start: number;
+  length: number;
+}
+
+export interface VbfHeader {
+  vbfVersion: string | null;
+  swPartNumber: string | null;
+  swVersion: string | null;
+  swPartType: string | null;
+  ecuAddress: number | null;
+  erase: VbfEraseRange[];
+  verificationBlockStart: number | null;
+  fileChecksum: number | null;
+  fields: Record<string, string>;
+}
+
+export interface VbfBlock {
+  address: number;
+  length: number;
+  offset: number; // file offset of the block's data
+  crc: number;
+  computedCrc: number;
+  valid: boolean;
+}
+
+export interface VbfInfo {
+  header: VbfHeader;
+  blocks: VbfBlock[];
+  dataOffset: number;
+  computedFileChecksum: number;
+  fileChecksumValid: boolean | null;
+  errors: string[];
+}
+
+export function isVbf(bytes: Uint8Array): boolean {
+  const start = new TextDecoder('latin1').decode(bytes.subarray(0, 64)).trimStart();
+  return start.startsWith('vbf_version');
+}
+
+// Returns the offset just past the header's closing brace, skipping braces
+// that appear inside strings or comments.
+function findHeaderEnd(text: string): { bodyStart: number; end: number } {
+  const headerMatch = /\bheader\s*\{/.exec(text);
+  if (!headerMatch) throw new Error('VBF header block not found');
+
+  let depth = 0;
+  for (let i = headerMatch.index + headerMatch[0].length - 1; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      i = text.indexOf('"', i + 1);
+      if (i < 0) break;
+    } else if (ch === '/' && text[i + 1] === '/') {
+      i = text.indexOf('\n', i);
+      if (i < 0) break;
+    } else if (ch === '/' && text[i + 1] === '*') {
+      i = text.indexOf('*/', i + 2) + 1;
+      if (i <= 0) break;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (depth === 0) return { bodyStart: headerMatch.index + headerMatch[0].length, end: i + 1 };
+    }
+  }
+  throw new Error('VBF header block is not terminated');
+}
+
+function stripComments(text: string): string {
+  return text.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/[^\n]*/g, '');
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (!value) return null;
+  const match = value.match(/0x[0-9a-f]+|\d+/i);
+  if (!match) return null;
+  return match[0].toLowerCase().startsWith('0x') ? parseInt(match[0], 16) : parseInt(match[0], 10);
+}
+
+function parseString(value: string | undefined): string | null {
+  if (!value) return null;
+  // Part numbers may be given as a list: { "31012345", "AB" } - keep the first entry
+  const quoted = value.match(/"([^"]*)"/);
+  return quoted ? quoted[1] : value.replace(/[{}]/g, '').trim() || null;
+}
+
+export function parseVbfHeader(text: string): VbfHeader {
+  const versionMatch = text.match(/vbf_version\s*=\s*([\d.]+)/);
+  const { bodyStart, end } = findHeaderEnd(text);
+  const body = stripComments(text.slice(bodyStart, end - 1));
+
+  const fields: Record<string, string> = {};
+  let depth = 0;
+  let inString = false;
+  let statement = '';
+  for (const ch of body) {
+    if (ch === '"') inString = !inString;
+    if (!inString && ch === '{') depth++;
+    if (!inString && ch === '}') depth--;
+    if (ch === ';' && depth === 0 && !inString) {
+      const eq = statement.indexOf('=');
+      if (eq > 0) fields[statement.slice(0, eq).trim()] = statement.slice(eq + 1).trim();
+      statement = '';
+    } else {
+      statement += ch;
+    }
+  }
+
+  const erase: VbfEraseRange[] = [];
+  for (const pair of (fields.erase || '').matchAll(/\{\s*(0x[0-9a-f]+|\d+)\s*,\s*(0x[0-9a-f]+|\d+)\s*\}/gi)) {
+    erase.push({ start: parseNumber(pair[1])!, length: parseNumber(pair[2])! });
+  }
+
+  return {
+    vbfVersion: versionMatch?.[1] ?? null,
+    swPartNumber: parseString(fields.sw_part_number),
+    swVersion: parseString(fields.sw_version),
+    swPartType: parseString(fields.sw_part_type),
+    ecuAddress: parseNumber(fields.ecu_address),
+    erase,
+    verificationBlockStart: parseNumber(fields.verification_block_start),
+    fileChecksum: parseNumber(fields.file_checksum),
+    fields,
+  };
+}
+
+export function parseVbf(bytes: Uint8Array): VbfInfo {
+  // The header is plain ASCII; decoding the whole file as latin1 keeps
+  // character offsets equal to byte offsets.
+  const text = new TextDecoder('latin1').decode(bytes);
+  const header = parseVbfHeader(text);
+  const { end: dataOffset } = findHeaderEnd(text);
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const blocks: VbfBlock[] = [];
+  const errors: string[] = [];
+  let pos = dataOffset;
+
+  while (pos < bytes.length) {
+    if (pos + 8 > bytes.length) {
+      errors.push(`Truncated block header at file offset 0x${pos.toString(16)}`);
+      break;
+    }
+    const address = view.getUint32(pos);
+    const length = view.getUint32(pos + 4);
+    const dataStart = pos + 8;
+    if (dataStart + length + 2 > bytes.length) {
+      errors.push(`Block at 0x${address.toString(16)} declares ${length} bytes but the file ends early`);
+      break;
+    }
+
+    const crc = view.getUint16(dataStart + length);
+    const computedCrc = crc16Ccitt(bytes.subarray(dataStart, dataStart + length));
+    blocks.push({ address, length, offset: dataStart, crc, computedCrc, valid: crc === computedCrc });
+    pos = dataStart + length + 2;
+  }
+
+  const computedFileChecksum = crc32(bytes.subarray(dataOffset));
+  return {
+    header,
+    blocks,
+    dataOffset,
+    computedFileChecksum,
+    fileChecksumValid: header.fileChecksum === null ? null : header.fileChecksum === computedFileChecksum,
+    errors,
+  };
+}
+
+/** Persisted on scans.metadata.vbf. */
+export function summarizeVbf(info: VbfInfo) {
+  return {
+    header: info.header,
+    blocks: info.blocks,
+    computedFileChecksum: info.computedFileChecksum,
+    fileChecksumValid: info.fileChecksumValid,
+    errors: info.errors,
+  };
+}
@@ -0,0 +1,254 @@
+// Parsers for offline vulnerability feeds: NVD CVE JSON 2.0 feed files and
+// OSV records (single files or ecosystem dumps). Both are normalized into one
+// record per advisory plus one affected entry per vulnerable CPE match (NVD)
+// or per affected package range (OSV), which is what the matcher indexes on.
+
+export type VulnSource = 'nvd' | 'osv';
+
+/**
+ * One vulnerable product. NVD entries carry the CPE match criteria, OSV
+ * entries the package; both express versions as bounds or an explicit list.
+ */
+export interface VulnAffected {
+  cpe_vendor: string | null;
+  cpe_product: string | null;
+  criteria: string | null;
+  ecosystem: string | null;
+  package_name: string | null;
+  /** Package URL without a version. */
+  purl: string | null;
+  versions: string[];
+  version_start_including: string | null;
+  version_start_excluding: string | null;
+  version_end_including: string | null;
+  version_end_excluding: string | null;
+}
+
+/** NVD applicability statements: nodes of CPE matches combined with AND/OR. */
+export interface NvdCpeMatch {
+  vulnerable: boolean;
+  criteria: string;
+  versionStartIncluding?: string;
+  versionStartExcluding?: string;
+  versionEndIncluding?: string;
+  versionEndExcluding?: string;
+}
+
+export interface NvdNode {
+  operator?: 'AND' | 'OR';
+  negate?: boolean;
+  cpeMatch?: NvdCpeMatch[];
+}
+
+export interface NvdConfiguration {
+  operator?: 'AND' | 'OR';
+  negate?: boolean;
+  nodes: NvdNode[];
+}
+
+export interface VulnRecord {
+  id: string;
+  source: VulnSource;
+  aliases: string[];
+  summary: string;
+  severity: string | null;
+  cvss_score: number | null;
+  cvss_vector: string | null;
+  cwe_ids: string[];
+  published: string | null;
+  modified: string | null;
+  /** NVD only; OSV ranges are fully described by the affected entries. */
+  configurations: NvdConfiguration[] | null;
+  affected: VulnAffected[];
+}
+
+export class FeedError extends Error {}
+
+type Json = Record<string, unknown>;
+
+const asArray = <T>(value: unknown): T[] => (Array.isArray(value) ? value as T[] : []);
+const asString = (value: unknown): string | null => (typeof value === 'string' && value ? value : null);
+
+/** Splits a CPE 2.3 formatted string on unescaped colons. */
+export function cpeFields(cpe: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  for (let i = 0; i < cpe.length; i++) {
+    if (cpe[i] === '\\' && i + 1 < cpe.length) {
+      current += cpe[++i];
+    } else if (cpe[i] === ':') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += cpe[i];
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+/** pkg:type/namespace/name@version?qualifiers -> pkg:type/namespace/name, lower-cased */
+export function purlWithoutVersion(purl: string): string {
+  return purl.replace(/[?#].*$/, '').replace(/@[^/]*$/, '').toLowerCase();
+}
+
+function emptyAffected(): VulnAffected {
+  return {
+    cpe_vendor: null,
+    cpe_product: null,
+    criteria: null,
+    ecosystem: null,
+    package_name: null,
+    purl: null,
+    versions: [],
+    version_start_including: null,
+    version_start_excluding: null,
+    version_end_including: null,
+    version_end_excluding: null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// NVD
+
+function nvdCvss(metrics: Json | undefined): { score: number | null; severity: string | null; vector: string | null } {
+  for (const key of ['cvssMetricV40', 'cvssMetricV31', 'cvssMetricV30', 'cvssMetricV2']) {
+    const metric = asArray<Json>(metrics?.[key]).find(m => m.type === 'Primary') ?? asArray<Json>(metrics?.[key])[0];
+    const data = metric?.cvssData as Json | undefined;
+    if (!data) continue;
+    const severity = asString(data.baseSeverity) ?? asString(metric.baseSeverity);
+    return {
+      score: typeof data.baseScore === 'number' ? data.baseScore : null,
+      severity: severity?.toLowerCase() ?? null,
+      vector: asString(data.vectorString),
+    };
+  }
+  return { score: null, severity: null, vector: null };
+}
+
+function parseNvdCve(cve: Json): VulnRecord | null {
+  const id = asString(cve.id);
+  if (!id || cve.vulnStatus === 'Rejected') return null;
+
+  const configurations = asArray<NvdConfiguration>(cve.configurations);
+  const affected: VulnAffected[] = [];
+  for (const configuration of configurations) {
+    for (const node of asArray<NvdNode>(configuration.nodes)) {
+      for (const match of asArray<NvdCpeMatch>(node.cpeMatch)) {
+        if (!match.vulnerable || typeof match.criteria !== 'string') continue;
+        const fields = cpeFields(match.criteria);
+        const version = fields[5];
+        affected.push({
+          ...emptyAffected(),
+          cpe_vendor: fields[3]?.toLowerCase() ?? null,
+          cpe_product: fields[4]?.toLowerCase() ?? null,
+          criteria: match.criteria,
+          versions: version && version !== '*' && version !== '-' ? [version] : [],
+          version_start_including: match.versionStartIncluding ?? null,
+          version_start_excluding: match.versionStartExcluding ?? null,
+          version_end_including: match.versionEndIncluding ?? null,
+          version_end_excluding: match.versionEndExcluding ?? null,
+        });
+      }
+    }
+  }
+
+  const cvss = nvdCvss(cve.metrics as Json | undefined);
+  return {
+    id,
+    source: 'nvd',
+    aliases: [],
+    summary: asArray<Json>(cve.descriptions).find(d => d.lang === 'en')?.value as string ?? '',
+    severity: cvss.severity,
+    cvss_score: cvss.score,
+    cvss_vector: cvss.vector,
+    cwe_ids: [...new Set(asArray<Json>(cve.weaknesses)
+      .flatMap(w => asArray<Json>(w.description).map(d => asString(d.value)))
+      .filter((value): value is string => !!value && value.startsWith('CWE-')))],
+    published: asString(cve.published),
+    modified: asString(cve.lastModified),
+    configurations,
+    affected,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// OSV
+
+function osvAffected(entry: Json): VulnAffected[] {
+  const pkg = (entry.package ?? {}) as Json;
+  const base: VulnAffected = {
+    ...emptyAffected(),
+    ecosystem: asString(pkg.ecosystem),
+    package_name: asString(pkg.name),
+    purl: asString(pkg.purl) ? purlWithoutVersion(pkg.purl as string) : null,
+  };
+  const results: VulnAffected[] = [];
+
+  // Consecutive introduced/fixed (or last_affected) events form one interval
+  for (const range of asArray<Json>(entry.ranges)) {
+    if (range.type !== 'SEMVER' && range.type !== 'ECOSYSTEM') continue;
+    let introduced: string | null = null;
+    let open = false;
+    for (const event of asArray<Json>(range.events)) {
+      if (typeof event.introduced === 'string') {
+        introduced = event.introduced === '0' ? null : event.introduced;
+        open = true;
+      } else if (open && (typeof event.fixed === 'string' || typeof event.last_affected === 'string')) {
+        results.push({
+          ...base,
+          version_start_including: introduced,
+          version_end_excluding: asString(event.fixed),
+          version_end_including: asString(event.last_affected),
+        });
+        open = false;
+      }
+    }
+    if (open) results.push({ ...base, version_start_including: introduced });
+  }
+
+  const versions = asArray<unknown>(entry.versions).filter((v): v is string => typeof v === 'string');
+  if (versions.length > 0) results.push({ ...base, versions });
+  return results;
+}
+
+export function parseOsvRecord(record: Json): VulnRecord | null {
+  const id = asString(record.id);
+  if (!id || record.withdrawn) return null;
+  const affected = asArray<Json>(record.affected).flatMap(osvAffected);
+  const database = (record.database_specific ?? {}) as Json;
+  const vector = asArray<Json>(record.severity).map(s => asString(s.score)).find(Boolean) ?? null;
+  return {
+    id,
+    source: 'osv',
+    aliases: asArray<unknown>(record.aliases).filter((a): a is string => typeof a === 'string'),
+    summary: asString(record.summary) ?? asString(record.details) ?? '',
+    severity: asString(database.severity)?.toLowerCase() ?? null,
+    cvss_score: null,
+    cvss_vector: vector,
+    cwe_ids: asArray<unknown>(database.cwe_ids).filter((c): c is string => typeof c === 'string'),
+    published: asString(record.published),
+    modified: asString(record.modified),
+    configurations: null,
+    affected,
+  };
+}
+
+/** Records in one parsed JSON document: an NVD 2.0 feed, an OSV record, or an array of OSV records. */
+export function parseFeedDocument(document: unknown): VulnRecord[] {
+  if (Array.isArray(document)) return document.flatMap(item => parseFeedDocument(item));
+  if (!document || typeof document !== 'object') throw new FeedError('not a JSON object');
+  const json = document as Json;
+  if (Array.isArray(json.vulnerabilities)) {
+    if (json.format !== undefined && json.format !== 'NVD_CVE') throw new FeedError(`unsupported NVD feed format ${json.format}`);
+    return asArray<Json>(json.vulnerabilities)
+      .map(item => parseNvdCve((item.cve ?? {}) as Json))
+      .filter((record): record is VulnRecord => record !== null);
+  }
+  if (Array.isArray(json.CVE_Items)) throw new FeedError('NVD 1.1 feeds are retired; download the JSON 2.0 feed files');
+  if (typeof json.id === 'string' && (json.affected !== undefined || json.modified !== undefined)) {
+    const record = parseOsvRecord(json);
+    return record ? [record] : [];
+  }
+  throw new FeedError('neither an NVD CVE 2.0 feed nor an OSV record');
+}
@@ -0,0 +1,38 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { compareVersions, versionAffected } from "./vuln-match.ts";
+
+const bounds = (from: string | null, before: string | null) => ({
+  versions: [],
+  version_start_including: from,
+  version_start_excluding: null,
+  version_end_including: null,
+  version_end_excluding: before,
+});
+
+Deno.test('OpenSSL letter releases sort after the bare version', () => {
+  for (const version of ['1.0.2a', '1.0.2b', '1.0.2k', '1.0.2za']) {
+    assert(compareVersions(version, '1.0.2') > 0, `${version} > 1.0.2`);
+    assert(compareVersions(version, '1.0.3') < 0, `${version} < 1.0.3`);
+  }
+  assert(compareVersions('1.1.1a', '1.1.1b') < 0);
+  assert(compareVersions('1.1.1b', '1.1.1t') < 0);
+  assert(compareVersions('1.0.2z', '1.0.2za') < 0);
+  assertEquals(compareVersions('1.1.1k', '1.1.1k'), 0);
+});
+
+Deno.test('OpenSSL letter releases fall inside letter-bounded ranges', () => {
+  for (const version of ['1.0.2', '1.0.2a', '1.0.2b', '1.0.2c', '1.0.2za']) {
+    assert(versionAffected(version, bounds('1.0.2', '1.0.2zb')), version);
+  }
+  assert(!versionAffected('1.0.2zb', bounds('1.0.2', '1.0.2zb')));
+  assert(versionAffected('1.1.1a', bounds('1.1.1', '1.1.1t')));
+  assert(!versionAffected('1.1.1t', bounds('1.1.1', '1.1.1t')));
+});
+
+Deno.test('pre-release tags sort before the release', () => {
+  assert(compareVersions('2.0.0-rc1', '2.0.0') < 0);
+  assert(compareVersions('3.0.0-beta2', '3.0.0-alpha1') > 0);
+  assert(compareVersions('2.0.0b1', '2.0.0') < 0);
+  assert(compareVersions('2.0.0a1', '2.0.0b1') < 0);
+  assert(compareVersions('v1.2.13', '1.2.12') > 0);
+});
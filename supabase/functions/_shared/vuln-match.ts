@@ -0,0 +1,284 @@
+// Matches SBOM components against the locally imported vulnerability
+// database (vuln_records / vuln_affected). Components are looked up by the
+// vendor and product of their CPE and by their package URL; NVD applicability
+// statements and OSV version ranges are then evaluated against the component
+// version. Every match records what it was matched by, so a CVE in a report
+// can be traced back to a criteria string and a version range.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { cpeFields, purlWithoutVersion, type NvdConfiguration, type NvdCpeMatch, type VulnAffected } from "./vuln-feeds.ts";
+
+export interface MatchableComponent {
+  id: string;
+  component_name: string;
+  version: string | null;
+  cpe: string | null;
+  purl: string | null;
+}
+
+export type MatchedBy = 'cpe' | 'purl' | 'package-name';
+
+export interface VulnMatchEvidence {
+  /** CPE match criteria, or the package (ecosystem/name or purl). */
+  criteria: string;
+  /** Affected versions in the matching entry, e.g. ">= 1.1.1, < 1.1.1t". */
+  range: string;
+  component_version: string;
+  /** Non-vulnerable platform CPEs of an AND configuration, assumed to hold for the ECU. */
+  assumed_platforms: string[];
+}
+
+export interface VulnMatch {
+  component_id: string;
+  vuln_id: string;
+  /** CVE id of the advisory (its own id for NVD, the first CVE alias for OSV). */
+  cve_id: string | null;
+  matched_by: MatchedBy;
+  evidence: VulnMatchEvidence;
+}
+
+interface StoredAffected extends VulnAffected {
+  vuln_id: string;
+}
+
+interface StoredRecord {
+  id: string;
+  source: 'nvd' | 'osv';
+  aliases: string[];
+  configurations: NvdConfiguration[] | null;
+}
+
+// OSV ecosystems whose package names are upstream C/C++ project names
+const NATIVE_ECOSYSTEMS = ['OSS-Fuzz', 'GIT', 'ConanCenter'];
+const PAGE_SIZE = 1000;
+const ID_BATCH = 200;
+
+// ---------------------------------------------------------------------------
+// Versions
+
+// Release tags that sort before the bare version. A lone `a`/`b` only counts
+// when a number follows (2.0.0b1); otherwise it is a letter release such as
+// OpenSSL 1.0.2a, which sorts after 1.0.2.
+const PRE_RELEASE = /^(alpha|beta|pre|rc|dev)$/;
+
+// Token ranks: pre-release tag < end of version < letter release < number
+type VersionToken = [rank: number, value: number | string];
+const END_OF_VERSION: VersionToken = [1, ''];
+
+function versionTokens(version: string): VersionToken[] {
+  const text = version.replace(/^v(?=\d)/i, '').toLowerCase();
+  return (text.match(/\d+|[a-z]+/g) ?? []).map((token, i, tokens): VersionToken => {
+    if (/^\d/.test(token)) return [3, Number(token)];
+    const next = tokens[i + 1];
+    const preRelease = PRE_RELEASE.test(token) || (/^[ab]$/.test(token) && next !== undefined && /^\d/.test(next));
+    return [preRelease ? 0 : 2, token];
+  });
+}
+
+/**
+ * Orders dotted versions the way C libraries number them: numeric parts
+ * numerically, letter releases after the bare version (1.1.1 < 1.1.1a <
+ * 1.1.1k), pre-release tags before it (2.0.0-rc1 < 2.0.0).
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = versionTokens(a);
+  const right = versionTokens(b);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const [xRank, x] = left[i] ?? END_OF_VERSION;
+    const [yRank, y] = right[i] ?? END_OF_VERSION;
+    if (xRank !== yRank) return xRank - yRank;
+    if (x === y) continue;
+    if (typeof x === 'number' && typeof y === 'number') return x - y;
+    return x < y ? -1 : 1;
+  }
+  return 0;
+}
+
+type VersionBounds = Pick<VulnAffected,
+  'versions' | 'version_start_including' | 'version_start_excluding' | 'version_end_including' | 'version_end_excluding'>;
+
+export function versionAffected(version: string, bounds: VersionBounds): boolean {
+  if (bounds.versions.length > 0) return bounds.versions.some(v => compareVersions(v, version) === 0);
+  const { version_start_including: from, version_start_excluding: after, version_end_including: to, version_end_excluding: before } = bounds;
+  if (from && compareVersions(version, from) < 0) return false;
+  if (after && compareVersions(version, after) <= 0) return false;
+  if (to && compareVersions(version, to) > 0) return false;
+  if (before && compareVersions(version, before) >= 0) return false;
+  return true;
+}
+
+export function rangeLabel(bounds: VersionBounds): string {
+  if (bounds.versions.length > 0) {
+    return bounds.versions.length > 3 ? `one of ${bounds.versions.length} listed versions` : `= ${bounds.versions.join(' | ')}`;
+  }
+  const parts = [
+    bounds.version_start_including && `>= ${bounds.version_start_including}`,
+    bounds.version_start_excluding && `> ${bounds.version_start_excluding}`,
+    bounds.version_end_including && `<= ${bounds.version_end_including}`,
+    bounds.version_end_excluding && `< ${bounds.version_end_excluding}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'all versions';
+}
+
+// ---------------------------------------------------------------------------
+// CPE applicability
+
+function cpeMatchBounds(match: NvdCpeMatch): VersionBounds {
+  const version = cpeFields(match.criteria)[5];
+  return {
+    versions: version && version !== '*' && version !== '-' ? [version] : [],
+    version_start_including: match.versionStartIncluding ?? null,
+    version_start_excluding: match.versionStartExcluding ?? null,
+    version_end_including: match.versionEndIncluding ?? null,
+    version_end_excluding: match.versionEndExcluding ?? null,
+  };
+}
+
+/** Vendor and product must agree; the part (a/o/h) is ignored because NVD files RTOSes such as FreeRTOS as 'o'. */
+function cpeMatches(match: NvdCpeMatch, vendor: string, product: string, version: string): boolean {
+  const fields = cpeFields(match.criteria);
+  const sameProduct = (field: string | undefined, value: string) => field === '*' || field?.toLowerCase() === value;
+  return sameProduct(fields[3], vendor) && sameProduct(fields[4], product) && versionAffected(version, cpeMatchBounds(match));
+}
+
+/**
+ * A configuration applies when its vulnerable CPE matches cover the
+ * component. Nodes that only list non-vulnerable platform CPEs (the OS or
+ * hardware a product runs on) cannot be checked against one component; they
+ * are assumed to hold and reported as such.
+ */
+function evaluateConfigurations(
+  configurations: NvdConfiguration[],
+  vendor: string,
+  product: string,
+  version: string,
+): { match: NvdCpeMatch; assumed: string[] } | null {
+  for (const configuration of configurations) {
+    let hit: NvdCpeMatch | null = null;
+    const assumed: string[] = [];
+    const results: boolean[] = [];
+    for (const node of configuration.nodes) {
+      const matches = node.cpeMatch ?? [];
+      const vulnerable = matches.filter(m => m.vulnerable);
+      if (vulnerable.length === 0 || node.negate) {
+        assumed.push(...matches.map(m => m.criteria));
+        results.push(true);
+        continue;
+      }
+      const found = vulnerable.find(m => cpeMatches(m, vendor, product, version));
+      hit ??= found ?? null;
+      results.push(node.operator === 'AND' ? vulnerable.every(m => cpeMatches(m, vendor, product, version)) : !!found);
+    }
+    const applies = configuration.operator === 'AND' ? results.every(Boolean) : results.some(Boolean);
+    if (applies && hit) return { match: hit, assumed: configuration.operator === 'AND' ? assumed : [] };
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+
+function componentCpe(component: MatchableComponent): { vendor: string; product: string } | null {
+  if (!component.cpe) return null;
+  const fields = cpeFields(component.cpe);
+  return fields[3] && fields[4] ? { vendor: fields[3].toLowerCase(), product: fields[4].toLowerCase() } : null;
+}
+
+const cveOf = (record: StoredRecord) => (record.source === 'nvd' ? record.id : record.aliases.find(a => a.startsWith('CVE-')) ?? null);
+
+/** Matches for one component against the candidate entries and their records. */
+export function matchComponent(
+  component: MatchableComponent,
+  affected: StoredAffected[],
+  records: Map<string, StoredRecord>,
+): VulnMatch[] {
+  if (!component.version) return [];
+  const version = component.version;
+  const cpe = componentCpe(component);
+  const purl = component.purl ? purlWithoutVersion(component.purl) : null;
+  const name = component.component_name.toLowerCase();
+  const matches = new Map<string, VulnMatch>();
+
+  for (const entry of affected) {
+    const record = records.get(entry.vuln_id);
+    if (!record || matches.has(record.id)) continue;
+    const add = (matchedBy: MatchedBy, evidence: Omit<VulnMatchEvidence, 'component_version'>) =>
+      matches.set(record.id, { component_id: component.id, vuln_id: record.id, cve_id: cveOf(record), matched_by: matchedBy, evidence: { ...evidence, component_version: version } });
+
+    if (record.source === 'nvd' && cpe && entry.cpe_vendor === cpe.vendor && entry.cpe_product === cpe.product) {
+      const result = evaluateConfigurations(record.configurations ?? [], cpe.vendor, cpe.product, version);
+      if (result) add('cpe', { criteria: result.match.criteria, range: rangeLabel(cpeMatchBounds(result.match)), assumed_platforms: result.assumed });
+    } else if (record.source === 'osv' && versionAffected(version, entry)) {
+      if (purl && entry.purl === purl) {
+        add('purl', { criteria: entry.purl, range: rangeLabel(entry), assumed_platforms: [] });
+      } else if (entry.package_name?.toLowerCase() === name && NATIVE_ECOSYSTEMS.includes(entry.ecosystem ?? '')) {
+        add('package-name', { criteria: `${entry.ecosystem}/${entry.package_name}`, range: rangeLabel(entry), assumed_platforms: [] });
+      }
+    }
+  }
+
+  // An OSV advisory that aliases a matched CVE describes the same issue
+  const cves = new Set([...matches.values()].filter(m => records.get(m.vuln_id)?.source === 'nvd').map(m => m.vuln_id));
+  return [...matches.values()].filter(m => records.get(m.vuln_id)?.source === 'nvd' || !m.cve_id || !cves.has(m.cve_id));
+}
+
+type PageQuery = (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>;
+
+async function selectAllAffected(query: PageQuery): Promise<StoredAffected[]> {
+  const rows: StoredAffected[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Reading vuln_affected failed: ${error.message}`);
+    rows.push(...(data ?? []) as StoredAffected[]);
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Matches components against the local database. Returns null when no feed
+ * has been imported, so callers can tell "no known vulnerabilities" apart
+ * from "nothing to compare against".
+ */
+export async function matchVulnerabilities(
+  supabase: SupabaseClient,
+  components: MatchableComponent[],
+): Promise<{ matches: VulnMatch[]; unversioned: number } | null> {
+  const { count } = await supabase.from('vuln_records').select('id', { count: 'exact', head: true });
+  if (!count) return null;
+
+  const matches: VulnMatch[] = [];
+  let unversioned = 0;
+  for (const component of components) {
+    if (!component.version) {
+      unversioned++;
+      continue;
+    }
+    const affected: StoredAffected[] = [];
+    const cpe = componentCpe(component);
+    if (cpe) {
+      affected.push(...await selectAllAffected((from, to) => supabase.from('vuln_affected').select('*')
+        .eq('cpe_vendor', cpe.vendor).eq('cpe_product', cpe.product).range(from, to)));
+    }
+    const purl = component.purl ? purlWithoutVersion(component.purl) : null;
+    if (purl) {
+      affected.push(...await selectAllAffected((from, to) => supabase.from('vuln_affected').select('*')
+        .eq('purl', purl).range(from, to)));
+    }
+    const pattern = component.component_name.replace(/[\\%_]/g, '\\$&');
+    affected.push(...await selectAllAffected((from, to) => supabase.from('vuln_affected').select('*')
+      .in('ecosystem', NATIVE_ECOSYSTEMS).ilike('package_name', pattern).range(from, to)));
+    if (affected.length === 0) continue;
+
+    const ids = [...new Set(affected.map(a => a.vuln_id))];
+    const records = new Map<string, StoredRecord>();
+    for (let i = 0; i < ids.length; i += ID_BATCH) {
+      const { data, error } = await supabase.from('vuln_records')
+        .select('id, source, aliases, configurations')
+        .in('id', ids.slice(i, i + ID_BATCH));
+      if (error) throw new Error(`Reading vuln_records failed: ${error.message}`);
+      for (const record of (data ?? []) as StoredRecord[]) records.set(record.id, record);
+    }
+    matches.push(...matchComponent(component, affected, records));
+  }
+  return { matches, unversioned };
+}
@@ -1,25 +1,92 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { summarizeElf } from "../_shared/elf.ts";
+import { summarizeVbf } from "../_shared/vbf.ts";
+import {
+  detectFirmwareFormat,
+  loadFirmwareImage,
+  offsetToAddress,
+  rawFirmwareImage,
+  summarizeImage,
+  type FirmwareImage,
+} from "../_shared/firmware-image.ts";
+import { chunkBinary, chunkSource, type AnalysisChunk } from "../_shared/chunking.ts";
+import { mapWithConcurrency } from "../_shared/concurrency.ts";
+import {
+  mergeAnalysisResults,
+  normalizeAnalysisResult,
+  vulnerabilityKey,
+  type AnalysisResult,
+  type SensitiveDataFinding,
+  type VulnerabilityFinding,
+} from "../_shared/findings.ts";
+import { downloadArtifact, imageArtifactPath, memberArtifactPath, uploadArtifact } from "../_shared/storage.ts";
+import { matchVulnerabilities, type MatchableComponent } from "../_shared/vuln-match.ts";
+import {
+  ArchiveError,
+  detectArchiveFormat,
+  unpackArchive,
+  type ArchiveFormat,
+  type SkippedMember,
+} from "../_shared/archive.ts";
+import { extractStrings, summarizeStrings, type ExtractedString } from "../_shared/strings.ts";
+import { locateSnippet, splitSourceLines } from "../_shared/source-locations.ts";
+import { buildEcuModel, checkEcuModel, describeEcuModel, isArxml } from "../_shared/arxml.ts";
+import { computeBusExposure, describeBusExposure, type NetworkDatabase } from "../_shared/bus-exposure.ts";
+import { isCSource, runStaticChecks } from "../_shared/c-checker.ts";
+import { analyzeUdsImage, analyzeUdsSource, describeUds, summarizeUds, udsComplianceResults, udsFindings, type UdsSurface } from "../_shared/uds.ts";
+import {
+  analyzeBootChainImage,
+  analyzeBootChainSource,
+  bootChainComplianceResults,
+  bootChainFindings,
+  describeBootChain,
+  type BootChainReport,
+} from "../_shared/boot-chain.ts";
+import {
+  analyzeCryptoImage,
+  analyzeCryptoSource,
+  cryptoFindings,
+  describeCrypto,
+  summarizeCrypto,
+  type CryptoInventory,
+} from "../_shared/crypto.ts";
+import { describeComponents, identifyImageComponents, identifySourceComponents, reconcileReportedComponents } from "../_shared/sbom.ts";
+import { scanSignatures } from "../_shared/signature-scan.ts";
+import { entropyFindings, profileEntropy, type EntropyProfile } from "../_shared/entropy.ts";
+import { analyzeHardening, describeHardening, hardeningComplianceResults, type HardeningReport } from "../_shared/hardening.ts";
+import { scanSensitiveData, sensitiveFindings } from "../_shared/secrets.ts";
+import { detectArchitecture, type ArchitectureDetection } from "../_shared/architecture.ts";
+import {
+  disassemble,
+  functionContaining,
+  functionsReferencing,
+  summarizeDisassembly,
+  type DisassemblyResult,
+} from "../_shared/disassembly.ts";
+import {
+  claimScanJob,
+  finishScanJob,
+  JobCancelledError,
+  rescheduleScanJob,
+  retryDelayMs,
+  RetryableError,
+  throwIfCancelled,
+  type ScanJob,
+  type ScanJobPayload,
+} from "../_shared/jobs.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface AnalysisRequest {
-  scanId: string;
-  fileContent: string; // Base64 encoded
-  fileName: string;
-  metadata: {
-    ecuName: string;
-    ecuType: string;
-    version?: string;
-    manufacturer?: string;
-    architecture: string;
-    deepAnalysis: boolean;
-    complianceFrameworks: string[];
-  };
-}
+/** Job metadata plus context derived during the scan, as given to the LLM. */
+type AnalysisMetadata = ScanJobPayload['metadata'] & {
+  busExposure?: string;
+  /** Per file: summary of the deterministic UDS and boot chain analysis. */
+  staticContext?: string;
+};
 
 async function updateScanStatus(supabase: any, scanId: string, status: string, progress: number) {
   await supabase.from('scans').update({ status, progress }).eq('id', scanId);
@@ -31,42 +98,227 @@ async function updateScanStatus(supabase: any, scanId: string, status: string, p
   });
 }
 
-async function analyzeBinaryWithLLM(
-  fileContent: string,
-  fileName: string,
-  metadata: AnalysisRequest['metadata'],
-  apiKey: string
-): Promise<{
-  vulnerabilities: any[];
-  complianceResults: any[];
-  sbomComponents: any[];
-  piiFindings: any[];
-  secretFindings: any[];
-  executiveSummary: string;
-  riskScore: number;
-}> {
-  // Decode base64 to get content
-  let contentPreview: string;
-  let isTextFile = false;
-  
-  const textExtensions = ['.c', '.h', '.cpp', '.hpp', '.arxml', '.xml', '.txt', '.json'];
-  isTextFile = textExtensions.some(ext => fileName.toLowerCase().endsWith(ext));
-  
-  if (isTextFile) {
-    // For text files, decode and show actual content
-    try {
-      contentPreview = atob(fileContent.slice(0, 8000));
-    } catch {
-      contentPreview = fileContent.slice(0, 4000);
+async function logAnalysis(supabase: SupabaseClient, scanId: string, stage: string, logLevel: 'info' | 'warning' | 'error', message: string) {
+  await supabase.from('analysis_logs').insert({ scan_id: scanId, stage, log_level: logLevel, message });
+}
+
+/** Inserts one finding; a rejected row is logged to the scan instead of being dropped silently. */
+async function storeFinding(supabase: SupabaseClient, scanId: string, row: Record<string, unknown>) {
+  const { error } = await supabase.from('vulnerabilities').insert(row);
+  if (error) {
+    console.error(`Storing finding "${row.title}" failed:`, error);
+    await logAnalysis(supabase, scanId, 'analyzing', 'error', `Could not store finding "${row.title}": ${error.message}`);
+  }
+}
+
+async function mergeScanMetadata(supabase: SupabaseClient, scanId: string, patch: Record<string, unknown>) {
+  const { data } = await supabase.from('scans').select('metadata').eq('id', scanId).single();
+  await supabase.from('scans').update({ metadata: { ...(data?.metadata || {}), ...patch } }).eq('id', scanId);
+}
+
+// Parallel LLM calls per scan; keeps us below the gateway's rate limit
+const LLM_CONCURRENCY = 4;
+
+const TEXT_EXTENSIONS = ['.c', '.h', '.cpp', '.hpp', '.arxml', '.xml', '.txt', '.json'];
+
+function isSourceFile(fileName: string): boolean {
+  return TEXT_EXTENSIONS.some(ext => fileName.toLowerCase().endsWith(ext));
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// The browser computes the hashes before upload; the bytes that actually
+// arrived here are authoritative for duplicate detection.
+async function verifyFileHash(supabase: SupabaseClient, scanId: string, fileBytes: Uint8Array) {
+  const sha256 = await sha256Hex(fileBytes);
+  const { data } = await supabase.from('scans').select('file_hash').eq('id', scanId).single();
+  if (data?.file_hash === sha256) return;
+
+  if (data?.file_hash) {
+    await logAnalysis(supabase, scanId, 'parsing', 'warning',
+      `Uploaded file SHA-256 ${sha256} does not match the client-computed ${data.file_hash}; using the server value`);
+  }
+  await supabase.from('scans').update({ file_hash: sha256 }).eq('id', scanId);
+}
+
+function formatHex(value: number): string {
+  return `0x${value.toString(16).padStart(8, '0')}`;
+}
+
+const FORMAT_LABELS: Record<FirmwareImage['format'], string> = {
+  elf: 'ELF',
+  ihex: 'Intel HEX',
+  srec: 'Motorola S-record',
+  vbf: 'VBF',
+  raw: 'raw binary',
+};
+
+function describeImageContext(image: FirmwareImage): string {
+  const lines = [`Container: ${FORMAT_LABELS[image.format]}, ${image.segments.length} segment(s), ${image.data.length} bytes`];
+  if (image.elf) {
+    lines.push(`ELF: ${image.elf.elfClass} ${image.elf.endianness}-endian ${image.elf.fileType}, machine ${image.elf.machine}`);
+    lines.push(`Compiler: ${image.elf.compilerStrings.join(' | ') || 'Unknown'}`);
+  }
+  if (image.entryPoint !== null) lines.push(`Entry point: ${formatHex(image.entryPoint)}`);
+  if (image.header) lines.push(`Header: ${image.header}`);
+  return lines.join('\n');
+}
+
+async function logImageDiagnostics(supabase: SupabaseClient, scanId: string, image: FirmwareImage, fileName: string) {
+  if (image.elf) {
+    const elf = image.elf;
+    await logAnalysis(supabase, scanId, 'parsing', 'info',
+      `Parsed ${elf.elfClass} ${elf.endianness}-endian ${elf.machine} ELF: ${elf.sections.length} sections, ${elf.programHeaders.length} program headers, ${elf.symbolSummary.total} symbols`);
+    return;
+  }
+
+  if (image.vbf) {
+    const { header, blocks, errors } = image.vbf;
+    await logAnalysis(supabase, scanId, 'parsing', 'info',
+      `Parsed VBF ${header.vbfVersion ?? ''} header: part ${header.swPartNumber ?? 'unknown'}, version ${header.swVersion ?? 'unknown'}, ECU address ${header.ecuAddress !== null ? `0x${header.ecuAddress.toString(16)}` : 'unknown'}, ${blocks.length} data block(s)`);
+
+    for (const block of blocks.filter(b => !b.valid)) {
+      await logAnalysis(supabase, scanId, 'parsing', 'error',
+        `VBF block at ${formatHex(block.address)} failed CRC16 check: stored 0x${block.crc.toString(16).padStart(4, '0')}, computed 0x${block.computedCrc.toString(16).padStart(4, '0')}`);
+    }
+    if (image.vbf.fileChecksumValid === false) {
+      await logAnalysis(supabase, scanId, 'parsing', 'error',
+        `VBF file_checksum mismatch: header 0x${header.fileChecksum!.toString(16).padStart(8, '0')}, computed CRC32 0x${image.vbf.computedFileChecksum.toString(16).padStart(8, '0')}`);
+    }
+    for (const error of errors) {
+      await logAnalysis(supabase, scanId, 'parsing', 'error', error);
     }
+    return;
+  }
+
+  if (image.format === 'raw') {
+    await logAnalysis(supabase, scanId, 'parsing', 'info', `Loaded ${fileName} as raw binary (${image.data.length} bytes)`);
+    return;
+  }
+
+  await logAnalysis(supabase, scanId, 'parsing', 'info',
+    `Decoded ${image.recordCount} ${FORMAT_LABELS[image.format]} records into ${image.segments.length} segment(s), ${image.data.length} bytes`);
+
+  for (const error of image.errors.slice(0, 20)) {
+    await logAnalysis(supabase, scanId, 'parsing', 'error', `Line ${error.line}: ${error.message}`);
+  }
+  if (image.errors.length > 20) {
+    await logAnalysis(supabase, scanId, 'parsing', 'error', `${image.errors.length - 20} further record errors not shown`);
+  }
+  if (image.gaps.length > 0) {
+    await logAnalysis(supabase, scanId, 'parsing', 'info',
+      `Memory map has ${image.gaps.length} gap(s): ${image.gaps.slice(0, 5).map(g => `${formatHex(g.start)}-${formatHex(g.end - 1)}`).join(', ')}`);
+  }
+  for (const overlap of image.overlaps.slice(0, 20)) {
+    await logAnalysis(supabase, scanId, 'parsing', overlap.identical ? 'info' : 'warning',
+      `${overlap.length} byte(s) at ${formatHex(overlap.address)} written more than once${overlap.identical ? ' (identical data)' : ' with conflicting data - later record kept'}`);
+  }
+}
+
+/**
+ * The uploader's architecture choice is only a hint: fill it in when it was
+ * left as Unknown, and override it when the content says otherwise with at
+ * least medium confidence.
+ */
+async function reconcileArchitecture(
+  supabase: SupabaseClient,
+  scanId: string,
+  metadata: ScanJobPayload['metadata'],
+  detection: ArchitectureDetection,
+) {
+  const declared = metadata.architecture?.trim() || 'Unknown';
+  if (!detection.architecture) {
+    await logAnalysis(supabase, scanId, 'parsing', 'info', `Architecture could not be determined from content; keeping ${declared}`);
+    return;
+  }
+
+  const variant = detection.variant ? ` (${detection.variant})` : '';
+  const summary = `${detection.architecture}${variant}, ${detection.confidence} confidence - ${detection.evidence[0]}`;
+  if (declared === detection.architecture) {
+    await logAnalysis(supabase, scanId, 'parsing', 'info', `Architecture confirmed: ${summary}`);
+    return;
+  }
+  if (detection.confidence === 'low') {
+    await logAnalysis(supabase, scanId, 'parsing', 'warning',
+      `Uploaded as ${declared}, content suggests ${summary}; not confident enough to override`);
+    return;
+  }
+
+  await supabase.from('scans').update({ architecture: detection.architecture }).eq('id', scanId);
+  metadata.architecture = detection.architecture;
+  if (declared === 'Unknown') {
+    await logAnalysis(supabase, scanId, 'parsing', 'info', `Architecture detected: ${summary}`);
   } else {
-    // For binary files, show hex
-    const binaryData = atob(fileContent.slice(0, 2000));
-    contentPreview = Array.from(binaryData.slice(0, 500))
-      .map(c => c.charCodeAt(0).toString(16).padStart(2, '0'))
-      .join(' ');
+    await logAnalysis(supabase, scanId, 'parsing', 'warning',
+      `Uploaded as ${declared} but content is ${summary}; analyzing as ${detection.architecture}`);
+  }
+}
+
+async function requestCompletion(apiKey: string, messages: { role: string; content: string }[]): Promise<string> {
+  const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: 'google/gemini-2.5-flash',
+      messages,
+    }),
+  });
+
+  if (!response.ok) {
+    if (response.status === 429) {
+      throw new RetryableError('Rate limit exceeded. Please try again later.');
+    }
+    if (response.status === 402) {
+      throw new RetryableError('AI credits exhausted. Please add funds to continue.');
+    }
+    const errorText = await response.text();
+    console.error('LLM API error:', response.status, errorText);
+    throw new Error(`LLM API error: ${response.status}`);
   }
 
+  const data = await response.json();
+  const content = data.choices?.[0]?.message?.content;
+  
+  if (!content) {
+    throw new Error('No content in LLM response');
+  }
+  return content;
+}
+
+// Parse JSON from response (handle potential markdown code blocks)
+function parseJsonContent(content: string): Record<string, unknown> {
+  let jsonContent = content;
+  if (content.includes('```json')) {
+    jsonContent = content.replace(/```json\n?/g, '').replace(/```\n?/g, '');
+  } else if (content.includes('```')) {
+    jsonContent = content.replace(/```\n?/g, '');
+  }
+
+  try {
+    return JSON.parse(jsonContent.trim());
+  } catch {
+    console.error('Failed to parse LLM response:', jsonContent);
+    throw new Error('Failed to parse LLM response as JSON');
+  }
+}
+
+async function analyzeChunkWithLLM(
+  chunk: AnalysisChunk,
+  chunkCount: number,
+  fileName: string,
+  metadata: AnalysisMetadata,
+  apiKey: string,
+  fileContext: string | null
+): Promise<AnalysisResult> {
+  const isTextFile = chunk.kind === 'source';
+  const isConfig = isArxml(fileName);
+
   const systemPrompt = `You are an expert automotive ECU security analyst with deep expertise in:
 - Embedded systems vulnerability detection (buffer overflows, memory corruption, race conditions)
 - Hardcoded credentials, API keys, tokens, and cryptographic key detection
@@ -87,7 +339,8 @@ COMPLIANCE FRAMEWORKS (use LATEST versions):
 
 Respond ONLY with valid JSON, no markdown or explanations.`;
 
-  const analysisPrompt = `Analyze this ${metadata.architecture} ECU ${isTextFile ? 'source file' : 'binary'} for security vulnerabilities:
+  const analysisPrompt = `Analyze this ${metadata.architecture} ECU ${isConfig ? 'AUTOSAR ARXML configuration' : isTextFile ? 'source file' : 'binary'} for security vulnerabilities.
+This is part ${chunk.id + 1} of ${chunkCount} (${chunk.label}); other parts are analyzed separately, so only report issues visible in this part.
 
 ECU Details:
 - Name: ${metadata.ecuName}
@@ -96,25 +349,27 @@ ECU Details:
 - Manufacturer: ${metadata.manufacturer || 'Unknown'}
 - Architecture: ${metadata.architecture}
 - File: ${fileName}
-
-${isTextFile ? 'Source Code Content:' : 'Binary Header (hex):'}
-${contentPreview}
+${metadata.busExposure ? `\nNetwork exposure (from the platform CAN databases):\n${metadata.busExposure}\n` : ''}
+${metadata.staticContext ? `Deterministic analysis of this file (already reported, do not repeat these findings):\n${metadata.staticContext}\n` : ''}
+${fileContext ? `${isConfig ? 'ECU model parsed from the ARXML' : 'Image context'}:\n${fileContext}\n` : ''}
+${isTextFile ? `${isConfig ? 'ARXML' : 'Source Code'} Content (each line is prefixed with its line number in the original file):` : 'Binary region (addresses are load addresses):'}
+${chunk.content}
 
 Compliance Frameworks to check: ${metadata.complianceFrameworks.join(', ') || 'MISRA C:2023, ISO 21434:2021, ISO 26262:2018'}
 
 CRITICAL INSTRUCTIONS:
-1. Generate realistic vulnerabilities with EXACT line numbers and code snippets from the content shown
+1. Report vulnerabilities with EXACT line numbers (the prefixed numbers for source, null for binaries) and code snippets copied from the content shown, without the line-number prefix${isTextFile ? '' : '\n   For binaries, affected_function must be one of the functions listed for this region, or null if none applies'}
 2. SCAN FOR PII: email addresses, phone numbers, IP addresses, names, device IDs stored in code
 3. SCAN FOR SECRETS: API keys, passwords, tokens, private keys, certificates, hardcoded credentials
-4. Use the LATEST compliance framework versions in your results
+4. Use the LATEST compliance framework versions in your results${metadata.busExposure ? `
+   Set attack_vector to the concrete route from the network exposure (e.g. "Telematics -> Body CAN") when the issue is reachable over the bus` : ''}${isConfig ? `
+5. This is configuration, not code: review SecOC coverage of PDUs, freshness value and MAC lengths, diagnostic access permissions, and ports or signals exposing safety functions. MISRA C does not apply` : ''}
 
-SBOM GENERATION (VERY IMPORTANT):
-- Analyze #include statements, linked libraries, and referenced components
-- For EACH component detected, research and include KNOWN CVEs if applicable
-- Common automotive libraries with known CVEs include: OpenSSL, FreeRTOS, lwIP, Mbed TLS, zlib, wolfSSL, libcurl, SQLite
-- ALWAYS include at least 5-8 realistic SBOM components that would be in automotive ECU firmware
-- Each component MUST have a version (even if estimated) and known CVEs if they exist
-- Example: OpenSSL 1.1.1k has CVE-2021-3449, CVE-2021-3450; FreeRTOS <10.4.3 has CVE-2021-31571
+SBOM COMPONENTS:
+- Components identified from banners, symbols and #include directives are listed in the deterministic analysis; do not repeat them
+- Only report another third-party component if the content shown contains evidence of it, and copy that evidence (an #include line, version banner or string) verbatim into source_file; components whose evidence is not in the file are discarded
+- Never guess a component or a version: use null when the version is not in the content
+- List known CVEs only for the exact version you report
 
 Return JSON in this exact format:
 {
@@ -129,8 +384,10 @@ Return JSON in this exact format:
       "affected_component": "filename.c",
       "affected_function": "function_name()",
       "code_snippet": "exact vulnerable code from content",
-      "line_number": exact_line_number,
-      "detection_method": "llm|semgrep|yara|ghidra|capa",
+      "line_number": exact_line_number,${isTextFile ? '' : `
+      "address": "0x... load address of the bytes in this region the finding is about, or null",
+      "byte_length": number_of_bytes_involved,`}
+      "detection_method": "llm",
       "remediation": "how to fix with code example",
       "attack_vector": "how it could be exploited",
       "impact": "what damage could occur"
@@ -142,18 +399,19 @@ Return JSON in this exact format:
       "rule_id": "Rule ID",
       "rule_description": "description",
       "status": "pass|fail|warning",
-      "details": "specific violation details with line number"
+      "details": "specific violation details with line number",
+      "line_number": ${isTextFile ? 'exact_line_number_or_null' : 'null'}
     }
   ],
   "sbom_components": [
     {
-      "component_name": "OpenSSL",
-      "version": "1.1.1k",
-      "license": "OpenSSL License",
-      "source_file": "#include <openssl/md5.h>",
-      "vulnerabilities": ["CVE-2021-3449", "CVE-2021-3450"],
-      "cpe": "cpe:2.3:a:openssl:openssl:1.1.1k:*:*:*:*:*:*:*",
-      "purl": "pkg:generic/openssl@1.1.1k"
+      "component_name": "string",
+      "version": "version shown in the content or null",
+      "license": "SPDX license id or null",
+      "source_file": "evidence copied verbatim from the content, e.g. #include <zlib.h>",
+      "vulnerabilities": ["CVE-XXXX-XXXX"],
+      "cpe": "cpe:2.3:a:vendor:product:version:*:*:*:*:*:*:* or null",
+      "purl": "pkg:generic/name@version or null"
     }
   ],
   "pii_findings": [
@@ -180,57 +438,122 @@ Return JSON in this exact format:
   "risk_score": 0-100
 }`;
 
-  const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'google/gemini-2.5-flash',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: analysisPrompt }
-      ],
-    }),
-  });
+  const content = await requestCompletion(apiKey, [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: analysisPrompt },
+  ]);
+  const result = normalizeAnalysisResult(parseJsonContent(content));
 
-  if (!response.ok) {
-    if (response.status === 429) {
-      throw new Error('Rate limit exceeded. Please try again later.');
-    }
-    if (response.status === 402) {
-      throw new Error('AI credits exhausted. Please add funds to continue.');
+  // Binary regions have no file/line context; attribute findings to the region
+  // and turn a reported address inside it into an image offset
+  if (!isTextFile) {
+    for (const vuln of result.vulnerabilities as (VulnerabilityFinding & { address?: unknown })[]) {
+      vuln.affected_component = vuln.affected_component || chunk.component;
+      const address = typeof vuln.address === 'number' ? vuln.address : parseInt(String(vuln.address ?? ''), 16);
+      const rel = address - (chunk.address ?? 0);
+      if (chunk.offset !== undefined && Number.isFinite(rel) && rel >= 0 && rel < (chunk.size ?? 0)) {
+        vuln.byte_offset = chunk.offset + rel;
+        vuln.byte_length = Math.max(1, Math.min(Number(vuln.byte_length) || 1, (chunk.size ?? 0) - rel));
+      } else {
+        vuln.byte_offset = null;
+        vuln.byte_length = null;
+      }
+      delete vuln.address;
     }
-    const errorText = await response.text();
-    console.error('LLM API error:', response.status, errorText);
-    throw new Error(`LLM API error: ${response.status}`);
   }
+  return result;
+}
 
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content;
-  
-  if (!content) {
-    throw new Error('No content in LLM response');
-  }
+async function summarizeFindingsWithLLM(
+  merged: AnalysisResult,
+  fileName: string,
+  metadata: ScanJobPayload['metadata'],
+  apiKey: string
+): Promise<{ executiveSummary: string; riskScore: number }> {
+  const findings = merged.vulnerabilities
+    .map(v => `- [${v.severity}] ${v.title} (${v.cwe_id || 'no CWE'}) in ${v.affected_component || v.member_path || fileName}${v.line_number ? `:${v.line_number}` : ''}`)
+    .join('\n');
 
-  // Parse JSON from response (handle potential markdown code blocks)
-  let jsonContent = content;
-  if (content.includes('```json')) {
-    jsonContent = content.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-  } else if (content.includes('```')) {
-    jsonContent = content.replace(/```\n?/g, '');
-  }
+  const prompt = `Summarize the merged results of a chunked security analysis of the ${metadata.ecuType} ECU "${metadata.ecuName}" (${metadata.architecture}, file ${fileName}).
+
+Vulnerabilities (${merged.vulnerabilities.length}):
+${findings || 'none'}
+
+Hardcoded secrets: ${merged.secretFindings.length}
+PII findings: ${merged.piiFindings.length}
+Failed compliance checks: ${merged.complianceResults.filter(c => c.status === 'fail').length}
+SBOM components: ${merged.sbomComponents.map(c => `${c.component_name} ${c.version || ''}`.trim()).join(', ') || 'none'}
+
+Respond ONLY with valid JSON:
+{
+  "executive_summary": "2-3 paragraph professional summary including PII/secret risks",
+  "risk_score": 0-100
+}`;
 
   try {
-    return JSON.parse(jsonContent.trim());
+    const result = parseJsonContent(await requestCompletion(apiKey, [{ role: 'user', content: prompt }]));
+    return {
+      executiveSummary: String(result.executive_summary || merged.executiveSummary),
+      riskScore: Number(result.risk_score ?? merged.riskScore),
+    };
   } catch (e) {
-    console.error('Failed to parse LLM response:', jsonContent);
-    throw new Error('Failed to parse LLM response as JSON');
+    console.error('Summary generation failed, keeping per-chunk summaries:', e);
+    return { executiveSummary: merged.executiveSummary, riskScore: merged.riskScore };
   }
 }
 
-async function enrichVulnerabilityWithLLM(vuln: any, apiKey: string): Promise<any> {
+async function analyzeFileWithLLM(
+  supabase: SupabaseClient,
+  scanId: string,
+  fileBytes: Uint8Array,
+  fileName: string,
+  metadata: AnalysisMetadata,
+  apiKey: string,
+  image: FirmwareImage | null,
+  disassembly: DisassemblyResult | null,
+  modelContext: string | null,
+  summarize: boolean
+): Promise<AnalysisResult> {
+  const chunks = image
+    ? chunkBinary(image, undefined, disassembly?.functions)
+    : chunkSource(new TextDecoder().decode(fileBytes), fileName);
+  const fileContext = image ? describeImageContext(image) : modelContext;
+
+  await logAnalysis(supabase, scanId, 'analyzing', 'info',
+    `Split ${fileName} into ${chunks.length} chunk(s) ${image ? 'by section/segment' : 'at top-level declarations'}`);
+
+  const settled = await mapWithConcurrency(chunks, LLM_CONCURRENCY, (chunk) =>
+    analyzeChunkWithLLM(chunk, chunks.length, fileName, metadata, apiKey, fileContext)
+  );
+
+  const results: AnalysisResult[] = [];
+  let firstError: unknown = null;
+  for (const [index, outcome] of settled.entries()) {
+    if (outcome.status === 'fulfilled') {
+      results.push(outcome.value);
+      continue;
+    }
+    firstError ??= outcome.reason;
+    const reason = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+    await logAnalysis(supabase, scanId, 'analyzing', 'warning', `Chunk ${chunks[index].label} could not be analyzed: ${reason}`);
+  }
+
+  if (results.length === 0) {
+    throw firstError instanceof Error ? firstError : new Error('No chunk could be analyzed');
+  }
+  // Rather than report on a partial file, retry the whole job once the quota recovers
+  const throttled = settled.find(o => o.status === 'rejected' && o.reason instanceof RetryableError);
+  if (throttled) throw (throttled as PromiseRejectedResult).reason;
+
+  const merged = mergeAnalysisResults(results);
+  await logAnalysis(supabase, scanId, 'analyzing', 'info',
+    `Analyzed ${results.length}/${chunks.length} chunk(s): ${merged.vulnerabilities.length} unique vulnerabilities after de-duplication`);
+
+  if (results.length === 1 || !summarize) return merged;
+  return { ...merged, ...(await summarizeFindingsWithLLM(merged, fileName, metadata, apiKey)) };
+}
+
+async function enrichVulnerabilityWithLLM(vuln: VulnerabilityFinding, apiKey: string): Promise<Record<string, unknown> | null> {
   const prompt = `For this automotive ECU vulnerability, provide detailed remediation guidance:
 
 Vulnerability: ${vuln.title}
@@ -252,259 +575,913 @@ Provide JSON with:
   "iso_21434_cal": "Cybersecurity Assurance Level"
 }`;
 
-  const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'google/gemini-2.5-flash',
-      messages: [
-        { role: 'user', content: prompt }
-      ],
-    }),
-  });
-
-  if (!response.ok) {
+  try {
+    return parseJsonContent(await requestCompletion(apiKey, [{ role: 'user', content: prompt }]));
+  } catch {
     console.error('LLM enrichment error');
     return null;
   }
+}
 
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content;
-  
-  if (!content) return null;
+async function clearScanResults(supabase: SupabaseClient, scanId: string) {
+  await supabase.from('vulnerabilities').delete().eq('scan_id', scanId);
+  await supabase.from('compliance_results').delete().eq('scan_id', scanId);
+  await supabase.from('sbom_components').delete().eq('scan_id', scanId);
+  await supabase.from('scan_functions').delete().eq('scan_id', scanId);
+  await supabase.from('scan_xrefs').delete().eq('scan_id', scanId);
+  await supabase.from('scan_strings').delete().eq('scan_id', scanId);
+}
 
-  let jsonContent = content;
-  if (content.includes('```json')) {
-    jsonContent = content.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-  } else if (content.includes('```')) {
-    jsonContent = content.replace(/```\n?/g, '');
+const INSERT_BATCH_SIZE = 500;
+
+async function storeDisassembly(supabase: SupabaseClient, scanId: string, result: DisassemblyResult, memberPath: string | null) {
+  const functionRows = result.functions.map(f => ({
+    scan_id: scanId,
+    member_path: memberPath,
+    address: f.address,
+    name: f.name,
+    size: f.size,
+    instruction_count: f.instructionCount,
+    source: f.source,
+    calls: f.calls,
+    called_by: f.calledBy,
+  }));
+  const xrefRows = result.xrefs.map(x => ({
+    scan_id: scanId,
+    member_path: memberPath,
+    from_address: x.from,
+    to_address: x.to,
+    kind: x.kind,
+    from_function: x.fromFunction,
+  }));
+
+  for (let i = 0; i < functionRows.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase.from('scan_functions').insert(functionRows.slice(i, i + INSERT_BATCH_SIZE));
+    if (error) throw new Error(`Failed to store recovered functions: ${error.message}`);
+  }
+  for (let i = 0; i < xrefRows.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase.from('scan_xrefs').insert(xrefRows.slice(i, i + INSERT_BATCH_SIZE));
+    if (error) throw new Error(`Failed to store cross-references: ${error.message}`);
   }
+}
+
+async function storeStrings(supabase: SupabaseClient, scanId: string, strings: ExtractedString[], memberPath: string | null) {
+  const rows = strings.map(s => ({
+    scan_id: scanId,
+    member_path: memberPath,
+    byte_offset: s.offset,
+    byte_length: s.length,
+    address: s.address,
+    encoding: s.encoding,
+    value: s.value,
+    section: s.section,
+    category: s.category,
+  }));
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase.from('scan_strings').insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+    if (error) throw new Error(`Failed to store extracted strings: ${error.message}`);
+  }
+}
+
+/** Names the function containing, or else loading the address of, a finding's bytes. */
+function attributeFinding(finding: VulnerabilityFinding, image: FirmwareImage, disassembly: DisassemblyResult) {
+  if (finding.affected_function || finding.byte_offset == null) return;
+  const address = offsetToAddress(image, finding.byte_offset);
+  if (address === null) return;
+  const owner = functionContaining(disassembly, address)
+    ?? functionsReferencing(disassembly, address, finding.byte_length ?? 1)[0];
+  if (owner) finding.affected_function = owner.name;
+}
 
+// An uploaded file, or one member of an uploaded archive, analyzed on its own
+interface AnalysisTarget {
+  fileName: string;
+  memberPath: string | null;
+  bytes: Uint8Array;
+  image: FirmwareImage | null;
+  detection: ArchitectureDetection | null;
+  disassembly: DisassemblyResult | null;
+  sourceLines: string[] | null;
+  entropy?: EntropyProfile;
+  hardening?: HardeningReport;
+  /** ARXML only: configuration findings and a model summary for the prompt. */
+  config?: { findings: VulnerabilityFinding[]; context: string };
+}
+
+interface ArchiveMemberSummary {
+  path: string;
+  size: number;
+  kind: 'source' | 'binary';
+  artifactPath: string;
+  imagePath?: string;
+  format?: FirmwareImage['format'];
+  architecture?: string | null;
+  disassembly?: ReturnType<typeof summarizeDisassembly>;
+  entropy?: EntropyProfile;
+  hardening?: HardeningReport;
+  strings?: ReturnType<typeof summarizeStrings>;
+}
+
+interface ArchiveSummary {
+  format: ArchiveFormat;
+  totalSize: number;
+  members: ArchiveMemberSummary[];
+  skipped: SkippedMember[];
+}
+
+// Each member gets its own disassembly and LLM pass, so keep large deliveries bounded
+const MAX_ANALYZED_MEMBERS = 50;
+
+const FIRMWARE_EXTENSIONS = ['.bin', '.elf', '.axf', '.out', '.hex', '.ihex', '.ihx', '.s19', '.s28', '.s37', '.srec', '.mot', '.vbf'];
+
+/** Picks the analyzer for an archive member; null when it is neither source nor firmware. */
+function memberKind(path: string, bytes: Uint8Array): ArchiveMemberSummary['kind'] | null {
+  if (isSourceFile(path)) return 'source';
+  if (FIRMWARE_EXTENSIONS.some(ext => path.toLowerCase().endsWith(ext))) return 'binary';
+  return detectFirmwareFormat(bytes, path) === 'raw' ? null : 'binary';
+}
+
+function targetLabel(target: AnalysisTarget): string {
+  return target.memberPath ? `${target.memberPath}: ` : '';
+}
+
+async function loadImage(supabase: SupabaseClient, scanId: string, bytes: Uint8Array, fileName: string): Promise<FirmwareImage> {
+  let image: FirmwareImage;
   try {
-    return JSON.parse(jsonContent.trim());
-  } catch {
-    return null;
+    image = loadFirmwareImage(bytes, fileName);
+  } catch (e) {
+    await logAnalysis(supabase, scanId, 'parsing', 'warning',
+      `Container parsing failed for ${fileName}, falling back to raw binary: ${e instanceof Error ? e.message : String(e)}`);
+    image = rawFirmwareImage(bytes);
   }
+  await logImageDiagnostics(supabase, scanId, image, fileName);
+  return image;
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
+/**
+ * Unpacks an archive upload into analysis targets. Members are stored next
+ * to the original so the viewers can open them individually.
+ */
+async function unpackDelivery(
+  supabase: SupabaseClient,
+  scanId: string,
+  storagePath: string,
+  fileName: string,
+  bytes: Uint8Array,
+  format: ArchiveFormat,
+): Promise<{ targets: AnalysisTarget[]; summary: ArchiveSummary }> {
+  const archive = await unpackArchive(bytes, format).catch((e) => {
+    throw e instanceof ArchiveError ? new Error(`${fileName} could not be unpacked: ${e.message}`) : e;
+  });
+  await logAnalysis(supabase, scanId, 'parsing', 'info',
+    `Unpacked ${format} archive ${fileName}: ${archive.members.length} file(s), ${archive.totalSize} bytes`);
+
+  const summary: ArchiveSummary = { format, totalSize: archive.totalSize, members: [], skipped: archive.skipped };
+  const targets: AnalysisTarget[] = [];
+  for (const [index, member] of archive.members.entries()) {
+    const kind = memberKind(member.path, member.data);
+    const reason = !kind ? 'not a source or firmware file'
+      : targets.some(t => t.memberPath === member.path) ? 'duplicate path'
+      : targets.length >= MAX_ANALYZED_MEMBERS ? `more than ${MAX_ANALYZED_MEMBERS} analyzable files`
+      : null;
+    if (!kind || reason) {
+      summary.skipped.push({ path: member.path, size: member.data.length, reason: reason ?? 'not a source or firmware file' });
+      continue;
+    }
+
+    const artifactPath = memberArtifactPath(storagePath, index);
+    await uploadArtifact(supabase, artifactPath, member.data);
+    const entry: ArchiveMemberSummary = { path: member.path, size: member.data.length, kind, artifactPath };
+    const target: AnalysisTarget = {
+      fileName: member.path,
+      memberPath: member.path,
+      bytes: member.data,
+      image: null,
+      detection: null,
+      disassembly: null,
+      sourceLines: null,
+    };
+
+    if (kind === 'binary') {
+      target.image = await loadImage(supabase, scanId, member.data, member.path);
+      target.detection = detectArchitecture(target.image);
+      entry.format = target.image.format;
+      entry.architecture = target.detection.architecture;
+      if (target.image.data !== member.data) {
+        entry.imagePath = imageArtifactPath(artifactPath);
+        await uploadArtifact(supabase, entry.imagePath, target.image.data);
+      }
+    }
+    summary.members.push(entry);
+    targets.push(target);
   }
 
-  try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY')!;
+  for (const skipped of summary.skipped.slice(0, 20)) {
+    await logAnalysis(supabase, scanId, 'parsing', 'warning', `Skipped ${skipped.path}: ${skipped.reason}`);
+  }
+  if (summary.skipped.length > 20) {
+    await logAnalysis(supabase, scanId, 'parsing', 'warning', `${summary.skipped.length - 20} further skipped file(s) not shown`);
+  }
+  if (targets.length === 0) {
+    throw new Error(`${fileName} contains no source or firmware files to analyze`);
+  }
+  return { targets, summary };
+}
 
-    const supabase = createClient(supabaseUrl, supabaseKey);
+/**
+ * Runs the deterministic checks and the LLM over one target and reconciles
+ * the two. Returns the target's findings and its secret/PII totals.
+ */
+async function analyzeTarget(
+  supabase: SupabaseClient,
+  scanId: string,
+  target: AnalysisTarget,
+  metadata: AnalysisMetadata,
+  apiKey: string,
+  ownerId: string,
+  summarize: boolean,
+): Promise<{
+  result: AnalysisResult;
+  secretCount: number;
+  piiCount: number;
+  uds: UdsSurface | null;
+  bootChain: BootChainReport | null;
+  cryptoInventory: CryptoInventory | null;
+}> {
+  const { fileName, bytes, image, disassembly } = target;
+  const label = targetLabel(target);
 
-    const { scanId, fileContent, fileName, metadata } = await req.json() as AnalysisRequest;
+  // Deterministic checks (C rules, UDS surface, boot chain, crypto use,
+  // signatures, entropy, secrets/PII) run first and take precedence over LLM findings at the same location
+  const source = isCSource(fileName) ? new TextDecoder().decode(bytes) : null;
+  const staticFindings = source !== null ? runStaticChecks(source, fileName) : [];
+  if (source !== null) {
+    await logAnalysis(supabase, scanId, 'analyzing', 'info', `${label}Static C checker: ${staticFindings.length} finding(s)`);
+  }
+  const uds = source !== null ? analyzeUdsSource(source)
+    : image && disassembly ? analyzeUdsImage(image, target.detection, disassembly)
+    : null;
+  if (uds) {
+    staticFindings.push(...udsFindings(uds, fileName, target.sourceLines, image));
+    await logAnalysis(supabase, scanId, 'analyzing', 'info',
+      `${label}UDS surface: ${uds.services.length} service(s), ${uds.issues.length} finding(s)`);
+  }
+  const bootChain = source !== null ? analyzeBootChainSource(source)
+    : image ? analyzeBootChainImage(image, target.detection, disassembly)
+    : null;
+  if (bootChain) {
+    staticFindings.push(...bootChainFindings(bootChain, fileName, target.sourceLines, image));
+    await logAnalysis(supabase, scanId, 'analyzing', bootChain.checks.enforcement === 'fail' ? 'warning' : 'info',
+      `${label}Boot chain: ${describeBootChain(bootChain)}`);
+  }
+  const cryptoInventory = source !== null ? analyzeCryptoSource(source)
+    : image ? analyzeCryptoImage(image, disassembly)
+    : null;
+  if (cryptoInventory) {
+    staticFindings.push(...cryptoFindings(cryptoInventory, fileName, target.sourceLines));
+    await logAnalysis(supabase, scanId, 'analyzing', cryptoInventory.issues.length > 0 ? 'warning' : 'info',
+      `${label}Crypto: ${describeCrypto(cryptoInventory)}`);
+  }
+  const components = source !== null ? identifySourceComponents(source)
+    : image ? identifyImageComponents(image, disassembly)
+    : [];
+  if (components.length > 0) {
+    await logAnalysis(supabase, scanId, 'analyzing', 'info', `${label}SBOM: identified ${describeComponents(components)}`);
+  }
+  const staticContext = [
+    components.length > 0 ? `Third-party components (already in the SBOM): ${describeComponents(components)}` : null,
+    uds ? `UDS services:\n${describeUds(uds)}` : null,
+    bootChain ? `Secure boot / update chain: ${describeBootChain(bootChain)}` : null,
+    cryptoInventory ? `Cryptography: ${describeCrypto(cryptoInventory)}` : null,
+    target.hardening ? `Binary hardening: ${describeHardening(target.hardening)}` : null,
+  ].filter(Boolean).join('\n');
+  if (target.config) {
+    staticFindings.push(...target.config.findings);
+    await logAnalysis(supabase, scanId, 'analyzing', 'info', `${label}ARXML configuration checks: ${target.config.findings.length} finding(s)`);
+  }
+  if (image) {
+    const signatures = await scanSignatures(supabase, ownerId, image, fileName);
+    for (const error of signatures.errors) {
+      await logAnalysis(supabase, scanId, 'analyzing', 'warning', `Skipped signature rule file ${error}`);
+    }
+    await logAnalysis(supabase, scanId, 'analyzing', 'info',
+      `${label}Signature scan: ${signatures.findings.length} of ${signatures.ruleCount} rule(s) matched`);
+    staticFindings.push(...signatures.findings);
+  }
+  if (target.entropy) staticFindings.push(...entropyFindings(target.entropy, fileName));
 
-    console.log(`Starting analysis for scan ${scanId}, file: ${fileName}`);
+  const sensitive = scanSensitiveData(image ? image.data : bytes, !image);
+  const sensitiveResults = sensitiveFindings(sensitive.matches, fileName);
+  const secretCount = sensitive.matches.filter(m => m.kind === 'secret').length;
+  await logAnalysis(supabase, scanId, 'analyzing', 'info',
+    `${label}Secret/PII scan: ${secretCount} secret(s), ${sensitive.matches.length - secretCount} PII finding(s)`);
+  if (sensitive.truncated) {
+    await logAnalysis(supabase, scanId, 'analyzing', 'warning',
+      `${label}Secret/PII scan stopped after ${sensitive.matches.length} findings; remaining matches were not reported`);
+  }
+  staticFindings.push(...sensitiveResults);
 
-    // Stage 1: Parsing
-    await updateScanStatus(supabase, scanId, 'parsing', 10);
-    await new Promise(r => setTimeout(r, 1000));
+  if (image && disassembly) {
+    for (const finding of staticFindings) attributeFinding(finding, image, disassembly);
+  }
 
-    await supabase.from('analysis_logs').insert({
-      scan_id: scanId,
-      stage: 'parsing',
-      log_level: 'info',
-      message: `Parsing ${fileName} - ${metadata.architecture} architecture detected`,
-    });
+  // Members of an archive may target different cores than the one the scan was uploaded as
+  const detected = target.detection?.confidence !== 'low' ? target.detection?.architecture : null;
+  const analysisResult = await analyzeFileWithLLM(supabase, scanId, bytes, fileName,
+    { ...metadata, ...(detected ? { architecture: detected } : {}), ...(staticContext ? { staticContext } : {}) },
+    apiKey, image, disassembly, target.config?.context ?? null, summarize);
 
-    // Stage 2: Decompiling (simulated)
-    await updateScanStatus(supabase, scanId, 'decompiling', 30);
-    await new Promise(r => setTimeout(r, 1500));
+  // For binaries the model only sees function names we supplied; anything else is invented
+  if (image) {
+    const known = new Set([
+      ...(disassembly?.functions.map(f => f.name) ?? []),
+      ...(image.elf?.symbols.filter(s => s.type === 'FUNC' && s.name).map(s => s.name) ?? []),
+    ]);
+    for (const vuln of analysisResult.vulnerabilities) {
+      const name = vuln.affected_function?.replace(/\(\)$/, '').trim();
+      vuln.affected_function = name && known.has(name) ? name : null;
+    }
+  }
 
-    await supabase.from('analysis_logs').insert({
-      scan_id: scanId,
-      stage: 'decompiling',
-      log_level: 'info',
-      message: 'Binary decompilation complete - Extracting functions and symbols',
-    });
+  // Model-reported components stay in the SBOM only with evidence from the file
+  const reconciled = reconcileReportedComponents(analysisResult.sbomComponents, components,
+    target.sourceLines ? target.sourceLines.join('\n') : new TextDecoder('latin1').decode(image ? image.data : bytes), target.sourceLines !== null);
+  analysisResult.sbomComponents = reconciled.components;
+  if (reconciled.dropped > 0) {
+    await logAnalysis(supabase, scanId, 'analyzing', 'warning',
+      `${label}SBOM: dropped ${reconciled.dropped} model-reported component(s) whose evidence is not in the file`);
+  }
 
-    // Stage 3: Analyzing with LLM
-    await updateScanStatus(supabase, scanId, 'analyzing', 50);
+  // Model findings carry no byte offset yet, so binary static findings are also keyed without one
+  const staticKeys = new Set(staticFindings.flatMap(v => [vulnerabilityKey(v), vulnerabilityKey({ ...v, byte_offset: null })]));
+  analysisResult.vulnerabilities = [
+    ...staticFindings,
+    ...analysisResult.vulnerabilities.filter(v => !staticKeys.has(vulnerabilityKey(v))),
+  ];
 
-    await supabase.from('analysis_logs').insert({
-      scan_id: scanId,
-      stage: 'analyzing',
-      log_level: 'info',
-      message: 'Starting hybrid analysis: Static patterns + LLM vulnerability + PII/Secret scanning',
+  // Check model-reported source locations against the real file
+  const sourceLines = target.sourceLines;
+  if (sourceLines) {
+    const deterministic = new Set(staticFindings);
+    let corrected = 0;
+    let unverified = 0;
+    for (const vuln of analysisResult.vulnerabilities) {
+      if (deterministic.has(vuln)) {
+        vuln.location_verified = true;
+        continue;
+      }
+      const location = locateSnippet(sourceLines, vuln.code_snippet, vuln.line_number);
+      if (location.verified && location.line !== vuln.line_number) corrected++;
+      if (location.verified === false) unverified++;
+      vuln.line_number = location.line;
+      vuln.location_verified = location.verified;
+    }
+    for (const result of analysisResult.complianceResults) {
+      const line = Number(result.line_number);
+      result.line_number = Number.isInteger(line) && line >= 1 && line <= sourceLines.length ? line : null;
+    }
+    await logAnalysis(supabase, scanId, 'analyzing', unverified > 0 ? 'warning' : 'info',
+      `${label}Location check: ${corrected} line number(s) corrected, ${unverified} finding(s) whose snippet is not in the file marked unverified`);
+  } else {
+    for (const result of analysisResult.complianceResults) result.line_number = null;
+  }
+  if (uds) analysisResult.complianceResults.push(...udsComplianceResults(uds));
+  if (bootChain) analysisResult.complianceResults.push(...bootChainComplianceResults(bootChain));
+  if (target.hardening) analysisResult.complianceResults.push(...hardeningComplianceResults(target.hardening));
+
+  // LLM secret/PII reports on a line the scanner already covered are duplicates
+  const scannedLines = new Set(sensitiveResults.filter(f => f.line_number).map(f => `${f.cwe_id}|${f.line_number}`));
+  analysisResult.piiFindings = analysisResult.piiFindings.filter(f => !scannedLines.has(`CWE-359|${sensitiveFindingLine(f)}`));
+  analysisResult.secretFindings = analysisResult.secretFindings.filter(f => !scannedLines.has(`CWE-798|${sensitiveFindingLine(f)}`));
+
+  if (target.memberPath) {
+    for (const finding of [
+      ...analysisResult.vulnerabilities,
+      ...analysisResult.complianceResults,
+      ...analysisResult.sbomComponents,
+      ...analysisResult.piiFindings,
+      ...analysisResult.secretFindings,
+    ]) {
+      finding.member_path = target.memberPath;
+    }
+  }
+
+  return {
+    result: analysisResult,
+    secretCount: secretCount + analysisResult.secretFindings.length,
+    piiCount: sensitive.matches.length - secretCount + analysisResult.piiFindings.length,
+    uds,
+    bootChain,
+    cryptoInventory,
+  };
+}
+
+/** Line number from an LLM secret/PII location of the form "file:line". */
+function sensitiveFindingLine(finding: SensitiveDataFinding): number | null {
+  return parseInt(finding.location?.split(':')[1] ?? '') || null;
+}
+
+async function runScanPipeline(supabase: SupabaseClient, job: ScanJob, lovableApiKey: string): Promise<AnalysisResult> {
+  const { scan_id: scanId, payload: { fileName, metadata } } = job;
+
+  console.log(`Starting analysis for scan ${scanId}, file: ${fileName}`);
+
+  // Stage 1: Parsing
+  await updateScanStatus(supabase, scanId, 'parsing', 10);
+
+  // A previous attempt may have stored part of its results before failing
+  if (job.attempts > 1) {
+    await clearScanResults(supabase, scanId);
+    await logAnalysis(supabase, scanId, 'parsing', 'info', `Attempt ${job.attempts} of ${job.max_attempts}`);
+  }
+
+  // The original artifact is read from storage rather than the request body
+  const { data: scanRow } = await supabase.from('scans').select('storage_path').eq('id', scanId).single();
+  if (!scanRow?.storage_path) {
+    throw new Error('Scan has no uploaded artifact (storage_path is empty)');
+  }
+  const fileBytes = await downloadArtifact(supabase, scanRow.storage_path);
+  await logAnalysis(supabase, scanId, 'parsing', 'info', `Loaded ${fileBytes.length} bytes from storage: ${scanRow.storage_path}`);
+  await verifyFileHash(supabase, scanId, fileBytes);
+
+  const archiveFormat = isSourceFile(fileName) ? null : detectArchiveFormat(fileBytes, fileName);
+  let targets: AnalysisTarget[];
+  let archive: ArchiveSummary | null = null;
+
+  if (archiveFormat) {
+    ({ targets, summary: archive } = await unpackDelivery(supabase, scanId, scanRow.storage_path, fileName, fileBytes, archiveFormat));
+    await mergeScanMetadata(supabase, scanId, { archive });
+  } else if (isSourceFile(fileName)) {
+    await logAnalysis(supabase, scanId, 'parsing', 'info', `Parsing ${fileName} - ${metadata.architecture} architecture detected`);
+    targets = [{ fileName, memberPath: null, bytes: fileBytes, image: null, detection: null, disassembly: null, sourceLines: null }];
+  } else {
+    const image = await loadImage(supabase, scanId, fileBytes, fileName);
+    const detection = detectArchitecture(image);
+    await reconcileArchitecture(supabase, scanId, metadata, detection);
+    await mergeScanMetadata(supabase, scanId, {
+      memoryMap: summarizeImage(image),
+      architecture: detection,
+      ...(image.elf ? { elf: summarizeElf(image.elf) } : {}),
+      ...(image.vbf ? { vbf: summarizeVbf(image.vbf) } : {}),
     });
 
-    const rawResult = await analyzeBinaryWithLLM(fileContent, fileName, metadata, lovableApiKey) as any;
-    
-    // Normalize response keys (LLM may return snake_case or camelCase)
-    const analysisResult = {
-      vulnerabilities: rawResult.vulnerabilities || [],
-      complianceResults: rawResult.complianceResults || rawResult.compliance_results || [],
-      sbomComponents: rawResult.sbomComponents || rawResult.sbom_components || [],
-      piiFindings: rawResult.piiFindings || rawResult.pii_findings || [],
-      secretFindings: rawResult.secretFindings || rawResult.secret_findings || [],
-      executiveSummary: rawResult.executiveSummary || rawResult.executive_summary || '',
-      riskScore: rawResult.riskScore || rawResult.risk_score || 50,
-    };
-    
-    console.log(`LLM analysis returned: ${analysisResult.vulnerabilities.length} vulns, ${analysisResult.complianceResults.length} compliance, ${analysisResult.piiFindings.length} PII, ${analysisResult.secretFindings.length} secrets`);
+    // Container formats are flattened; keep the image so offsets can be viewed
+    if (image.data !== fileBytes) {
+      const imagePath = imageArtifactPath(scanRow.storage_path);
+      await uploadArtifact(supabase, imagePath, image.data);
+      await mergeScanMetadata(supabase, scanId, { imagePath });
+    }
 
-    // Stage 4: Enriching vulnerabilities
-    await updateScanStatus(supabase, scanId, 'enriching', 75);
+    // Fill in identification the uploader left blank from the VBF header
+    if (image.vbf) {
+      const { swPartNumber, swVersion } = image.vbf.header;
+      const prefill: Record<string, string> = {};
+      if (!metadata.ecuName?.trim() && swPartNumber) prefill.ecu_name = swPartNumber;
+      if (!metadata.version?.trim() && swVersion) prefill.version = swVersion;
+      if (Object.keys(prefill).length > 0) {
+        await supabase.from('scans').update(prefill).eq('id', scanId);
+      }
+    }
+    targets = [{ fileName, memberPath: null, bytes: fileBytes, image, detection, disassembly: null, sourceLines: null }];
+  }
+  for (const target of targets) {
+    if (!target.image) target.sourceLines = splitSourceLines(new TextDecoder().decode(target.bytes));
+  }
 
-    // Insert vulnerabilities
-    const criticalVulns = analysisResult.vulnerabilities.filter((v: any) => v.severity === 'critical');
-    
-    for (const vuln of analysisResult.vulnerabilities) {
-      const enrichment = vuln.severity === 'critical' || vuln.severity === 'high' 
-        ? await enrichVulnerabilityWithLLM(vuln, lovableApiKey)
-        : null;
-
-      await supabase.from('vulnerabilities').insert({
-        scan_id: scanId,
-        cve_id: vuln.cve_id,
-        cwe_id: vuln.cwe_id,
-        severity: vuln.severity,
-        cvss_score: vuln.cvss_score,
-        title: vuln.title,
-        description: vuln.description,
-        affected_component: vuln.affected_component,
-        affected_function: vuln.affected_function,
-        code_snippet: vuln.code_snippet,
-        line_number: vuln.line_number,
-        detection_method: vuln.detection_method,
-        remediation: vuln.remediation,
-        attack_vector: vuln.attack_vector,
-        impact: vuln.impact,
-        llm_enrichment: enrichment,
-        status: 'new',
-      });
+  // ARXML files of one delivery reference each other by path, so they form one model
+  const arxmlTargets = targets.filter(target => isArxml(target.fileName));
+  if (arxmlTargets.length > 0) {
+    const ecuModel = buildEcuModel(arxmlTargets.map(target => ({ path: target.fileName, text: new TextDecoder().decode(target.bytes) })));
+    for (const error of ecuModel.errors) {
+      await logAnalysis(supabase, scanId, 'parsing', 'error', `ARXML could not be parsed: ${error}`);
     }
+    await mergeScanMetadata(supabase, scanId, { ecuModel });
+    const context = describeEcuModel(ecuModel);
+    await logAnalysis(supabase, scanId, 'parsing', ecuModel.truncated ? 'warning' : 'info',
+      `AUTOSAR model: ${context.split('\n')[0]}${ecuModel.truncated ? ' (truncated)' : ''}`);
 
-    // Add PII findings as vulnerabilities
-    for (const pii of analysisResult.piiFindings) {
-      await supabase.from('vulnerabilities').insert({
-        scan_id: scanId,
-        cwe_id: 'CWE-359', // Exposure of Private Personal Information
-        severity: pii.severity || 'medium',
-        title: `PII Exposure: ${pii.type}`,
-        description: `Personal Identifiable Information (${pii.type}) detected in source code. Value: ${pii.value}`,
-        affected_component: pii.location?.split(':')[0] || fileName,
-        line_number: parseInt(pii.location?.split(':')[1]) || null,
-        code_snippet: pii.context,
-        detection_method: 'llm',
-        remediation: pii.remediation || 'Remove or encrypt PII. Use secure storage mechanisms.',
-        attack_vector: 'Data extraction through reverse engineering or memory dump',
-        impact: 'Privacy violation, GDPR/regulatory compliance issues',
-        status: 'new',
-      });
+    const findings = checkEcuModel(ecuModel, new Map(arxmlTargets.map(target => [target.fileName, target.sourceLines!])));
+    for (const target of arxmlTargets) {
+      target.config = { findings: findings.filter(f => f.affected_component === target.fileName), context };
     }
+  }
 
-    // Add Secret findings as vulnerabilities
-    for (const secret of analysisResult.secretFindings) {
-      await supabase.from('vulnerabilities').insert({
-        scan_id: scanId,
-        cwe_id: 'CWE-798', // Use of Hardcoded Credentials
-        severity: secret.severity || 'critical',
-        title: `Hardcoded Secret: ${secret.type}`,
-        description: `Hardcoded ${secret.type} detected. Masked value: ${secret.value}`,
-        affected_component: secret.location?.split(':')[0] || fileName,
-        line_number: parseInt(secret.location?.split(':')[1]) || null,
-        code_snippet: secret.context,
-        detection_method: 'llm',
-        remediation: secret.remediation || 'Use secure key management (HSM/TPM), environment variables, or encrypted configuration.',
-        attack_vector: 'Credential extraction via firmware analysis, enabling unauthorized access',
-        impact: 'Full system compromise, unauthorized access, lateral movement',
-        status: 'new',
-      });
+  await throwIfCancelled(supabase, job.id);
+
+  // Stage 2: Disassembly and function recovery
+  await updateScanStatus(supabase, scanId, 'decompiling', 30);
+
+  if (targets.every(target => !target.image)) {
+    await logAnalysis(supabase, scanId, 'decompiling', 'info', 'Source file - disassembly not required');
+  }
+  for (const target of targets) {
+    const { image, detection, memberPath } = target;
+    if (!image) continue;
+    const label = targetLabel(target);
+    const member = archive?.members.find(m => m.path === memberPath);
+
+    target.disassembly = disassemble(image, detection);
+    const disassembly = target.disassembly;
+    if (!disassembly) {
+      await logAnalysis(supabase, scanId, 'decompiling', 'warning',
+        `${label}No disassembler for ${detection?.architecture ?? 'an undetermined architecture'}; binary findings will not be attributed to functions`);
+    } else {
+      await storeDisassembly(supabase, scanId, disassembly, memberPath);
+      const summary = summarizeDisassembly(disassembly);
+      if (member) {
+        member.disassembly = summary;
+      } else {
+        await mergeScanMetadata(supabase, scanId, { disassembly: summary });
+      }
+      const sources = Object.entries(summary.bySource).map(([source, count]) => `${count} ${source}`).join(', ');
+      await logAnalysis(supabase, scanId, 'decompiling', 'info',
+        `${label}Disassembled ${summary.instructionCount} ${disassembly.mode} instructions: ${summary.functionCount} function(s) (${sources || 'none'}), ${summary.callEdges} call edge(s), ${summary.dataRefs} data reference(s)`);
+      if (disassembly.truncated) {
+        await logAnalysis(supabase, scanId, 'decompiling', 'warning', `${label}Disassembly stopped at its instruction/reference limit; coverage is partial`);
+      }
     }
 
-    if (criticalVulns.length > 0) {
-      await supabase.from('analysis_logs').insert({
-        scan_id: scanId,
-        stage: 'analyzing',
-        log_level: 'error',
-        message: `CRITICAL: Found ${criticalVulns.length} critical vulnerability(ies)`,
-      });
+    const { strings, truncated } = extractStrings(image);
+    await storeStrings(supabase, scanId, strings, memberPath);
+    const stringSummary = summarizeStrings(strings, truncated);
+    if (member) {
+      member.strings = stringSummary;
+    } else {
+      await mergeScanMetadata(supabase, scanId, { strings: stringSummary });
     }
+    await logAnalysis(supabase, scanId, 'decompiling', truncated ? 'warning' : 'info',
+      `${label}Extracted ${strings.length} string(s)${truncated ? ' (limit reached, remainder not stored)' : ''}: ` +
+      Object.entries(stringSummary.byCategory).map(([category, count]) => `${count} ${category}`).join(', '));
 
-    if (analysisResult.secretFindings.length > 0) {
-      await supabase.from('analysis_logs').insert({
-        scan_id: scanId,
-        stage: 'analyzing',
-        log_level: 'error',
-        message: `SECRETS DETECTED: Found ${analysisResult.secretFindings.length} hardcoded secrets/credentials`,
-      });
+    target.entropy = profileEntropy(image);
+    if (member) {
+      member.entropy = target.entropy;
+    } else {
+      await mergeScanMetadata(supabase, scanId, { entropy: target.entropy });
     }
+    const highEntropy = target.entropy.regions.filter(r => r.kind === 'high-entropy').length;
+    await logAnalysis(supabase, scanId, 'decompiling', highEntropy > 0 ? 'warning' : 'info',
+      `${label}Entropy ${target.entropy.overall} bits/byte overall: ${highEntropy} high-entropy region(s), ` +
+      `${target.entropy.regions.length - highEntropy} erased region(s)`);
 
-    if (analysisResult.piiFindings.length > 0) {
-      await supabase.from('analysis_logs').insert({
-        scan_id: scanId,
-        stage: 'analyzing',
-        log_level: 'warning',
-        message: `PII DETECTED: Found ${analysisResult.piiFindings.length} instances of personal data`,
-      });
+    target.hardening = analyzeHardening(image, detection);
+    if (member) {
+      member.hardening = target.hardening;
+    } else {
+      await mergeScanMetadata(supabase, scanId, { hardening: target.hardening });
     }
+    const failed = target.hardening.checks.filter(c => c.status === 'fail');
+    await logAnalysis(supabase, scanId, 'decompiling', failed.length > 0 ? 'warning' : 'info',
+      `${label}Hardening (${target.hardening.target}): ${describeHardening(target.hardening)}`);
+  }
+  if (archive) await mergeScanMetadata(supabase, scanId, { archive });
 
-    // Insert compliance results
-    for (const result of analysisResult.complianceResults) {
-      await supabase.from('compliance_results').insert({
-        scan_id: scanId,
-        framework: result.framework,
-        rule_id: result.rule_id,
-        rule_description: result.rule_description,
-        status: result.status,
-        details: result.details,
-      });
+  await throwIfCancelled(supabase, job.id);
+
+  // Stage 3: Analyzing with LLM
+  await updateScanStatus(supabase, scanId, 'analyzing', 50);
+
+  await supabase.from('analysis_logs').insert({
+    scan_id: scanId,
+    stage: 'analyzing',
+    log_level: 'info',
+    message: 'Starting hybrid analysis: Static patterns + LLM vulnerability + PII/Secret scanning',
+  });
+
+  const { data: owner } = await supabase.from('scans').select('user_id').eq('id', scanId).single();
+
+  // Where the ECU sits on the vehicle networks decides which attack vectors apply
+  const analysisMetadata: AnalysisMetadata = { ...metadata };
+  const { data: networkDatabases } = await supabase
+    .from('network_databases')
+    .select('platform, bus_name, nodes, messages, obd_accessible, entry_points')
+    .eq('user_id', owner?.user_id);
+  if (networkDatabases?.length) {
+    const busExposure = computeBusExposure(networkDatabases as NetworkDatabase[], metadata.ecuName);
+    await mergeScanMetadata(supabase, scanId, { busExposure });
+    if (busExposure.length > 0) {
+      analysisMetadata.busExposure = describeBusExposure(busExposure);
+      await logAnalysis(supabase, scanId, 'analyzing', 'info', `Network exposure: ${analysisMetadata.busExposure}`);
+    } else {
+      await logAnalysis(supabase, scanId, 'analyzing', 'warning',
+        `ECU name "${metadata.ecuName}" does not match a node in ${networkDatabases.length} network database(s)`);
     }
+  }
+
+  const analyzed = [];
+  for (const target of targets) {
+    analyzed.push(await analyzeTarget(supabase, scanId, target, analysisMetadata, lovableApiKey, owner?.user_id, !archive));
+    await throwIfCancelled(supabase, job.id);
+  }
+  const udsSurfaces = analyzed.flatMap(({ uds }, index) =>
+    uds ? [{ file: targets[index].memberPath ?? fileName, ...summarizeUds(uds) }] : []);
+  if (udsSurfaces.length > 0) await mergeScanMetadata(supabase, scanId, { uds: udsSurfaces });
+  const bootChains = analyzed.flatMap(({ bootChain }, index) =>
+    bootChain ? [{ file: targets[index].memberPath ?? fileName, ...bootChain }] : []);
+  if (bootChains.length > 0) await mergeScanMetadata(supabase, scanId, { bootChain: bootChains });
+  const cryptoInventories = analyzed.flatMap(({ cryptoInventory }, index) =>
+    cryptoInventory ? [{ file: targets[index].memberPath ?? fileName, ...summarizeCrypto(cryptoInventory) }] : []);
+  if (cryptoInventories.length > 0) await mergeScanMetadata(supabase, scanId, { crypto: cryptoInventories });
+  let analysisResult = analyzed[0].result;
+  if (archive) {
+    const merged = mergeAnalysisResults(analyzed.map(a => a.result));
+    analysisResult = { ...merged, ...(await summarizeFindingsWithLLM(merged, fileName, metadata, lovableApiKey)) };
+  }
+  const totalSecrets = analyzed.reduce((sum, a) => sum + a.secretCount, 0);
+  const totalPii = analyzed.reduce((sum, a) => sum + a.piiCount, 0);
+  const sourceLinesByMember = new Map(targets.map(target => [target.memberPath, target.sourceLines]));
+  
+  console.log(`LLM analysis returned: ${analysisResult.vulnerabilities.length} vulns, ${analysisResult.complianceResults.length} compliance, ${analysisResult.piiFindings.length} PII, ${analysisResult.secretFindings.length} secrets`);
+
+  await throwIfCancelled(supabase, job.id);
+
+  // Stage 4: Enriching vulnerabilities
+  await updateScanStatus(supabase, scanId, 'enriching', 75);
+
+  // Insert vulnerabilities
+  const criticalVulns = analysisResult.vulnerabilities.filter(v => v.severity === 'critical');
+  
+  for (const vuln of analysisResult.vulnerabilities) {
+    const enrichment = vuln.severity === 'critical' || vuln.severity === 'high' 
+      ? await enrichVulnerabilityWithLLM(vuln, lovableApiKey)
+      : null;
+
+    await storeFinding(supabase, scanId, {
+      scan_id: scanId,
+      cve_id: vuln.cve_id,
+      cwe_id: vuln.cwe_id,
+      severity: vuln.severity,
+      cvss_score: vuln.cvss_score,
+      title: vuln.title,
+      description: vuln.description,
+      affected_component: vuln.affected_component,
+      affected_function: vuln.affected_function,
+      code_snippet: vuln.code_snippet,
+      line_number: vuln.line_number,
+      byte_offset: vuln.byte_offset,
+      byte_length: vuln.byte_length,
+      detection_method: vuln.detection_method,
+      location_verified: vuln.location_verified ?? null,
+      member_path: vuln.member_path ?? null,
+      remediation: vuln.remediation,
+      attack_vector: vuln.attack_vector,
+      impact: vuln.impact,
+      llm_enrichment: enrichment,
+      status: 'new',
+    });
+  }
 
-    // Insert SBOM components with proper vulnerability linking
-    for (const component of analysisResult.sbomComponents) {
-      await supabase.from('sbom_components').insert({
-        scan_id: scanId,
+  const llmFindingLocation = (finding: SensitiveDataFinding) => {
+    const sourceLines = sourceLinesByMember.get(finding.member_path ?? null);
+    if (!sourceLines) return { line_number: sensitiveFindingLine(finding), location_verified: null };
+    const location = locateSnippet(sourceLines, finding.context, sensitiveFindingLine(finding));
+    return { line_number: location.line, location_verified: location.verified };
+  };
+
+  // Add PII findings as vulnerabilities
+  for (const pii of analysisResult.piiFindings) {
+    await storeFinding(supabase, scanId, {
+      scan_id: scanId,
+      cwe_id: 'CWE-359', // Exposure of Private Personal Information
+      severity: pii.severity || 'medium',
+      title: `PII Exposure: ${pii.type}`,
+      description: `Personal Identifiable Information (${pii.type}) detected in source code. Value: ${pii.value}`,
+      affected_component: pii.location?.split(':')[0] || pii.member_path || fileName,
+      ...llmFindingLocation(pii),
+      code_snippet: pii.context,
+      detection_method: 'llm',
+      member_path: pii.member_path ?? null,
+      remediation: pii.remediation || 'Remove or encrypt PII. Use secure storage mechanisms.',
+      attack_vector: 'Data extraction through reverse engineering or memory dump',
+      impact: 'Privacy violation, GDPR/regulatory compliance issues',
+      status: 'new',
+    });
+  }
+
+  // Add Secret findings as vulnerabilities
+  for (const secret of analysisResult.secretFindings) {
+    await storeFinding(supabase, scanId, {
+      scan_id: scanId,
+      cwe_id: 'CWE-798', // Use of Hardcoded Credentials
+      severity: secret.severity || 'critical',
+      title: `Hardcoded Secret: ${secret.type}`,
+      description: `Hardcoded ${secret.type} detected. Masked value: ${secret.value}`,
+      affected_component: secret.location?.split(':')[0] || secret.member_path || fileName,
+      ...llmFindingLocation(secret),
+      code_snippet: secret.context,
+      detection_method: 'llm',
+      member_path: secret.member_path ?? null,
+      remediation: secret.remediation || 'Use secure key management (HSM/TPM), environment variables, or encrypted configuration.',
+      attack_vector: 'Credential extraction via firmware analysis, enabling unauthorized access',
+      impact: 'Full system compromise, unauthorized access, lateral movement',
+      status: 'new',
+    });
+  }
+
+  if (criticalVulns.length > 0) {
+    await supabase.from('analysis_logs').insert({
+      scan_id: scanId,
+      stage: 'analyzing',
+      log_level: 'error',
+      message: `CRITICAL: Found ${criticalVulns.length} critical vulnerability(ies)`,
+    });
+  }
+
+  if (totalSecrets > 0) {
+    await supabase.from('analysis_logs').insert({
+      scan_id: scanId,
+      stage: 'analyzing',
+      log_level: 'error',
+      message: `SECRETS DETECTED: Found ${totalSecrets} hardcoded secrets/credentials`,
+    });
+  }
+
+  if (totalPii > 0) {
+    await supabase.from('analysis_logs').insert({
+      scan_id: scanId,
+      stage: 'analyzing',
+      log_level: 'warning',
+      message: `PII DETECTED: Found ${totalPii} instances of personal data`,
+    });
+  }
+
+  // Insert compliance results
+  for (const result of analysisResult.complianceResults) {
+    await supabase.from('compliance_results').insert({
+      scan_id: scanId,
+      framework: result.framework,
+      rule_id: result.rule_id,
+      rule_description: result.rule_description,
+      status: result.status,
+      details: result.details,
+      line_number: result.line_number,
+      member_path: result.member_path ?? null,
+    });
+  }
+
+  // Insert SBOM components with proper vulnerability linking
+  const storedComponents: MatchableComponent[] = [];
+  for (const component of analysisResult.sbomComponents) {
+    const { data: stored } = await supabase.from('sbom_components').insert({
+      scan_id: scanId,
+      component_name: component.component_name,
+      version: component.version,
+      license: component.license,
+      source_file: component.source_file,
+      vulnerabilities: component.vulnerabilities || [],
+      cpe: component.cpe ?? null,
+      purl: component.purl ?? null,
+      confidence: component.confidence ?? null,
+      evidence: component.evidence ?? [],
+      member_path: component.member_path ?? null,
+    }).select('id').single();
+    if (stored) {
+      storedComponents.push({
+        id: stored.id,
         component_name: component.component_name,
-        version: component.version,
-        license: component.license,
-        source_file: component.source_file,
-        vulnerabilities: component.vulnerabilities || [],
+        version: component.version ?? null,
+        cpe: component.cpe ?? null,
+        purl: component.purl ?? null,
       });
     }
+  }
 
-    // Stage 5: Complete
-    await supabase.from('scans').update({
-      status: 'complete',
-      progress: 100,
-      completed_at: new Date().toISOString(),
-      executive_summary: analysisResult.executiveSummary,
-      risk_score: analysisResult.riskScore,
-    }).eq('id', scanId);
-
+  // Replace model-reported CVE links with matches from the local vulnerability database
+  const matched = await matchVulnerabilities(supabase, storedComponents);
+  if (matched) {
+    if (matched.matches.length > 0) {
+      await supabase.from('vuln_matches').insert(matched.matches.map(m => ({ ...m, scan_id: scanId })));
+    }
+    for (const component of storedComponents) {
+      const cves = matched.matches.filter(m => m.component_id === component.id).map(m => m.cve_id ?? m.vuln_id);
+      await supabase.from('sbom_components').update({ vulnerabilities: [...new Set(cves)] }).eq('id', component.id);
+    }
     await supabase.from('analysis_logs').insert({
       scan_id: scanId,
-      stage: 'complete',
-      log_level: 'info',
-      message: `Analysis complete - Found ${analysisResult.vulnerabilities.length + analysisResult.piiFindings.length + analysisResult.secretFindings.length} total findings, Risk Score: ${analysisResult.riskScore}`,
+      stage: 'analyzing',
+      log_level: matched.matches.length > 0 ? 'warning' : 'info',
+      message: `Vulnerability database: ${matched.matches.length} known vulnerability(ies) matched across ${storedComponents.length} component(s)` +
+        (matched.unversioned > 0 ? `; ${matched.unversioned} component(s) without a version could not be matched` : ''),
     });
+  } else if (storedComponents.length > 0) {
+    await supabase.from('analysis_logs').insert({
+      scan_id: scanId,
+      stage: 'analyzing',
+      log_level: 'warning',
+      message: 'No vulnerability feed imported; component CVE links are model-reported and unverified',
+    });
+  }
 
-    console.log(`Analysis complete for scan ${scanId}`);
+  await throwIfCancelled(supabase, job.id);
 
-    return new Response(JSON.stringify({ 
-      success: true, 
+  // Stage 5: Complete
+  await supabase.from('scans').update({
+    status: 'complete',
+    progress: 100,
+    completed_at: new Date().toISOString(),
+    executive_summary: analysisResult.executiveSummary,
+    risk_score: analysisResult.riskScore,
+  }).eq('id', scanId);
+
+  await supabase.from('analysis_logs').insert({
+    scan_id: scanId,
+    stage: 'complete',
+    log_level: 'info',
+    message: `Analysis complete - Found ${analysisResult.vulnerabilities.length + analysisResult.piiFindings.length + analysisResult.secretFindings.length} total findings, Risk Score: ${analysisResult.riskScore}`,
+  });
+
+  return analysisResult;
+}
+
+async function failScan(supabase: SupabaseClient, scanId: string, message: string) {
+  await supabase.from('scans').update({ status: 'failed' }).eq('id', scanId);
+  await logAnalysis(supabase, scanId, 'failed', 'error', message);
+}
+
+// Runs one claimed job to a terminal state, or reschedules it when the
+// failure is transient and attempts remain.
+async function processJob(supabase: SupabaseClient, job: ScanJob, lovableApiKey: string) {
+  const scanId = job.scan_id;
+
+  if (job.attempts > job.max_attempts) {
+    await finishScanJob(supabase, job.id, 'failed', 'Worker stopped responding on every attempt');
+    await failScan(supabase, scanId, `Analysis failed: the worker stopped responding on all ${job.max_attempts} attempts`);
+    return { scanId, status: 'failed' };
+  }
+
+  try {
+    const result = await runScanPipeline(supabase, job, lovableApiKey);
+    await finishScanJob(supabase, job.id, 'complete');
+    console.log(`Analysis complete for scan ${scanId}`);
+    return {
       scanId,
-      vulnerabilityCount: analysisResult.vulnerabilities.length,
-      piiCount: analysisResult.piiFindings.length,
-      secretCount: analysisResult.secretFindings.length,
-      riskScore: analysisResult.riskScore,
-    }), {
+      status: 'complete',
+      vulnerabilityCount: result.vulnerabilities.length,
+      piiCount: result.piiFindings.length,
+      secretCount: result.secretFindings.length,
+      riskScore: result.riskScore,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Analysis error for scan ${scanId}:`, error);
+
+    if (error instanceof JobCancelledError) {
+      await finishScanJob(supabase, job.id, 'cancelled', message);
+      await failScan(supabase, scanId, 'Scan cancelled by user');
+      return { scanId, status: 'cancelled' };
+    }
+
+    if (error instanceof RetryableError && job.attempts < job.max_attempts) {
+      const delay = retryDelayMs(job.attempts);
+      await rescheduleScanJob(supabase, job.id, delay, message);
+      await supabase.from('scans').update({ status: 'queued', progress: 0 }).eq('id', scanId);
+      await logAnalysis(supabase, scanId, 'queued', 'warning',
+        `${message} Retrying in ${Math.round(delay / 1000)}s (attempt ${job.attempts} of ${job.max_attempts})`);
+      return { scanId, status: 'retrying' };
+    }
+
+    await finishScanJob(supabase, job.id, 'failed', message);
+    await failScan(supabase, scanId, `Analysis failed after ${job.attempts} attempt(s): ${message}`);
+    return { scanId, status: 'failed' };
+  }
+}
+
+// Leave headroom below the edge runtime's wall-clock limit before claiming
+// another job; anything left is picked up by the next tick.
+const WORKER_TIME_BUDGET_MS = 60_000;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY')!;
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Called with a scanId right after upload, or with an empty body by the
+    // scheduled tick to drain retries
+    const { scanId } = await req.json().catch(() => ({})) as { scanId?: string };
+    const workerId = crypto.randomUUID();
+    const startedAt = Date.now();
+    const processed = [];
+
+    let job = await claimScanJob(supabase, workerId, scanId);
+    while (job) {
+      processed.push(await processJob(supabase, job, lovableApiKey));
+      if (Date.now() - startedAt > WORKER_TIME_BUDGET_MS) break;
+      job = await claimScanJob(supabase, workerId);
+    }
+
+    return new Response(JSON.stringify({ success: true, processed }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
   } catch (error) {
-    console.error('Analysis error:', error);
+    console.error('Worker error:', error);
     return new Response(JSON.stringify({ 
       error: error instanceof Error ? error.message : 'Unknown error' 
     }), {
@@ -94,7 +94,7 @@ serve(async (req) => {
 function generateCycloneDX(scan: any, components: any[]): string {
   const cyclonedx = {
     bomFormat: "CycloneDX",
-    specVersion: "1.5",
+    specVersion: "1.6",
     serialNumber: `urn:uuid:${scan.id}`,
     version: 1,
     metadata: {
@@ -115,17 +115,19 @@ function generateCycloneDX(scan: any, components: any[]): string {
         ]
       }
     },
-    components: components.map((comp, index) => ({
+    components: [...components.map((comp, index) => ({
       type: "library",
       "bom-ref": `component-${index}`,
       name: comp.component_name,
       version: comp.version || "unknown",
-      licenses: comp.license ? [{ license: { id: comp.license } }] : [],
-      purl: `pkg:generic/${comp.component_name}@${comp.version || 'unknown'}`,
+      licenses: cycloneDXLicenses(comp.license),
+      purl: comp.purl || `pkg:generic/${comp.component_name}@${comp.version || 'unknown'}`,
+      ...(comp.cpe ? { cpe: comp.cpe } : {}),
+      ...componentEvidence(comp),
       properties: [
         { name: "source_file", value: comp.source_file || "unknown" }
       ]
-    })),
+    })), ...cryptoAssets(scan.metadata?.crypto ?? [])],
     vulnerabilities: components.flatMap((comp, compIndex) => {
       const vulns = comp.vulnerabilities as string[] || [];
       return vulns.map((cve, vulnIndex) => ({
@@ -139,7 +141,164 @@ function generateCycloneDX(scan: any, components: any[]): string {
   return JSON.stringify(cyclonedx, null, 2);
 }
 
+// SPDX ids the analyzer assigns plus common open source ones; anything else
+// (e.g. "Proprietary" or a model-reported name) is exported as a name/LicenseRef
+const SPDX_LICENSE_IDS = new Set([
+  "0BSD", "Apache-1.1", "Apache-2.0", "blessing", "BSD-2-Clause", "BSD-3-Clause", "BSL-1.0", "CC0-1.0", "curl",
+  "EPL-2.0", "GPL-2.0-only", "GPL-2.0-or-later", "GPL-3.0-only", "GPL-3.0-or-later", "ISC", "LGPL-2.1-only",
+  "LGPL-2.1-or-later", "LGPL-3.0-only", "LGPL-3.0-or-later", "MIT", "MPL-2.0", "OpenSSL", "Unlicense", "Zlib",
+]);
+
+function isSpdxExpression(license: string): boolean {
+  return license.replace(/[()]/g, '').split(/\s+(?:AND|OR)\s+/).every(id => SPDX_LICENSE_IDS.has(id.trim()));
+}
+
+function licenseRef(license: string): string {
+  return `LicenseRef-${license.replace(/[^A-Za-z0-9.-]+/g, '-')}`;
+}
+
+// CycloneDX takes an SPDX id, an SPDX expression or a free-text name
+function cycloneDXLicenses(license: string | null) {
+  if (!license) return [];
+  if (SPDX_LICENSE_IDS.has(license)) return [{ license: { id: license } }];
+  if (isSpdxExpression(license)) return [{ expression: license }];
+  return [{ license: { name: license } }];
+}
+
+interface ComponentEvidence {
+  kind: string;
+  detail: string;
+  offset: number | null;
+  line: number | null;
+}
+
+// sbom_components.confidence as a CycloneDX identity confidence (0-1)
+const CONFIDENCE: Record<string, number> = { high: 0.9, medium: 0.6, low: 0.3 };
+
+const TECHNIQUES: Record<string, string> = {
+  banner: "binary-analysis",
+  symbol: "binary-analysis",
+  string: "binary-analysis",
+  include: "source-code-analysis",
+  "version-macro": "source-code-analysis",
+  llm: "other",
+};
+
+// CycloneDX 1.6 identity evidence: how the component was identified, and where
+function componentEvidence(comp: { confidence: string | null; evidence: ComponentEvidence[] | null }) {
+  const evidence = comp.evidence ?? [];
+  if (!comp.confidence || evidence.length === 0) return {};
+  const confidence = CONFIDENCE[comp.confidence] ?? 0;
+  return {
+    evidence: {
+      identity: [{
+        field: "purl",
+        confidence,
+        methods: evidence.map(item => ({
+          technique: TECHNIQUES[item.kind] ?? "other",
+          confidence,
+          value: item.line !== null ? `${item.detail} (line ${item.line})`
+            : item.offset !== null ? `${item.detail} (offset 0x${item.offset.toString(16)})`
+            : item.detail,
+        })),
+      }],
+    },
+  };
+}
+
+interface CryptoInventory {
+  file: string;
+  algorithms: {
+    name: string;
+    primitive: string;
+    mode: string | null;
+    keyBits: number | null;
+    weak: boolean;
+    evidence: { kind: string; detail: string; line: number | null; offset: number | null }[];
+  }[];
+}
+
+interface CryptoAsset {
+  type: "cryptographic-asset";
+  'bom-ref': string;
+  name: string;
+  cryptoProperties: {
+    assetType: "algorithm";
+    algorithmProperties: { primitive: string; mode?: string; parameterSetIdentifier?: string; executionEnvironment: string };
+  };
+  evidence: { occurrences: { location: string; line?: number; offset?: number; additionalContext: string }[] };
+  properties: { name: string; value: string }[];
+}
+
+// CycloneDX 1.6 CBOM: one cryptographic-asset component per algorithm found by
+// the analyzer (scans.metadata.crypto), with every file it was seen in as evidence
+function cryptoAssets(inventories: CryptoInventory[]) {
+  const assets = new Map<string, CryptoAsset>();
+  for (const inventory of inventories) {
+    for (const algorithm of inventory.algorithms) {
+      const name = [algorithm.name, algorithm.keyBits, algorithm.mode?.toUpperCase()].filter(Boolean).join('-');
+      let asset = assets.get(name);
+      if (!asset) {
+        asset = {
+          type: "cryptographic-asset",
+          "bom-ref": `crypto-${assets.size}`,
+          name,
+          cryptoProperties: {
+            assetType: "algorithm",
+            algorithmProperties: {
+              primitive: algorithm.primitive,
+              ...(algorithm.mode ? { mode: algorithm.mode } : {}),
+              ...(algorithm.keyBits ? { parameterSetIdentifier: String(algorithm.keyBits) } : {}),
+              executionEnvironment: "software-plain-ram",
+            },
+          },
+          evidence: { occurrences: [] },
+          properties: [{ name: "weak", value: String(algorithm.weak) }],
+        };
+        assets.set(name, asset);
+      }
+      for (const evidence of algorithm.evidence) {
+        asset.evidence.occurrences.push({
+          location: inventory.file,
+          ...(evidence.line !== null ? { line: evidence.line } : {}),
+          ...(evidence.offset !== null ? { offset: evidence.offset } : {}),
+          additionalContext: `${evidence.kind}: ${evidence.detail}`,
+        });
+      }
+    }
+  }
+  return [...assets.values()];
+}
+
 function generateSPDX(scan: any, components: any[]): string {
+  const extracted = new Map<string, string>();
+  const spdxLicense = (license: string | null) => {
+    if (!license) return "NOASSERTION";
+    if (isSpdxExpression(license)) return license;
+    const ref = licenseRef(license);
+    extracted.set(ref, license);
+    return ref;
+  };
+  const packages = components.map((comp, index) => ({
+    SPDXID: `SPDXRef-Package-${index}`,
+    name: comp.component_name,
+    versionInfo: comp.version || "NOASSERTION",
+    downloadLocation: "NOASSERTION",
+    filesAnalyzed: false,
+    licenseConcluded: spdxLicense(comp.license),
+    licenseDeclared: spdxLicense(comp.license),
+    copyrightText: "NOASSERTION",
+    externalRefs: [
+      ...(comp.cpe ? [{ referenceCategory: "SECURITY", referenceType: "cpe23Type", referenceLocator: comp.cpe }] : []),
+      ...(comp.purl ? [{ referenceCategory: "PACKAGE-MANAGER", referenceType: "purl", referenceLocator: comp.purl }] : []),
+      ...(comp.vulnerabilities as string[] || []).map(cve => ({
+        referenceCategory: "SECURITY",
+        referenceType: "advisory",
+        referenceLocator: `https://nvd.nist.gov/vuln/detail/${cve}`
+      }))
+    ]
+  }));
+
   const spdx = {
     spdxVersion: "SPDX-2.3",
     dataLicense: "CC0-1.0",
@@ -162,22 +321,11 @@ function generateSPDX(scan: any, components: any[]): string {
         supplier: scan.manufacturer ? `Organization: ${scan.manufacturer}` : "NOASSERTION",
         primaryPackagePurpose: "FIRMWARE"
       },
-      ...components.map((comp, index) => ({
-        SPDXID: `SPDXRef-Package-${index}`,
-        name: comp.component_name,
-        versionInfo: comp.version || "NOASSERTION",
-        downloadLocation: "NOASSERTION",
-        filesAnalyzed: false,
-        licenseConcluded: comp.license || "NOASSERTION",
-        licenseDeclared: comp.license || "NOASSERTION",
-        copyrightText: "NOASSERTION",
-        externalRefs: (comp.vulnerabilities as string[] || []).map(cve => ({
-          referenceCategory: "SECURITY",
-          referenceType: "cpe23Type",
-          referenceLocator: cve
-        }))
-      }))
+      ...packages
     ],
+    ...(extracted.size > 0 ? {
+      hasExtractedLicensingInfos: [...extracted].map(([licenseId, name]) => ({ licenseId, name, extractedText: name }))
+    } : {}),
     relationships: components.map((_, index) => ({
       spdxElementId: "SPDXRef-RootPackage",
       relationshipType: "CONTAINS",
@@ -25,6 +25,35 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
+    // The imported vulnerability database answers without network access
+    const { data: mirrored } = /^[\w.-]+$/.test(cveId)
+      ? await supabase
+        .from('vuln_records')
+        .select('*')
+        .or(`id.eq.${cveId},aliases.cs.{${cveId}}`)
+        .order('source')
+        .limit(1)
+        .maybeSingle()
+      : { data: null };
+
+    if (mirrored) {
+      console.log(`Returning imported ${mirrored.source.toUpperCase()} record for ${cveId}`);
+      return new Response(JSON.stringify({
+        cve_id: cveId,
+        description: mirrored.summary || '',
+        cvss_score: mirrored.cvss_score,
+        severity: mirrored.severity,
+        published_date: mirrored.published,
+        modified_date: mirrored.modified,
+        reference_links: [],
+        cwe_ids: mirrored.cwe_ids,
+        affected_products: mirrored.configurations || [],
+        fetched_at: mirrored.imported_at,
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // Check cache first
     const { data: cached } = await supabase
       .from('cve_cache')
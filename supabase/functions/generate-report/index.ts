@@ -87,6 +87,9 @@ serve(async (req) => {
         architecture: scan.architecture,
         file_name: scan.file_name,
         file_hash: scan.file_hash,
+        file_sha1: scan.file_sha1,
+        file_md5: scan.file_md5,
+        evidence_path: scan.storage_path,
         file_size: scan.file_size,
         status: scan.status,
         created_at: scan.created_at,
@@ -167,6 +170,7 @@ Generated: ${new Date().toLocaleString()}
 - **Manufacturer:** ${scan.manufacturer || 'N/A'}
 - **Architecture:** ${scan.architecture}
 - **File:** ${scan.file_name}
+- **SHA-256:** ${scan.file_hash || 'N/A'}
 - **Risk Score:** ${scan.risk_score || 'N/A'}/100
 
 ## Executive Summary
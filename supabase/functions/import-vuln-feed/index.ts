@@ -0,0 +1,154 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ArchiveError, detectArchiveFormat, inflate, MAX_UNPACKED_BYTES, unpackArchive } from "../_shared/archive.ts";
+import { downloadArtifact, VULN_FEED_BUCKET } from "../_shared/storage.ts";
+import { FeedError, parseFeedDocument, type VulnRecord } from "../_shared/vuln-feeds.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface ImportRequest {
+  /** Object in the vuln-feeds bucket: <user_id>/<file name> */
+  path: string;
+}
+
+// OSV ecosystem dumps hold one file per advisory
+const MAX_FEED_ENTRIES = 65535;
+const RECORD_BATCH = 200;
+const AFFECTED_BATCH = 1000;
+
+/** JSON documents in an NVD feed file (.json, .json.gz, .json.zip) or an OSV dump (.zip of records). */
+async function readFeedDocuments(bytes: Uint8Array, fileName: string): Promise<unknown[]> {
+  const decoder = new TextDecoder();
+  const parse = (data: Uint8Array, name: string) => {
+    try {
+      return JSON.parse(decoder.decode(data));
+    } catch (e) {
+      throw new FeedError(`${name}: ${(e as Error).message}`);
+    }
+  };
+
+  const format = detectArchiveFormat(bytes, fileName);
+  if (format) {
+    const archive = await unpackArchive(bytes, format, MAX_FEED_ENTRIES);
+    return archive.members.filter(m => m.path.toLowerCase().endsWith('.json')).map(m => parse(m.data, m.path));
+  }
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    return readFeedDocuments(await inflate(bytes, 'gzip', MAX_UNPACKED_BYTES), fileName.replace(/\.gz$/i, ''));
+  }
+  return [parse(bytes, fileName)];
+}
+
+/**
+ * Upserts records and replaces their affected entries. An OSV record never
+ * replaces an NVD record with the same id: NVD carries the CPE configurations.
+ */
+async function storeRecords(supabase: SupabaseClient, records: VulnRecord[]): Promise<{ stored: number; affected: number }> {
+  let stored = 0;
+  let affected = 0;
+  for (let i = 0; i < records.length; i += RECORD_BATCH) {
+    let batch = records.slice(i, i + RECORD_BATCH);
+    const osvIds = batch.filter(r => r.source === 'osv').map(r => r.id);
+    if (osvIds.length > 0) {
+      const { data: existing } = await supabase.from('vuln_records').select('id').eq('source', 'nvd').in('id', osvIds);
+      const nvdIds = new Set((existing ?? []).map((r: { id: string }) => r.id));
+      batch = batch.filter(r => r.source === 'nvd' || !nvdIds.has(r.id));
+    }
+    if (batch.length === 0) continue;
+
+    const { error } = await supabase.from('vuln_records').upsert(batch.map(({ affected: _affected, ...record }) => ({
+      ...record,
+      imported_at: new Date().toISOString(),
+    })));
+    if (error) throw new Error(`Storing advisories failed: ${error.message}`);
+    // A failed delete would leave the old rows next to the re-inserted ones
+    const { error: deleteError } = await supabase.from('vuln_affected').delete().in('vuln_id', batch.map(r => r.id));
+    if (deleteError) throw new Error(`Replacing affected products failed: ${deleteError.message}`);
+
+    const rows = batch.flatMap(record => record.affected.map(entry => ({ ...entry, vuln_id: record.id })));
+    for (let j = 0; j < rows.length; j += AFFECTED_BATCH) {
+      const { error: affectedError } = await supabase.from('vuln_affected').insert(rows.slice(j, j + AFFECTED_BATCH));
+      if (affectedError) throw new Error(`Storing affected products failed: ${affectedError.message}`);
+    }
+    stored += batch.length;
+    affected += rows.length;
+  }
+  return { stored, affected };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { path } = await req.json() as ImportRequest;
+    if (!path) {
+      return new Response(JSON.stringify({ error: 'Feed path required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // The service role can read every staged feed, so only the caller's own folder is accepted
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'Sign in to import vulnerability feeds' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    // Advisories are shared by every user's matches, so only feed administrators may replace them
+    const { data: admin } = await supabase.from('vuln_feed_admins').select('user_id').eq('user_id', user.id).maybeSingle();
+    if (!admin) {
+      return new Response(JSON.stringify({ error: 'Only feed administrators can import vulnerability feeds' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    const [owner, ...rest] = path.split('/');
+    if (owner !== user.id || rest.length !== 1 || !rest[0]) {
+      return new Response(JSON.stringify({ error: 'Feed path must be in your own upload folder' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const fileName = rest[0];
+    const bytes = await downloadArtifact(supabase, path, VULN_FEED_BUCKET);
+    const records = (await readFeedDocuments(bytes, fileName)).flatMap(document => parseFeedDocument(document));
+    const sources = new Set(records.map(r => r.source));
+    console.log(`Importing ${records.length} advisories from ${fileName}`);
+
+    const { stored, affected } = await storeRecords(supabase, records);
+    await supabase.from('vuln_feed_imports').insert({
+      user_id: user.id,
+      file_name: fileName,
+      source: sources.size === 1 ? [...sources][0] : sources.size === 0 ? 'empty' : 'mixed',
+      record_count: stored,
+      affected_count: affected,
+    });
+    // The feed is in the database now; the dump itself is not kept
+    await supabase.storage.from(VULN_FEED_BUCKET).remove([path]);
+
+    return new Response(JSON.stringify({ success: true, records: stored, affected, skipped: records.length - stored }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Feed import error:', error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: error instanceof FeedError || error instanceof ArchiveError ? 400 : 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
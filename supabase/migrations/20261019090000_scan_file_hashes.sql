@@ -0,0 +1,7 @@
+-- Secondary digests for supplier cross-checks; file_hash holds the SHA-256
+ALTER TABLE public.scans
+    ADD COLUMN file_sha1 VARCHAR(40),
+    ADD COLUMN file_md5 VARCHAR(32);
+
+-- Duplicate-upload lookup: same user, same SHA-256
+CREATE INDEX idx_scans_user_file_hash ON public.scans(user_id, file_hash);
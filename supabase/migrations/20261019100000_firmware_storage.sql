@@ -0,0 +1,16 @@
+-- Private bucket holding the original uploaded artifacts. They are the
+-- retained evidence copy for ISO/SAE 21434 work products and the source the
+-- analyze-binary function reads from.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('firmware', 'firmware', false, 104857600)
+ON CONFLICT (id) DO NOTHING;
+
+-- Objects are stored under <user_id>/<sha256>/<file name>
+CREATE POLICY "Users can upload their own firmware" ON storage.objects
+    FOR INSERT WITH CHECK (bucket_id = 'firmware' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users can update their own firmware" ON storage.objects
+    FOR UPDATE USING (bucket_id = 'firmware' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users can view their own firmware" ON storage.objects
+    FOR SELECT USING (bucket_id = 'firmware' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+ALTER TABLE public.scans ADD COLUMN storage_path TEXT;
@@ -0,0 +1,123 @@
+-- Durable queue for scan analysis. The analyze-binary function is a worker:
+-- it claims ready jobs, runs the pipeline and records the outcome, so a
+-- crashed or rate-limited run is retried instead of leaving the scan stuck.
+CREATE TYPE public.scan_job_status AS ENUM ('pending', 'running', 'complete', 'failed', 'cancelled');
+
+CREATE TABLE public.scan_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    scan_id UUID REFERENCES public.scans(id) ON DELETE CASCADE NOT NULL,
+    status scan_job_status NOT NULL DEFAULT 'pending',
+    payload JSONB NOT NULL DEFAULT '{}',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    locked_at TIMESTAMP WITH TIME ZONE,
+    locked_by TEXT,
+    cancel_requested BOOLEAN NOT NULL DEFAULT false,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.scan_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view jobs for their scans" ON public.scan_jobs FOR SELECT
+    USING (EXISTS (SELECT 1 FROM public.scans WHERE scans.id = scan_jobs.scan_id AND scans.user_id = auth.uid()));
+CREATE POLICY "Users can enqueue jobs for their scans" ON public.scan_jobs FOR INSERT
+    WITH CHECK (EXISTS (SELECT 1 FROM public.scans WHERE scans.id = scan_jobs.scan_id AND scans.user_id = auth.uid()));
+
+CREATE INDEX idx_scan_jobs_ready ON public.scan_jobs(run_after) WHERE status IN ('pending', 'running');
+CREATE INDEX idx_scan_jobs_scan_id ON public.scan_jobs(scan_id);
+
+CREATE TRIGGER update_scan_jobs_updated_at BEFORE UPDATE ON public.scan_jobs
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Claims the next ready job (optionally for one scan). A running job whose
+-- lock is older than the stale timeout belonged to a worker that died and is
+-- claimed again.
+CREATE OR REPLACE FUNCTION public.claim_scan_job(p_worker TEXT, p_scan_id UUID DEFAULT NULL, p_stale_after INTERVAL DEFAULT '15 minutes')
+RETURNS SETOF public.scan_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.scan_jobs j
+    SET status = 'running',
+        attempts = j.attempts + 1,
+        locked_at = now(),
+        locked_by = p_worker
+    WHERE j.id = (
+        SELECT id FROM public.scan_jobs
+        WHERE (p_scan_id IS NULL OR scan_id = p_scan_id)
+          AND ((status = 'pending' AND run_after <= now())
+               OR (status = 'running' AND locked_at < now() - p_stale_after))
+        ORDER BY run_after
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_scan_job(TEXT, UUID, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- User-initiated cancel. A job that has not started is finished here; a
+-- running job is flagged and the worker stops at its next stage boundary.
+CREATE OR REPLACE FUNCTION public.cancel_scan_job(p_scan_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.scans WHERE id = p_scan_id AND user_id = auth.uid()) THEN
+        RAISE EXCEPTION 'Scan not found';
+    END IF;
+
+    UPDATE public.scan_jobs SET cancel_requested = true
+    WHERE scan_id = p_scan_id AND status = 'running';
+
+    IF FOUND THEN
+        RETURN;
+    END IF;
+
+    UPDATE public.scan_jobs SET status = 'cancelled', last_error = 'Cancelled by user'
+    WHERE scan_id = p_scan_id AND status = 'pending';
+
+    IF FOUND THEN
+        UPDATE public.scans SET status = 'failed' WHERE id = p_scan_id;
+        INSERT INTO public.analysis_logs (scan_id, stage, log_level, message)
+        VALUES (p_scan_id, 'failed', 'error', 'Scan cancelled by user before analysis started');
+    END IF;
+END;
+$$;
+
+-- Retries are scheduled with run_after in the future; a periodic tick wakes a
+-- worker to pick them up. Requires the project_url and service_role_key
+-- secrets in Vault.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+    'scan-jobs-worker',
+    '* * * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/analyze-binary',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    )
+    WHERE EXISTS (
+        SELECT 1 FROM public.scan_jobs
+        WHERE (status = 'pending' AND run_after <= now())
+           OR (status = 'running' AND locked_at < now() - INTERVAL '15 minutes')
+    );
+    $$
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.scan_jobs;
@@ -0,0 +1,28 @@
+-- User-supplied YARA-style rule files, matched alongside the built-in packs
+CREATE TABLE public.signature_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    source TEXT NOT NULL,
+    rule_count INTEGER NOT NULL DEFAULT 0,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.signature_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own signature rules" ON public.signature_rules FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own signature rules" ON public.signature_rules FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own signature rules" ON public.signature_rules FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own signature rules" ON public.signature_rules FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_signature_rules_user_id ON public.signature_rules(user_id);
+
+CREATE TRIGGER update_signature_rules_updated_at BEFORE UPDATE ON public.signature_rules
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Location of binary findings within the analyzed image
+ALTER TABLE public.vulnerabilities
+    ADD COLUMN byte_offset BIGINT,
+    ADD COLUMN byte_length INTEGER;
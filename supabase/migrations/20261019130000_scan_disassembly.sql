@@ -0,0 +1,38 @@
+-- Functions recovered by the disassembly stage
+CREATE TABLE public.scan_functions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    scan_id UUID REFERENCES public.scans(id) ON DELETE CASCADE NOT NULL,
+    address BIGINT NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    size INTEGER NOT NULL DEFAULT 0,
+    instruction_count INTEGER NOT NULL DEFAULT 0,
+    source VARCHAR(20) NOT NULL,
+    calls BIGINT[] NOT NULL DEFAULT '{}',
+    called_by BIGINT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE (scan_id, address)
+);
+
+-- Cross-references between code and data addresses
+CREATE TABLE public.scan_xrefs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    scan_id UUID REFERENCES public.scans(id) ON DELETE CASCADE NOT NULL,
+    from_address BIGINT NOT NULL,
+    to_address BIGINT NOT NULL,
+    kind VARCHAR(10) NOT NULL CHECK (kind IN ('call', 'jump', 'data', 'pointer')),
+    from_function BIGINT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.scan_functions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scan_xrefs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view functions of their scans" ON public.scan_functions FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.scans WHERE scans.id = scan_functions.scan_id AND scans.user_id = auth.uid())
+);
+CREATE POLICY "Users can view xrefs of their scans" ON public.scan_xrefs FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.scans WHERE scans.id = scan_xrefs.scan_id AND scans.user_id = auth.uid())
+);
+
+CREATE INDEX idx_scan_xrefs_scan_to ON public.scan_xrefs(scan_id, to_address);
+CREATE INDEX idx_scan_xrefs_scan_from_function ON public.scan_xrefs(scan_id, from_function);
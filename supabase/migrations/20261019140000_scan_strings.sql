@@ -0,0 +1,22 @@
+-- Printable strings extracted from binary scans for the Strings tab
+CREATE TABLE public.scan_strings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    scan_id UUID REFERENCES public.scans(id) ON DELETE CASCADE NOT NULL,
+    byte_offset BIGINT NOT NULL,
+    byte_length INTEGER NOT NULL,
+    address BIGINT,
+    encoding VARCHAR(10) NOT NULL CHECK (encoding IN ('ascii', 'utf16le', 'utf16be')),
+    value TEXT NOT NULL,
+    section VARCHAR(255),
+    category VARCHAR(20) NOT NULL CHECK (category IN ('url', 'crypto', 'path', 'format', 'version', 'other')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.scan_strings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view strings of their scans" ON public.scan_strings FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.scans WHERE scans.id = scan_strings.scan_id AND scans.user_id = auth.uid())
+);
+
+CREATE INDEX idx_scan_strings_scan_offset ON public.scan_strings(scan_id, byte_offset);
+CREATE INDEX idx_scan_strings_scan_category ON public.scan_strings(scan_id, category);
@@ -0,0 +1,8 @@
+-- Whether a source finding's code snippet was found in the uploaded file
+-- (NULL when there was nothing to check, e.g. binary findings)
+ALTER TABLE public.vulnerabilities
+    ADD COLUMN location_verified BOOLEAN;
+
+-- Line of a compliance violation in the uploaded source file
+ALTER TABLE public.compliance_results
+    ADD COLUMN line_number INTEGER;
@@ -0,0 +1,16 @@
+-- Path of the archive member a row belongs to when the upload was a zip or
+-- tar delivery (NULL for single-file scans)
+ALTER TABLE public.vulnerabilities ADD COLUMN member_path TEXT;
+ALTER TABLE public.compliance_results ADD COLUMN member_path TEXT;
+ALTER TABLE public.sbom_components ADD COLUMN member_path TEXT;
+ALTER TABLE public.scan_functions ADD COLUMN member_path TEXT;
+ALTER TABLE public.scan_xrefs ADD COLUMN member_path TEXT;
+ALTER TABLE public.scan_strings ADD COLUMN member_path TEXT;
+
+-- Two binaries in one archive may both have a function at the same address
+ALTER TABLE public.scan_functions DROP CONSTRAINT scan_functions_scan_id_address_key;
+ALTER TABLE public.scan_functions
+    ADD CONSTRAINT scan_functions_scan_id_member_path_address_key UNIQUE NULLS NOT DISTINCT (scan_id, member_path, address);
+
+CREATE INDEX idx_vulnerabilities_scan_member ON public.vulnerabilities(scan_id, member_path);
+CREATE INDEX idx_scan_strings_scan_member ON public.scan_strings(scan_id, member_path);
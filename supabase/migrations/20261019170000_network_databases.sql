@@ -0,0 +1,30 @@
+-- CAN databases (DBC) of a vehicle platform, one row per bus. Messages are
+-- parsed on upload; the analysis worker maps the scanned ECU onto these nodes
+-- to work out which entry points can reach it.
+CREATE TABLE public.network_databases (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    platform VARCHAR(255) NOT NULL,
+    bus_name VARCHAR(255) NOT NULL,
+    file_name VARCHAR(255) NOT NULL,
+    nodes TEXT[] NOT NULL DEFAULT '{}',
+    messages JSONB NOT NULL DEFAULT '[]',
+    -- Bus wired to the OBD connector
+    obd_accessible BOOLEAN NOT NULL DEFAULT false,
+    -- Node name -> 'telematics' | 'infotainment'
+    entry_points JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.network_databases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own network databases" ON public.network_databases FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own network databases" ON public.network_databases FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own network databases" ON public.network_databases FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own network databases" ON public.network_databases FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_network_databases_user_id ON public.network_databases(user_id);
+
+CREATE TRIGGER update_network_databases_updated_at BEFORE UPDATE ON public.network_databases
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
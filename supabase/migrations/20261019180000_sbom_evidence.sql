@@ -0,0 +1,8 @@
+-- Evidence-based SBOM: how each component was identified (version banner,
+-- symbols, #include) and how confident the identification is. Components
+-- reported by the model alone are 'low'.
+ALTER TABLE public.sbom_components ADD COLUMN cpe TEXT;
+ALTER TABLE public.sbom_components ADD COLUMN purl TEXT;
+ALTER TABLE public.sbom_components ADD COLUMN confidence TEXT CHECK (confidence IN ('high', 'medium', 'low'));
+ALTER TABLE public.sbom_components ADD COLUMN evidence JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE public.sbom_components ALTER COLUMN source_file TYPE TEXT;
@@ -0,0 +1,92 @@
+-- Local mirror of the NVD (CVE JSON 2.0 feeds) and OSV advisories so SBOM
+-- components can be matched against known vulnerabilities without internet
+-- access. Feed dumps are uploaded to the `vuln-feeds` bucket and imported by
+-- the import-vuln-feed function; the database is shared by all users.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('vuln-feeds', 'vuln-feeds', false, 524288000)
+ON CONFLICT (id) DO NOTHING;
+
+-- Objects are stored under <user_id>/<file name>
+CREATE POLICY "Users can upload vulnerability feeds" ON storage.objects
+    FOR INSERT WITH CHECK (bucket_id = 'vuln-feeds' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users can update their vulnerability feeds" ON storage.objects
+    FOR UPDATE USING (bucket_id = 'vuln-feeds' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users can view their vulnerability feeds" ON storage.objects
+    FOR SELECT USING (bucket_id = 'vuln-feeds' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- One row per advisory: CVE ids for NVD, OSV/GHSA ids (with CVE aliases) for OSV
+CREATE TABLE public.vuln_records (
+    id TEXT PRIMARY KEY,
+    source TEXT NOT NULL CHECK (source IN ('nvd', 'osv')),
+    aliases TEXT[] NOT NULL DEFAULT '{}',
+    summary TEXT,
+    severity VARCHAR(20),
+    cvss_score DECIMAL(3,1),
+    cvss_vector TEXT,
+    cwe_ids TEXT[] NOT NULL DEFAULT '{}',
+    published TIMESTAMP WITH TIME ZONE,
+    modified TIMESTAMP WITH TIME ZONE,
+    -- NVD applicability statements, evaluated by the matcher
+    configurations JSONB,
+    imported_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Vulnerable products: one row per vulnerable CPE match (NVD) or affected
+-- package range (OSV). Versions are either bounds or an explicit list.
+CREATE TABLE public.vuln_affected (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    vuln_id TEXT REFERENCES public.vuln_records(id) ON DELETE CASCADE NOT NULL,
+    cpe_vendor TEXT,
+    cpe_product TEXT,
+    criteria TEXT,
+    ecosystem TEXT,
+    package_name TEXT,
+    purl TEXT,
+    versions TEXT[] NOT NULL DEFAULT '{}',
+    version_start_including TEXT,
+    version_start_excluding TEXT,
+    version_end_including TEXT,
+    version_end_excluding TEXT
+);
+
+CREATE TABLE public.vuln_feed_imports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    file_name VARCHAR(255) NOT NULL,
+    source TEXT NOT NULL,
+    record_count INTEGER NOT NULL DEFAULT 0,
+    affected_count INTEGER NOT NULL DEFAULT 0,
+    imported_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Component-to-advisory links written by the matcher, with what they were
+-- matched by (cpe, purl or package-name) and the criteria and range that hit
+CREATE TABLE public.vuln_matches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    scan_id UUID REFERENCES public.scans(id) ON DELETE CASCADE NOT NULL,
+    component_id UUID REFERENCES public.sbom_components(id) ON DELETE CASCADE NOT NULL,
+    vuln_id TEXT REFERENCES public.vuln_records(id) ON DELETE CASCADE NOT NULL,
+    cve_id TEXT,
+    matched_by TEXT NOT NULL CHECK (matched_by IN ('cpe', 'purl', 'package-name')),
+    evidence JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE (component_id, vuln_id)
+);
+
+ALTER TABLE public.vuln_records ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vuln_affected ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vuln_feed_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vuln_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read vulnerability records" ON public.vuln_records FOR SELECT USING (true);
+CREATE POLICY "Anyone can read affected products" ON public.vuln_affected FOR SELECT USING (true);
+CREATE POLICY "Anyone can read feed imports" ON public.vuln_feed_imports FOR SELECT USING (true);
+CREATE POLICY "Users can view vulnerability matches of their scans" ON public.vuln_matches FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.scans WHERE scans.id = vuln_matches.scan_id AND scans.user_id = auth.uid())
+);
+
+CREATE INDEX idx_vuln_affected_cpe ON public.vuln_affected(cpe_vendor, cpe_product);
+CREATE INDEX idx_vuln_affected_purl ON public.vuln_affected(purl);
+CREATE INDEX idx_vuln_affected_package ON public.vuln_affected(ecosystem, lower(package_name));
+CREATE INDEX idx_vuln_affected_vuln_id ON public.vuln_affected(vuln_id);
+CREATE INDEX idx_vuln_matches_scan_id ON public.vuln_matches(scan_id);
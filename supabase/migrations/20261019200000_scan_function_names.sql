@@ -0,0 +1,5 @@
+-- Function names come straight from ELF symbols; mangled C++ and generated
+-- AUTOSAR names regularly exceed 255 characters. Findings attributed to a
+-- recovered function carry the same name.
+ALTER TABLE public.scan_functions ALTER COLUMN name TYPE TEXT;
+ALTER TABLE public.vulnerabilities ALTER COLUMN affected_function TYPE TEXT;
@@ -0,0 +1,3 @@
+-- Archive findings name the member path as their component
+-- (fw.zip/app/src/.../file.c), which exceeds 255 characters in deep trees.
+ALTER TABLE public.vulnerabilities ALTER COLUMN affected_component TYPE TEXT;
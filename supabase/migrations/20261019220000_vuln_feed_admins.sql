@@ -0,0 +1,26 @@
+-- The vulnerability database is shared by all users, so an import replaces
+-- advisories every user's matches depend on. Only feed administrators may
+-- stage and import feeds; they are granted by inserting a row here.
+CREATE TABLE public.vuln_feed_admins (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.vuln_feed_admins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see whether they are feed administrators" ON public.vuln_feed_admins
+    FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY "Users can upload vulnerability feeds" ON storage.objects;
+DROP POLICY "Users can update their vulnerability feeds" ON storage.objects;
+
+CREATE POLICY "Feed administrators can upload vulnerability feeds" ON storage.objects
+    FOR INSERT WITH CHECK (
+        bucket_id = 'vuln-feeds' AND (storage.foldername(name))[1] = auth.uid()::text
+        AND EXISTS (SELECT 1 FROM public.vuln_feed_admins WHERE vuln_feed_admins.user_id = auth.uid())
+    );
+CREATE POLICY "Feed administrators can update their vulnerability feeds" ON storage.objects
+    FOR UPDATE USING (
+        bucket_id = 'vuln-feeds' AND (storage.foldername(name))[1] = auth.uid()::text
+        AND EXISTS (SELECT 1 FROM public.vuln_feed_admins WHERE vuln_feed_admins.user_id = auth.uid())
+    );